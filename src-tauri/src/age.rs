@@ -0,0 +1,206 @@
+use crate::cache;
+use serde::{Deserialize, Serialize};
+use std::cmp::Reverse;
+use std::collections::{BTreeMap, HashMap};
+use std::fs;
+use std::path::Path;
+use std::sync::Mutex;
+
+/// 年龄统计的月份长度（按 30 天计）
+/// Length of a month in age statistics (30 days)
+const MONTH_MS: u64 = 30 * 24 * 60 * 60 * 1000;
+
+/// 年龄分档的上限（月，不含）：30 天内、1 年内、3 年内，其余为更早
+/// Upper bounds of the age buckets (months, exclusive): within 30 days, a year and three years; the rest is older
+const BUCKET_MONTHS: [u32; 3] = [1, 12, 36];
+
+/// “旧而大”列表默认保留的目录数
+/// Default number of folders in the "old and big" list
+pub const DEFAULT_STALE_LIMIT: usize = 100;
+
+/// 判断年龄使用的时间：修改时间或访问时间
+/// Which time decides a file's age: modification or last access
+#[derive(Serialize, Deserialize, Clone, Copy, Debug, Default, PartialEq, Eq)]
+#[serde(rename_all = "lowercase")]
+pub enum AgeTime {
+    #[default]
+    Modified,
+    /// 许多系统以 relatime/noatime 挂载，访问时间可能不准确
+    /// Many systems mount with relatime/noatime, so access times may be coarse
+    Accessed,
+}
+
+/// 年龄（月）-> 字节数 / Age in months -> bytes
+pub type AgeHistogram = BTreeMap<u32, u64>;
+
+/// 一个年龄分档的字节数
+/// Bytes in one age bucket
+#[derive(Serialize, Clone, Debug)]
+pub struct AgeBucket {
+    /// 上限（月，不含）；最后一档为 None / Upper bound (months, exclusive); None for the last bucket
+    max_months: Option<u32>,
+    size: u64,
+}
+
+/// 长时间未动的目录 / A folder left untouched for a long time
+#[derive(Serialize, Clone, Debug)]
+pub struct StaleFolder {
+    path: String,
+    /// 超过阈值未动的字节数 / Bytes untouched for longer than the threshold
+    stale_size: u64,
+    size: u64,
+}
+
+/// 目录（含所有后代）的年龄分布与“旧而大”的目录
+/// Age breakdown of a folder including all descendants, and its old and big folders
+#[derive(Serialize, Clone, Debug)]
+pub struct AgeReport {
+    path: String,
+    time: AgeTime,
+    /// 计算年龄的基准时间（扫描开始，Unix 毫秒） / Reference time ages are measured from (scan start, Unix ms)
+    reference: u64,
+    buckets: Vec<AgeBucket>,
+    months: u32,
+    /// 按未动字节数降序；陈旧部分全部来自同一子目录的目录不列出，以该子目录代替
+    /// Biggest stale size first; a folder whose stale bytes all sit in one subfolder is left out in favour of it
+    stale: Vec<StaleFolder>,
+}
+
+/// 扫描过程中按目录记录的直接文件年龄分布（复用了缓存的目录由扫描按需读取后补入）
+/// Direct-file age histograms recorded per directory during a scan (directories reused from the cache are
+/// read on demand by the scan and added later)
+pub struct AgeStats {
+    time: AgeTime,
+    reference: u64,
+    /// 目录 -> 其直接文件按年龄的字节数 / Directory -> bytes of its direct files by age
+    per_dir: Mutex<HashMap<String, AgeHistogram>>,
+}
+
+impl AgeStats {
+    pub fn new(time: AgeTime) -> Self {
+        Self {
+            time,
+            reference: cache::now_millis(),
+            per_dir: Mutex::new(HashMap::new()),
+        }
+    }
+
+    /// 文件的年龄（月）；读不到时间的文件视为新文件
+    /// A file's age in months; files without a readable time count as new
+    pub fn months_of(&self, meta: &fs::Metadata) -> u32 {
+        let time = match self.time {
+            AgeTime::Modified => meta.modified(),
+            AgeTime::Accessed => meta.accessed(),
+        };
+        time.ok().and_then(cache::to_millis).map_or(0, |time| {
+            (self.reference.saturating_sub(time) / MONTH_MS) as u32
+        })
+    }
+
+    pub fn record(&self, dir: &str, histogram: AgeHistogram) {
+        self.per_dir
+            .lock()
+            .unwrap()
+            .insert(dir.to_string(), histogram);
+    }
+
+    /// 移除某路径及其后代的统计（重新统计或文件被删除时）
+    /// Drop the histograms of a path and its descendants (before recounting or when files are removed)
+    pub fn remove_subtree(&self, path: &str) {
+        self.per_dir
+            .lock()
+            .unwrap()
+            .retain(|dir, _| !cache::is_same_or_descendant(dir, path));
+    }
+
+    /// 从父目录的统计中扣除一个被删除的文件
+    /// Subtract a removed file from its parent directory's histogram
+    pub fn remove_file(&self, path: &str, meta: &fs::Metadata, size: u64) {
+        let Some(parent) = Path::new(path).parent() else {
+            return;
+        };
+
+        let months = self.months_of(meta);
+        let mut per_dir = self.per_dir.lock().unwrap();
+        if let Some(slot) = per_dir
+            .get_mut(parent.to_string_lossy().as_ref())
+            .and_then(|histogram| histogram.get_mut(&months))
+        {
+            *slot = slot.saturating_sub(size);
+        }
+    }
+
+    /// 汇总 path 及其所有后代的年龄分布，并列出超过 months 个月未动字节数最多的目录
+    /// Aggregate the age breakdown of `path` and all descendants, and list the folders with the most bytes
+    /// untouched for `months` months
+    pub fn report(&self, path: &str, months: u32, limit: usize) -> AgeReport {
+        let mut bucket_sizes = [0u64; BUCKET_MONTHS.len() + 1];
+        // 目录 -> (子树字节数, 子树未动字节数, 单个子目录中最多的未动字节数)
+        // Directory -> (subtree bytes, subtree stale bytes, most stale bytes in a single subfolder)
+        let mut subtrees: HashMap<String, (u64, u64, u64)> = HashMap::new();
+        for (dir, histogram) in self.per_dir.lock().unwrap().iter() {
+            if !cache::is_same_or_descendant(dir, path) {
+                continue;
+            }
+
+            let (mut size, mut stale_size) = (0, 0);
+            for (&age, &bytes) in histogram {
+                let bucket = BUCKET_MONTHS
+                    .iter()
+                    .position(|&max| age < max)
+                    .unwrap_or(BUCKET_MONTHS.len());
+                bucket_sizes[bucket] += bytes;
+                size += bytes;
+                if age >= months {
+                    stale_size += bytes;
+                }
+            }
+            subtrees.insert(dir.clone(), (size, stale_size, 0));
+        }
+
+        // 由深到浅把子树结果累加到父目录 / Roll subtree results up into parents, deepest first
+        let mut dirs: Vec<String> = subtrees.keys().cloned().collect();
+        dirs.sort_by_key(|dir| Reverse(Path::new(dir).components().count()));
+        for dir in &dirs {
+            let Some(parent) = Path::new(dir).parent() else {
+                continue;
+            };
+            let (size, stale_size, _) = subtrees[dir];
+            if let Some(slot) = subtrees.get_mut(parent.to_string_lossy().as_ref()) {
+                slot.0 += size;
+                slot.1 += stale_size;
+                slot.2 = slot.2.max(stale_size);
+            }
+        }
+
+        let mut stale: Vec<StaleFolder> = subtrees
+            .into_iter()
+            .filter(|(_, (_, stale_size, largest_child))| stale_size > largest_child)
+            .map(|(path, (size, stale_size, _))| StaleFolder {
+                path,
+                stale_size,
+                size,
+            })
+            .collect();
+        stale.sort_by(|a, b| b.stale_size.cmp(&a.stale_size));
+        stale.truncate(limit);
+
+        let buckets = bucket_sizes
+            .iter()
+            .enumerate()
+            .map(|(index, &size)| AgeBucket {
+                max_months: BUCKET_MONTHS.get(index).copied(),
+                size,
+            })
+            .collect();
+
+        AgeReport {
+            path: path.to_string(),
+            time: self.time,
+            reference: self.reference,
+            buckets,
+            months,
+            stale,
+        }
+    }
+}
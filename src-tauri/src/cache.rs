@@ -0,0 +1,530 @@
+use crate::sizing::SizePolicy;
+use serde::{Deserialize, Serialize};
+use std::collections::HashMap;
+use std::fs;
+use std::io;
+use std::path::{Path, PathBuf};
+use std::sync::atomic::{AtomicBool, Ordering};
+use std::sync::{Arc, Mutex};
+use std::thread;
+use std::time::{SystemTime, UNIX_EPOCH};
+
+/// 缓存文件格式版本，格式不兼容时递增
+/// Cache file format version; bump on incompatible changes
+const CACHE_FORMAT_VERSION: u32 = 7;
+
+/// 条目的最长保留时间（毫秒）：目录 mtime 发现不了文件原地变大，超过该时间的目录会重新读取
+/// Longest an entry is kept (ms): a folder's mtime misses files growing in place, so older folders are read again
+const MAX_ENTRY_AGE_MS: u64 = 30 * 24 * 60 * 60 * 1000;
+
+/// 写入磁盘的最大条目数，超出时保留最近读取的目录
+/// Most entries written to disk; past it the most recently read folders are kept
+const MAX_SAVED_ENTRIES: usize = 1_000_000;
+
+/// 超过该大小（字节）的缓存文件不加载
+/// Cache files larger than this (bytes) are not loaded
+const MAX_CACHE_FILE_BYTES: u64 = 256 * 1024 * 1024;
+
+/// 缓存文件名（位于应用数据目录）
+/// Cache file name (inside the app data directory)
+pub const CACHE_FILE_NAME: &str = "scan-cache.json";
+
+/// 产生缓存结果的统计条件：大小统计规则与扫描规则指纹
+/// Conditions that produced a cached result: size accounting rules and the scan rules fingerprint
+#[derive(Serialize, Deserialize, Clone, Copy, Debug, Default, PartialEq, Eq)]
+pub struct CacheKey {
+    pub policy: SizePolicy,
+    /// 扫描规则指纹（0 表示没有规则） / Scan rules fingerprint (0 means no rules)
+    pub rules: u64,
+}
+
+/// 目录子树（或目录直接文件）的统计结果
+/// Totals of a directory subtree (or of a directory's direct files)
+#[derive(Serialize, Deserialize, Clone, Copy, Debug, Default, PartialEq, Eq)]
+pub struct DirTotals {
+    pub size: u64,
+    pub file_count: u64,
+    /// 无法读取而未计入的条目数 / Entries that could not be read and were left out
+    pub skipped: u64,
+    /// 子树中文件最新的修改时间（Unix 毫秒） / Newest file modification time in the subtree (Unix ms)
+    pub newest: Option<u64>,
+    /// 子树中文件最早的修改时间（Unix 毫秒） / Oldest file modification time in the subtree (Unix ms)
+    pub oldest: Option<u64>,
+    /// 部分结果来自以前会话的缓存时，其中最早的读取时间（Unix 毫秒）
+    /// Earliest read time (Unix ms) when part of the result came from an earlier session's cache
+    #[serde(skip)]
+    pub cached_at: Option<u64>,
+}
+
+impl DirTotals {
+    /// 计入一个文件 / Count one file
+    pub fn add_file(&mut self, size: u64, modified: Option<u64>) {
+        self.size += size;
+        self.file_count += 1;
+        self.widen(modified, modified);
+    }
+
+    /// 累加子目录的结果 / Add a subdirectory's totals
+    pub fn add(&mut self, other: &DirTotals) {
+        self.size += other.size;
+        self.file_count += other.file_count;
+        self.skipped += other.skipped;
+        self.widen(other.newest, other.oldest);
+        self.cached_at = earliest(self.cached_at, other.cached_at);
+    }
+
+    /// 把修改时间范围扩展到包含给定的时间 / Widen the modification time range to include the given times
+    fn widen(&mut self, newest: Option<u64>, oldest: Option<u64>) {
+        self.newest = self.newest.max(newest);
+        self.oldest = earliest(self.oldest, oldest);
+    }
+}
+
+/// 两个可选时间中较早的一个 / The earlier of two optional times
+fn earliest(a: Option<u64>, b: Option<u64>) -> Option<u64> {
+    match (a, b) {
+        (Some(a), Some(b)) => Some(a.min(b)),
+        (a, b) => a.or(b),
+    }
+}
+
+/// 单个目录的缓存结果：整个子树的统计，以及校验与重新汇总所需的直接文件统计与子目录列表
+/// Cached result for one directory: the subtree totals, plus the direct-file totals and subfolder list
+/// needed to check and add them up again
+#[derive(Serialize, Deserialize, Clone, Debug)]
+pub struct CacheEntry {
+    /// 整个子树的统计 / Totals of the whole subtree
+    pub totals: DirTotals,
+    /// 目录直接文件的统计（目录本身无法读取时计入 skipped）
+    /// Totals of the directory's direct files (the directory itself failing to read counts as skipped)
+    pub own: DirTotals,
+    /// 直接子目录的名称 / Names of the direct subfolders
+    pub subdirs: Vec<String>,
+    /// 直接文件中有多链接的文件或跟随到的链接目标：由哪个路径计入取决于本次扫描，这样的目录总是重新读取
+    /// Some direct files have several hard links or are followed link targets; which path counts them is
+    /// decided by each scan, so such folders are always read again
+    pub linked: bool,
+    /// 读取直接条目前目录的修改时间（Unix 毫秒），读取失败时为 None
+    /// Directory mtime before its direct entries were read (Unix ms); None when it could not be read
+    pub mtime: Option<u64>,
+    /// 直接文件的读取时间（Unix 毫秒）；复用时保持不变
+    /// When the direct files were read (Unix ms); kept as is while the entry is reused
+    pub scanned_at: u64,
+    /// 产生该结果的统计条件 / Conditions that produced the result
+    pub key: CacheKey,
+    /// 从磁盘缓存恢复、本次会话尚未重新汇总（子树统计不可直接使用）
+    /// Restored from the on-disk cache and not added up again in this session (the subtree totals are not usable)
+    #[serde(skip)]
+    pub restored: bool,
+}
+
+impl CacheEntry {
+    /// 复用时的直接文件统计：来自磁盘缓存的条目带上其读取时间
+    /// Direct-file totals for reuse: entries from the on-disk cache carry their read time
+    pub fn reused_own(&self) -> DirTotals {
+        DirTotals {
+            cached_at: if self.restored {
+                Some(self.scanned_at)
+            } else {
+                self.own.cached_at
+            },
+            ..self.own
+        }
+    }
+}
+
+/// 结果缓存：Key 为规范化路径
+/// Result cache keyed by normalized path
+pub type SizeCache = Arc<Mutex<HashMap<String, CacheEntry>>>;
+
+#[derive(Serialize, Deserialize)]
+struct CacheFile {
+    version: u32,
+    entries: HashMap<String, CacheEntry>,
+}
+
+pub fn now_millis() -> u64 {
+    SystemTime::now()
+        .duration_since(UNIX_EPOCH)
+        .map(|d| d.as_millis() as u64)
+        .unwrap_or(0)
+}
+
+/// 将系统时间转换为 Unix 毫秒
+/// Convert a system time to Unix ms
+pub fn to_millis(time: SystemTime) -> Option<u64> {
+    time.duration_since(UNIX_EPOCH)
+        .ok()
+        .map(|d| d.as_millis() as u64)
+}
+
+/// 读取目录修改时间（Unix 毫秒）
+/// Read a directory's modification time (Unix ms)
+pub fn dir_mtime(path: &Path) -> Option<u64> {
+    to_millis(fs::metadata(path).ok()?.modified().ok()?)
+}
+
+/// 查询本次会话计算（或重新汇总）的子树结果；统计条件不同的条目与尚未重新汇总的恢复条目不返回
+/// Look up a subtree result computed (or added up again) in this session. Entries produced under other
+/// conditions and restored entries that were not added up again are not returned.
+pub fn lookup(cache: &SizeCache, path: &str, key: &CacheKey) -> Option<CacheEntry> {
+    cache
+        .lock()
+        .unwrap()
+        .get(path)
+        .filter(|entry| entry.key == *key && !entry.restored)
+        .cloned()
+}
+
+/// 查询可复用直接文件统计的目录条目：统计条件相同，直接条目都已读取（有无法读取的条目时重新读取，
+/// 问题明细才会重新记录），没有多链接的文件，且目录 mtime 与记录一致。
+/// mtime 只在直接条目增删或改名时变化，因此只能说明这一层未变：子目录需由调用方逐个校验后重新汇总，
+/// 文件原地变大也不会被发现（由条目的最长保留时间兜底）
+/// Look up a directory entry whose direct-file totals can be reused: same conditions, every direct entry
+/// read (folders with unreadable entries are read again so their problem details are recorded again), no
+/// linked files and an unchanged directory mtime. The mtime only changes when direct entries are added, removed or renamed, so it only
+/// vouches for this level: callers check every subfolder on its own and add the totals up again, and a
+/// file growing in place is not noticed (bounded by the longest time an entry is kept).
+pub fn reusable(cache: &SizeCache, path: &str, key: &CacheKey) -> Option<CacheEntry> {
+    let entry = cache
+        .lock()
+        .unwrap()
+        .get(path)
+        .filter(|entry| entry.key == *key && entry.own.skipped == 0 && !entry.linked)
+        .cloned()?;
+
+    (entry.mtime.is_some() && dir_mtime(Path::new(path)) == entry.mtime).then_some(entry)
+}
+
+/// 从磁盘加载缓存；文件不存在、过大、损坏或版本不符时返回空表，超过最长保留时间的条目被丢弃
+/// Load the cache from disk; a missing, oversized, corrupt or outdated file yields an empty map, and entries
+/// past the longest keep time are dropped.
+pub fn load(file: &Path) -> HashMap<String, CacheEntry> {
+    if fs::metadata(file).map_or(true, |meta| meta.len() > MAX_CACHE_FILE_BYTES) {
+        return HashMap::new();
+    }
+
+    let parsed = fs::read(file)
+        .ok()
+        .and_then(|bytes| serde_json::from_slice::<CacheFile>(&bytes).ok());
+
+    let oldest_kept = now_millis().saturating_sub(MAX_ENTRY_AGE_MS);
+    match parsed {
+        Some(cache_file) if cache_file.version == CACHE_FORMAT_VERSION => cache_file
+            .entries
+            .into_iter()
+            .filter(|(_, entry)| entry.scanned_at >= oldest_kept)
+            .map(|(path, entry)| {
+                (
+                    path,
+                    CacheEntry {
+                        restored: true,
+                        ..entry
+                    },
+                )
+            })
+            .collect(),
+        _ => HashMap::new(),
+    }
+}
+
+/// 在后台线程加载磁盘缓存并并入内存缓存（加载期间已计算的条目优先）
+/// Load the on-disk cache on a background thread and merge it in (entries computed meanwhile win)
+pub fn restore_in_background(file: PathBuf, cache: SizeCache) {
+    thread::spawn(move || {
+        let restored = load(&file);
+        let mut cache = cache.lock().unwrap();
+        for (path, entry) in restored {
+            cache.entry(path).or_insert(entry);
+        }
+    });
+}
+
+/// 将缓存写入磁盘（先写临时文件再替换，避免中途崩溃留下半个文件）；超过最长保留时间的条目不写入，
+/// 条目过多时保留最近读取的目录
+/// Write the cache to disk (via a temp file and rename so a crash never leaves half a file). Entries past
+/// the longest keep time are left out, and past the entry cap the most recently read folders are kept.
+pub fn save(file: &Path, cache: &SizeCache) -> io::Result<()> {
+    let oldest_kept = now_millis().saturating_sub(MAX_ENTRY_AGE_MS);
+    let mut entries: Vec<(String, CacheEntry)> = cache
+        .lock()
+        .unwrap()
+        .iter()
+        .filter(|(_, entry)| entry.scanned_at >= oldest_kept)
+        .map(|(path, entry)| (path.clone(), entry.clone()))
+        .collect();
+    if entries.len() > MAX_SAVED_ENTRIES {
+        entries.sort_by_key(|(_, entry)| std::cmp::Reverse(entry.scanned_at));
+        entries.truncate(MAX_SAVED_ENTRIES);
+    }
+
+    let bytes = serde_json::to_vec(&CacheFile {
+        version: CACHE_FORMAT_VERSION,
+        entries: entries.into_iter().collect(),
+    })
+    .map_err(io::Error::other)?;
+
+    if let Some(dir) = file.parent() {
+        fs::create_dir_all(dir)?;
+    }
+    let tmp = file.with_extension("json.tmp");
+    fs::write(&tmp, bytes)?;
+    fs::rename(&tmp, file)
+}
+
+/// 已排队、尚未开始的写入；写入开始时才读取缓存，排队期间的后续请求由它一并写入
+/// A write queued but not started yet; it reads the cache only when it starts, so requests made while it
+/// waits are covered by it
+static SAVE_QUEUED: AtomicBool = AtomicBool::new(false);
+/// 同一时间只有一个写入 / Only one write at a time
+static SAVE_LOCK: Mutex<()> = Mutex::new(());
+
+/// 在后台线程写入缓存，不阻塞调用方；失败时仅记录日志（缓存只用于加速）
+/// Write the cache on a background thread without blocking the caller; failures are only logged since the
+/// cache is just an accelerator.
+pub fn save_in_background(file: PathBuf, cache: SizeCache) {
+    if SAVE_QUEUED.swap(true, Ordering::AcqRel) {
+        return;
+    }
+
+    thread::spawn(move || {
+        let _writing = SAVE_LOCK
+            .lock()
+            .unwrap_or_else(|poisoned| poisoned.into_inner());
+        SAVE_QUEUED.store(false, Ordering::Release);
+        if let Err(e) = save(&file, &cache) {
+            eprintln!("Failed to save scan cache: {}", e);
+        }
+    });
+}
+
+/// 清空缓存并删除磁盘文件
+/// Clear the cache and remove the file on disk
+pub fn clear(file: Option<&Path>, cache: &SizeCache) -> io::Result<()> {
+    cache.lock().unwrap().clear();
+    match file {
+        Some(file) if file.exists() => fs::remove_file(file),
+        _ => Ok(()),
+    }
+}
+
+/// 判断 path 是否为 ancestor 自身或其后代
+/// Whether `path` is `ancestor` itself or one of its descendants
+pub fn is_same_or_descendant(path: &str, ancestor: &str) -> bool {
+    match path.strip_prefix(ancestor) {
+        Some(rest) => {
+            rest.is_empty()
+                || rest.starts_with(std::path::MAIN_SEPARATOR)
+                || rest.starts_with('/')
+                || ancestor.ends_with(std::path::MAIN_SEPARATOR)
+        }
+        None => false,
+    }
+}
+
+/// 移除目录自身及其所有后代的缓存条目，返回目录自身原有的条目
+/// Remove the entries of a directory and all its descendants; returns the directory's own previous entry.
+pub fn remove_subtree(cache: &SizeCache, path: &str) -> Option<CacheEntry> {
+    let mut cache = cache.lock().unwrap();
+    let previous = cache.remove(path);
+    cache.retain(|key, _| !is_same_or_descendant(key, path));
+    previous
+}
+
+/// 子树的结果从 before 变为 after（被删除时 after 为空）后，把大小、文件数与跳过条目数的差值累加到所有已缓存的
+/// 祖先目录上，并扩展其修改时间范围（删除不会收窄范围）；只调整统计条件为 key 的祖先（差值按 key 测得），
+/// 返回更新后的祖先条目（由近到远）
+/// After a subtree went from `before` to `after` (empty when removed), add the change in size, file count and
+/// skipped entries to every cached ancestor and widen its modification time range (removals never narrow it).
+/// Only ancestors cached under `key`, the conditions the change was measured with, are adjusted;
+/// returns the updated ancestors, nearest first.
+pub fn apply_delta_to_ancestors(
+    cache: &SizeCache,
+    path: &str,
+    key: &CacheKey,
+    before: DirTotals,
+    after: DirTotals,
+) -> Vec<(String, CacheEntry)> {
+    let mut updated = Vec::new();
+    if before == after {
+        return updated;
+    }
+
+    let delta_size = after.size as i64 - before.size as i64;
+    let delta_count = after.file_count as i64 - before.file_count as i64;
+    let delta_skipped = after.skipped as i64 - before.skipped as i64;
+
+    let mut cache = cache.lock().unwrap();
+    let mut current = Path::new(path).parent();
+    while let Some(ancestor) = current {
+        let ancestor_path = ancestor.to_string_lossy().to_string();
+        if let Some(entry) = cache
+            .get_mut(&ancestor_path)
+            .filter(|entry| entry.key == *key)
+        {
+            let totals = &mut entry.totals;
+            totals.size = totals.size.saturating_add_signed(delta_size);
+            totals.file_count = totals.file_count.saturating_add_signed(delta_count);
+            totals.skipped = totals.skipped.saturating_add_signed(delta_skipped);
+            totals.widen(after.newest, after.oldest);
+            totals.cached_at = earliest(totals.cached_at, after.cached_at);
+            updated.push((ancestor_path, entry.clone()));
+        }
+        current = ancestor.parent();
+    }
+
+    updated
+}
+
+#[cfg(test)]
+mod tests {
+    use super::*;
+
+    fn entry(size: u64, key: CacheKey) -> CacheEntry {
+        CacheEntry {
+            totals: DirTotals {
+                size,
+                file_count: size,
+                newest: Some(100),
+                oldest: Some(50),
+                ..DirTotals::default()
+            },
+            own: DirTotals::default(),
+            subdirs: Vec::new(),
+            linked: false,
+            mtime: None,
+            scanned_at: 0,
+            key,
+            restored: false,
+        }
+    }
+
+    fn cache_of(entries: &[(&str, CacheEntry)]) -> SizeCache {
+        Arc::new(Mutex::new(
+            entries
+                .iter()
+                .map(|(path, entry)| (path.to_string(), entry.clone()))
+                .collect(),
+        ))
+    }
+
+    fn other_key() -> CacheKey {
+        CacheKey {
+            rules: 7,
+            ..CacheKey::default()
+        }
+    }
+
+    #[test]
+    fn delta_reaches_every_cached_ancestor_nearest_first() {
+        let key = CacheKey::default();
+        let cache = cache_of(&[
+            ("/a", entry(100, key)),
+            ("/a/b", entry(60, key)),
+            ("/a/b/c", entry(40, key)),
+        ]);
+        let before = DirTotals {
+            size: 40,
+            file_count: 40,
+            ..DirTotals::default()
+        };
+        let after = DirTotals {
+            size: 10,
+            file_count: 5,
+            skipped: 1,
+            newest: Some(200),
+            oldest: Some(20),
+            cached_at: None,
+        };
+
+        let updated = apply_delta_to_ancestors(&cache, "/a/b/c", &key, before, after);
+
+        let paths: Vec<&str> = updated.iter().map(|(path, _)| path.as_str()).collect();
+        assert_eq!(paths, ["/a/b", "/a"]);
+        let cache = cache.lock().unwrap();
+        assert_eq!(cache["/a/b"].totals.size, 30);
+        assert_eq!(cache["/a/b"].totals.file_count, 25);
+        assert_eq!(cache["/a/b"].totals.skipped, 1);
+        assert_eq!(cache["/a"].totals.size, 70);
+        assert_eq!(cache["/a"].totals.newest, Some(200));
+        assert_eq!(cache["/a"].totals.oldest, Some(20));
+        // 子树自身不受影响 / The subtree itself is left alone
+        assert_eq!(cache["/a/b/c"].totals.size, 40);
+    }
+
+    #[test]
+    fn delta_skips_ancestors_cached_under_other_conditions() {
+        let key = CacheKey::default();
+        let cache = cache_of(&[("/a", entry(100, key)), ("/a/b", entry(60, other_key()))]);
+        let removed = DirTotals {
+            size: 20,
+            file_count: 2,
+            ..DirTotals::default()
+        };
+
+        let updated =
+            apply_delta_to_ancestors(&cache, "/a/b/c", &key, removed, DirTotals::default());
+
+        assert_eq!(updated.len(), 1);
+        let cache = cache.lock().unwrap();
+        assert_eq!(cache["/a"].totals.size, 80);
+        assert_eq!(cache["/a/b"].totals.size, 60);
+    }
+
+    #[test]
+    fn removals_never_narrow_the_time_range_or_underflow() {
+        let key = CacheKey::default();
+        let cache = cache_of(&[("/a", entry(10, key))]);
+        let removed = DirTotals {
+            size: 50,
+            file_count: 50,
+            newest: Some(100),
+            oldest: Some(50),
+            ..DirTotals::default()
+        };
+
+        apply_delta_to_ancestors(&cache, "/a/b", &key, removed, DirTotals::default());
+
+        let totals = cache.lock().unwrap()["/a"].totals;
+        assert_eq!(totals.size, 0);
+        assert_eq!(totals.file_count, 0);
+        assert_eq!((totals.newest, totals.oldest), (Some(100), Some(50)));
+    }
+
+    #[test]
+    fn unchanged_totals_update_nothing() {
+        let key = CacheKey::default();
+        let cache = cache_of(&[("/a", entry(10, key))]);
+        let totals = entry(4, key).totals;
+
+        assert!(apply_delta_to_ancestors(&cache, "/a/b", &key, totals, totals).is_empty());
+    }
+
+    #[test]
+    fn remove_subtree_keeps_siblings_sharing_a_prefix() {
+        let key = CacheKey::default();
+        let cache = cache_of(&[
+            ("/a", entry(1, key)),
+            ("/a/b", entry(2, key)),
+            ("/a/b/c", entry(3, key)),
+            ("/a/bc", entry(4, key)),
+        ]);
+
+        let previous = remove_subtree(&cache, "/a/b");
+
+        assert_eq!(previous.map(|entry| entry.totals.size), Some(2));
+        let cache = cache.lock().unwrap();
+        let mut left: Vec<&str> = cache.keys().map(String::as_str).collect();
+        left.sort();
+        assert_eq!(left, ["/a", "/a/bc"]);
+    }
+
+    #[test]
+    fn remove_subtree_of_an_uncached_path_still_drops_descendants() {
+        let key = CacheKey::default();
+        let cache = cache_of(&[("/a/b/c", entry(3, key))]);
+
+        assert!(remove_subtree(&cache, "/a/b").is_none());
+        assert!(cache.lock().unwrap().is_empty());
+    }
+}
@@ -0,0 +1,427 @@
+use crate::cache::{self, CacheKey, SizeCache};
+use crate::{
+    compute_dir_size_recursive, fileinfo, list_directory, normalize_path_string, rules, sizing,
+    sort_children, FileNode, ScanContext, ScanOptions,
+};
+use std::collections::HashMap;
+use std::fs;
+use std::path::Path;
+use std::sync::{Arc, Mutex};
+
+const USAGE: &str = "\
+Usage: folder-insight scan <path> [options]
+
+Options:
+  --depth <n>            Folder levels to print below the root (default 1)
+  --top <n>              Keep only the n largest entries of each folder
+  --format <format>      text, json or csv (default text)
+  --output <file>        Write to a file instead of stdout
+  --exclude <pattern>    gitignore-style pattern to skip (repeatable)
+  --include <pattern>    Pattern that overrides an exclude (repeatable)
+  --max-depth <n>        Do not enter folders more than n levels below the root
+  --one-filesystem       Do not cross into other filesystems
+  --size-mode <mode>     apparent or allocated (default apparent)
+  --symlinks <policy>    skip, link or follow (default skip)
+  --fail-over <size>     Exit with code 1 when the total exceeds a size such as 50GB
+  -h, --help             Show this help";
+
+/// 退出码：超过 --fail-over 阈值 / Exit code: the --fail-over threshold was exceeded
+const EXIT_OVER_LIMIT: i32 = 1;
+/// 退出码：参数错误或扫描失败 / Exit code: invalid arguments or the scan failed
+const EXIT_ERROR: i32 = 2;
+
+#[derive(Clone, Copy, Debug, PartialEq, Eq)]
+enum OutputFormat {
+    Text,
+    Json,
+    Csv,
+}
+
+/// 一次命令行扫描的参数
+/// Arguments of one command-line scan
+#[derive(Debug)]
+struct ScanArgs {
+    path: String,
+    depth: usize,
+    top: Option<usize>,
+    format: OutputFormat,
+    output: Option<String>,
+    fail_over: Option<u64>,
+    rules: rules::ScanRules,
+    options: ScanOptions,
+}
+
+/// 命令行入口：第一个参数为 "scan" 时执行无窗口扫描并返回退出码，否则返回 None（启动图形界面）
+/// Command-line entry: runs a headless scan and returns the exit code when the first argument is "scan",
+/// otherwise None (the GUI starts)
+pub fn run(args: &[String]) -> Option<i32> {
+    if args.first().map(String::as_str) != Some("scan") {
+        return None;
+    }
+
+    #[cfg(windows)]
+    attach_console();
+
+    let code = match parse_args(&args[1..]) {
+        Ok(None) => {
+            println!("{}", USAGE);
+            0
+        }
+        Ok(Some(scan_args)) => scan(&scan_args).unwrap_or_else(|e| {
+            eprintln!("error: {}", e);
+            EXIT_ERROR
+        }),
+        Err(e) => {
+            eprintln!("error: {}\n\n{}", e, USAGE);
+            EXIT_ERROR
+        }
+    };
+    Some(code)
+}
+
+/// 发布版在 Windows 上是窗口程序，没有控制台；从终端启动时连接到父进程的控制台以便输出
+/// Release builds are GUI programs on Windows without a console; attach to the parent's console
+/// so output shows up when started from a terminal
+#[cfg(windows)]
+fn attach_console() {
+    const ATTACH_PARENT_PROCESS: u32 = u32::MAX;
+    extern "system" {
+        fn AttachConsole(process_id: u32) -> i32;
+    }
+    unsafe {
+        AttachConsole(ATTACH_PARENT_PROCESS);
+    }
+}
+
+/// 解析 scan 之后的参数；请求帮助时返回 None
+/// Parse the arguments after "scan"; None when help was requested
+fn parse_args(args: &[String]) -> Result<Option<ScanArgs>, String> {
+    let mut path = None;
+    let mut parsed = ScanArgs {
+        path: String::new(),
+        depth: 1,
+        top: None,
+        format: OutputFormat::Text,
+        output: None,
+        fail_over: None,
+        rules: rules::ScanRules::default(),
+        options: ScanOptions::default(),
+    };
+
+    let mut iter = args.iter();
+    while let Some(arg) = iter.next() {
+        let mut value = || {
+            iter.next()
+                .cloned()
+                .ok_or_else(|| format!("{} needs a value", arg))
+        };
+        match arg.as_str() {
+            "-h" | "--help" => return Ok(None),
+            "--depth" => parsed.depth = parse_number(arg, &value()?)?,
+            "--top" => parsed.top = Some(parse_number(arg, &value()?)?),
+            "--format" => {
+                parsed.format = match value()?.as_str() {
+                    "text" => OutputFormat::Text,
+                    "json" => OutputFormat::Json,
+                    "csv" => OutputFormat::Csv,
+                    other => return Err(format!("Unknown format: {}", other)),
+                }
+            }
+            "--output" => parsed.output = Some(value()?),
+            "--exclude" => parsed.rules.exclude.push(value()?),
+            "--include" => parsed.rules.include.push(value()?),
+            "--max-depth" => parsed.rules.max_depth = Some(parse_number(arg, &value()?)?),
+            "--one-filesystem" => parsed.rules.one_filesystem = true,
+            "--size-mode" => {
+                parsed.options.size_mode = Some(match value()?.as_str() {
+                    "apparent" => sizing::SizeMode::Apparent,
+                    "allocated" => sizing::SizeMode::Allocated,
+                    other => return Err(format!("Unknown size mode: {}", other)),
+                })
+            }
+            "--symlinks" => {
+                parsed.options.symlinks = Some(match value()?.as_str() {
+                    "skip" => sizing::SymlinkPolicy::Skip,
+                    "link" => sizing::SymlinkPolicy::Link,
+                    "follow" => sizing::SymlinkPolicy::Follow,
+                    other => return Err(format!("Unknown symlink policy: {}", other)),
+                })
+            }
+            "--fail-over" => parsed.fail_over = Some(parse_size(&value()?)?),
+            other if other.starts_with('-') => return Err(format!("Unknown option: {}", other)),
+            other if path.is_none() => path = Some(other.to_string()),
+            other => return Err(format!("Unexpected argument: {}", other)),
+        }
+    }
+
+    parsed.path = path.ok_or("Missing <path>")?;
+    Ok(Some(parsed))
+}
+
+fn parse_number(option: &str, value: &str) -> Result<usize, String> {
+    value
+        .parse()
+        .map_err(|_| format!("{} expects a number, got {}", option, value))
+}
+
+/// 解析 "50GB"、"1.5T"、"512MiB" 或纯字节数；单位按 1024 进制，与界面显示一致
+/// Parse "50GB", "1.5T", "512MiB" or plain bytes; units are powers of 1024, as shown in the app
+fn parse_size(text: &str) -> Result<u64, String> {
+    let text = text.trim();
+    let split = text
+        .find(|c: char| !(c.is_ascii_digit() || c == '.'))
+        .unwrap_or(text.len());
+    let (number, unit) = text.split_at(split);
+    let number: f64 = number
+        .parse()
+        .map_err(|_| format!("Invalid size: {}", text))?;
+
+    let exponent = match unit.trim().to_ascii_uppercase().as_str() {
+        "" | "B" => 0,
+        "K" | "KB" | "KIB" => 1,
+        "M" | "MB" | "MIB" => 2,
+        "G" | "GB" | "GIB" => 3,
+        "T" | "TB" | "TIB" => 4,
+        "P" | "PB" | "PIB" => 5,
+        _ => return Err(format!("Invalid size unit: {}", unit)),
+    };
+    Ok((number * 1024f64.powi(exponent)) as u64)
+}
+
+/// 与前端 formatSize 相同的大小格式（最多两位小数）
+/// Same size formatting as the frontend's formatSize (at most two decimals)
+fn format_size(bytes: u64) -> String {
+    const UNITS: [&str; 6] = ["B", "KB", "MB", "GB", "TB", "PB"];
+    if bytes == 0 {
+        return "0 B".to_string();
+    }
+    let exponent = ((bytes as f64).ln() / 1024f64.ln()).floor() as usize;
+    let exponent = exponent.min(UNITS.len() - 1);
+    let value = bytes as f64 / 1024f64.powi(exponent as i32);
+    let rounded = format!("{:.2}", value);
+    let trimmed = rounded.trim_end_matches('0').trim_end_matches('.');
+    format!("{} {}", trimmed, UNITS[exponent])
+}
+
+/// 用与图形界面相同的后台计算统计整棵树，再按输出深度组装结果
+/// Size the whole tree with the same computation the GUI uses, then assemble the result down to the output depth
+fn scan(args: &ScanArgs) -> Result<i32, String> {
+    let root = normalize_path_string(&args.path);
+    let meta = fs::metadata(&root).map_err(|e| format!("{}: {}", root, e))?;
+    if !meta.is_dir() {
+        return Err(format!("{} is not a folder", root));
+    }
+
+    let ctx = Arc::new(ScanContext::new(0, None, &args.options));
+    let _ = ctx
+        .rules
+        .set(rules::CompiledRules::compile(&args.rules, &root)?);
+    let _ = ctx.root.set(root.clone());
+
+    // 命令行扫描不读取界面的磁盘缓存，每次都是完整统计
+    // Command-line scans do not use the app's on-disk cache; every run is a full count
+    let cache: SizeCache = Arc::new(Mutex::new(HashMap::new()));
+    compute_dir_size_recursive(root.clone(), cache.clone(), ctx.clone(), true)
+        .ok_or("The scan was cancelled")?;
+    report_problems(&ctx);
+
+    let key = ctx.cache_key();
+    let tree = build_node(
+        folder_node(&root, &ctx, &cache, &key),
+        &ctx,
+        &cache,
+        &key,
+        args,
+        0,
+    );
+
+    let output = match args.format {
+        OutputFormat::Json => {
+            serde_json::to_string_pretty(&tree).map_err(|e| e.to_string())? + "\n"
+        }
+        OutputFormat::Csv => to_csv(&tree),
+        OutputFormat::Text => to_text(&tree),
+    };
+    match &args.output {
+        Some(file) => fs::write(file, output).map_err(|e| format!("{}: {}", file, e))?,
+        None => print!("{}", output),
+    }
+
+    let total = tree.size.unwrap_or(0);
+    if let Some(limit) = args.fail_over.filter(|limit| total > *limit) {
+        eprintln!(
+            "{} is {}, over the limit of {}",
+            root,
+            format_size(total),
+            format_size(limit)
+        );
+        return Ok(EXIT_OVER_LIMIT);
+    }
+    Ok(0)
+}
+
+/// 在标准错误输出中列出无法读取而未计入的路径（不影响退出码）
+/// List the paths that could not be read and were left out on stderr (the exit code is unaffected)
+fn report_problems(ctx: &ScanContext) {
+    let report = ctx.problems.report();
+    for problem in &report.problems {
+        eprintln!("Skipped {}: {}", problem.path, problem.message);
+    }
+    let total = report.problems.len() as u64 + report.unlisted;
+    if total > 0 {
+        eprintln!(
+            "Entries that could not be read: {}; sizes are partial",
+            total
+        );
+    }
+}
+
+/// 根目录的节点（与 analyze_directory 返回的根节点相同，子项稍后填充）
+/// Node of the root folder (as analyze_directory returns it; children are filled in later)
+fn folder_node(root: &str, ctx: &ScanContext, cache: &SizeCache, key: &CacheKey) -> FileNode {
+    let path = Path::new(root);
+    let totals = cache::lookup(cache, root, key).map(|entry| entry.totals);
+    let meta = fs::metadata(path).ok();
+    FileNode {
+        name: path
+            .file_name()
+            .map(|n| n.to_string_lossy().to_string())
+            .unwrap_or_else(|| root.to_string()),
+        path: root.to_string(),
+        size: totals.map(|totals| totals.size),
+        base_size: 0,
+        is_dir: true,
+        is_symlink: fs::symlink_metadata(path).is_ok_and(|meta| meta.file_type().is_symlink()),
+        size_mode: ctx.policy.mode,
+        file_count: totals.map_or(0, |totals| totals.file_count),
+        skipped: totals.map_or(0, |totals| totals.skipped),
+        newest: totals.and_then(|totals| totals.newest),
+        oldest: totals.and_then(|totals| totals.oldest),
+        cached_at: None,
+        excluded: None,
+        modified: meta.as_ref().and_then(fileinfo::modified_ms),
+        owner: meta.as_ref().and_then(fileinfo::owner),
+        permissions: meta.as_ref().and_then(fileinfo::permissions),
+        children: None,
+    }
+}
+
+/// 文件按扫描时的归属计入的大小：硬链接只在扫描计入它的路径下有大小，其他路径下为 0
+/// Size a file contributes as the scan counted it: a hard link only has a size under the path the scan
+/// counted it under, and 0 under the others
+fn counted_size(ctx: &ScanContext, path: &str) -> u64 {
+    match ctx.policy.entry_metadata(Path::new(path)) {
+        Ok(Some((meta, via_link))) => ctx.counted_file_size(path, &meta, via_link).unwrap_or(0),
+        _ => 0,
+    }
+}
+
+/// 为目录填充子项直到输出深度；--top 时每层只保留最大的若干项，仍按目录优先、大小降序输出
+/// Fill a folder's children down to the output depth; with --top only the largest entries of each level are
+/// kept, still listed folders first and by size desc
+fn build_node(
+    mut node: FileNode,
+    ctx: &ScanContext,
+    cache: &SizeCache,
+    key: &CacheKey,
+    args: &ScanArgs,
+    depth: usize,
+) -> FileNode {
+    if !node.is_dir || node.excluded.is_some() || depth >= args.depth {
+        return node;
+    }
+
+    let (mut children, _) =
+        list_directory(Path::new(&node.path), ctx.policy, ctx.rules(), cache, key);
+    let mut base_size = 0;
+    for child in children
+        .iter_mut()
+        .filter(|child| !child.is_dir && child.excluded.is_none())
+    {
+        let size = counted_size(ctx, &child.path);
+        child.size = Some(size);
+        child.base_size = size;
+        base_size += size;
+    }
+    if let Some(top) = args.top {
+        children.sort_by(|a, b| b.size.unwrap_or(0).cmp(&a.size.unwrap_or(0)));
+        children.truncate(top);
+    }
+    sort_children(&mut children);
+
+    node.base_size = base_size;
+    node.children = Some(
+        children
+            .into_iter()
+            .map(|child| build_node(child, ctx, cache, key, args, depth + 1))
+            .collect(),
+    );
+    node
+}
+
+fn csv_field(value: &str) -> String {
+    if value.contains([',', '"', '\n', '\r']) {
+        format!("\"{}\"", value.replace('"', "\"\""))
+    } else {
+        value.to_string()
+    }
+}
+
+/// 与界面导出相同列的扁平 CSV
+/// Flat CSV with the same columns as the app's export
+fn to_csv(tree: &FileNode) -> String {
+    fn visit(node: &FileNode, depth: usize, out: &mut String) {
+        out.push_str(&format!(
+            "{},{},{},{},{},{}\n",
+            csv_field(&node.path),
+            node.size.map(format_size).unwrap_or_default(),
+            node.size.map(|size| size.to_string()).unwrap_or_default(),
+            if node.is_dir {
+                node.file_count.to_string()
+            } else {
+                String::new()
+            },
+            depth,
+            node.is_dir
+        ));
+        for child in node.children.iter().flatten() {
+            visit(child, depth + 1, out);
+        }
+    }
+
+    let mut out = String::from("path,size,size_bytes,file_count,depth,is_dir\n");
+    visit(tree, 0, &mut out);
+    out
+}
+
+/// 便于阅读的缩进列表：大小、文件数、名称
+/// Readable indented listing: size, file count, name
+fn to_text(tree: &FileNode) -> String {
+    fn visit(node: &FileNode, depth: usize, out: &mut String) {
+        let files = if node.is_dir {
+            node.file_count.to_string()
+        } else {
+            "-".to_string()
+        };
+        let suffix = match node.excluded {
+            Some(_) => " (excluded)",
+            None if node.is_dir => "/",
+            None => "",
+        };
+        out.push_str(&format!(
+            "{:>10}  {:>10}  {}{}{}\n",
+            node.size.map(format_size).unwrap_or_default(),
+            files,
+            "  ".repeat(depth),
+            if depth == 0 { &node.path } else { &node.name },
+            suffix
+        ));
+        for child in node.children.iter().flatten() {
+            visit(child, depth + 1, out);
+        }
+    }
+
+    let mut out = format!("{:>10}  {:>10}  {}\n", "SIZE", "FILES", "PATH");
+    visit(tree, 0, &mut out);
+    out
+}
@@ -0,0 +1,437 @@
+use crate::rules::CompiledRules;
+use crate::{cache, sizing};
+use rayon::prelude::*;
+use serde::Serialize;
+use std::collections::{HashMap, HashSet};
+use std::fs::{self, File};
+use std::io::{self, Read};
+use std::path::Path;
+use std::sync::atomic::{AtomicBool, AtomicU64, Ordering};
+use std::sync::{Arc, Mutex};
+use std::time::Instant;
+use tauri::{AppHandle, Emitter};
+
+/// 部分哈希读取的字节数（文件开头）
+/// Bytes read for the partial hash (from the start of the file)
+const PARTIAL_HASH_BYTES: usize = 64 * 1024;
+/// 进度事件的最小间隔（毫秒）
+/// Minimum interval between progress events (ms)
+const PROGRESS_INTERVAL_MS: u64 = 150;
+
+/// 一次重复文件查找任务：任务 ID、取消标记与进度节流
+/// One duplicate search: job ID, cancellation flag and progress throttling
+pub struct DuplicateJob {
+    pub id: u64,
+    cancelled: AtomicBool,
+    app_handle: AppHandle,
+    started: Instant,
+    last_progress_ms: AtomicU64,
+}
+
+#[derive(Serialize, Clone, Debug)]
+struct DuplicateProgress {
+    job_id: u64,
+    /// "walk" | "partial" | "full"
+    stage: &'static str,
+    processed: u64,
+    /// 当前阶段的总数（遍历阶段未知，为 0） / Total for the stage (unknown while walking, so 0)
+    total: u64,
+}
+
+#[derive(Serialize, Clone, Debug)]
+pub struct DuplicateFile {
+    path: String,
+    /// 修改时间（Unix 毫秒） / Modification time (Unix ms)
+    modified: Option<u64>,
+}
+
+/// 内容完全相同的一组文件
+/// A group of files with identical content
+#[derive(Serialize, Clone, Debug)]
+pub struct DuplicateGroup {
+    size: u64,
+    hash: String,
+    files: Vec<DuplicateFile>,
+    /// 除保留一份外浪费的字节数 / Bytes wasted beyond keeping one copy
+    wasted: u64,
+}
+
+#[derive(Serialize, Clone, Debug)]
+struct DuplicateResult {
+    job_id: u64,
+    groups: Vec<DuplicateGroup>,
+    wasted: u64,
+    cancelled: bool,
+    /// 查找意外中止时的错误信息 / Error message when the search stopped unexpectedly
+    error: Option<String>,
+}
+
+/// 遍历得到的候选文件
+/// Candidate file found by the walk
+struct Candidate {
+    size: u64,
+    path: String,
+    modified: Option<u64>,
+    /// (设备, inode)，用于排除同一文件的硬链接 / (device, inode), used to skip hard links to the same file
+    file_id: Option<(u64, u64)>,
+}
+
+impl DuplicateJob {
+    pub fn new(id: u64, app_handle: AppHandle) -> Self {
+        Self {
+            id,
+            cancelled: AtomicBool::new(false),
+            app_handle,
+            started: Instant::now(),
+            last_progress_ms: AtomicU64::new(0),
+        }
+    }
+
+    pub fn cancel(&self) {
+        self.cancelled.store(true, Ordering::Relaxed);
+    }
+
+    fn is_cancelled(&self) -> bool {
+        self.cancelled.load(Ordering::Relaxed)
+    }
+
+    /// 按节流间隔推送进度；force 为 true 时总是推送（阶段切换时）
+    /// Emit throttled progress; `force` always emits (used when a stage changes)
+    fn progress(&self, stage: &'static str, processed: u64, total: u64, force: bool) {
+        let elapsed = self.started.elapsed().as_millis() as u64;
+        let last = self.last_progress_ms.load(Ordering::Relaxed);
+        let due = elapsed.saturating_sub(last) >= PROGRESS_INTERVAL_MS
+            && self
+                .last_progress_ms
+                .compare_exchange(last, elapsed, Ordering::Relaxed, Ordering::Relaxed)
+                .is_ok();
+
+        if force || due {
+            let _ = self.app_handle.emit(
+                "duplicate-progress",
+                DuplicateProgress {
+                    job_id: self.id,
+                    stage,
+                    processed,
+                    total,
+                },
+            );
+        }
+    }
+}
+
+/// 并行遍历目录，收集不小于 min_size 的普通文件（不跟随符号链接，跳过扫描规则排除的条目）；取消时返回 None
+/// Walk a directory in parallel and collect regular files of at least `min_size` (symlinks are not followed,
+/// entries excluded by the scan rules are skipped). Returns None once cancelled.
+fn collect_candidates(
+    dir: &str,
+    min_size: u64,
+    rules: &CompiledRules,
+    job: &DuplicateJob,
+    found: &AtomicU64,
+) -> Option<Vec<Candidate>> {
+    if job.is_cancelled() {
+        return None;
+    }
+
+    let mut files = Vec::new();
+    let mut subdirs = Vec::new();
+    if let Ok(entries) = fs::read_dir(dir) {
+        for entry in entries.flatten() {
+            let entry_path = entry.path();
+            let meta = match fs::symlink_metadata(&entry_path) {
+                Ok(m) => m,
+                Err(_) => continue,
+            };
+            if rules.exclusion(&entry_path, &meta).is_some() {
+                continue;
+            }
+
+            if meta.is_dir() {
+                subdirs.push(entry_path.to_string_lossy().to_string());
+            } else if meta.is_file() && meta.len() >= min_size.max(1) {
+                files.push(Candidate {
+                    size: meta.len(),
+                    path: entry_path.to_string_lossy().to_string(),
+                    modified: meta.modified().ok().and_then(cache::to_millis),
+                    file_id: sizing::file_id(&meta),
+                });
+            }
+        }
+    }
+
+    let total = found.fetch_add(files.len() as u64, Ordering::Relaxed) + files.len() as u64;
+    job.progress("walk", total, 0, false);
+
+    let nested: Vec<Option<Vec<Candidate>>> = subdirs
+        .par_iter()
+        .map(|subdir| collect_candidates(subdir, min_size, rules, job, found))
+        .collect();
+    for result in nested {
+        files.extend(result?);
+    }
+
+    Some(files)
+}
+
+/// 计算文件内容的 blake3 哈希；limit 为 Some 时只读取开头的若干字节
+/// blake3 hash of a file's content; with `limit`, only that many leading bytes are read
+fn hash_file(path: &str, limit: Option<usize>) -> io::Result<String> {
+    let file = File::open(Path::new(path))?;
+    let mut hasher = blake3::Hasher::new();
+    match limit {
+        Some(limit) => {
+            let mut buf = Vec::with_capacity(limit);
+            file.take(limit as u64).read_to_end(&mut buf)?;
+            hasher.update(&buf);
+        }
+        None => {
+            hasher.update_reader(file)?;
+        }
+    }
+    Ok(hasher.finalize().to_hex().to_string())
+}
+
+/// 对每组候选计算哈希并按哈希细分，只保留仍有多个文件的组；取消时返回 None
+/// Hash every candidate and split each group by hash, keeping groups that still have several files.
+/// Returns None once cancelled.
+fn refine_groups(
+    groups: Vec<Vec<Candidate>>,
+    stage: &'static str,
+    limit: Option<usize>,
+    job: &DuplicateJob,
+) -> Option<Vec<(String, Vec<Candidate>)>> {
+    let items: Vec<(usize, Candidate)> = groups
+        .into_iter()
+        .enumerate()
+        .flat_map(|(index, group)| group.into_iter().map(move |candidate| (index, candidate)))
+        .collect();
+    let total = items.len() as u64;
+    let processed = AtomicU64::new(0);
+    job.progress(stage, 0, total, true);
+
+    // 读取失败（权限、文件已被删除）的文件直接跳过
+    // Files that cannot be read (permissions, already removed) are skipped
+    let hashed: Vec<Option<(usize, String, Candidate)>> = items
+        .into_par_iter()
+        .map(|(index, candidate)| {
+            if job.is_cancelled() {
+                return None;
+            }
+            let hash = hash_file(&candidate.path, limit).ok();
+            let done = processed.fetch_add(1, Ordering::Relaxed) + 1;
+            job.progress(stage, done, total, false);
+            hash.map(|hash| (index, hash, candidate))
+        })
+        .collect();
+
+    if job.is_cancelled() {
+        return None;
+    }
+
+    let mut by_hash: HashMap<(usize, String), Vec<Candidate>> = HashMap::new();
+    for (index, hash, candidate) in hashed.into_iter().flatten() {
+        by_hash.entry((index, hash)).or_default().push(candidate);
+    }
+
+    Some(
+        by_hash
+            .into_iter()
+            .filter(|(_, files)| files.len() > 1)
+            .map(|((_, hash), files)| (hash, files))
+            .collect(),
+    )
+}
+
+/// 按大小分组，同一文件的硬链接只保留一个；只剩一个文件的组被丢弃
+/// Group by size, keeping hard links to the same file only once; groups left with a single file are dropped
+fn size_groups(candidates: Vec<Candidate>) -> Vec<Vec<Candidate>> {
+    let mut by_size: HashMap<u64, Vec<Candidate>> = HashMap::new();
+    for candidate in candidates {
+        by_size.entry(candidate.size).or_default().push(candidate);
+    }
+    by_size
+        .into_values()
+        .map(|group| {
+            let mut seen = HashSet::new();
+            group
+                .into_iter()
+                .filter(|candidate| candidate.file_id.is_none_or(|id| seen.insert(id)))
+                .collect::<Vec<_>>()
+        })
+        .filter(|group| group.len() > 1)
+        .collect()
+}
+
+/// 分阶段查找重复文件：按大小分组 -> 部分哈希 -> 完整哈希
+/// Find duplicates in stages: group by size -> partial hash -> full content hash
+fn find_duplicates(
+    root: &str,
+    min_size: u64,
+    rules: &CompiledRules,
+    job: &DuplicateJob,
+) -> Option<Vec<DuplicateGroup>> {
+    let found = AtomicU64::new(0);
+    let candidates = collect_candidates(root, min_size, rules, job, &found)?;
+    job.progress("walk", found.load(Ordering::Relaxed), 0, true);
+
+    let partial = refine_groups(
+        size_groups(candidates),
+        "partial",
+        Some(PARTIAL_HASH_BYTES),
+        job,
+    )?;
+
+    // 不超过部分哈希长度的文件，部分哈希即完整哈希
+    // For files no larger than the partial hash window, the partial hash already covers everything
+    let (small, large): (Vec<_>, Vec<_>) = partial
+        .into_iter()
+        .partition(|(_, files)| files[0].size <= PARTIAL_HASH_BYTES as u64);
+    let full = refine_groups(
+        large.into_iter().map(|(_, files)| files).collect(),
+        "full",
+        None,
+        job,
+    )?;
+
+    let mut groups: Vec<DuplicateGroup> = small
+        .into_iter()
+        .chain(full)
+        .map(|(hash, files)| {
+            let size = files[0].size;
+            DuplicateGroup {
+                size,
+                hash,
+                wasted: size * (files.len() as u64 - 1),
+                files: files
+                    .into_iter()
+                    .map(|candidate| DuplicateFile {
+                        path: candidate.path,
+                        modified: candidate.modified,
+                    })
+                    .collect(),
+            }
+        })
+        .collect();
+    groups.sort_by(|a, b| b.wasted.cmp(&a.wasted));
+
+    Some(groups)
+}
+
+/// 按扫描规则执行一次查找并通过 duplicate-result 事件返回结果（取消时结果为空并标记 cancelled，
+/// 查找中途 panic 时结果为空并带有 error）；结束后从任务表中移除
+/// Run one search under the scan rules and deliver the outcome through the duplicate-result event
+/// (empty and marked as cancelled when the job was cancelled, empty with `error` when the search panicked).
+/// The job is removed from `jobs` afterwards.
+pub fn run(
+    root: String,
+    min_size: u64,
+    rules: &CompiledRules,
+    job: &DuplicateJob,
+    jobs: &Mutex<HashMap<u64, Arc<DuplicateJob>>>,
+) {
+    let result = std::panic::catch_unwind(std::panic::AssertUnwindSafe(|| {
+        find_duplicates(&root, min_size, rules, job)
+    }));
+    let (groups, cancelled, error) = match result {
+        Ok(Some(groups)) => (groups, job.is_cancelled(), None),
+        Ok(None) => (Vec::new(), true, None),
+        Err(_) => {
+            eprintln!("Panic searching duplicates: {}", root);
+            (
+                Vec::new(),
+                false,
+                Some("The duplicate search failed".to_string()),
+            )
+        }
+    };
+
+    let _ = job.app_handle.emit(
+        "duplicate-result",
+        DuplicateResult {
+            job_id: job.id,
+            wasted: groups.iter().map(|group| group.wasted).sum(),
+            groups,
+            cancelled,
+            error,
+        },
+    );
+
+    jobs.lock().unwrap().remove(&job.id);
+}
+
+#[cfg(test)]
+mod tests {
+    use super::*;
+
+    fn candidate(size: u64, path: &str, file_id: Option<(u64, u64)>) -> Candidate {
+        Candidate {
+            size,
+            path: path.to_string(),
+            modified: None,
+            file_id,
+        }
+    }
+
+    fn paths_of(mut groups: Vec<Vec<Candidate>>) -> Vec<Vec<String>> {
+        let mut paths: Vec<Vec<String>> = groups
+            .iter_mut()
+            .map(|group| {
+                let mut paths: Vec<String> = group.iter().map(|file| file.path.clone()).collect();
+                paths.sort();
+                paths
+            })
+            .collect();
+        paths.sort();
+        paths
+    }
+
+    #[test]
+    fn size_groups_drop_unique_sizes() {
+        let groups = size_groups(vec![
+            candidate(10, "/a", None),
+            candidate(10, "/b", None),
+            candidate(20, "/c", None),
+        ]);
+
+        assert_eq!(paths_of(groups), [["/a", "/b"]]);
+    }
+
+    #[test]
+    fn size_groups_keep_hard_links_once() {
+        let groups = size_groups(vec![
+            candidate(10, "/a", Some((1, 5))),
+            candidate(10, "/a-link", Some((1, 5))),
+            candidate(30, "/c", Some((1, 7))),
+            candidate(30, "/c-link", Some((1, 7))),
+            candidate(30, "/d", Some((1, 8))),
+        ]);
+
+        // 只有硬链接的组不再是重复 / A group made only of hard links is no longer a duplicate
+        let groups = paths_of(groups);
+        assert_eq!(groups.len(), 1);
+        assert_eq!(groups[0].len(), 2);
+        assert!(groups[0].contains(&"/d".to_string()));
+    }
+
+    #[test]
+    fn partial_hashes_only_read_the_leading_bytes() {
+        let dir =
+            std::env::temp_dir().join(format!("folder-insight-duplicates-{}", std::process::id()));
+        let _ = fs::remove_dir_all(&dir);
+        fs::create_dir_all(&dir).unwrap();
+        let mut first = vec![7u8; PARTIAL_HASH_BYTES + 16];
+        fs::write(dir.join("first"), &first).unwrap();
+        *first.last_mut().unwrap() = 8;
+        fs::write(dir.join("second"), &first).unwrap();
+        let hash = |name: &str, limit| hash_file(dir.join(name).to_str().unwrap(), limit).unwrap();
+
+        assert_eq!(
+            hash("first", Some(PARTIAL_HASH_BYTES)),
+            hash("second", Some(PARTIAL_HASH_BYTES))
+        );
+        assert_ne!(hash("first", None), hash("second", None));
+        assert!(hash_file(dir.join("missing").to_str().unwrap(), None).is_err());
+        fs::remove_dir_all(&dir).unwrap();
+    }
+}
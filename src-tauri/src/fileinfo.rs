@@ -0,0 +1,101 @@
+use std::fs;
+use std::time::UNIX_EPOCH;
+
+/// 修改时间（Unix 毫秒）；平台不支持时为 None
+/// Modification time (Unix ms); None where the platform does not provide it
+pub fn modified_ms(meta: &fs::Metadata) -> Option<u64> {
+    let modified = meta.modified().ok()?;
+    let since_epoch = modified.duration_since(UNIX_EPOCH).ok()?;
+    Some(since_epoch.as_millis() as u64)
+}
+
+/// Unix 权限位，形如 "rwxr-xr-x"
+/// Unix permission bits, like "rwxr-xr-x"
+#[cfg(unix)]
+pub fn permissions(meta: &fs::Metadata) -> Option<String> {
+    use std::os::unix::fs::PermissionsExt;
+
+    let mode = meta.permissions().mode();
+    let text = (0..9)
+        .map(|bit| {
+            let set = mode & (0o400 >> bit) != 0;
+            match (set, bit % 3) {
+                (false, _) => '-',
+                (true, 0) => 'r',
+                (true, 1) => 'w',
+                (true, _) => 'x',
+            }
+        })
+        .collect();
+    Some(text)
+}
+
+/// Windows 文件属性：只读、隐藏、系统、存档（R/H/S/A，未设置时为 "-"）
+/// Windows file attributes: read-only, hidden, system and archive (R/H/S/A, "-" when unset)
+#[cfg(windows)]
+pub fn permissions(meta: &fs::Metadata) -> Option<String> {
+    use std::os::windows::fs::MetadataExt;
+
+    let attributes = meta.file_attributes();
+    let text = [(0x1, 'R'), (0x2, 'H'), (0x4, 'S'), (0x20, 'A')]
+        .iter()
+        .map(|&(flag, letter)| if attributes & flag != 0 { letter } else { '-' })
+        .collect();
+    Some(text)
+}
+
+#[cfg(not(any(unix, windows)))]
+pub fn permissions(_meta: &fs::Metadata) -> Option<String> {
+    None
+}
+
+/// 所有者用户名（无法解析时为 uid）；同一 uid 只查询一次
+/// Owner user name (the uid when it cannot be resolved); each uid is looked up once
+#[cfg(unix)]
+pub fn owner(meta: &fs::Metadata) -> Option<String> {
+    use std::collections::HashMap;
+    use std::os::unix::fs::MetadataExt;
+    use std::sync::{Mutex, OnceLock};
+
+    static NAMES: OnceLock<Mutex<HashMap<u32, String>>> = OnceLock::new();
+
+    let uid = meta.uid();
+    let mut names = NAMES.get_or_init(Default::default).lock().unwrap();
+    let name = names
+        .entry(uid)
+        .or_insert_with(|| user_name(uid).unwrap_or_else(|| uid.to_string()));
+    Some(name.clone())
+}
+
+/// 通过 getpwuid_r 查询用户名
+/// Look up a user name with getpwuid_r
+#[cfg(unix)]
+fn user_name(uid: u32) -> Option<String> {
+    use std::ffi::CStr;
+
+    let mut passwd: libc::passwd = unsafe { std::mem::zeroed() };
+    let mut buffer = vec![0 as libc::c_char; 4096];
+    let mut result: *mut libc::passwd = std::ptr::null_mut();
+    let status = unsafe {
+        libc::getpwuid_r(
+            uid,
+            &mut passwd,
+            buffer.as_mut_ptr(),
+            buffer.len(),
+            &mut result,
+        )
+    };
+    if status != 0 || result.is_null() || passwd.pw_name.is_null() {
+        return None;
+    }
+
+    let name = unsafe { CStr::from_ptr(passwd.pw_name) };
+    Some(name.to_string_lossy().to_string())
+}
+
+/// 非 Unix 平台不读取所有者（Windows 需要查询安全描述符，代价较高）
+/// Owners are not read outside Unix (Windows would need a security descriptor query per entry)
+#[cfg(not(unix))]
+pub fn owner(_meta: &fs::Metadata) -> Option<String> {
+    None
+}
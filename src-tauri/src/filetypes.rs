@@ -0,0 +1,207 @@
+use crate::cache;
+use serde::Serialize;
+use std::collections::HashMap;
+use std::path::Path;
+use std::sync::Mutex;
+
+/// 文件类别与其扩展名（小写，不含点）
+/// File categories and their extensions (lowercase, without the dot)
+const CATEGORIES: &[(&str, &[&str])] = &[
+    (
+        "media",
+        &[
+            "jpg", "jpeg", "png", "gif", "bmp", "webp", "heic", "tif", "tiff", "svg", "raw", "cr2",
+            "nef", "psd", "mp4", "mkv", "mov", "avi", "wmv", "flv", "webm", "m4v", "mpg", "mpeg",
+            "mp3", "wav", "flac", "aac", "ogg", "m4a", "wma", "opus",
+        ],
+    ),
+    (
+        "archive",
+        &[
+            "zip", "rar", "7z", "tar", "gz", "tgz", "bz2", "xz", "zst", "lz4", "iso", "img", "dmg",
+            "cab", "jar", "war", "whl", "nupkg", "deb", "rpm", "apk",
+        ],
+    ),
+    (
+        "code",
+        &[
+            "rs", "ts", "tsx", "js", "jsx", "mjs", "cjs", "py", "java", "kt", "c", "h", "cpp",
+            "hpp", "cc", "cs", "go", "rb", "php", "swift", "m", "scala", "sh", "ps1", "bat", "sql",
+            "html", "css", "scss", "vue", "json", "yaml", "yml", "toml", "xml", "lock", "map",
+        ],
+    ),
+    (
+        "binary",
+        &[
+            "exe", "dll", "so", "dylib", "a", "lib", "o", "obj", "bin", "class", "pyc", "wasm",
+            "rlib", "rmeta", "pdb", "msi", "sys", "node", "dat", "db", "sqlite", "pack", "idx",
+        ],
+    ),
+    (
+        "document",
+        &[
+            "pdf", "doc", "docx", "xls", "xlsx", "ppt", "pptx", "odt", "ods", "odp", "rtf", "txt",
+            "md", "csv", "epub", "pages", "numbers", "key",
+        ],
+    ),
+    ("log", &["log", "out", "trace", "dmp"]),
+];
+
+/// 不属于任何已知类别时使用的类别
+/// Category used when no known one matches
+pub const OTHER_CATEGORY: &str = "other";
+
+/// 文件扩展名（小写）；没有扩展名时为空字符串
+/// A file's extension (lowercase); empty when it has none
+pub fn extension_of(path: &Path) -> String {
+    path.extension()
+        .map(|ext| ext.to_string_lossy().to_lowercase())
+        .unwrap_or_default()
+}
+
+/// 扩展名所属的类别
+/// Category of an extension
+pub fn category_of(extension: &str) -> &'static str {
+    CATEGORIES
+        .iter()
+        .find(|(_, extensions)| extensions.contains(&extension))
+        .map(|(category, _)| *category)
+        .unwrap_or(OTHER_CATEGORY)
+}
+
+/// 按扩展名统计的字节数与文件数
+/// Bytes and file count per extension
+pub type ExtensionTotals = HashMap<String, (u64, u64)>;
+
+#[derive(Serialize, Clone, Debug)]
+pub struct ExtensionStat {
+    extension: String,
+    category: &'static str,
+    size: u64,
+    file_count: u64,
+}
+
+#[derive(Serialize, Clone, Debug)]
+pub struct CategoryStat {
+    category: &'static str,
+    size: u64,
+    file_count: u64,
+}
+
+/// 某个目录（含所有后代）的类型分布
+/// Type breakdown of a folder including all descendants
+#[derive(Serialize, Clone, Debug)]
+pub struct TypeBreakdown {
+    path: String,
+    extensions: Vec<ExtensionStat>,
+    categories: Vec<CategoryStat>,
+}
+
+/// 扫描过程中按目录记录的直接文件类型统计（复用了缓存的目录由扫描按需读取后补入）
+/// Direct-file type totals recorded per directory during a scan (directories reused from the cache are
+/// read on demand by the scan and added later)
+#[derive(Default)]
+pub struct TypeStats {
+    /// 目录 -> 其直接文件按扩展名的统计 / Directory -> totals of its direct files by extension
+    per_dir: Mutex<HashMap<String, ExtensionTotals>>,
+}
+
+impl TypeStats {
+    pub fn record(&self, dir: &str, totals: ExtensionTotals) {
+        self.per_dir.lock().unwrap().insert(dir.to_string(), totals);
+    }
+
+    /// 移除某路径及其后代的统计（文件被删除时）
+    /// Drop the totals of a path and its descendants (when files are removed)
+    pub fn remove_subtree(&self, path: &str) {
+        self.per_dir
+            .lock()
+            .unwrap()
+            .retain(|dir, _| !cache::is_same_or_descendant(dir, path));
+    }
+
+    /// 从父目录的统计中扣除一个被删除的文件
+    /// Subtract a removed file from its parent directory's totals
+    pub fn remove_file(&self, path: &str, size: u64) {
+        let file = Path::new(path);
+        let Some(parent) = file.parent() else {
+            return;
+        };
+
+        let mut per_dir = self.per_dir.lock().unwrap();
+        if let Some(slot) = per_dir
+            .get_mut(parent.to_string_lossy().as_ref())
+            .and_then(|totals| totals.get_mut(&extension_of(file)))
+        {
+            slot.0 = slot.0.saturating_sub(size);
+            slot.1 = slot.1.saturating_sub(1);
+        }
+    }
+
+    /// 汇总 path 及其所有后代的类型分布（按大小降序）
+    /// Aggregate the type breakdown of `path` and all descendants (largest first)
+    pub fn breakdown(&self, path: &str) -> TypeBreakdown {
+        let mut by_extension = ExtensionTotals::new();
+        for (dir, totals) in self.per_dir.lock().unwrap().iter() {
+            if !cache::is_same_or_descendant(dir, path) {
+                continue;
+            }
+            for (extension, (size, count)) in totals {
+                let slot = by_extension.entry(extension.clone()).or_default();
+                slot.0 += size;
+                slot.1 += count;
+            }
+        }
+
+        let mut by_category: HashMap<&'static str, (u64, u64)> = HashMap::new();
+        let mut extensions: Vec<ExtensionStat> = by_extension
+            .into_iter()
+            .map(|(extension, (size, file_count))| {
+                let category = category_of(&extension);
+                let slot = by_category.entry(category).or_default();
+                slot.0 += size;
+                slot.1 += file_count;
+                ExtensionStat {
+                    extension,
+                    category,
+                    size,
+                    file_count,
+                }
+            })
+            .collect();
+        extensions.sort_by(|a, b| b.size.cmp(&a.size));
+
+        let mut categories: Vec<CategoryStat> = by_category
+            .into_iter()
+            .map(|(category, (size, file_count))| CategoryStat {
+                category,
+                size,
+                file_count,
+            })
+            .collect();
+        categories.sort_by(|a, b| b.size.cmp(&a.size));
+
+        TypeBreakdown {
+            path: path.to_string(),
+            extensions,
+            categories,
+        }
+    }
+
+    /// path 下直接包含某类别文件的目录（用于在目录树中按类别筛选）
+    /// Directories under `path` that directly hold files of a category (used to filter the tree)
+    pub fn dirs_with_category(&self, path: &str, category: &str) -> Vec<String> {
+        self.per_dir
+            .lock()
+            .unwrap()
+            .iter()
+            .filter(|(dir, totals)| {
+                cache::is_same_or_descendant(dir, path)
+                    && totals
+                        .keys()
+                        .any(|extension| category_of(extension) == category)
+            })
+            .map(|(dir, _)| dir.clone())
+            .collect()
+    }
+}
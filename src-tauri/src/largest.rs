@@ -0,0 +1,131 @@
+use serde::Serialize;
+use std::collections::{BTreeSet, HashMap};
+use std::path::Path;
+use std::sync::Mutex;
+
+/// 默认保留的最大文件数
+/// Default number of largest files kept
+pub const DEFAULT_LIMIT: usize = 100;
+/// 允许的最大文件数上限，避免无界内存
+/// Hard cap on the number of files kept, so memory stays bounded
+const MAX_LIMIT: usize = 5000;
+
+/// 单个大文件
+/// One large file
+#[derive(Serialize, Clone, Debug, PartialEq, Eq, PartialOrd, Ord)]
+pub struct LargeFile {
+    // 字段顺序决定排序：先按大小，再按路径
+    // Field order drives ordering: by size, then by path
+    pub size: u64,
+    pub path: String,
+    /// 修改时间（Unix 毫秒） / Modification time (Unix ms)
+    pub modified: Option<u64>,
+}
+
+/// 扫描过程中维护的有界“最大文件”集合（按路径去重，重新扫描时覆盖旧值）
+/// Bounded set of the largest files kept during a walk (deduplicated by path; rescans replace old values)
+pub struct TopFiles {
+    limit: usize,
+    min_size: u64,
+    inner: Mutex<TopFilesInner>,
+}
+
+#[derive(Default)]
+struct TopFilesInner {
+    ordered: BTreeSet<LargeFile>,
+    by_path: HashMap<String, LargeFile>,
+}
+
+impl TopFiles {
+    pub fn new(limit: usize, min_size: u64) -> Self {
+        Self {
+            limit: limit.clamp(1, MAX_LIMIT),
+            min_size,
+            inner: Mutex::new(TopFilesInner::default()),
+        }
+    }
+
+    /// 是否值得记录该大小的文件（遍历时用于快速过滤）
+    /// Whether a file of this size is worth recording (quick filter during the walk)
+    pub fn accepts(&self, size: u64) -> bool {
+        size >= self.min_size
+    }
+
+    /// 提交一批候选文件（通常为同一目录下的文件），超出上限时淘汰最小的
+    /// Offer a batch of candidates (usually files of one directory); the smallest are evicted past the limit
+    pub fn offer(&self, files: Vec<LargeFile>) {
+        if files.is_empty() {
+            return;
+        }
+
+        let mut inner = self.inner.lock().unwrap();
+        for file in files {
+            if let Some(previous) = inner.by_path.remove(&file.path) {
+                inner.ordered.remove(&previous);
+            }
+
+            if inner.ordered.len() >= self.limit {
+                match inner.ordered.first() {
+                    Some(smallest) if smallest.size < file.size => {}
+                    _ => continue,
+                }
+            }
+
+            inner.by_path.insert(file.path.clone(), file.clone());
+            inner.ordered.insert(file);
+
+            if inner.ordered.len() > self.limit {
+                if let Some(evicted) = inner.ordered.pop_first() {
+                    inner.by_path.remove(&evicted.path);
+                }
+            }
+        }
+    }
+
+    /// 移除某路径及其后代（文件被删除时）
+    /// Drop a path and its descendants (when files are removed)
+    pub fn remove_subtree(&self, path: &str) {
+        let mut inner = self.inner.lock().unwrap();
+        let removed: Vec<LargeFile> = inner
+            .ordered
+            .iter()
+            .filter(|file| crate::cache::is_same_or_descendant(&file.path, path))
+            .cloned()
+            .collect();
+        for file in removed {
+            inner.ordered.remove(&file);
+            inner.by_path.remove(&file.path);
+        }
+    }
+
+    /// 移除某目录的直接文件（不含子目录中的文件）；重新读取该目录前调用，使已删除或变小的文件不再列出
+    /// Drop the direct files of a directory (not those in its subfolders); called before the directory is read
+    /// again, so files removed or shrunk in the meantime are no longer listed
+    pub fn remove_dir_files(&self, dir: &str) {
+        let mut inner = self.inner.lock().unwrap();
+        let removed: Vec<LargeFile> = inner
+            .ordered
+            .iter()
+            .filter(|file| Path::new(&file.path).parent() == Some(Path::new(dir)))
+            .cloned()
+            .collect();
+        for file in removed {
+            inner.ordered.remove(&file);
+            inner.by_path.remove(&file.path);
+        }
+    }
+
+    /// 按大小降序返回不小于 min_size 的前 limit 个文件
+    /// The largest `limit` files of at least `min_size`, biggest first
+    pub fn snapshot(&self, limit: usize, min_size: u64) -> Vec<LargeFile> {
+        let inner = self.inner.lock().unwrap();
+        inner
+            .ordered
+            .iter()
+            .rev()
+            .filter(|file| file.size >= min_size)
+            .take(limit)
+            .cloned()
+            .collect()
+    }
+}
@@ -1,22 +1,310 @@
+mod age;
+mod cache;
+mod cli;
+mod duplicates;
+mod fileinfo;
+mod filetypes;
+mod largest;
+mod problems;
+mod rules;
+mod shell;
+mod sizing;
+mod snapshot;
+mod volumes;
+mod watch;
+
+use cache::{CacheEntry, CacheKey, DirTotals, SizeCache};
 use rayon::prelude::*;
-use serde::Serialize;
-use std::collections::{HashMap, HashSet};
+use serde::{Deserialize, Serialize};
+use std::collections::HashMap;
 use std::fs;
-use std::path::Path;
-use std::sync::{Arc, Mutex};
+use std::path::{Path, PathBuf};
+use std::sync::atomic::{AtomicBool, AtomicU64, Ordering};
+use std::sync::{Arc, Mutex, OnceLock};
 use std::thread;
+use std::time::Instant;
 use tauri::{AppHandle, Emitter, Manager};
 
 /// 应用程序状态（全局共享）
 /// App state (shared globally)
 struct AppState {
-    /// 简单结果缓存：只存储最终计算结果
-    /// Simple result cache: stores final results only
-    /// Key: path, Value: (size, file_count)
-    size_cache: Arc<Mutex<HashMap<String, (u64, u64)>>>,
-    /// 进行中的计算集合，用于避免重复启动后台计算
-    /// In-progress set to prevent duplicated background computations
-    in_progress: Arc<Mutex<HashSet<String>>>,
+    /// 结果缓存：只存储最终计算结果，启动时从磁盘恢复
+    /// Result cache: stores final results only, restored from disk on launch
+    size_cache: SizeCache,
+    /// 磁盘缓存文件路径（无法确定应用数据目录时为 None）
+    /// On-disk cache file (None when the app data directory is unavailable)
+    cache_file: Option<PathBuf>,
+    /// 进行中的计算（路径 -> 所属扫描），用于避免重复启动后台计算
+    /// In-progress computations (path -> owning scan) to prevent duplicated background work
+    in_progress: Arc<Mutex<HashMap<String, Arc<ScanContext>>>>,
+    /// 仍可接收请求的扫描（已取消的会被移除）
+    /// Scans that still accept requests (cancelled ones are removed)
+    scans: Mutex<HashMap<u64, Arc<ScanContext>>>,
+    /// 当前根扫描的 ID，新根扫描默认会取消它
+    /// ID of the current root scan; a new root scan cancels it by default
+    active_scan: Mutex<Option<u64>>,
+    next_scan_id: AtomicU64,
+    /// 当前的文件系统监听会话（同一时间最多一个）
+    /// Current filesystem watch session (at most one at a time)
+    watch: Mutex<Option<watch::WatchSession>>,
+    /// 进行中的重复文件查找任务 / Duplicate searches in progress
+    duplicate_jobs: Arc<Mutex<HashMap<u64, Arc<duplicates::DuplicateJob>>>>,
+}
+
+/// 进度事件的最小间隔（毫秒）
+/// Minimum interval between progress events (ms)
+const PROGRESS_INTERVAL_MS: u64 = 150;
+
+/// 扫描选项（由前端在开始扫描时传入）
+/// Scan options (passed by the frontend when a scan starts)
+#[derive(Deserialize, Default, Clone, Debug)]
+struct ScanOptions {
+    /// 最大文件列表保留的数量 / How many files the largest-files list keeps
+    largest_files_limit: Option<usize>,
+    /// 进入最大文件列表的最小字节数 / Minimum size in bytes for the largest-files list
+    largest_files_min_size: Option<u64>,
+    /// 大小口径（表观大小或磁盘占用） / Size mode (apparent or allocated on disk)
+    size_mode: Option<sizing::SizeMode>,
+    /// 符号链接处理方式 / How symlinks are handled
+    symlinks: Option<sizing::SymlinkPolicy>,
+    /// 年龄分布使用的时间（修改或访问） / Time the age breakdown uses (modification or access)
+    age_time: Option<age::AgeTime>,
+}
+
+/// 单次扫描的上下文：扫描 ID、取消标记、进度计数与事件发送
+/// Per-scan context: scan ID, cancellation flag, progress counters and event emitting
+struct ScanContext {
+    id: u64,
+    cancelled: AtomicBool,
+    /// 事件发送目标；命令行扫描没有窗口，为 None
+    /// Where events go; None for command-line scans, which have no window
+    app_handle: Option<AppHandle>,
+    /// 本次扫描的根路径（首次启动后台计算时确定）
+    /// Root path of this scan (fixed when the first background computation starts)
+    root: OnceLock<String>,
+    started: Instant,
+    dirs_visited: AtomicU64,
+    files_counted: AtomicU64,
+    bytes_counted: AtomicU64,
+    current_path: Mutex<String>,
+    /// 上次发送进度事件时的耗时（毫秒），用于节流
+    /// Elapsed ms at the last progress event, used for throttling
+    last_progress_ms: AtomicU64,
+    /// 遍历中遇到的最大文件 / Largest files met during the walk
+    top_files: largest::TopFiles,
+    /// 复用了缓存、本次扫描尚未读取直接文件的目录（需要文件明细时按需读取）
+    /// Directories reused from the cache whose direct files this scan has not read (read on demand when file
+    /// details are needed)
+    unread_dirs: Mutex<Vec<String>>,
+    /// 按目录记录的文件类型统计 / File type totals recorded per directory
+    type_stats: filetypes::TypeStats,
+    /// 按目录记录的文件年龄分布 / File age histograms recorded per directory
+    ages: age::AgeStats,
+    /// 无法读取而未计入的路径 / Paths that could not be read and were left out
+    problems: problems::ScanProblems,
+    /// 本次扫描的大小统计规则 / Size accounting rules of this scan
+    policy: sizing::SizePolicy,
+    /// 已计入的硬链接与跟随到的目标 / Hard links and followed targets already counted
+    links: sizing::LinkTracker,
+    /// 扫描规则（首次 analyze_directory 时确定） / Scan rules (fixed by the first analyze_directory call)
+    rules: OnceLock<rules::CompiledRules>,
+}
+
+#[derive(Serialize, Clone, Debug)]
+struct ScanProgress {
+    scan_id: u64,
+    dirs_visited: u64,
+    files_counted: u64,
+    bytes_counted: u64,
+    current_path: String,
+    elapsed_ms: u64,
+    /// 目前无法读取的路径数 / Paths that could not be read so far
+    problems: u64,
+    done: bool,
+}
+
+impl ScanContext {
+    fn new(id: u64, app_handle: Option<AppHandle>, options: &ScanOptions) -> Self {
+        Self {
+            id,
+            cancelled: AtomicBool::new(false),
+            app_handle,
+            root: OnceLock::new(),
+            started: Instant::now(),
+            dirs_visited: AtomicU64::new(0),
+            files_counted: AtomicU64::new(0),
+            bytes_counted: AtomicU64::new(0),
+            current_path: Mutex::new(String::new()),
+            last_progress_ms: AtomicU64::new(0),
+            top_files: largest::TopFiles::new(
+                options
+                    .largest_files_limit
+                    .unwrap_or(largest::DEFAULT_LIMIT),
+                options.largest_files_min_size.unwrap_or(0),
+            ),
+            unread_dirs: Mutex::new(Vec::new()),
+            type_stats: filetypes::TypeStats::default(),
+            ages: age::AgeStats::new(options.age_time.unwrap_or_default()),
+            problems: problems::ScanProblems::default(),
+            policy: sizing::SizePolicy {
+                mode: options.size_mode.unwrap_or_default(),
+                symlinks: options.symlinks.unwrap_or_default(),
+            },
+            links: sizing::LinkTracker::default(),
+            rules: OnceLock::new(),
+        }
+    }
+
+    fn is_cancelled(&self) -> bool {
+        self.cancelled.load(Ordering::Relaxed)
+    }
+
+    fn cancel(&self) {
+        self.cancelled.store(true, Ordering::Relaxed);
+    }
+
+    fn rules(&self) -> &rules::CompiledRules {
+        self.rules.get_or_init(rules::CompiledRules::none)
+    }
+
+    /// 本次扫描写入与复用缓存时使用的统计条件
+    /// Conditions under which this scan writes and reuses cache entries
+    fn cache_key(&self) -> CacheKey {
+        CacheKey {
+            policy: self.policy,
+            rules: self.rules().fingerprint(),
+        }
+    }
+
+    /// 文件按本次规则计入的大小；硬链接或跟随到的同一目标已由其他路径计入时为 None
+    /// Size a file contributes under this scan's rules; None when a hard link or followed target
+    /// was already counted under another path
+    fn counted_file_size(&self, path: &str, meta: &fs::Metadata, via_link: bool) -> Option<u64> {
+        if via_link || sizing::link_count(meta) > 1 {
+            if let Some(id) = sizing::file_id(meta) {
+                if !self.links.claim(id, path) {
+                    return None;
+                }
+            }
+        }
+        Some(self.policy.size_of(meta))
+    }
+
+    /// 跟随符号链接时，每个目录只由最先到达它的路径统计，以避免环路与重复计入
+    /// When following symlinks, each directory is counted only under the first path that reaches it,
+    /// which breaks loops and avoids double counting
+    fn claim_dir(&self, path: &str) -> bool {
+        if self.policy.symlinks != sizing::SymlinkPolicy::Follow {
+            return true;
+        }
+        fs::metadata(path)
+            .ok()
+            .and_then(|meta| sizing::file_id(&meta))
+            .is_none_or(|id| self.links.claim(id, path))
+    }
+
+    /// 记录目录直接文件的明细：大文件、类型与年龄统计
+    /// Record the details of a directory's direct files: large files, type totals and age histogram
+    fn record_entries(&self, path: &str, listing: DirEntries) {
+        self.top_files.offer(listing.large_files);
+        self.type_stats.record(path, listing.type_totals);
+        self.ages.record(path, listing.age_histogram);
+    }
+
+    /// 读取 path 下复用了缓存的目录的直接文件，补入最大文件、类型与年龄统计（与遍历使用同一读取逻辑）
+    /// Read the direct files of the directories under `path` reused from the cache and add them to the
+    /// largest files, type totals and age histograms (through the same reader the walk uses)
+    fn fill_unread_dirs(&self, path: &str) {
+        let pending: Vec<String> = {
+            let mut unread = self.unread_dirs.lock().unwrap();
+            let (inside, outside): (Vec<String>, Vec<String>) = unread
+                .drain(..)
+                .partition(|dir| cache::is_same_or_descendant(dir, path));
+            *unread = outside;
+            inside
+        };
+
+        pending.par_iter().for_each(|dir| {
+            if let Some(listing) = read_dir_entries(dir, self) {
+                self.record_entries(dir, listing);
+            }
+        });
+    }
+
+    /// 丢弃某路径及其后代的待读取目录（重新统计或被删除时）
+    /// Drop the unread directories of a path and its descendants (before recounting or after removal)
+    fn forget_unread_dirs(&self, path: &str) {
+        self.unread_dirs
+            .lock()
+            .unwrap()
+            .retain(|dir| !cache::is_same_or_descendant(dir, path));
+    }
+
+    /// 记录已读取的目录（含其直接文件），按节流间隔推送进度
+    /// Record a directory that was read (with its direct files) and emit throttled progress
+    fn record_dir(&self, path: &str, files: u64, bytes: u64) {
+        self.dirs_visited.fetch_add(1, Ordering::Relaxed);
+        self.record_files(files, bytes);
+        *self.current_path.lock().unwrap() = path.to_string();
+
+        let elapsed = self.started.elapsed().as_millis() as u64;
+        let last = self.last_progress_ms.load(Ordering::Relaxed);
+        if elapsed.saturating_sub(last) >= PROGRESS_INTERVAL_MS
+            && self
+                .last_progress_ms
+                .compare_exchange(last, elapsed, Ordering::Relaxed, Ordering::Relaxed)
+                .is_ok()
+        {
+            self.emit_progress(false);
+        }
+    }
+
+    /// 累加文件计数（缓存命中的子树也计入，便于估算剩余时间）
+    /// Add to file counters (cached subtrees count too, which keeps the ETA meaningful)
+    fn record_files(&self, files: u64, bytes: u64) {
+        self.files_counted.fetch_add(files, Ordering::Relaxed);
+        self.bytes_counted.fetch_add(bytes, Ordering::Relaxed);
+    }
+
+    fn emit_progress(&self, done: bool) {
+        let Some(app_handle) = &self.app_handle else {
+            return;
+        };
+        let _ = app_handle.emit(
+            "scan-progress",
+            ScanProgress {
+                scan_id: self.id,
+                dirs_visited: self.dirs_visited.load(Ordering::Relaxed),
+                files_counted: self.files_counted.load(Ordering::Relaxed),
+                bytes_counted: self.bytes_counted.load(Ordering::Relaxed),
+                current_path: self.current_path.lock().unwrap().clone(),
+                elapsed_ms: self.started.elapsed().as_millis() as u64,
+                problems: self.problems.total(),
+                done,
+            },
+        );
+    }
+
+    /// 推送目录大小更新事件（携带扫描 ID）
+    /// Emit a folder size update event (tagged with the scan ID)
+    fn emit_size(&self, path: String, totals: DirTotals) {
+        let Some(app_handle) = &self.app_handle else {
+            return;
+        };
+        let _ = app_handle.emit(
+            "folder-size-updated",
+            SizeUpdate {
+                scan_id: self.id,
+                path,
+                size: totals.size,
+                file_count: totals.file_count,
+                skipped: totals.skipped,
+                newest: totals.newest,
+                oldest: totals.oldest,
+                cached_at: totals.cached_at,
+            },
+        );
+    }
 }
 
 #[derive(Serialize, Clone, Debug)]
@@ -26,15 +314,43 @@ pub struct FileNode {
     size: Option<u64>, // None 表示“计算中” / None means "calculating"
     base_size: u64,    // 当前目录下直接文件大小总和 / Direct files total size
     is_dir: bool,
+    /// 条目本身是符号链接 / The entry itself is a symlink
+    is_symlink: bool,
+    /// 产生大小数值的口径 / Size mode that produced the numbers
+    size_mode: sizing::SizeMode,
     file_count: u64,
+    /// 子树中无法读取而未计入的条目数；大于 0 时目录大小不完整
+    /// Entries in the subtree that could not be read and were left out; above 0 the folder size is partial
+    skipped: u64,
+    /// 目录子树中文件最新与最早的修改时间（Unix 毫秒；文件为 None）
+    /// Newest and oldest file modification time in a folder's subtree (Unix ms; None for files)
+    newest: Option<u64>,
+    oldest: Option<u64>,
+    /// 部分大小来自以前会话的磁盘缓存时，其中最早的读取时间（Unix 毫秒）
+    /// Earliest read time (Unix ms) when part of the size came from the on-disk cache of an earlier session
+    cached_at: Option<u64>,
+    /// 被扫描规则排除的原因（被排除的条目不计入大小） / Why scan rules excluded the entry (excluded entries are not counted)
+    excluded: Option<rules::ExcludeReason>,
+    /// 修改时间（Unix 毫秒） / Modification time (Unix ms)
+    modified: Option<u64>,
+    /// 所有者用户名 / Owner user name
+    owner: Option<String>,
+    /// 权限（Unix 权限位或 Windows 属性） / Permissions (Unix mode bits or Windows attributes)
+    permissions: Option<String>,
     children: Option<Vec<FileNode>>,
 }
 
 #[derive(Serialize, Clone, Debug)]
 struct SizeUpdate {
+    scan_id: u64,
     path: String,
     size: u64,
     file_count: u64,
+    skipped: u64,
+    newest: Option<u64>,
+    oldest: Option<u64>,
+    /// 部分结果来自以前会话的缓存时的最早读取时间 / Earliest read time when part of the result came from an earlier session's cache
+    cached_at: Option<u64>,
 }
 
 /// 规范化路径字符串，避免缓存 key 因路径写法不同而不一致
@@ -47,169 +363,951 @@ fn normalize_path_string(path: &str) -> String {
         .to_string()
 }
 
-/// 在资源管理器中打开指定路径
-/// Open the given path in OS file explorer.
+/// 在阻塞线程中执行系统操作（可能等待外部程序），不占用异步命令线程
+/// Run a system action on a blocking thread (it may wait on external programs), off the async command threads
+async fn run_shell_action(
+    path: String,
+    action: fn(&Path) -> Result<(), String>,
+) -> Result<(), String> {
+    tauri::async_runtime::spawn_blocking(move || action(Path::new(&path)))
+        .await
+        .map_err(|e| e.to_string())?
+}
+
+/// 在文件管理器中显示路径（目录直接打开，文件在所在目录中选中）
+/// Reveal a path in the OS file manager (folders are opened, files are selected in their folder)
 #[tauri::command]
 async fn open_in_explorer(path: String) -> Result<(), String> {
-    #[cfg(target_os = "windows")]
-    {
-        use std::process::Command;
-        let path_buf = std::path::PathBuf::from(&path);
-
-        if path_buf.is_dir() {
-            Command::new("explorer")
-                .arg(&path)
-                .spawn()
-                .map_err(|e| e.to_string())?;
-        } else {
-            Command::new("explorer")
-                .args(["/select,", &path])
-                .spawn()
-                .map_err(|e| e.to_string())?;
+    run_shell_action(path, shell::reveal).await
+}
+
+/// 用默认程序打开文件
+/// Open a file with its default application
+#[tauri::command]
+async fn open_path(path: String) -> Result<(), String> {
+    run_shell_action(path, shell::open).await
+}
+
+/// 在目录（文件则为其父目录）中打开终端
+/// Open a terminal in a folder (the parent folder for files)
+#[tauri::command]
+async fn open_terminal(path: String) -> Result<(), String> {
+    run_shell_action(path, shell::open_terminal).await
+}
+
+/// 当前平台支持的系统操作
+/// System actions supported on this platform
+#[tauri::command]
+async fn get_platform_actions() -> Result<shell::PlatformActions, String> {
+    Ok(shell::actions())
+}
+
+/// 一个目录的直接条目：直接文件的统计与子目录
+/// A directory's direct entries: totals of its direct files and its subfolders
+struct DirEntries {
+    own: DirTotals,
+    subdirs: Vec<String>,
+    /// 有多链接的文件或跟随到的链接目标 / Some files have several hard links or are followed link targets
+    linked: bool,
+    large_files: Vec<largest::LargeFile>,
+    type_totals: filetypes::ExtensionTotals,
+    age_histogram: age::AgeHistogram,
+}
+
+/// 读取目录的直接条目（遵循扫描规则与大小统计规则），无法读取的条目记录到扫描的问题列表中；
+/// 扫描被取消时返回 None
+/// Read a directory's direct entries (under the scan rules and size accounting rules); entries that cannot
+/// be read go to the scan's problem list. Returns None once the scan is cancelled.
+fn read_dir_entries(path_str: &str, ctx: &ScanContext) -> Option<DirEntries> {
+    let mut listing = DirEntries {
+        own: DirTotals::default(),
+        subdirs: Vec::new(),
+        linked: false,
+        large_files: Vec::new(),
+        type_totals: filetypes::ExtensionTotals::new(),
+        age_histogram: age::AgeHistogram::new(),
+    };
+
+    let entries = match fs::read_dir(path_str) {
+        Ok(entries) => entries,
+        Err(err) => {
+            ctx.problems.record_error(path_str.to_string(), &err);
+            listing.own.skipped += 1;
+            return Some(listing);
         }
-    }
+    };
 
-    #[cfg(not(target_os = "windows"))]
-    {
-        return Err("Not supported on this OS".to_string());
+    for entry in entries {
+        if ctx.is_cancelled() {
+            return None;
+        }
+
+        let entry = match entry {
+            Ok(entry) => entry,
+            Err(err) => {
+                ctx.problems.record_error(path_str.to_string(), &err);
+                listing.own.skipped += 1;
+                continue;
+            }
+        };
+        let entry_path = entry.path();
+        let (meta, via_link) = match ctx.policy.entry_metadata(&entry_path) {
+            Ok(Some(found)) => found,
+            Ok(None) => continue,
+            Err(err) => {
+                ctx.problems
+                    .record_error(entry_path.to_string_lossy().to_string(), &err);
+                listing.own.skipped += 1;
+                continue;
+            }
+        };
+        if ctx.rules().exclusion(&entry_path, &meta).is_some() {
+            continue;
+        }
+        let entry_str = entry_path.to_string_lossy().to_string();
+
+        if meta.is_dir() {
+            listing.subdirs.push(entry_str);
+            continue;
+        }
+
+        listing.linked |= via_link || sizing::link_count(&meta) > 1;
+        let Some(size) = ctx.counted_file_size(&entry_str, &meta, via_link) else {
+            continue;
+        };
+        let modified = meta.modified().ok().and_then(cache::to_millis);
+        listing.own.add_file(size, modified);
+        *listing
+            .age_histogram
+            .entry(ctx.ages.months_of(&meta))
+            .or_default() += size;
+        let slot = listing
+            .type_totals
+            .entry(filetypes::extension_of(&entry_path))
+            .or_default();
+        slot.0 += size;
+        slot.1 += 1;
+        if ctx.top_files.accepts(size) {
+            listing.large_files.push(largest::LargeFile {
+                size,
+                path: entry_str,
+                modified,
+            });
+        }
     }
 
-    Ok(())
+    Some(listing)
 }
 
-/// 递归计算目录大小（并行版），并通过事件实时回传结果
-/// Recursively compute directory size in parallel and emit realtime updates via events.
+/// 递归计算目录大小（并行版），并通过事件实时回传结果；返回子树的统计结果。
+/// 缓存中 mtime 未变的目录复用其直接文件统计而不重新读取，但仍逐个校验其子目录并重新汇总；
+/// 无法读取的条目记录到扫描的问题列表中；扫描被取消时返回 None 且不写入缓存。
+/// count_progress 为 false 时（重新扫描与监听触发的重新计算）不计入扫描进度
+/// Recursively compute directory size in parallel and emit realtime updates via events; returns the
+/// subtree totals. Directories whose cached mtime is unchanged reuse their direct-file totals instead of
+/// being read again, but every subfolder is still checked on its own and the totals are added up again.
+/// Entries that cannot be read go to the scan's problem list.
+/// Returns None without touching the cache once the scan is cancelled. With `count_progress` off
+/// (recomputes for rescans and watching) nothing is added to the scan's progress.
 fn compute_dir_size_recursive(
     path_str: String,
-    cache: Arc<Mutex<HashMap<String, (u64, u64)>>>,
-    app_handle: AppHandle,
-) -> (u64, u64) {
-    {
-        let cache_lock = cache.lock().unwrap();
-        if let Some(res) = cache_lock.get(&path_str) {
-            return *res;
-        }
+    cache: SizeCache,
+    ctx: Arc<ScanContext>,
+    count_progress: bool,
+) -> Option<DirTotals> {
+    if ctx.is_cancelled() {
+        return None;
     }
 
-    let path_obj = Path::new(&path_str);
-    let mut total_size = 0;
-    let mut total_count = 0;
-    let mut subdirs = Vec::new();
-
-    if let Ok(entries) = fs::read_dir(path_obj) {
-        for entry in entries.flatten() {
-            let entry_path = entry.path();
-            let meta = match fs::symlink_metadata(&entry_path) {
-                Ok(m) => m,
-                Err(_) => continue,
-            };
+    if !ctx.claim_dir(&path_str) {
+        ctx.emit_size(path_str, DirTotals::default());
+        return Some(DirTotals::default());
+    }
 
-            if meta.is_dir() {
-                subdirs.push(entry_path.to_string_lossy().to_string());
-            } else {
-                total_size += meta.len();
-                total_count += 1;
+    let key = ctx.cache_key();
+    let (own, subdirs, linked, mtime, scanned_at) = match cache::reusable(&cache, &path_str, &key) {
+        Some(entry) => {
+            ctx.unread_dirs.lock().unwrap().push(path_str.clone());
+            let subdirs = entry
+                .subdirs
+                .iter()
+                .map(|name| {
+                    Path::new(&path_str)
+                        .join(name)
+                        .to_string_lossy()
+                        .to_string()
+                })
+                .collect();
+            (
+                entry.reused_own(),
+                subdirs,
+                false,
+                entry.mtime,
+                entry.scanned_at,
+            )
+        }
+        None => {
+            // mtime 在读取前记录，读取期间的变化会让下次校验失败
+            // The mtime is taken before reading, so changes made meanwhile fail the next check
+            let mtime = cache::dir_mtime(Path::new(&path_str));
+            let mut listing = read_dir_entries(&path_str, &ctx)?;
+            let subdirs = std::mem::take(&mut listing.subdirs);
+            let (own, linked) = (listing.own, listing.linked);
+            // 重新计算时先清掉该目录之前记录的大文件，已删除或变小的文件才不会留在列表里
+            // When recomputing, the folder's earlier large files are cleared first so removed or shrunk ones go away
+            if !count_progress {
+                ctx.top_files.remove_dir_files(&path_str);
             }
+            ctx.record_entries(&path_str, listing);
+            (own, subdirs, linked, mtime, cache::now_millis())
         }
+    };
+    if count_progress {
+        ctx.record_dir(&path_str, own.file_count, own.size);
     }
 
-    let results: Vec<(u64, u64)> = subdirs
+    let results: Vec<Option<DirTotals>> = subdirs
         .par_iter()
         .map(|subdir| {
             let result = std::panic::catch_unwind(std::panic::AssertUnwindSafe(|| {
-                compute_dir_size_recursive(subdir.clone(), cache.clone(), app_handle.clone())
+                compute_dir_size_recursive(
+                    subdir.clone(),
+                    cache.clone(),
+                    ctx.clone(),
+                    count_progress,
+                )
             }));
 
             match result {
                 Ok(res) => res,
                 Err(_) => {
                     eprintln!("Panic processing subdir: {}", subdir);
-                    let _ = app_handle.emit(
-                        "folder-size-updated",
-                        SizeUpdate {
-                            path: subdir.clone(),
-                            size: 0,
-                            file_count: 0,
-                        },
+                    ctx.problems.record(
+                        subdir.clone(),
+                        problems::ProblemKind::Panic,
+                        "The folder could not be sized".to_string(),
                     );
-                    (0, 0)
+                    let failed = DirTotals {
+                        skipped: 1,
+                        ..DirTotals::default()
+                    };
+                    ctx.emit_size(subdir.clone(), failed);
+                    Some(failed)
                 }
             }
         })
         .collect();
 
-    for (s, c) in results {
-        total_size += s;
-        total_count += c;
+    let mut totals = own;
+    for result in results {
+        totals.add(&result?);
     }
 
-    {
-        let mut cache_lock = cache.lock().unwrap();
-        cache_lock.insert(path_str.clone(), (total_size, total_count));
+    if ctx.is_cancelled() {
+        return None;
     }
 
-    let _ = app_handle.emit(
-        "folder-size-updated",
-        SizeUpdate {
-            path: path_str,
-            size: total_size,
-            file_count: total_count,
+    let subdir_names = subdirs
+        .iter()
+        .filter_map(|subdir| Path::new(subdir).file_name())
+        .map(|name| name.to_string_lossy().to_string())
+        .collect();
+    cache.lock().unwrap().insert(
+        path_str.clone(),
+        CacheEntry {
+            totals,
+            own,
+            subdirs: subdir_names,
+            linked,
+            mtime,
+            scanned_at,
+            key,
+            restored: false,
         },
     );
 
-    (total_size, total_count)
+    ctx.emit_size(path_str, totals);
+
+    Some(totals)
+}
+
+/// 在后台把缓存写入磁盘，不阻塞调用方
+/// Write the cache to disk in the background without blocking the caller
+fn persist_cache(cache_file: Option<&Path>, cache: &SizeCache) {
+    if let Some(file) = cache_file {
+        cache::save_in_background(file.to_path_buf(), cache.clone());
+    }
 }
 
-/// 判断是否需要启动后台计算，并在需要时标记为 in-progress
+/// 判断是否需要启动后台计算，并在需要时标记为 in-progress（已取消扫描占用的条目可被接管）
 /// Decide whether to start a background computation and mark it as in-progress when needed.
+/// Entries held by a cancelled scan can be taken over.
 fn try_mark_in_progress(
     normalized_path: &str,
-    cache: &Arc<Mutex<HashMap<String, (u64, u64)>>>,
-    in_progress: &Arc<Mutex<HashSet<String>>>,
+    cache: &SizeCache,
+    in_progress: &Arc<Mutex<HashMap<String, Arc<ScanContext>>>>,
+    ctx: &Arc<ScanContext>,
 ) -> bool {
-    let cache_hit = {
-        let cache = cache.lock().unwrap();
-        cache.get(normalized_path).is_some()
-    };
-    if cache_hit {
+    if cache::lookup(cache, normalized_path, &ctx.cache_key()).is_some() {
         return false;
     }
 
     let mut in_progress = in_progress.lock().unwrap();
-    if in_progress.contains(normalized_path) {
-        return false;
+    if let Some(owner) = in_progress.get(normalized_path) {
+        if !owner.is_cancelled() {
+            return false;
+        }
     }
 
-    in_progress.insert(normalized_path.to_string());
+    in_progress.insert(normalized_path.to_string(), ctx.clone());
     true
 }
 
-/// 快速扫描目录结构，并启动后台任务计算目录大小
-/// Quickly scan the directory structure and start background size computations.
+/// 同一扫描是否正在计算 path 的某个祖先目录（该遍历会覆盖 path，不应再单独计算一次）
+/// Whether the same scan is computing an ancestor of `path` (that walk covers `path`, so it must not be
+/// computed a second time)
+fn ancestor_in_progress(
+    path: &str,
+    in_progress: &Arc<Mutex<HashMap<String, Arc<ScanContext>>>>,
+    ctx: &Arc<ScanContext>,
+) -> bool {
+    in_progress.lock().unwrap().iter().any(|(other, owner)| {
+        other != path
+            && Arc::ptr_eq(owner, ctx)
+            && !owner.is_cancelled()
+            && cache::is_same_or_descendant(path, other)
+    })
+}
+
+/// 计算结束后释放 in-progress 标记（仅当仍由该扫描持有时）
+/// Release the in-progress mark after a computation (only while still held by this scan).
+fn release_in_progress(
+    in_progress: &Arc<Mutex<HashMap<String, Arc<ScanContext>>>>,
+    path: &str,
+    ctx: &Arc<ScanContext>,
+) {
+    let mut in_progress = in_progress.lock().unwrap();
+    if in_progress
+        .get(path)
+        .is_some_and(|owner| Arc::ptr_eq(owner, ctx))
+    {
+        in_progress.remove(path);
+    }
+}
+
+/// 开始一次新的扫描并返回其 ID；默认会取消上一次根扫描
+/// Start a new scan and return its ID; cancels the previous root scan by default.
 #[tauri::command]
-async fn analyze_directory(
+async fn start_scan(
+    cancel_previous: Option<bool>,
+    options: Option<ScanOptions>,
+    state: tauri::State<'_, AppState>,
+    app: AppHandle,
+) -> Result<u64, String> {
+    let id = state.next_scan_id.fetch_add(1, Ordering::Relaxed) + 1;
+    let ctx = Arc::new(ScanContext::new(
+        id,
+        Some(app),
+        &options.unwrap_or_default(),
+    ));
+
+    let previous = state.active_scan.lock().unwrap().replace(id);
+    let mut scans = state.scans.lock().unwrap();
+    if cancel_previous.unwrap_or(true) {
+        if let Some(previous_ctx) = previous.and_then(|prev| scans.remove(&prev)) {
+            previous_ctx.cancel();
+        }
+    }
+    scans.insert(id, ctx);
+
+    Ok(id)
+}
+
+/// 取消指定扫描：后台任务尽快停止，未完成的结果不会写入缓存
+/// Cancel a scan: background work stops as soon as possible and unfinished results are not cached.
+#[tauri::command]
+async fn cancel_scan(scan_id: u64, state: tauri::State<'_, AppState>) -> Result<(), String> {
+    if let Some(ctx) = state.scans.lock().unwrap().remove(&scan_id) {
+        ctx.cancel();
+    }
+
+    let mut active = state.active_scan.lock().unwrap();
+    if *active == Some(scan_id) {
+        *active = None;
+    }
+
+    Ok(())
+}
+
+/// 重新扫描目录：丢弃其自身及所有后代的缓存并重新计算，再把大小变化累加到已缓存的祖先目录上
+/// Rescan a directory: drop the cache entries of it and all descendants, recompute them,
+/// then roll the size change up into every cached ancestor.
+#[tauri::command]
+async fn rescan_directory(
+    path: String,
+    scan_id: u64,
+    state: tauri::State<'_, AppState>,
+) -> Result<(), String> {
+    let target = normalize_path_string(&path);
+    let ctx = state
+        .scans
+        .lock()
+        .unwrap()
+        .get(&scan_id)
+        .cloned()
+        .ok_or_else(|| format!("Scan {} is not active", scan_id))?;
+
+    let previous = cache::remove_subtree(&state.size_cache, &target);
+    ctx.type_stats.remove_subtree(&target);
+    ctx.ages.remove_subtree(&target);
+    ctx.problems.remove_subtree(&target);
+    ctx.forget_unread_dirs(&target);
+    if !try_mark_in_progress(&target, &state.size_cache, &state.in_progress, &ctx) {
+        return Ok(());
+    }
+
+    let cache = state.size_cache.clone();
+    let cache_file = state.cache_file.clone();
+    let in_progress = state.in_progress.clone();
+
+    thread::spawn(move || {
+        let result = std::panic::catch_unwind(std::panic::AssertUnwindSafe(|| {
+            compute_dir_size_recursive(target.clone(), cache.clone(), ctx.clone(), false)
+        }));
+
+        // 之前没有结果时，新的总量整体计入祖先
+        // Without an earlier result, the whole new total goes to the ancestors
+        if let Ok(Some(totals)) = result {
+            let previous = previous.map(|entry| entry.totals).unwrap_or_default();
+            for (ancestor, entry) in
+                cache::apply_delta_to_ancestors(&cache, &target, &ctx.cache_key(), previous, totals)
+            {
+                ctx.emit_size(ancestor, entry.totals);
+            }
+            persist_cache(cache_file.as_deref(), &cache);
+        }
+
+        release_in_progress(&in_progress, &target, &ctx);
+    });
+
+    Ok(())
+}
+
+/// 最大文件列表
+/// Largest-files list
+#[derive(Serialize, Clone, Debug)]
+struct LargestFiles {
+    files: Vec<largest::LargeFile>,
+}
+
+/// 获取扫描中遇到的最大文件（按大小降序，可再按数量与最小大小筛选）；复用了缓存的目录先按需读取其直接文件
+/// Get the largest files met by a scan (biggest first, optionally narrowed by count and minimum size);
+/// directories reused from the cache have their direct files read on demand first
+#[tauri::command]
+async fn get_largest_files(
+    scan_id: u64,
+    limit: Option<usize>,
+    min_size: Option<u64>,
+    state: tauri::State<'_, AppState>,
+) -> Result<LargestFiles, String> {
+    let ctx = state
+        .scans
+        .lock()
+        .unwrap()
+        .get(&scan_id)
+        .cloned()
+        .ok_or_else(|| format!("Scan {} is not active", scan_id))?;
+
+    if let Some(root) = ctx.root.get() {
+        ctx.fill_unread_dirs(root);
+    }
+
+    Ok(LargestFiles {
+        files: ctx
+            .top_files
+            .snapshot(limit.unwrap_or(usize::MAX), min_size.unwrap_or(0)),
+    })
+}
+
+/// 获取扫描中无法读取而未计入的路径及各类别数量
+/// Get the paths a scan could not read (and so left out) with counts per kind
+#[tauri::command]
+async fn get_scan_problems(
+    scan_id: u64,
+    state: tauri::State<'_, AppState>,
+) -> Result<problems::ProblemReport, String> {
+    let ctx = state
+        .scans
+        .lock()
+        .unwrap()
+        .get(&scan_id)
+        .cloned()
+        .ok_or_else(|| format!("Scan {} is not active", scan_id))?;
+
+    Ok(ctx.problems.report())
+}
+
+/// 获取目录（含所有后代）按扩展名与类别的大小分布
+/// Get a folder's size breakdown (including all descendants) by extension and category
+#[tauri::command]
+async fn get_type_breakdown(
+    scan_id: u64,
+    path: String,
+    state: tauri::State<'_, AppState>,
+) -> Result<filetypes::TypeBreakdown, String> {
+    let ctx = state
+        .scans
+        .lock()
+        .unwrap()
+        .get(&scan_id)
+        .cloned()
+        .ok_or_else(|| format!("Scan {} is not active", scan_id))?;
+
+    let path = normalize_path_string(&path);
+    ctx.fill_unread_dirs(&path);
+    Ok(ctx.type_stats.breakdown(&path))
+}
+
+/// 获取目录（含所有后代）按年龄分档的大小，以及超过 months 个月未动字节数最多的目录
+/// Get a folder's size by age bucket (including all descendants) and the folders with the most bytes
+/// untouched for `months` months
+#[tauri::command]
+async fn get_age_report(
+    scan_id: u64,
     path: String,
+    months: u32,
+    limit: Option<usize>,
+    state: tauri::State<'_, AppState>,
+) -> Result<age::AgeReport, String> {
+    let ctx = state
+        .scans
+        .lock()
+        .unwrap()
+        .get(&scan_id)
+        .cloned()
+        .ok_or_else(|| format!("Scan {} is not active", scan_id))?;
+
+    let path = normalize_path_string(&path);
+    ctx.fill_unread_dirs(&path);
+    Ok(ctx
+        .ages
+        .report(&path, months, limit.unwrap_or(age::DEFAULT_STALE_LIMIT)))
+}
+
+/// 获取目录下直接包含某类别文件的所有目录（用于在目录树中按类别筛选）
+/// Get every directory under a folder that directly holds files of a category (used to filter the tree)
+#[tauri::command]
+async fn get_category_dirs(
+    scan_id: u64,
+    path: String,
+    category: String,
+    state: tauri::State<'_, AppState>,
+) -> Result<Vec<String>, String> {
+    let ctx = state
+        .scans
+        .lock()
+        .unwrap()
+        .get(&scan_id)
+        .cloned()
+        .ok_or_else(|| format!("Scan {} is not active", scan_id))?;
+
+    let path = normalize_path_string(&path);
+    ctx.fill_unread_dirs(&path);
+    Ok(ctx.type_stats.dirs_with_category(&path, &category))
+}
+
+/// 按扫描的排除、例外与深度规则在目录下查找重复文件（取消之前的查找），结果通过 duplicate-result 事件返回；
+/// 任务 ID 由调用方生成，使先于调用返回到达的事件也能对应到任务
+/// Search a folder for duplicate files under the scan's exclude, include and depth rules (cancelling any previous
+/// search); results arrive via the duplicate-result event. The caller picks the job ID, so events arriving
+/// before the call returns can still be matched.
+#[tauri::command]
+async fn start_duplicate_search(
+    job_id: u64,
+    scan_id: u64,
+    path: String,
+    min_size: Option<u64>,
     state: tauri::State<'_, AppState>,
     app: AppHandle,
-) -> Result<FileNode, String> {
-    let root_path = normalize_path_string(&path);
-    let path_obj = Path::new(&root_path);
+) -> Result<(), String> {
+    let ctx = state
+        .scans
+        .lock()
+        .unwrap()
+        .get(&scan_id)
+        .cloned()
+        .ok_or_else(|| format!("Scan {} is not active", scan_id))?;
+    let root = normalize_path_string(&path);
+    let job = Arc::new(duplicates::DuplicateJob::new(job_id, app));
+
+    {
+        let mut jobs = state.duplicate_jobs.lock().unwrap();
+        if jobs.contains_key(&job_id) {
+            return Err(format!("Duplicate search {} is already running", job_id));
+        }
+        for previous in jobs.values() {
+            previous.cancel();
+        }
+        jobs.insert(job_id, job.clone());
+    }
+
+    let jobs = state.duplicate_jobs.clone();
+    thread::spawn(move || {
+        duplicates::run(root, min_size.unwrap_or(1), ctx.rules(), &job, &jobs);
+    });
+
+    Ok(())
+}
+
+/// 取消重复文件查找
+/// Cancel a duplicate search
+#[tauri::command]
+async fn cancel_duplicate_search(
+    job_id: u64,
+    state: tauri::State<'_, AppState>,
+) -> Result<(), String> {
+    if let Some(job) = state.duplicate_jobs.lock().unwrap().get(&job_id) {
+        job.cancel();
+    }
+    Ok(())
+}
+
+/// 单个路径的删除结果
+/// Removal result for one path
+#[derive(Serialize, Clone, Debug)]
+struct DeleteResult {
+    path: String,
+    /// 失败原因；成功时为 None / Failure reason; None on success
+    error: Option<String>,
+}
+
+/// 删除单个路径：移到回收站，或永久删除（不跟随符号链接）
+/// Remove one path: move it to the trash, or delete it permanently (symlinks are not followed)
+fn remove_path(path: &Path, permanent: bool) -> Result<(), String> {
+    if !permanent {
+        return trash::delete(path).map_err(|e| e.to_string());
+    }
+
+    let meta = fs::symlink_metadata(path).map_err(|e| e.to_string())?;
+    let result = if meta.is_dir() {
+        fs::remove_dir_all(path)
+    } else {
+        fs::remove_file(path)
+    };
+    result.map_err(|e| e.to_string())
+}
+
+/// 删除（或移到回收站）多个路径，逐项返回结果；成功删除的大小会从缓存中的所有祖先目录扣除
+/// Delete (or trash) several paths and report each result; removed sizes are subtracted from every cached ancestor.
+#[tauri::command]
+async fn delete_paths(
+    paths: Vec<String>,
+    permanent: bool,
+    scan_id: Option<u64>,
+    state: tauri::State<'_, AppState>,
+) -> Result<Vec<DeleteResult>, String> {
+    // 按条目所属扫描（未指定时为当前根扫描）的规则计算被删除的大小
+    // Removed sizes follow the rules of the owning scan (the current root scan when not given)
+    let scan_id = scan_id.or(*state.active_scan.lock().unwrap());
+    let active = scan_id.and_then(|id| state.scans.lock().unwrap().get(&id).cloned());
+    let scans: Vec<Arc<ScanContext>> = state.scans.lock().unwrap().values().cloned().collect();
+    let cache = state.size_cache.clone();
+    let cache_file = state.cache_file.clone();
+
+    // 删除大目录可能很久，在阻塞线程中进行，不占用异步命令线程
+    // Removing a large tree can take long, so it runs on a blocking thread, off the async command threads
+    tauri::async_runtime::spawn_blocking(move || {
+        delete_blocking(
+            paths,
+            permanent,
+            active,
+            &scans,
+            &cache,
+            cache_file.as_deref(),
+        )
+    })
+    .await
+    .map_err(|e| e.to_string())
+}
+
+/// 逐项删除路径并更新缓存与各扫描的统计（在阻塞线程中调用）
+/// Remove paths one by one and update the cache and every scan's statistics (called on a blocking thread)
+fn delete_blocking(
+    paths: Vec<String>,
+    permanent: bool,
+    active: Option<Arc<ScanContext>>,
+    scans: &[Arc<ScanContext>],
+    cache: &SizeCache,
+    cache_file: Option<&Path>,
+) -> Vec<DeleteResult> {
+    let mut results = Vec::with_capacity(paths.len());
+    let mut changed = false;
+    let key = active
+        .as_ref()
+        .map(|ctx| ctx.cache_key())
+        .unwrap_or_default();
+    let policy = key.policy;
+
+    for path in paths {
+        let target = normalize_path_string(&path);
+        let target_path = Path::new(&target);
+
+        // 删除前记录大小：目录取缓存结果，文件按统计规则读取（未计入的硬链接与被跳过的链接为 None）
+        // Record the size before removal: folders from the cache, files under the size rules
+        // (None for hard links that were not counted and for skipped links)
+        let entry = policy.entry_metadata(target_path).ok().flatten();
+        let is_dir = entry.as_ref().is_some_and(|(meta, _)| meta.is_dir());
+        let removed = match &entry {
+            Some(_) if is_dir => cache::lookup(cache, &target, &key).map(|entry| entry.totals),
+            Some((meta, via_link)) => {
+                let size = match &active {
+                    Some(ctx) => ctx.counted_file_size(&target, meta, *via_link),
+                    None => Some(policy.size_of(meta)),
+                };
+                size.map(|size| DirTotals {
+                    size,
+                    file_count: 1,
+                    ..DirTotals::default()
+                })
+            }
+            None => None,
+        };
+
+        let error = remove_path(target_path, permanent).err();
+        if error.is_none() {
+            cache::remove_subtree(cache, &target);
+            for ctx in scans {
+                ctx.top_files.remove_subtree(&target);
+                ctx.problems.remove_subtree(&target);
+                ctx.forget_unread_dirs(&target);
+                ctx.links.release_subtree(&target);
+                match (&entry, removed) {
+                    (Some((meta, _)), Some(file)) if !is_dir => {
+                        ctx.type_stats.remove_file(&target, file.size);
+                        ctx.ages.remove_file(&target, meta, file.size);
+                    }
+                    _ => {
+                        ctx.type_stats.remove_subtree(&target);
+                        ctx.ages.remove_subtree(&target);
+                    }
+                }
+            }
+            if let Some(removed) = removed {
+                cache::apply_delta_to_ancestors(
+                    cache,
+                    &target,
+                    &key,
+                    removed,
+                    DirTotals::default(),
+                );
+            }
+            changed = true;
+        }
+
+        results.push(DeleteResult { path, error });
+    }
+
+    if changed {
+        persist_cache(cache_file, cache);
+    }
+
+    results
+}
+
+/// 将文本写入用户选择的文件（用于导出清单）
+/// Write text to a user-chosen file (used for exported lists)
+#[tauri::command]
+async fn save_text_file(path: String, contents: String) -> Result<(), String> {
+    fs::write(&path, contents).map_err(|e| e.to_string())
+}
+
+/// 读取用户选择的文本文件（用于导入快照）
+/// Read a user-chosen text file (used to import snapshots)
+#[tauri::command]
+async fn read_text_file(path: String) -> Result<String, String> {
+    fs::read_to_string(&path).map_err(|e| e.to_string())
+}
+
+/// 列出已挂载的卷及其容量
+/// List mounted volumes with their capacity
+#[tauri::command]
+async fn list_volumes() -> Result<Vec<volumes::Volume>, String> {
+    // 查询失效的网络挂载可能长时间挂起 / Querying a stale network mount can hang
+    tauri::async_runtime::spawn_blocking(volumes::list)
+        .await
+        .map_err(|e| e.to_string())
+}
+
+/// 路径所在的卷；无法确定时为 None
+/// The volume a path lives on; None when it cannot be determined
+#[tauri::command]
+async fn get_path_volume(path: String) -> Result<Option<volumes::Volume>, String> {
+    tauri::async_runtime::spawn_blocking(move || volumes::volume_of(&normalize_path_string(&path)))
+        .await
+        .map_err(|e| e.to_string())
+}
+
+/// 以扫描已计算完成的结果构建目录的快照树（目录大小与文件数，以及其中的大文件）
+/// Build a snapshot tree of a folder (folder sizes and file counts plus the large files inside) from the
+/// scan's computed results
+#[tauri::command]
+async fn build_snapshot(
+    scan_id: u64,
+    path: String,
+    state: tauri::State<'_, AppState>,
+) -> Result<snapshot::SnapshotNode, String> {
+    let ctx = state
+        .scans
+        .lock()
+        .unwrap()
+        .get(&scan_id)
+        .cloned()
+        .ok_or_else(|| format!("Scan {} is not active", scan_id))?;
+
+    // 构建时会重新读取每个目录，在阻塞线程中进行 / Building reads every folder again, so it runs on a blocking thread
+    let root = normalize_path_string(&path);
+    let cache = state.size_cache.clone();
+    tauri::async_runtime::spawn_blocking(move || {
+        snapshot::build(&cache, &root, &ctx.cache_key(), ctx.rules(), ctx.policy)
+            .ok_or_else(|| format!("{} has not been fully computed yet", root))
+    })
+    .await
+    .map_err(|e| e.to_string())?
+}
+
+/// 开始监听根目录的文件系统变化（替换已有的监听），变化的目录会重新计算并通过事件推送；
+/// 监听器在后台创建，就绪或失败通过 watch-status 事件通知。会话 ID 由调用方生成，使先到达的状态事件也能对应
+/// Start watching the root for filesystem changes (replacing any existing watch); changed directories are
+/// recomputed and pushed through events. The watcher is created in the background and reports readiness or
+/// failure through the watch-status event. The caller picks the watch ID, so early status events still match.
+#[tauri::command]
+async fn start_watch(
+    path: String,
+    scan_id: u64,
+    watch_id: u64,
+    state: tauri::State<'_, AppState>,
+    app: AppHandle,
+) -> Result<watch::WatchStatus, String> {
+    let root = normalize_path_string(&path);
+    let ctx = state
+        .scans
+        .lock()
+        .unwrap()
+        .get(&scan_id)
+        .cloned()
+        .ok_or_else(|| format!("Scan {} is not active", scan_id))?;
+
+    let (session, status) = watch::start(
+        watch_id,
+        root,
+        ctx,
+        state.size_cache.clone(),
+        state.cache_file.clone(),
+        app,
+    );
+    if let Some(previous) = state.watch.lock().unwrap().replace(session) {
+        previous.stop();
+    }
+
+    Ok(status)
+}
+
+/// 停止文件系统监听
+/// Stop filesystem watching
+#[tauri::command]
+async fn stop_watch(state: tauri::State<'_, AppState>) -> Result<(), String> {
+    if let Some(session) = state.watch.lock().unwrap().take() {
+        session.stop();
+    }
+    Ok(())
+}
+
+/// 清空内存与磁盘上的扫描缓存
+/// Clear the scan cache in memory and on disk
+#[tauri::command]
+async fn clear_cache(state: tauri::State<'_, AppState>) -> Result<(), String> {
+    cache::clear(state.cache_file.as_deref(), &state.size_cache).map_err(|e| e.to_string())
+}
+
+/// 子项排序：目录优先，其次按大小降序（None 视为 0），最后按名称
+/// Order children folders first, then size desc (None as 0), then by name
+fn sort_children(children: &mut [FileNode]) {
+    children.sort_by(|a, b| {
+        let a_is_dir = a.is_dir;
+        let b_is_dir = b.is_dir;
+        if a_is_dir && !b_is_dir {
+            std::cmp::Ordering::Less
+        } else if !a_is_dir && b_is_dir {
+            std::cmp::Ordering::Greater
+        } else {
+            let size_a = a.size.unwrap_or(0);
+            let size_b = b.size.unwrap_or(0);
+
+            if size_a != size_b {
+                size_b.cmp(&size_a)
+            } else {
+                a.name.to_lowercase().cmp(&b.name.to_lowercase())
+            }
+        }
+    });
+}
+
+/// 列出目录的直接子项（目录大小取自缓存，尚未计算时为 None），并返回直接文件的大小总和；
+/// 子项按目录优先、大小降序、名称排序
+/// List a folder's direct children (folder sizes come from the cache, None until computed) and return the total
+/// size of its direct files; children are sorted folders first, then by size desc, then by name
+fn list_directory(
+    path_obj: &Path,
+    policy: sizing::SizePolicy,
+    scan_rules: &rules::CompiledRules,
+    cache: &SizeCache,
+    key: &CacheKey,
+) -> (Vec<FileNode>, u64) {
     let mut children = Vec::new();
     let mut current_dir_base_size: u64 = 0;
 
     if let Ok(entries) = fs::read_dir(path_obj) {
         for entry in entries.flatten() {
             let entry_path = entry.path();
-            let meta = match fs::symlink_metadata(&entry_path) {
-                Ok(m) => m,
-                Err(_) => continue,
+            let Ok(Some((meta, is_symlink))) = policy.entry_metadata(&entry_path) else {
+                continue;
             };
             let is_dir = meta.is_dir();
             let path_str = entry_path.to_string_lossy().to_string();
-            let file_size = if is_dir { 0 } else { meta.len() };
+
+            // 被排除的条目仍然列出，但不计入大小 / Excluded entries are still listed but not counted
+            let excluded = scan_rules.exclusion(&entry_path, &meta);
+            if excluded.is_some() {
+                children.push(FileNode {
+                    name: entry.file_name().to_string_lossy().to_string(),
+                    path: path_str,
+                    size: Some(0),
+                    base_size: 0,
+                    is_dir,
+                    is_symlink,
+                    size_mode: policy.mode,
+                    file_count: 0,
+                    skipped: 0,
+                    newest: None,
+                    oldest: None,
+                    cached_at: None,
+                    excluded,
+                    modified: fileinfo::modified_ms(&meta),
+                    owner: fileinfo::owner(&meta),
+                    permissions: fileinfo::permissions(&meta),
+                    children: None,
+                });
+                continue;
+            }
+
+            let file_size = if is_dir { 0 } else { policy.size_of(&meta) };
 
             let mut size = if is_dir { None } else { Some(file_size) };
             let mut file_count = if is_dir { 0 } else { 1 };
+            let mut skipped = 0;
+            let mut newest = None;
+            let mut oldest = None;
+            let mut cached_at = None;
 
             let node_base_size = if is_dir {
                 0
@@ -219,14 +1317,13 @@ async fn analyze_directory(
             };
 
             if is_dir {
-                let cache_hit = {
-                    let cache = state.size_cache.lock().unwrap();
-                    cache.get(&path_str).cloned()
-                };
-
-                if let Some((cached_size, cached_count)) = cache_hit {
-                    size = Some(cached_size);
-                    file_count = cached_count;
+                if let Some(entry) = cache::lookup(cache, &path_str, key) {
+                    size = Some(entry.totals.size);
+                    file_count = entry.totals.file_count;
+                    skipped = entry.totals.skipped;
+                    newest = entry.totals.newest;
+                    oldest = entry.totals.oldest;
+                    cached_at = entry.totals.cached_at;
                 }
             }
 
@@ -236,50 +1333,106 @@ async fn analyze_directory(
                 size,
                 base_size: node_base_size,
                 is_dir,
+                is_symlink,
+                size_mode: policy.mode,
                 file_count,
+                skipped,
+                newest,
+                oldest,
+                cached_at,
+                excluded: None,
+                modified: fileinfo::modified_ms(&meta),
+                owner: fileinfo::owner(&meta),
+                permissions: fileinfo::permissions(&meta),
                 children: None,
             });
         }
     }
 
-    // 目录优先，其次按大小降序（None 视为 0），最后按名称
-    // Folders first, then size desc (None as 0), then by name
-    children.sort_by(|a, b| {
-        let a_is_dir = a.is_dir;
-        let b_is_dir = b.is_dir;
-        if a_is_dir && !b_is_dir {
-            std::cmp::Ordering::Less
-        } else if !a_is_dir && b_is_dir {
-            std::cmp::Ordering::Greater
-        } else {
-            let size_a = a.size.unwrap_or(0);
-            let size_b = b.size.unwrap_or(0);
+    sort_children(&mut children);
 
-            if size_a != size_b {
-                size_b.cmp(&size_a)
-            } else {
-                a.name.to_lowercase().cmp(&b.name.to_lowercase())
+    (children, current_dir_base_size)
+}
+
+/// 快速扫描目录结构，并启动后台任务计算目录大小
+/// Quickly scan the directory structure and start background size computations.
+#[tauri::command]
+async fn analyze_directory(
+    path: String,
+    scan_id: Option<u64>,
+    rules: Option<rules::ScanRules>,
+    state: tauri::State<'_, AppState>,
+) -> Result<FileNode, String> {
+    let root_path = normalize_path_string(&path);
+    let path_obj = Path::new(&root_path);
+
+    // 仅为仍在进行的扫描启动后台计算；已取消或未知的扫描只返回目录结构（按默认规则统计）
+    // Only live scans start background work; cancelled or unknown scans just return the listing (under the default rules)
+    let scan_ctx = scan_id.and_then(|id| state.scans.lock().unwrap().get(&id).cloned());
+    let policy = scan_ctx.as_ref().map(|ctx| ctx.policy).unwrap_or_default();
+
+    // 规则以扫描根目录为基准，由该扫描的第一次调用确定；之后展开子目录时沿用
+    // Rules are relative to the scan root and fixed by the scan's first call; later expansions reuse them
+    let compiled = rules
+        .map(|rules| rules::CompiledRules::compile(&rules, &root_path))
+        .transpose()?;
+    let local_rules;
+    let scan_rules = match &scan_ctx {
+        Some(ctx) => {
+            if let Some(compiled) = compiled {
+                let _ = ctx.rules.set(compiled);
             }
+            ctx.rules()
         }
-    });
+        None => {
+            local_rules = compiled.unwrap_or_else(rules::CompiledRules::none);
+            &local_rules
+        }
+    };
+    let key = CacheKey {
+        policy,
+        rules: scan_rules.fingerprint(),
+    };
 
-    let should_compute_root =
-        try_mark_in_progress(&root_path, &state.size_cache, &state.in_progress);
+    let (children, current_dir_base_size) =
+        list_directory(path_obj, policy, scan_rules, &state.size_cache, &key);
 
-    if should_compute_root {
-        let cache = state.size_cache.clone();
-        let in_progress = state.in_progress.clone();
-        let app_handle = app.clone();
-        let root_to_compute = root_path.clone();
+    if let Some(ctx) = scan_ctx {
+        // 展开、定位或导出子目录时，根目录的遍历可能仍在进行，不重复计算其中的目录
+        // Expanding, revealing or exporting a subfolder may happen while the root walk is still running;
+        // its folders are not computed twice
+        let should_compute_root = !ancestor_in_progress(&root_path, &state.in_progress, &ctx)
+            && try_mark_in_progress(&root_path, &state.size_cache, &state.in_progress, &ctx);
 
-        thread::spawn(move || {
-            let _ = std::panic::catch_unwind(std::panic::AssertUnwindSafe(|| {
-                compute_dir_size_recursive(root_to_compute.clone(), cache, app_handle);
-            }));
+        if should_compute_root {
+            let cache = state.size_cache.clone();
+            let cache_file = state.cache_file.clone();
+            let in_progress = state.in_progress.clone();
+            let root_to_compute = root_path.clone();
 
-            let mut in_progress = in_progress.lock().unwrap();
-            in_progress.remove(&root_to_compute);
-        });
+            let _ = ctx.root.set(root_to_compute.clone());
+
+            thread::spawn(move || {
+                let result = std::panic::catch_unwind(std::panic::AssertUnwindSafe(|| {
+                    compute_dir_size_recursive(
+                        root_to_compute.clone(),
+                        cache.clone(),
+                        ctx.clone(),
+                        true,
+                    )
+                }));
+
+                // 根目录计算完成后发送最终进度，并把缓存写入磁盘
+                // Once the scan root is done, send the final progress and persist the cache
+                let finished = matches!(result, Ok(Some(_)));
+                if finished && ctx.root.get() == Some(&root_to_compute) {
+                    ctx.emit_progress(true);
+                    persist_cache(cache_file.as_deref(), &cache);
+                }
+
+                release_in_progress(&in_progress, &root_to_compute, &ctx);
+            });
+        }
     }
 
     let name = path_obj
@@ -287,37 +1440,70 @@ async fn analyze_directory(
         .map(|n| n.to_string_lossy().to_string())
         .unwrap_or_else(|| root_path.clone());
 
-    let (root_size, root_count) = {
-        let cache = state.size_cache.lock().unwrap();
-        if let Some((s, c)) = cache.get(&root_path) {
-            (Some(*s), *c)
-        } else {
-            (None, 0)
-        }
-    };
+    let root_entry = cache::lookup(&state.size_cache, &root_path, &key);
+    let root_totals = root_entry
+        .as_ref()
+        .map(|entry| entry.totals)
+        .unwrap_or_default();
+    let root_is_symlink =
+        fs::symlink_metadata(path_obj).is_ok_and(|meta| meta.file_type().is_symlink());
+    let root_meta = fs::metadata(path_obj).ok();
 
     Ok(FileNode {
         name,
         path: root_path,
-        size: root_size,
+        size: root_entry.as_ref().map(|entry| entry.totals.size),
         base_size: current_dir_base_size,
         is_dir: true,
-        file_count: root_count,
+        is_symlink: root_is_symlink,
+        size_mode: policy.mode,
+        file_count: root_totals.file_count,
+        skipped: root_totals.skipped,
+        newest: root_totals.newest,
+        oldest: root_totals.oldest,
+        cached_at: root_totals.cached_at,
+        excluded: None,
+        modified: root_meta.as_ref().and_then(fileinfo::modified_ms),
+        owner: root_meta.as_ref().and_then(fileinfo::owner),
+        permissions: root_meta.as_ref().and_then(fileinfo::permissions),
         children: Some(children),
     })
 }
 
+/// 命令行入口：参数以 "scan" 开头时执行无窗口扫描并返回退出码，否则返回 None
+/// Command-line entry: runs a headless scan and returns the exit code when the arguments start with "scan",
+/// otherwise None
+pub fn run_cli(args: &[String]) -> Option<i32> {
+    cli::run(args)
+}
+
 #[cfg_attr(mobile, tauri::mobile_entry_point)]
 pub fn run() {
     tauri::Builder::default()
         .setup(|app| {
-            // 缓存仅用于加速
-            let size_cache = Arc::new(Mutex::new(HashMap::new()));
+            // 缓存仅用于加速：启动后在后台从应用数据目录恢复，每个目录在复用前都会校验 mtime
+            // The cache is only an accelerator: restored from the app data dir in the background after launch,
+            // and every folder is mtime-checked before reuse
+            let cache_file = app
+                .path()
+                .app_data_dir()
+                .ok()
+                .map(|dir| dir.join(cache::CACHE_FILE_NAME));
+            let size_cache: SizeCache = Arc::new(Mutex::new(HashMap::new()));
+            if let Some(file) = cache_file.clone() {
+                cache::restore_in_background(file, size_cache.clone());
+            }
 
-            let in_progress = Arc::new(Mutex::new(HashSet::new()));
+            let in_progress = Arc::new(Mutex::new(HashMap::new()));
             app.manage(AppState {
                 size_cache,
+                cache_file,
                 in_progress,
+                scans: Mutex::new(HashMap::new()),
+                active_scan: Mutex::new(None),
+                next_scan_id: AtomicU64::new(0),
+                watch: Mutex::new(None),
+                duplicate_jobs: Arc::new(Mutex::new(HashMap::new())),
             });
 
             Ok(())
@@ -327,7 +1513,29 @@ pub fn run() {
         .plugin(tauri_plugin_opener::init())
         .invoke_handler(tauri::generate_handler![
             analyze_directory,
-            open_in_explorer
+            start_scan,
+            cancel_scan,
+            get_largest_files,
+            get_scan_problems,
+            get_age_report,
+            get_type_breakdown,
+            get_category_dirs,
+            start_duplicate_search,
+            cancel_duplicate_search,
+            clear_cache,
+            rescan_directory,
+            delete_paths,
+            save_text_file,
+            read_text_file,
+            build_snapshot,
+            list_volumes,
+            get_path_volume,
+            start_watch,
+            stop_watch,
+            open_in_explorer,
+            open_path,
+            open_terminal,
+            get_platform_actions
         ])
         .run(tauri::generate_context!())
         .expect("error while running tauri application");
@@ -2,5 +2,12 @@
 #![cfg_attr(not(debug_assertions), windows_subsystem = "windows")]
 
 fn main() {
+    // `folder-insight scan <path> ...` 以命令行模式运行，不打开窗口
+    // `folder-insight scan <path> ...` runs in command-line mode without opening a window
+    let args: Vec<String> = std::env::args().skip(1).collect();
+    if let Some(code) = folder_insight_lib::run_cli(&args) {
+        std::process::exit(code);
+    }
+
     folder_insight_lib::run()
 }
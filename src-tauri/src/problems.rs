@@ -0,0 +1,136 @@
+use serde::Serialize;
+use std::collections::HashMap;
+use std::io;
+use std::sync::Mutex;
+
+/// 保留明细的问题路径数上限，超出部分只计数
+/// Cap on problem paths kept with details; the rest are only counted
+const MAX_PROBLEMS: usize = 10_000;
+
+/// 条目无法统计的原因类别
+/// Why an entry could not be counted
+#[derive(Serialize, Clone, Copy, Debug, PartialEq, Eq, Hash)]
+#[serde(rename_all = "snake_case")]
+pub enum ProblemKind {
+    /// 没有访问权限 / Access was denied
+    PermissionDenied,
+    /// 遍历期间条目消失 / The entry vanished during the walk
+    NotFound,
+    /// 统计该目录时后台任务崩溃 / The background task crashed while sizing the folder
+    Panic,
+    /// 其他读取错误 / Any other read error
+    Other,
+}
+
+impl ProblemKind {
+    pub fn of(error: &io::Error) -> Self {
+        match error.kind() {
+            io::ErrorKind::PermissionDenied => Self::PermissionDenied,
+            io::ErrorKind::NotFound => Self::NotFound,
+            _ => Self::Other,
+        }
+    }
+}
+
+/// 一个无法读取的路径
+/// One path that could not be read
+#[derive(Serialize, Clone, Debug)]
+pub struct Problem {
+    pub path: String,
+    pub kind: ProblemKind,
+    /// 系统返回的错误信息 / Error message from the OS
+    pub message: String,
+}
+
+/// 各类别的问题数 / Number of problems of one kind
+#[derive(Serialize, Clone, Debug)]
+pub struct ProblemCount {
+    pub kind: ProblemKind,
+    pub count: u64,
+}
+
+/// 扫描遇到的问题汇总
+/// Summary of the problems a scan met
+#[derive(Serialize, Clone, Debug)]
+pub struct ProblemReport {
+    /// 按路径排序的问题明细 / Problem details, sorted by path
+    pub problems: Vec<Problem>,
+    /// 按类别的数量（降序，仅含有明细的问题） / Counts per kind (descending, detailed problems only)
+    pub counts: Vec<ProblemCount>,
+    /// 超出上限、没有保留明细的问题数 / Problems past the cap, kept without details
+    pub unlisted: u64,
+}
+
+/// 扫描过程中记录的问题路径（按路径去重，重新扫描时覆盖旧值）
+/// Problem paths recorded during a walk (deduplicated by path; rescans replace old values)
+#[derive(Default)]
+pub struct ScanProblems {
+    inner: Mutex<ProblemsInner>,
+}
+
+#[derive(Default)]
+struct ProblemsInner {
+    by_path: HashMap<String, Problem>,
+    unlisted: u64,
+}
+
+impl ScanProblems {
+    pub fn record(&self, path: String, kind: ProblemKind, message: String) {
+        let mut inner = self.inner.lock().unwrap();
+        if inner.by_path.len() >= MAX_PROBLEMS && !inner.by_path.contains_key(&path) {
+            inner.unlisted += 1;
+            return;
+        }
+        inner.by_path.insert(
+            path.clone(),
+            Problem {
+                path,
+                kind,
+                message,
+            },
+        );
+    }
+
+    /// 记录读取错误 / Record a read error
+    pub fn record_error(&self, path: String, error: &io::Error) {
+        self.record(path, ProblemKind::of(error), error.to_string());
+    }
+
+    /// 有明细的问题总数 / Total number of problems, with or without details
+    pub fn total(&self) -> u64 {
+        let inner = self.inner.lock().unwrap();
+        inner.by_path.len() as u64 + inner.unlisted
+    }
+
+    /// 移除某路径及其后代的问题（重新统计或删除前）；超出上限的计数无法归属，保持不变
+    /// Drop the problems of a path and its descendants (before recounting or after removal);
+    /// counts past the cap cannot be attributed and stay as they are
+    pub fn remove_subtree(&self, path: &str) {
+        let mut inner = self.inner.lock().unwrap();
+        inner
+            .by_path
+            .retain(|problem, _| !crate::cache::is_same_or_descendant(problem, path));
+    }
+
+    pub fn report(&self) -> ProblemReport {
+        let inner = self.inner.lock().unwrap();
+        let mut problems: Vec<Problem> = inner.by_path.values().cloned().collect();
+        problems.sort_by(|a, b| a.path.cmp(&b.path));
+
+        let mut counts: HashMap<ProblemKind, u64> = HashMap::new();
+        for problem in &problems {
+            *counts.entry(problem.kind).or_default() += 1;
+        }
+        let mut counts: Vec<ProblemCount> = counts
+            .into_iter()
+            .map(|(kind, count)| ProblemCount { kind, count })
+            .collect();
+        counts.sort_by(|a, b| b.count.cmp(&a.count));
+
+        ProblemReport {
+            problems,
+            counts,
+            unlisted: inner.unlisted,
+        }
+    }
+}
@@ -0,0 +1,287 @@
+use crate::sizing;
+use ignore::gitignore::{Gitignore, GitignoreBuilder};
+use serde::{Deserialize, Serialize};
+use std::fs;
+use std::hash::{DefaultHasher, Hash, Hasher};
+use std::path::Path;
+
+/// 扫描规则（由前端随 analyze_directory 传入）：gitignore 风格的排除与例外模式、最大深度、不跨文件系统
+/// Scan rules (sent by the frontend with analyze_directory): gitignore-style exclude and include patterns,
+/// a maximum depth and staying on one filesystem
+#[derive(Deserialize, Serialize, Default, Clone, Debug, Hash)]
+pub struct ScanRules {
+    #[serde(default)]
+    pub exclude: Vec<String>,
+    /// 例外模式：重新包含被较宽泛的排除模式命中的路径
+    /// Include patterns: bring back paths matched by a broader exclude pattern
+    #[serde(default)]
+    pub include: Vec<String>,
+    /// 根目录下最多进入的目录层数（None 为不限制） / Folder levels below the root to enter (None for no limit)
+    pub max_depth: Option<usize>,
+    /// 不进入挂载在其他文件系统上的目录 / Do not enter folders mounted from another filesystem
+    #[serde(default)]
+    pub one_filesystem: bool,
+}
+
+/// 条目被排除的原因
+/// Why an entry was excluded
+#[derive(Serialize, Clone, Copy, Debug, PartialEq, Eq)]
+#[serde(rename_all = "lowercase")]
+pub enum ExcludeReason {
+    Pattern,
+    Depth,
+    Filesystem,
+}
+
+/// 针对某个扫描根目录编译好的规则
+/// Rules compiled against one scan root
+pub struct CompiledRules {
+    matcher: Option<Gitignore>,
+    root_depth: usize,
+    max_depth: Option<usize>,
+    root_device: Option<u64>,
+    fingerprint: u64,
+}
+
+impl CompiledRules {
+    /// 不排除任何内容的规则
+    /// Rules that exclude nothing
+    pub fn none() -> Self {
+        Self {
+            matcher: None,
+            root_depth: 0,
+            max_depth: None,
+            root_device: None,
+            fingerprint: 0,
+        }
+    }
+
+    /// 以 root 为基准编译规则；模式无效时返回错误
+    /// Compile the rules against `root`; invalid patterns are reported as errors
+    pub fn compile(rules: &ScanRules, root: &str) -> Result<Self, String> {
+        let exclude: Vec<&str> = non_blank(&rules.exclude);
+        let include: Vec<&str> = non_blank(&rules.include);
+
+        // 例外模式以 "!" 形式追加在排除模式之后，按 gitignore 规则后出现者优先
+        // Include patterns are appended as "!" lines after the excludes; as in gitignore, later lines win
+        let matcher = if exclude.is_empty() {
+            None
+        } else {
+            let mut builder = GitignoreBuilder::new(root);
+            for line in &exclude {
+                builder
+                    .add_line(None, line)
+                    .map_err(|e| format!("{}: {}", line, e))?;
+            }
+            for line in &include {
+                builder
+                    .add_line(None, &format!("!{}", line))
+                    .map_err(|e| format!("{}: {}", line, e))?;
+            }
+            Some(builder.build().map_err(|e| e.to_string())?)
+        };
+
+        // 无法确定根目录所在文件系统时拒绝该选项，而不是静默忽略
+        // When the root's filesystem cannot be determined the option is rejected rather than silently ignored
+        let root_device = if rules.one_filesystem {
+            let device = fs::metadata(root)
+                .ok()
+                .and_then(|meta| sizing::device_of(Path::new(root), &meta))
+                .ok_or_else(|| {
+                    format!("Cannot tell which filesystem {} is on to stay on it", root)
+                })?;
+            Some(device)
+        } else {
+            None
+        };
+
+        let is_empty = matcher.is_none() && rules.max_depth.is_none() && root_device.is_none();
+        let fingerprint = if is_empty {
+            0
+        } else {
+            // 深度与锚定模式都相对于根目录，因此根目录也参与指纹
+            // Depth and anchored patterns are relative to the root, so the root is part of the fingerprint
+            let mut hasher = DefaultHasher::new();
+            (rules, root).hash(&mut hasher);
+            hasher.finish().max(1)
+        };
+
+        Ok(Self {
+            matcher,
+            root_depth: Path::new(root).components().count(),
+            max_depth: rules.max_depth,
+            root_device,
+            fingerprint,
+        })
+    }
+
+    /// 规则指纹（没有任何规则时为 0），缓存条目据此区分不同规则下的结果
+    /// Fingerprint of the rules (0 when there are none); cache entries use it to tell results apart
+    pub fn fingerprint(&self) -> u64 {
+        self.fingerprint
+    }
+
+    /// 条目被排除的原因；未被排除时为 None
+    /// Why an entry is excluded; None when it is not
+    pub fn exclusion(&self, path: &Path, meta: &fs::Metadata) -> Option<ExcludeReason> {
+        if self
+            .matcher
+            .as_ref()
+            .is_some_and(|matcher| matcher.matched(path, meta.is_dir()).is_ignore())
+        {
+            return Some(ExcludeReason::Pattern);
+        }
+
+        if !meta.is_dir() {
+            return None;
+        }
+
+        let depth = path.components().count().saturating_sub(self.root_depth);
+        if self.max_depth.is_some_and(|max_depth| depth > max_depth) {
+            return Some(ExcludeReason::Depth);
+        }
+
+        if let Some(root_device) = self.root_device {
+            if sizing::device_of(path, meta).is_some_and(|device| device != root_device) {
+                return Some(ExcludeReason::Filesystem);
+            }
+        }
+
+        None
+    }
+}
+
+fn non_blank(lines: &[String]) -> Vec<&str> {
+    lines
+        .iter()
+        .map(|line| line.trim())
+        .filter(|line| !line.is_empty())
+        .collect()
+}
+
+#[cfg(test)]
+mod tests {
+    use super::*;
+    use std::path::PathBuf;
+
+    /// 测试用的临时目录，按测试名区分 / Scratch folder for one test, named after it
+    fn scratch(name: &str) -> PathBuf {
+        let dir = std::env::temp_dir().join(format!(
+            "folder-insight-rules-{}-{}",
+            std::process::id(),
+            name
+        ));
+        let _ = fs::remove_dir_all(&dir);
+        fs::create_dir_all(&dir).unwrap();
+        dir
+    }
+
+    fn exclusion_of(rules: &CompiledRules, path: &Path) -> Option<ExcludeReason> {
+        rules.exclusion(path, &fs::metadata(path).unwrap())
+    }
+
+    #[test]
+    fn no_rules_exclude_nothing() {
+        let dir = scratch("none");
+        let compiled =
+            CompiledRules::compile(&ScanRules::default(), dir.to_str().unwrap()).unwrap();
+
+        assert_eq!(compiled.fingerprint(), 0);
+        assert_eq!(exclusion_of(&compiled, &dir), None);
+        assert_eq!(CompiledRules::none().fingerprint(), 0);
+        fs::remove_dir_all(&dir).unwrap();
+    }
+
+    #[test]
+    fn include_patterns_override_excludes() {
+        let dir = scratch("patterns");
+        for name in ["debug.log", "keep.log", "notes.txt"] {
+            fs::write(dir.join(name), b"x").unwrap();
+        }
+        fs::create_dir(dir.join("build")).unwrap();
+        let rules = ScanRules {
+            exclude: vec!["*.log".into(), "build/".into(), "  ".into()],
+            include: vec!["keep.log".into()],
+            ..ScanRules::default()
+        };
+        let compiled = CompiledRules::compile(&rules, dir.to_str().unwrap()).unwrap();
+
+        assert_ne!(compiled.fingerprint(), 0);
+        assert_eq!(
+            exclusion_of(&compiled, &dir.join("debug.log")),
+            Some(ExcludeReason::Pattern)
+        );
+        assert_eq!(exclusion_of(&compiled, &dir.join("keep.log")), None);
+        assert_eq!(exclusion_of(&compiled, &dir.join("notes.txt")), None);
+        assert_eq!(
+            exclusion_of(&compiled, &dir.join("build")),
+            Some(ExcludeReason::Pattern)
+        );
+        fs::remove_dir_all(&dir).unwrap();
+    }
+
+    #[test]
+    fn invalid_patterns_are_reported() {
+        let rules = ScanRules {
+            exclude: vec!["[unclosed".into()],
+            ..ScanRules::default()
+        };
+
+        assert!(CompiledRules::compile(&rules, "/").is_err());
+    }
+
+    #[test]
+    fn depth_limits_folders_but_not_files() {
+        let dir = scratch("depth");
+        fs::create_dir_all(dir.join("a").join("b")).unwrap();
+        fs::write(dir.join("a").join("file"), b"x").unwrap();
+        let rules = ScanRules {
+            max_depth: Some(1),
+            ..ScanRules::default()
+        };
+        let compiled = CompiledRules::compile(&rules, dir.to_str().unwrap()).unwrap();
+
+        assert_eq!(exclusion_of(&compiled, &dir.join("a")), None);
+        assert_eq!(exclusion_of(&compiled, &dir.join("a").join("file")), None);
+        assert_eq!(
+            exclusion_of(&compiled, &dir.join("a").join("b")),
+            Some(ExcludeReason::Depth)
+        );
+        fs::remove_dir_all(&dir).unwrap();
+    }
+
+    #[test]
+    fn fingerprint_depends_on_rules_and_root() {
+        let rules = ScanRules {
+            max_depth: Some(2),
+            ..ScanRules::default()
+        };
+        let deeper = ScanRules {
+            max_depth: Some(3),
+            ..ScanRules::default()
+        };
+        let fingerprint = |rules: &ScanRules, root: &str| {
+            CompiledRules::compile(rules, root).unwrap().fingerprint()
+        };
+
+        assert_eq!(fingerprint(&rules, "/a"), fingerprint(&rules, "/a"));
+        assert_ne!(fingerprint(&rules, "/a"), fingerprint(&deeper, "/a"));
+        assert_ne!(fingerprint(&rules, "/a"), fingerprint(&rules, "/b"));
+    }
+
+    #[cfg(any(unix, windows))]
+    #[test]
+    fn one_filesystem_keeps_folders_on_the_root_filesystem() {
+        let dir = scratch("filesystem");
+        fs::create_dir(dir.join("inner")).unwrap();
+        let rules = ScanRules {
+            one_filesystem: true,
+            ..ScanRules::default()
+        };
+        let compiled = CompiledRules::compile(&rules, dir.to_str().unwrap()).unwrap();
+
+        assert_ne!(compiled.fingerprint(), 0);
+        assert_eq!(exclusion_of(&compiled, &dir.join("inner")), None);
+        fs::remove_dir_all(&dir).unwrap();
+    }
+}
@@ -0,0 +1,246 @@
+use serde::Serialize;
+use std::path::Path;
+use std::process::Command;
+
+/// 当前平台可用的系统操作；不可用的操作在界面中隐藏
+/// System actions available on this platform; unavailable ones are hidden in the UI
+#[derive(Serialize, Clone, Copy, Debug)]
+pub struct PlatformActions {
+    /// 在文件管理器中显示 / Reveal in the file manager
+    pub reveal: bool,
+    /// 用默认程序打开文件 / Open a file with its default application
+    pub open: bool,
+    /// 在目录中打开终端 / Open a terminal in a folder
+    pub terminal: bool,
+}
+
+/// 启动程序而不等待它结束；由后台线程回收子进程，不会留下僵尸进程
+/// Start a program without waiting for it; a background thread reaps the child so no zombie is left behind
+fn spawn(command: &mut Command) -> Result<(), String> {
+    let mut child = command.spawn().map_err(|e| e.to_string())?;
+    std::thread::spawn(move || {
+        let _ = child.wait();
+    });
+    Ok(())
+}
+
+/// 终端所在的目录：文件取其父目录
+/// Folder to open a terminal in: the parent for files
+fn terminal_dir(path: &Path) -> &Path {
+    if path.is_dir() {
+        path
+    } else {
+        path.parent().unwrap_or(path)
+    }
+}
+
+#[cfg(target_os = "windows")]
+pub fn actions() -> PlatformActions {
+    PlatformActions {
+        reveal: true,
+        open: true,
+        terminal: true,
+    }
+}
+
+/// 目录直接打开，文件在所在目录中选中
+/// Folders are opened, files are selected in their folder
+#[cfg(target_os = "windows")]
+pub fn reveal(path: &Path) -> Result<(), String> {
+    if path.is_dir() {
+        spawn(Command::new("explorer").arg(path))
+    } else {
+        let mut select = std::ffi::OsString::from("/select,");
+        select.push(path);
+        spawn(Command::new("explorer").arg(select))
+    }
+}
+
+#[cfg(target_os = "windows")]
+pub fn open(path: &Path) -> Result<(), String> {
+    spawn(Command::new("explorer").arg(path))
+}
+
+/// 优先使用 Windows Terminal，没有时打开 cmd
+/// Windows Terminal when installed, cmd otherwise
+#[cfg(target_os = "windows")]
+pub fn open_terminal(path: &Path) -> Result<(), String> {
+    let dir = terminal_dir(path);
+    spawn(Command::new("wt").arg("-d").arg(dir)).or_else(|_| {
+        spawn(
+            Command::new("cmd")
+                .args(["/C", "start", "cmd"])
+                .current_dir(dir),
+        )
+    })
+}
+
+#[cfg(target_os = "macos")]
+pub fn actions() -> PlatformActions {
+    PlatformActions {
+        reveal: true,
+        open: true,
+        terminal: true,
+    }
+}
+
+#[cfg(target_os = "macos")]
+pub fn reveal(path: &Path) -> Result<(), String> {
+    if path.is_dir() {
+        spawn(Command::new("open").arg(path))
+    } else {
+        spawn(Command::new("open").arg("-R").arg(path))
+    }
+}
+
+#[cfg(target_os = "macos")]
+pub fn open(path: &Path) -> Result<(), String> {
+    spawn(Command::new("open").arg(path))
+}
+
+#[cfg(target_os = "macos")]
+pub fn open_terminal(path: &Path) -> Result<(), String> {
+    spawn(
+        Command::new("open")
+            .args(["-a", "Terminal"])
+            .arg(terminal_dir(path)),
+    )
+}
+
+/// 依次尝试的终端程序（$TERMINAL 优先）
+/// Terminal programs tried in order ($TERMINAL first)
+#[cfg(target_os = "linux")]
+const LINUX_TERMINALS: &[&str] = &[
+    "x-terminal-emulator",
+    "gnome-terminal",
+    "konsole",
+    "xfce4-terminal",
+    "kitty",
+    "alacritty",
+    "xterm",
+];
+
+#[cfg(target_os = "linux")]
+fn linux_terminals() -> Vec<String> {
+    std::env::var("TERMINAL")
+        .ok()
+        .filter(|terminal| !terminal.is_empty())
+        .into_iter()
+        .chain(LINUX_TERMINALS.iter().map(|terminal| terminal.to_string()))
+        .collect()
+}
+
+/// PATH 中是否有该程序 / Whether the program is on PATH
+#[cfg(target_os = "linux")]
+fn in_path(program: &str) -> bool {
+    std::env::var_os("PATH")
+        .is_some_and(|paths| std::env::split_paths(&paths).any(|dir| dir.join(program).is_file()))
+}
+
+#[cfg(target_os = "linux")]
+pub fn actions() -> PlatformActions {
+    PlatformActions {
+        reveal: in_path("dbus-send") || in_path("xdg-open"),
+        open: in_path("xdg-open"),
+        terminal: linux_terminals().iter().any(|terminal| in_path(terminal)),
+    }
+}
+
+/// file:// URI（对保留字符做百分号编码，逗号也会被编码，不会被 dbus-send 当作数组分隔符）
+/// file:// URI (reserved characters are percent-encoded, commas included, so dbus-send does not
+/// split the array on them)
+#[cfg(target_os = "linux")]
+fn file_uri(path: &Path) -> String {
+    use std::os::unix::ffi::OsStrExt;
+
+    let mut uri = String::from("file://");
+    for &byte in path.as_os_str().as_bytes() {
+        if byte.is_ascii_alphanumeric() || b"/-._~".contains(&byte) {
+            uri.push(byte as char);
+        } else {
+            uri.push_str(&format!("%{byte:02X}"));
+        }
+    }
+    uri
+}
+
+/// 通过 org.freedesktop.FileManager1 D-Bus 接口显示；没有文件管理器提供该接口时用 xdg-open 打开所在目录。
+/// 会等待 D-Bus 回复（最多 2 秒），调用方应在阻塞线程中调用
+/// Shown through the org.freedesktop.FileManager1 D-Bus interface; when no file manager provides it,
+/// the containing folder is opened with xdg-open. Waits up to 2 s for the D-Bus reply, so callers should
+/// run it on a blocking thread.
+#[cfg(target_os = "linux")]
+pub fn reveal(path: &Path) -> Result<(), String> {
+    use std::process::Stdio;
+
+    let is_dir = path.is_dir();
+    let method = if is_dir { "ShowFolders" } else { "ShowItems" };
+    let shown = Command::new("dbus-send")
+        .args([
+            "--session",
+            "--print-reply",
+            "--reply-timeout=2000",
+            "--dest=org.freedesktop.FileManager1",
+            "--type=method_call",
+            "/org/freedesktop/FileManager1",
+        ])
+        .arg(format!("org.freedesktop.FileManager1.{method}"))
+        .arg(format!("array:string:{}", file_uri(path)))
+        .arg("string:")
+        .stdout(Stdio::null())
+        .stderr(Stdio::null())
+        .status()
+        .is_ok_and(|status| status.success());
+    if shown {
+        return Ok(());
+    }
+
+    let folder = if is_dir {
+        path
+    } else {
+        path.parent().unwrap_or(path)
+    };
+    spawn(Command::new("xdg-open").arg(folder))
+}
+
+#[cfg(target_os = "linux")]
+pub fn open(path: &Path) -> Result<(), String> {
+    spawn(Command::new("xdg-open").arg(path))
+}
+
+#[cfg(target_os = "linux")]
+pub fn open_terminal(path: &Path) -> Result<(), String> {
+    let dir = terminal_dir(path);
+    let mut last_error = "No terminal emulator found".to_string();
+    for terminal in linux_terminals() {
+        match spawn(Command::new(&terminal).current_dir(dir)) {
+            Ok(()) => return Ok(()),
+            Err(err) => last_error = format!("{terminal}: {err}"),
+        }
+    }
+    Err(last_error)
+}
+
+#[cfg(not(any(target_os = "windows", target_os = "macos", target_os = "linux")))]
+pub fn actions() -> PlatformActions {
+    PlatformActions {
+        reveal: false,
+        open: false,
+        terminal: false,
+    }
+}
+
+#[cfg(not(any(target_os = "windows", target_os = "macos", target_os = "linux")))]
+pub fn reveal(_path: &Path) -> Result<(), String> {
+    Err("Not supported on this OS".to_string())
+}
+
+#[cfg(not(any(target_os = "windows", target_os = "macos", target_os = "linux")))]
+pub fn open(_path: &Path) -> Result<(), String> {
+    Err("Not supported on this OS".to_string())
+}
+
+#[cfg(not(any(target_os = "windows", target_os = "macos", target_os = "linux")))]
+pub fn open_terminal(_path: &Path) -> Result<(), String> {
+    Err("Not supported on this OS".to_string())
+}
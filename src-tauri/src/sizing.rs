@@ -0,0 +1,247 @@
+use crate::cache;
+use serde::{Deserialize, Serialize};
+use std::collections::HashMap;
+use std::fs;
+use std::io;
+use std::path::Path;
+use std::sync::Mutex;
+
+/// 非 Unix 平台估算占用空间时使用的簇大小
+/// Cluster size used to estimate allocated space on non-Unix platforms
+#[cfg(not(unix))]
+const CLUSTER_SIZE: u64 = 4096;
+
+/// 大小口径：文件的表观大小，或在磁盘上实际占用的空间（按块计算）
+/// Size mode: a file's apparent size, or the space it actually occupies on disk (block based)
+#[derive(Serialize, Deserialize, Clone, Copy, Debug, Default, PartialEq, Eq)]
+#[serde(rename_all = "lowercase")]
+pub enum SizeMode {
+    #[default]
+    Apparent,
+    Allocated,
+}
+
+/// 符号链接的处理方式：跳过、只统计链接本身、跟随到目标（带环路检测）
+/// How symlinks are handled: skipped, the link itself counted, or followed to the target (with loop detection)
+#[derive(Serialize, Deserialize, Clone, Copy, Debug, Default, PartialEq, Eq)]
+#[serde(rename_all = "lowercase")]
+pub enum SymlinkPolicy {
+    #[default]
+    Skip,
+    Link,
+    Follow,
+}
+
+/// 一次扫描的大小统计规则；缓存条目记录产生它的规则，规则不同的条目不会被复用
+/// Size accounting rules of a scan; cache entries remember the rules that produced them
+/// and are not reused under different ones
+#[derive(Serialize, Deserialize, Clone, Copy, Debug, Default, PartialEq, Eq)]
+pub struct SizePolicy {
+    pub mode: SizeMode,
+    pub symlinks: SymlinkPolicy,
+}
+
+impl SizePolicy {
+    /// 按大小口径计算单个文件的大小
+    /// Size of one file under the size mode
+    pub fn size_of(&self, meta: &fs::Metadata) -> u64 {
+        match self.mode {
+            SizeMode::Apparent => meta.len(),
+            SizeMode::Allocated => allocated_size(meta),
+        }
+    }
+
+    /// 按符号链接策略读取条目元数据，返回 (用于统计的元数据, 是否为符号链接)；按策略跳过时为 Ok(None)，
+    /// 条目本身无法读取时返回错误
+    /// Read an entry's metadata under the symlink policy and return (metadata to count, whether it is a symlink);
+    /// Ok(None) when the policy skips the entry, an error when the entry itself cannot be read
+    pub fn entry_metadata(&self, path: &Path) -> io::Result<Option<(fs::Metadata, bool)>> {
+        let meta = fs::symlink_metadata(path)?;
+        if !meta.file_type().is_symlink() {
+            return Ok(Some((meta, false)));
+        }
+
+        Ok(match self.symlinks {
+            SymlinkPolicy::Skip => None,
+            SymlinkPolicy::Link => Some((meta, true)),
+            // 目标不存在的链接视为跳过 / Dangling links are skipped
+            SymlinkPolicy::Follow => fs::metadata(path).ok().map(|target| (target, true)),
+        })
+    }
+}
+
+#[cfg(unix)]
+fn allocated_size(meta: &fs::Metadata) -> u64 {
+    use std::os::unix::fs::MetadataExt;
+    // st_blocks 固定以 512 字节为单位 / st_blocks is always in 512-byte units
+    meta.blocks() * 512
+}
+
+/// 无法直接读取分配块数时，按簇大小向上取整估算（稀疏与压缩文件会偏大）
+/// Without access to the allocated block count, round up to the cluster size
+/// (overestimates sparse and compressed files)
+#[cfg(not(unix))]
+fn allocated_size(meta: &fs::Metadata) -> u64 {
+    meta.len().div_ceil(CLUSTER_SIZE) * CLUSTER_SIZE
+}
+
+/// 文件的 (设备, inode)，用于识别同一文件的硬链接；不支持的平台返回 None
+/// A file's (device, inode), used to recognise hard links to the same file; None where unsupported
+#[cfg(unix)]
+pub fn file_id(meta: &fs::Metadata) -> Option<(u64, u64)> {
+    use std::os::unix::fs::MetadataExt;
+    Some((meta.dev(), meta.ino()))
+}
+
+#[cfg(not(unix))]
+pub fn file_id(_meta: &fs::Metadata) -> Option<(u64, u64)> {
+    None
+}
+
+/// 条目所在文件系统的标识：Unix 上为设备号，Windows 上为卷序列号（按卷挂载路径解析，
+/// 挂载到文件夹的卷也能区分）；无法确定或不支持的平台返回 None
+/// Identifier of the filesystem holding an entry: the device number on Unix, the volume serial number on
+/// Windows (resolved through the volume mount path, so volumes mounted into folders are told apart).
+/// None when it cannot be determined or the platform is unsupported.
+#[cfg(unix)]
+pub fn device_of(_path: &Path, meta: &fs::Metadata) -> Option<u64> {
+    use std::os::unix::fs::MetadataExt;
+    Some(meta.dev())
+}
+
+#[cfg(windows)]
+pub fn device_of(path: &Path, _meta: &fs::Metadata) -> Option<u64> {
+    use std::os::windows::ffi::OsStrExt;
+
+    extern "system" {
+        fn GetVolumePathNameW(file_name: *const u16, volume_path: *mut u16, len: u32) -> i32;
+        fn GetVolumeInformationW(
+            root: *const u16,
+            name: *mut u16,
+            name_len: u32,
+            serial: *mut u32,
+            max_component: *mut u32,
+            flags: *mut u32,
+            fs_name: *mut u16,
+            fs_name_len: u32,
+        ) -> i32;
+    }
+
+    let wide: Vec<u16> = path.as_os_str().encode_wide().chain(Some(0)).collect();
+    // 卷挂载路径不会比条目路径更长（末尾可能多一个反斜杠）
+    // The volume mount path is never longer than the entry path (plus a possible trailing backslash)
+    let mut volume = vec![0u16; wide.len() + 1];
+    if unsafe { GetVolumePathNameW(wide.as_ptr(), volume.as_mut_ptr(), volume.len() as u32) } == 0 {
+        return None;
+    }
+
+    let mut serial = 0u32;
+    let ok = unsafe {
+        GetVolumeInformationW(
+            volume.as_ptr(),
+            std::ptr::null_mut(),
+            0,
+            &mut serial,
+            std::ptr::null_mut(),
+            std::ptr::null_mut(),
+            std::ptr::null_mut(),
+            0,
+        )
+    };
+    (ok != 0).then_some(serial as u64)
+}
+
+#[cfg(not(any(unix, windows)))]
+pub fn device_of(_path: &Path, _meta: &fs::Metadata) -> Option<u64> {
+    None
+}
+
+/// 指向同一 inode 的硬链接数量
+/// Number of hard links pointing at the same inode
+#[cfg(unix)]
+pub fn link_count(meta: &fs::Metadata) -> u64 {
+    use std::os::unix::fs::MetadataExt;
+    meta.nlink()
+}
+
+#[cfg(not(unix))]
+pub fn link_count(_meta: &fs::Metadata) -> u64 {
+    1
+}
+
+/// 记录每个 inode 由哪个路径计入：硬链接与跟随到的同一目标只统计一次。由哪个路径计入取决于并行遍历的先后，
+/// 因此含这类文件的目录不复用缓存，每次扫描都重新认领
+/// Remembers which path each inode was counted under, so hard links and repeated link targets count once.
+/// Which path wins depends on the order of the parallel walk, so folders holding such files are never reused
+/// from the cache and every scan claims them again
+#[derive(Default)]
+pub struct LinkTracker {
+    owners: Mutex<HashMap<(u64, u64), String>>,
+}
+
+impl LinkTracker {
+    /// 尝试由 path 计入该 inode；已由其他路径计入时返回 false（同一路径重新计算时仍返回 true）
+    /// Try to count the inode under `path`; false when another path already counted it
+    /// (recomputing the same path still returns true)
+    pub fn claim(&self, id: (u64, u64), path: &str) -> bool {
+        let mut owners = self.owners.lock().unwrap();
+        owners.entry(id).or_insert_with(|| path.to_string()) == path
+    }
+
+    /// 释放某路径及其后代持有的 inode（文件被删除时），其他链接下次计算时可计入
+    /// Release the inodes held by a path and its descendants (when files are removed)
+    /// so other links can count them on the next computation
+    pub fn release_subtree(&self, path: &str) {
+        self.owners
+            .lock()
+            .unwrap()
+            .retain(|_, owner| !cache::is_same_or_descendant(owner, path));
+    }
+}
+
+#[cfg(test)]
+mod tests {
+    use super::*;
+
+    #[test]
+    fn first_path_owns_an_inode() {
+        let links = LinkTracker::default();
+
+        assert!(links.claim((1, 10), "/a/one"));
+        assert!(!links.claim((1, 10), "/b/two"));
+        // 同一路径重新计算时仍然计入 / Recomputing the same path still counts it
+        assert!(links.claim((1, 10), "/a/one"));
+        // 其他设备上的同号 inode 是另一个文件 / The same inode number on another device is another file
+        assert!(links.claim((2, 10), "/b/two"));
+    }
+
+    #[test]
+    fn releasing_a_subtree_lets_other_links_count() {
+        let links = LinkTracker::default();
+        links.claim((1, 10), "/a/sub/one");
+        links.claim((1, 11), "/a/subway/two");
+        links.claim((1, 12), "/c/three");
+
+        links.release_subtree("/a/sub");
+
+        assert!(links.claim((1, 10), "/b/one"));
+        assert!(!links.claim((1, 11), "/b/two"));
+        assert!(!links.claim((1, 12), "/b/three"));
+    }
+
+    #[cfg(unix)]
+    #[test]
+    fn hard_links_share_a_file_id() {
+        let dir = std::env::temp_dir().join(format!("folder-insight-links-{}", std::process::id()));
+        let _ = fs::remove_dir_all(&dir);
+        fs::create_dir_all(&dir).unwrap();
+        fs::write(dir.join("one"), b"data").unwrap();
+        fs::hard_link(dir.join("one"), dir.join("two")).unwrap();
+
+        let one = fs::metadata(dir.join("one")).unwrap();
+        let two = fs::metadata(dir.join("two")).unwrap();
+        assert_eq!(file_id(&one), file_id(&two));
+        assert_eq!(link_count(&one), 2);
+        fs::remove_dir_all(&dir).unwrap();
+    }
+}
@@ -0,0 +1,124 @@
+use crate::cache::{self, CacheKey, SizeCache};
+use crate::rules::CompiledRules;
+use crate::sizing::SizePolicy;
+use rayon::prelude::*;
+use serde::Serialize;
+use std::collections::HashMap;
+use std::fs;
+use std::path::Path;
+
+/// 快照中单独列出的文件的最小大小；更小的文件只计入所在目录
+/// Smallest file listed on its own in a snapshot; smaller files only count towards their folder
+pub const MIN_FILE_SIZE: u64 = 1024 * 1024;
+
+/// 快照中的一个条目：已计算完成的目录，或其中不小于 MIN_FILE_SIZE 的文件
+/// One entry of a snapshot: a computed folder, or a file of at least MIN_FILE_SIZE inside one
+#[derive(Serialize, Clone, Debug)]
+pub struct SnapshotNode {
+    name: String,
+    path: String,
+    is_dir: bool,
+    size: u64,
+    file_count: u64,
+    children: Vec<SnapshotNode>,
+}
+
+/// 用本次会话计算过的 root 及其后代目录（统计条件相同；从磁盘缓存恢复而尚未重新汇总的条目不计入）构建快照树，
+/// 并按扫描规则读取每个目录中的大文件；root 尚未计算完成时返回 None
+/// Build the snapshot tree of `root` from the folders under it computed in this session (same conditions;
+/// entries restored from the disk cache and not added up again are left out) and read the large files of
+/// each folder under the scan rules. None while `root` itself is not computed yet.
+pub fn build(
+    cache: &SizeCache,
+    root: &str,
+    key: &CacheKey,
+    rules: &CompiledRules,
+    policy: SizePolicy,
+) -> Option<SnapshotNode> {
+    let entries: HashMap<String, (u64, u64)> = cache
+        .lock()
+        .unwrap()
+        .iter()
+        .filter(|(path, entry)| {
+            entry.key == *key && !entry.restored && cache::is_same_or_descendant(path, root)
+        })
+        .map(|(path, entry)| (path.clone(), (entry.totals.size, entry.totals.file_count)))
+        .collect();
+    if !entries.contains_key(root) {
+        return None;
+    }
+
+    let dirs: Vec<&String> = entries.keys().collect();
+    let mut files_of: HashMap<String, Vec<SnapshotNode>> = dirs
+        .par_iter()
+        .map(|path| (path.to_string(), large_files(path, rules, policy)))
+        .collect();
+    let mut dirs_of: HashMap<String, Vec<String>> = HashMap::new();
+    for path in dirs {
+        if path == root {
+            continue;
+        }
+        if let Some(parent) = Path::new(path).parent() {
+            dirs_of
+                .entry(parent.to_string_lossy().to_string())
+                .or_default()
+                .push(path.clone());
+        }
+    }
+
+    Some(build_node(root, &entries, &dirs_of, &mut files_of))
+}
+
+/// 目录中不小于 MIN_FILE_SIZE 的直接文件（无法读取的条目跳过）
+/// The direct files of a folder of at least MIN_FILE_SIZE (entries that cannot be read are skipped)
+fn large_files(dir: &str, rules: &CompiledRules, policy: SizePolicy) -> Vec<SnapshotNode> {
+    let Ok(entries) = fs::read_dir(dir) else {
+        return Vec::new();
+    };
+
+    entries
+        .flatten()
+        .filter_map(|entry| {
+            let path = entry.path();
+            let (meta, _) = policy.entry_metadata(&path).ok()??;
+            if meta.is_dir() || rules.exclusion(&path, &meta).is_some() {
+                return None;
+            }
+            let size = policy.size_of(&meta);
+            (size >= MIN_FILE_SIZE).then(|| SnapshotNode {
+                name: entry.file_name().to_string_lossy().to_string(),
+                path: path.to_string_lossy().to_string(),
+                is_dir: false,
+                size,
+                file_count: 1,
+                children: Vec::new(),
+            })
+        })
+        .collect()
+}
+
+fn build_node(
+    path: &str,
+    entries: &HashMap<String, (u64, u64)>,
+    dirs_of: &HashMap<String, Vec<String>>,
+    files_of: &mut HashMap<String, Vec<SnapshotNode>>,
+) -> SnapshotNode {
+    let (size, file_count) = entries[path];
+    let mut children = files_of.remove(path).unwrap_or_default();
+    for child in dirs_of.get(path).into_iter().flatten() {
+        children.push(build_node(child, entries, dirs_of, files_of));
+    }
+    children.sort_by(|a, b| b.size.cmp(&a.size));
+
+    SnapshotNode {
+        name: Path::new(path)
+            .file_name()
+            .map(|name| name.to_string_lossy().to_string())
+            .unwrap_or_else(|| path.to_string()),
+        path: path.to_string(),
+        is_dir: true,
+        size,
+        file_count,
+        children,
+    }
+}
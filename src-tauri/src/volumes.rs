@@ -0,0 +1,254 @@
+use serde::Serialize;
+use std::path::Path;
+
+/// Linux 上默认隐藏的伪文件系统与虚拟文件系统
+/// Pseudo and virtual filesystems hidden by default on Linux
+#[cfg(target_os = "linux")]
+const PSEUDO_FILESYSTEMS: &[&str] = &[
+    "autofs",
+    "binfmt_misc",
+    "bpf",
+    "cgroup",
+    "cgroup2",
+    "configfs",
+    "debugfs",
+    "devpts",
+    "devtmpfs",
+    "efivarfs",
+    "fusectl",
+    "hugetlbfs",
+    "mqueue",
+    "nsfs",
+    "overlay",
+    "proc",
+    "pstore",
+    "ramfs",
+    "rpc_pipefs",
+    "securityfs",
+    "sysfs",
+    "tmpfs",
+    "tracefs",
+];
+
+/// 一个已挂载的卷（容量单位为字节）
+/// One mounted volume (capacities in bytes)
+#[derive(Serialize, Clone, Debug)]
+pub struct Volume {
+    /// 挂载点（Windows 上为盘符根目录） / Mount point (the drive root on Windows)
+    pub mount_point: String,
+    /// 卷标或设备名 / Volume label or device name
+    pub name: String,
+    pub fs_type: String,
+    pub total: u64,
+    pub used: u64,
+    /// 当前用户可用的空间 / Space available to the current user
+    pub free: u64,
+    /// 伪文件系统（proc、sysfs、tmpfs 等），界面默认隐藏
+    /// Pseudo filesystem (proc, sysfs, tmpfs...), hidden by default in the UI
+    pub pseudo: bool,
+}
+
+/// 包含 path 的卷：挂载点为 path 祖先中最长的那个
+/// The volume holding `path`: the one whose mount point is its longest ancestor
+pub fn volume_of(path: &str) -> Option<Volume> {
+    let path = Path::new(path);
+    list()
+        .into_iter()
+        .filter(|volume| path.starts_with(&volume.mount_point))
+        .max_by_key(|volume| Path::new(&volume.mount_point).components().count())
+}
+
+/// 列出已挂载的卷（同一挂载点只保留最后挂载的那个）
+/// List mounted volumes (only the latest mount of each mount point is kept)
+#[cfg(target_os = "linux")]
+pub fn list() -> Vec<Volume> {
+    let Ok(mounts) = std::fs::read_to_string("/proc/self/mounts") else {
+        return Vec::new();
+    };
+
+    let mut volumes: Vec<Volume> = Vec::new();
+    for line in mounts.lines() {
+        let mut fields = line.split_whitespace();
+        let (Some(device), Some(mount_point), Some(fs_type)) =
+            (fields.next(), fields.next(), fields.next())
+        else {
+            continue;
+        };
+
+        let mount_point = unescape_mount_field(mount_point);
+        let Some((total, used, free)) = statvfs_space(&mount_point) else {
+            continue;
+        };
+        volumes.retain(|volume| volume.mount_point != mount_point);
+        volumes.push(Volume {
+            name: unescape_mount_field(device),
+            fs_type: fs_type.to_string(),
+            pseudo: PSEUDO_FILESYSTEMS.contains(&fs_type),
+            mount_point,
+            total,
+            used,
+            free,
+        });
+    }
+    volumes
+}
+
+/// /proc/self/mounts 以八进制转义空格等字符（例如 "\040"）
+/// /proc/self/mounts escapes spaces and similar characters in octal (e.g. "\040")
+#[cfg(target_os = "linux")]
+fn unescape_mount_field(field: &str) -> String {
+    let bytes = field.as_bytes();
+    let mut out = Vec::with_capacity(bytes.len());
+    let mut i = 0;
+    while i < bytes.len() {
+        let octal = bytes.get(i + 1..i + 4).and_then(|digits| {
+            std::str::from_utf8(digits)
+                .ok()
+                .and_then(|digits| u8::from_str_radix(digits, 8).ok())
+        });
+        match octal {
+            Some(byte) if bytes[i] == b'\\' => {
+                out.push(byte);
+                i += 4;
+            }
+            _ => {
+                out.push(bytes[i]);
+                i += 1;
+            }
+        }
+    }
+    String::from_utf8_lossy(&out).to_string()
+}
+
+/// 以 statvfs 读取 (总量, 已用, 可用) / Read (total, used, available) with statvfs
+#[cfg(unix)]
+fn statvfs_space(mount_point: &str) -> Option<(u64, u64, u64)> {
+    let path = std::ffi::CString::new(mount_point).ok()?;
+    let mut stat: libc::statvfs = unsafe { std::mem::zeroed() };
+    if unsafe { libc::statvfs(path.as_ptr(), &mut stat) } != 0 {
+        return None;
+    }
+
+    let fragment = stat.f_frsize as u64;
+    let total = stat.f_blocks as u64 * fragment;
+    let used = (stat.f_blocks as u64).saturating_sub(stat.f_bfree as u64) * fragment;
+    let free = stat.f_bavail as u64 * fragment;
+    Some((total, used, free))
+}
+
+#[cfg(target_os = "macos")]
+pub fn list() -> Vec<Volume> {
+    use std::ffi::CStr;
+
+    let mut mounts: *mut libc::statfs = std::ptr::null_mut();
+    let count = unsafe { libc::getmntinfo(&mut mounts, libc::MNT_NOWAIT) };
+    if count <= 0 || mounts.is_null() {
+        return Vec::new();
+    }
+
+    let mounts = unsafe { std::slice::from_raw_parts(mounts, count as usize) };
+    mounts
+        .iter()
+        .filter_map(|mount| {
+            let text = |chars: &[libc::c_char]| {
+                unsafe { CStr::from_ptr(chars.as_ptr()) }
+                    .to_string_lossy()
+                    .to_string()
+            };
+            let mount_point = text(&mount.f_mntonname);
+            let (total, used, free) = statvfs_space(&mount_point)?;
+            let fs_type = text(&mount.f_fstypename);
+            Some(Volume {
+                name: text(&mount.f_mntfromname),
+                pseudo: matches!(fs_type.as_str(), "devfs" | "autofs"),
+                fs_type,
+                mount_point,
+                total,
+                used,
+                free,
+            })
+        })
+        .collect()
+}
+
+#[cfg(windows)]
+pub fn list() -> Vec<Volume> {
+    use std::ffi::OsString;
+    use std::os::windows::ffi::{OsStrExt, OsStringExt};
+
+    extern "system" {
+        fn GetLogicalDrives() -> u32;
+        fn GetDiskFreeSpaceExW(
+            directory: *const u16,
+            free_to_caller: *mut u64,
+            total: *mut u64,
+            total_free: *mut u64,
+        ) -> i32;
+        fn GetVolumeInformationW(
+            root: *const u16,
+            name: *mut u16,
+            name_len: u32,
+            serial: *mut u32,
+            max_component: *mut u32,
+            flags: *mut u32,
+            fs_name: *mut u16,
+            fs_name_len: u32,
+        ) -> i32;
+    }
+
+    let to_string = |buffer: &[u16]| {
+        let len = buffer.iter().position(|&c| c == 0).unwrap_or(buffer.len());
+        OsString::from_wide(&buffer[..len])
+            .to_string_lossy()
+            .to_string()
+    };
+
+    let drives = unsafe { GetLogicalDrives() };
+    (0..26u8)
+        .filter(|bit| drives & (1 << bit) != 0)
+        .filter_map(|bit| {
+            let mount_point = format!("{}:\\", (b'A' + bit) as char);
+            let root: Vec<u16> = OsString::from(&mount_point)
+                .encode_wide()
+                .chain(Some(0))
+                .collect();
+
+            let (mut free, mut total, mut total_free) = (0u64, 0u64, 0u64);
+            if unsafe { GetDiskFreeSpaceExW(root.as_ptr(), &mut free, &mut total, &mut total_free) }
+                == 0
+            {
+                return None;
+            }
+
+            let mut name = [0u16; 261];
+            let mut fs_name = [0u16; 261];
+            unsafe {
+                GetVolumeInformationW(
+                    root.as_ptr(),
+                    name.as_mut_ptr(),
+                    name.len() as u32,
+                    std::ptr::null_mut(),
+                    std::ptr::null_mut(),
+                    std::ptr::null_mut(),
+                    fs_name.as_mut_ptr(),
+                    fs_name.len() as u32,
+                );
+            }
+
+            Some(Volume {
+                name: to_string(&name),
+                fs_type: to_string(&fs_name),
+                used: total.saturating_sub(total_free),
+                mount_point,
+                total,
+                free,
+                pseudo: false,
+            })
+        })
+        .collect()
+}
+
+#[cfg(not(any(target_os = "linux", target_os = "macos", windows)))]
+pub fn list() -> Vec<Volume> {
+    Vec::new()
+}
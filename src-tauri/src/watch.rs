@@ -0,0 +1,287 @@
+use crate::cache::{self, SizeCache};
+use crate::{compute_dir_size_recursive, persist_cache, ScanContext};
+use notify::{Config, Event, EventKind, RecommendedWatcher, RecursiveMode, Watcher};
+use serde::Serialize;
+use std::collections::HashSet;
+use std::path::{Path, PathBuf};
+use std::sync::atomic::{AtomicBool, Ordering};
+use std::sync::mpsc::{self, RecvTimeoutError};
+use std::sync::Arc;
+use std::thread;
+use std::time::{Duration, Instant};
+use tauri::{AppHandle, Emitter};
+
+/// 事件静默多久后处理一批变更（毫秒）
+/// Quiet period before a batch of changes is processed (ms)
+const DEBOUNCE_MS: u64 = 500;
+/// 持续有变更时，最长多久必须处理一次（毫秒）
+/// Upper bound for holding a batch while changes keep arriving (ms)
+const MAX_BATCH_MS: u64 = 3000;
+/// 原生监听不可用时的轮询间隔（秒）
+/// Poll interval when native watching is unavailable (s)
+const POLL_INTERVAL_SECS: u64 = 60;
+
+/// 一次监听会话；监听器由后台线程创建并持有，停止后随线程一起释放
+/// One watch session; the watcher is created and owned by the background thread and released with it once stopped
+pub struct WatchSession {
+    stop: Arc<AtomicBool>,
+}
+
+impl WatchSession {
+    pub fn stop(&self) {
+        self.stop.store(true, Ordering::Relaxed);
+    }
+}
+
+#[derive(Serialize, Clone, Debug)]
+pub struct WatchStatus {
+    watch_id: u64,
+    scan_id: u64,
+    root: String,
+    /// "starting" | "watching" | "polling" | "stopped"
+    state: &'static str,
+    /// 降级为轮询或无法开始监听的原因 / Why watching fell back to polling or could not start
+    reason: Option<String>,
+}
+
+/// 原生监听因系统限制失败时（inotify 监听数或实例数耗尽），给出可读原因
+/// Readable reason when native watching hits an OS limit (inotify watches or instances exhausted)
+fn limit_reason(err: &notify::Error) -> Option<String> {
+    let hit_limit = match &err.kind {
+        notify::ErrorKind::MaxFilesWatch => true,
+        notify::ErrorKind::Io(io_err) => matches!(io_err.raw_os_error(), Some(24) | Some(28)),
+        _ => false,
+    };
+    if !hit_limit {
+        return None;
+    }
+
+    let max_watches = std::fs::read_to_string("/proc/sys/fs/inotify/max_user_watches")
+        .ok()
+        .map(|s| s.trim().to_string());
+    Some(match max_watches {
+        Some(max) => format!(
+            "inotify limit reached (fs.inotify.max_user_watches = {})",
+            max
+        ),
+        None => "File watch limit reached".to_string(),
+    })
+}
+
+/// 创建递归的原生监听（大目录树上可能较慢，因此在后台线程中调用）
+/// Create the recursive native watcher (slow on large trees, so it is called on the background thread)
+fn create_watcher(
+    root: &Path,
+    tx: mpsc::Sender<notify::Result<Event>>,
+) -> notify::Result<RecommendedWatcher> {
+    let mut watcher = RecommendedWatcher::new(tx, Config::default())?;
+    watcher.watch(root, RecursiveMode::Recursive)?;
+    Ok(watcher)
+}
+
+fn emit_status(app: &AppHandle, status: &WatchStatus) {
+    let _ = app.emit("watch-status", status.clone());
+}
+
+/// 记录一个变更路径：其父目录需重新计算；已不存在的路径连同后代一起移出缓存
+/// Record one changed path: its parent must be recomputed; vanished paths leave the cache with their descendants
+fn collect_change(path: &Path, root: &str, cache: &SizeCache, dirty: &mut HashSet<String>) {
+    let path_str = path.to_string_lossy().to_string();
+    if !cache::is_same_or_descendant(&path_str, root) {
+        return;
+    }
+
+    if !path.exists() {
+        cache::remove_subtree(cache, &path_str);
+    }
+
+    let dir = if path_str == root {
+        path_str
+    } else {
+        match path.parent() {
+            Some(parent) => parent.to_string_lossy().to_string(),
+            None => return,
+        }
+    };
+    dirty.insert(dir);
+}
+
+/// 轮询一次：只检查本次会话已计算的目录自身的 mtime（每个目录一次 stat，不读取其中的文件），
+/// 与记录不同（条目增删或改名）的目录需重新计算；文件原地变大不会被发现
+/// Poll once: only the own mtime of each directory computed in this session is checked (one stat per
+/// directory, its files are not read); directories whose mtime differs from the record (entries added,
+/// removed or renamed) must be recomputed. Files growing in place are not noticed.
+fn poll_changes(root: &str, cache: &SizeCache, dirty: &mut HashSet<String>) {
+    let folders: Vec<(String, Option<u64>)> = cache
+        .lock()
+        .unwrap()
+        .iter()
+        .filter(|(path, entry)| !entry.restored && cache::is_same_or_descendant(path, root))
+        .map(|(path, entry)| (path.clone(), entry.mtime))
+        .collect();
+
+    for (path, mtime) in folders {
+        match cache::dir_mtime(Path::new(&path)) {
+            None => collect_change(Path::new(&path), root, cache, dirty),
+            Some(current) if Some(current) != mtime => {
+                dirty.insert(path);
+            }
+            Some(_) => {}
+        }
+    }
+}
+
+/// 重新计算变化的目录（由深到浅），并把大小变化通过 folder-size-updated 推送给祖先
+/// Recompute changed directories (deepest first) and push size deltas to ancestors via folder-size-updated
+fn flush_changes(
+    dirty: &mut HashSet<String>,
+    cache: &SizeCache,
+    cache_file: Option<&Path>,
+    ctx: &Arc<ScanContext>,
+) {
+    let mut dirs: Vec<String> = dirty.drain().collect();
+    dirs.sort_by_key(|dir| std::cmp::Reverse(Path::new(dir).components().count()));
+
+    let mut changed = false;
+    for dir in dirs {
+        if ctx.is_cancelled() {
+            return;
+        }
+
+        // 只处理已计算过的目录；尚未计算的会由正在进行的扫描得到最新结果
+        // Only directories computed before are stale; the running scan handles the rest
+        let previous = match cache.lock().unwrap().remove(&dir) {
+            Some(entry) => entry,
+            None => continue,
+        };
+
+        let Some(totals) =
+            compute_dir_size_recursive(dir.clone(), cache.clone(), ctx.clone(), false)
+        else {
+            return;
+        };
+
+        for (ancestor, entry) in
+            cache::apply_delta_to_ancestors(cache, &dir, &ctx.cache_key(), previous.totals, totals)
+        {
+            ctx.emit_size(ancestor, entry.totals);
+        }
+        changed = true;
+    }
+
+    if changed {
+        persist_cache(cache_file, cache);
+    }
+}
+
+/// 开始监听根目录：后台线程创建监听器（原生监听受限时改为轮询），合并事件后只重新计算变化的目录；
+/// 监听器就绪或无法创建时通过 watch-status 事件通知，此处返回的状态为 "starting"
+/// Start watching the root: a background thread creates the watcher (polling instead when native watching
+/// is limited), batches events and recomputes only changed directories. Readiness or failure is reported
+/// through the watch-status event; the status returned here is "starting".
+pub fn start(
+    watch_id: u64,
+    root: String,
+    ctx: Arc<ScanContext>,
+    cache: SizeCache,
+    cache_file: Option<PathBuf>,
+    app: AppHandle,
+) -> (WatchSession, WatchStatus) {
+    let stop = Arc::new(AtomicBool::new(false));
+    let status = WatchStatus {
+        watch_id,
+        scan_id: ctx.id,
+        root: root.clone(),
+        state: "starting",
+        reason: None,
+    };
+
+    let worker_stop = stop.clone();
+    let worker_root = root;
+    let worker_status = status.clone();
+    thread::spawn(move || {
+        // 保留发送端，轮询时通道也不会断开 / Keep a sender so the channel stays open while polling
+        let (tx, rx) = mpsc::channel();
+        let (watcher, reason) = match create_watcher(Path::new(&worker_root), tx.clone()) {
+            Ok(watcher) => (Some(watcher), None),
+            Err(err) => match limit_reason(&err) {
+                Some(reason) => (None, Some(reason)),
+                None => {
+                    emit_status(
+                        &app,
+                        &WatchStatus {
+                            state: "stopped",
+                            reason: Some(err.to_string()),
+                            ..worker_status
+                        },
+                    );
+                    return;
+                }
+            },
+        };
+        emit_status(
+            &app,
+            &WatchStatus {
+                state: if watcher.is_some() {
+                    "watching"
+                } else {
+                    "polling"
+                },
+                reason,
+                ..worker_status.clone()
+            },
+        );
+
+        let mut dirty = HashSet::new();
+        let mut batch_started: Option<Instant> = None;
+        let mut last_poll = Instant::now();
+
+        loop {
+            if worker_stop.load(Ordering::Relaxed) || ctx.is_cancelled() {
+                break;
+            }
+
+            match rx.recv_timeout(Duration::from_millis(DEBOUNCE_MS)) {
+                Ok(Ok(event)) => {
+                    if matches!(event.kind, EventKind::Access(_)) {
+                        continue;
+                    }
+                    for path in &event.paths {
+                        collect_change(path, &worker_root, &cache, &mut dirty);
+                    }
+                    let started = *batch_started.get_or_insert_with(Instant::now);
+                    if started.elapsed() < Duration::from_millis(MAX_BATCH_MS) {
+                        continue;
+                    }
+                }
+                Ok(Err(e)) => {
+                    eprintln!("Watch error: {}", e);
+                    continue;
+                }
+                Err(RecvTimeoutError::Timeout) => {}
+                Err(RecvTimeoutError::Disconnected) => break,
+            }
+
+            if watcher.is_none() && last_poll.elapsed() >= Duration::from_secs(POLL_INTERVAL_SECS) {
+                poll_changes(&worker_root, &cache, &mut dirty);
+                last_poll = Instant::now();
+            }
+            if !dirty.is_empty() {
+                flush_changes(&mut dirty, &cache, cache_file.as_deref(), &ctx);
+            }
+            batch_started = None;
+        }
+
+        drop(tx);
+        emit_status(
+            &app,
+            &WatchStatus {
+                state: "stopped",
+                reason: None,
+                ..worker_status
+            },
+        );
+    });
+
+    (WatchSession { stop }, status)
+}
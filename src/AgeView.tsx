@@ -0,0 +1,141 @@
+import { Folder, Loader2, LocateFixed, RefreshCw } from "lucide-react";
+import type { AgeReport } from "./types";
+import type { AgeSettings } from "./preferences";
+import { AGE_BUCKET_COLORS, AGE_BUCKET_LABEL_KEYS } from "./age";
+import { formatSize } from "./utils";
+
+interface AgeViewProps {
+  report: AgeReport | null;
+  loading: boolean;
+  settings: AgeSettings;
+  onSettingsChange: (patch: Partial<AgeSettings>) => void;
+  onRefresh: () => void;
+  /** 在目录树中定位目录 / Jump to the folder in the tree */
+  onReveal: (path: string) => void;
+  t: (key: string, params?: Record<string, string | number>) => string;
+  numberLocale: string;
+}
+
+/**
+ * 年龄视图：按修改或访问时间的年龄分档汇总字节数，并按超过 N 个月未动的字节数列出“旧而大”的目录，可跳转到目录树。
+ * Age view: bytes per age bucket by modification or access time, and the "old and big" folders ranked by
+ * bytes untouched for N months; each one can be revealed in the tree.
+ */
+function AgeView({ report, loading, settings, onSettingsChange, onRefresh, onReveal, t, numberLocale }: AgeViewProps) {
+  const buckets = report?.buckets ?? [];
+  const total = buckets.reduce((sum, bucket) => sum + bucket.size, 0);
+  const stale = report?.stale ?? [];
+  const percentOf = (size: number, of: number) =>
+    of > 0 ? `${((size / of) * 100).toLocaleString(numberLocale, { maximumFractionDigits: 1 })}%` : '-';
+
+  return (
+    <div className="flex-1 flex flex-col overflow-hidden">
+      <div className="flex items-center flex-wrap gap-4 px-4 py-3 border-b border-gray-100 dark:border-gray-800 text-xs text-gray-500 shrink-0">
+        <label className="flex items-center gap-2">
+          {t('ageTime')}
+          <select
+            value={settings.time}
+            onChange={(e) => onSettingsChange({ time: e.target.value as AgeSettings['time'] })}
+            className="px-2 py-1 rounded border border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-900"
+          >
+            <option value="modified">{t('ageTime_modified')}</option>
+            <option value="accessed">{t('ageTime_accessed')}</option>
+          </select>
+        </label>
+        <label className="flex items-center gap-2">
+          {t('ageStaleMonths')}
+          <input
+            type="number"
+            min={1}
+            max={600}
+            value={settings.months}
+            onChange={(e) => onSettingsChange({ months: Number(e.target.value) })}
+            className="w-20 px-2 py-1 rounded border border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-900"
+          />
+        </label>
+        <span className="text-gray-400">{t('ageSettingsHint')}</span>
+        <button
+          onClick={onRefresh}
+          disabled={loading}
+          className="ml-auto px-2 py-1 rounded flex items-center gap-1 hover:bg-gray-100 dark:hover:bg-gray-700 disabled:opacity-50"
+        >
+          {loading ? <Loader2 size={14} className="animate-spin" /> : <RefreshCw size={14} />}
+          {t('refresh')}
+        </button>
+      </div>
+
+      {total > 0 && (
+        <div className="px-4 py-3 border-b border-gray-100 dark:border-gray-800 space-y-2 shrink-0">
+          <div className="flex h-3 rounded overflow-hidden bg-gray-100 dark:bg-gray-800">
+            {buckets.map((bucket, index) => (
+              <div
+                key={index}
+                style={{ width: `${(bucket.size / total) * 100}%`, backgroundColor: AGE_BUCKET_COLORS[index] }}
+                title={`${t(AGE_BUCKET_LABEL_KEYS[index])}: ${formatSize(bucket.size)}`}
+              />
+            ))}
+          </div>
+          <div className="flex flex-wrap gap-4 text-xs text-gray-500">
+            {buckets.map((bucket, index) => (
+              <span key={index} className="flex items-center gap-1.5">
+                <span className="w-2.5 h-2.5 rounded-sm" style={{ backgroundColor: AGE_BUCKET_COLORS[index] }} />
+                {t(AGE_BUCKET_LABEL_KEYS[index])}
+                <span className="font-mono">{formatSize(bucket.size)}</span>
+                <span className="text-gray-400">{percentOf(bucket.size, total)}</span>
+              </span>
+            ))}
+          </div>
+        </div>
+      )}
+
+      <div className="flex items-center px-4 py-2 border-b border-gray-100 dark:border-gray-800 text-xs font-medium text-gray-500 bg-gray-50/50 dark:bg-gray-800/50 select-none shrink-0">
+        <span className="w-10 text-right mr-3">#</span>
+        <span className="flex-1">{t('ageStaleFolders', { months: settings.months.toLocaleString(numberLocale) })}</span>
+        <span className="w-20 text-right">{t('ageStaleShare')}</span>
+        <span className="w-24 text-right">{t('ageStaleSize')}</span>
+        <span className="w-10" />
+      </div>
+
+      <div className="flex-1 overflow-auto p-2">
+        {stale.length === 0 ? (
+          <div className="h-full flex items-center justify-center text-sm text-gray-400">
+            {loading && !report ? <Loader2 className="animate-spin text-blue-600" size={24} /> : t('ageStaleEmpty')}
+          </div>
+        ) : (
+          stale.map((folder, index) => (
+            <div
+              key={folder.path}
+              className="flex items-center px-2 py-1 rounded hover:bg-gray-100 dark:hover:bg-gray-800 group"
+            >
+              <span className="w-10 text-right mr-3 text-xs font-mono text-gray-400">
+                {(index + 1).toLocaleString(numberLocale)}
+              </span>
+              <Folder size={16} className="text-blue-500 fill-blue-500/20 mr-2 shrink-0" />
+              <div className="flex-1 min-w-0 mr-4">
+                <div className="truncate text-sm">{folder.path.split(/[\\/]/).pop() || folder.path}</div>
+                <div className="truncate text-xs text-gray-400 font-mono" title={folder.path}>{folder.path}</div>
+              </div>
+              <span
+                className="w-20 text-right text-xs text-gray-500 font-mono truncate"
+                title={t('ageStaleOf', { size: formatSize(folder.size) })}
+              >
+                {percentOf(folder.stale_size, folder.size)}
+              </span>
+              <span className="w-24 text-right text-xs font-mono font-semibold">{formatSize(folder.stale_size)}</span>
+              <button
+                onClick={() => onReveal(folder.path)}
+                title={t('showInTree')}
+                aria-label={t('showInTree')}
+                className="w-10 flex justify-end text-gray-400 hover:text-blue-600"
+              >
+                <LocateFixed size={16} />
+              </button>
+            </div>
+          ))
+        )}
+      </div>
+    </div>
+  );
+}
+
+export default AgeView;
@@ -1,27 +1,124 @@
 import { useState, useMemo, useEffect, useRef, useCallback } from "react";
 import { invoke } from "@tauri-apps/api/core";
-import { open } from "@tauri-apps/plugin-dialog";
+import { open, save } from "@tauri-apps/plugin-dialog";
 import { listen } from "@tauri-apps/api/event";
 import { 
   FolderOpen, 
   ChevronRight, 
   ChevronDown, 
   File, 
+  FileSymlink,
   Folder, 
+  FolderSymlink,
   BarChart3, 
   TreeDeciduous,
   Loader2,
   HardDrive,
-  Files
+  Files,
+  LayoutGrid,
+  Square,
+  History,
+  Layers,
+  Eraser,
+  ListFilter,
+  Eye,
+  EyeOff,
+  RefreshCw,
+  Trash2,
+  TriangleAlert,
+  ShoppingBasket,
+  FileStack,
+  Shapes,
+  Copy,
+  Download,
+  Plus,
+  GitCompare,
+  ExternalLink,
+  SquareTerminal,
+  ClipboardCopy,
+  Hourglass,
+  X
 } from "lucide-react";
-import { 
-  PieChart, 
-  Pie, 
-  Cell, 
-  ResponsiveContainer, 
-  Tooltip as RechartsTooltip,
-} from "recharts";
-import { formatSize, cn } from "./utils";
+import { formatSize, cn, fileExtension, isSameOrDescendantPath, pruneNestedPaths } from "./utils";
+import type {
+  AgeReport,
+  DeleteResult,
+  DuplicateProgress,
+  DuplicateResult,
+  FileNode,
+  LargestFiles,
+  PlatformActions,
+  ProblemReport,
+  ScanProgress,
+  SizeUpdate,
+  TypeBreakdown,
+  Volume,
+  WatchStatus,
+} from "./types";
+import TreemapView from "./TreemapView";
+import SunburstView from "./SunburstView";
+import { buildSunburstData, type ChartSettings, type SunburstDatum } from "./sunburst";
+import {
+  getInitialAgeSettings,
+  getInitialChartSettings,
+  getActiveScanRules,
+  getInitialExportSettings,
+  getInitialLargestFilesSettings,
+  getInitialScanRuleSettings,
+  getInitialShowPseudoVolumes,
+  getInitialSizeSettings,
+  getInitialTreeViewSettings,
+  getScanHistoryEntry,
+  persistAgeSettings,
+  persistChartSettings,
+  persistExportSettings,
+  persistLargestFilesSettings,
+  persistScanHistoryEntry,
+  persistScanRuleSettings,
+  persistShowPseudoVolumes,
+  persistSizeSettings,
+  persistTreeViewSettings,
+  sanitizeAgeSettings,
+  sanitizeChartSettings,
+  sanitizeExportSettings,
+  sanitizeLargestFilesSettings,
+  sanitizeSizeSettings,
+  type AgeSettings,
+  type ExportSettings,
+  type LargestFilesSettings,
+  type ScanRuleSettings,
+  type SizeSettings,
+  type TreeViewSettings,
+} from "./preferences";
+import ScanProgressPanel from "./ScanProgressPanel";
+import DeleteConfirmDialog from "./DeleteConfirmDialog";
+import CleanupBasketPanel from "./CleanupBasketPanel";
+import LargestFilesView from "./LargestFilesView";
+import ProblemsView from "./ProblemsView";
+import AgeView from "./AgeView";
+import FileTypesView from "./FileTypesView";
+import DuplicatesView from "./DuplicatesView";
+import ScanRulesDialog from "./ScanRulesDialog";
+import SnapshotDiffView from "./SnapshotDiffView";
+import ExportDialog from "./ExportDialog";
+import RootsSummaryView from "./RootsSummaryView";
+import VolumesView from "./VolumesView";
+import VirtualList from "./VirtualList";
+import TreeHeader from "./TreeHeader";
+import { createTab, getRootTotals, type ScanTab, type ViewMode } from "./tabs";
+import { AGE_TINT_CLASSES, ageBucketOf, formatAge, lastChangeOf } from "./age";
+import { TREE_COLUMN_WIDTHS, applySizeUpdates, flattenTree, normalizePathForMatch } from "./treeStore";
+import { EXPORT_EXTENSIONS, toCsv, toHtmlReport, toJson } from "./export";
+import {
+  createSnapshot,
+  diffSnapshots,
+  formatSizeDelta,
+  indexSnapshot,
+  parseSnapshot,
+  snapshotKey,
+  type Snapshot,
+  type SnapshotNode,
+} from "./snapshot";
 import {
   createTranslator,
   detectSystemLocale,
@@ -32,22 +129,32 @@ import {
   type LanguageMode,
 } from "./i18n";
 
-interface FileNode {
-  name: string;
-  path: string;
-  size: number | null;
-  is_dir: boolean;
-  file_count: number;
-  children: FileNode[] | null;
-}
+const COLORS = ['#0088FE', '#00C49F', '#FFBB28', '#FF8042', '#8884d8', '#82ca9d'];
+/** 扫描进行中最大文件列表的刷新间隔（毫秒） / Refresh interval of the largest-files list while scanning (ms) */
+const LARGEST_FILES_REFRESH_MS = 2000;
+/** 扫描进行中问题列表的刷新间隔（毫秒） / Refresh interval of the problem list while scanning (ms) */
+const PROBLEMS_REFRESH_MS = 2000;
+/** 扫描进行中年龄报告的刷新间隔（毫秒） / Refresh interval of the age report while scanning (ms) */
+const AGE_REFRESH_MS = 5000;
+/** 重复文件查找的默认最小文件大小（字节） / Default minimum file size for the duplicate search (bytes) */
+const DUPLICATES_DEFAULT_MIN_SIZE = 1024 * 1024;
+/** 目录树的固定行高（像素，虚拟列表按此计算可见行） / Fixed tree row height (px, the virtual list windows rows by it) */
+const TREE_ROW_HEIGHT = 32;
 
-interface SizeUpdate {
-    path: string;
-    size: number;
-    file_count: number;
-}
+/**
+ * 从重复文件结果中移除已删除的路径；剩余不足两个副本的组随之消失。
+ * Drop deleted paths from a duplicate result; groups left with fewer than two copies disappear.
+ */
+const removeFromDuplicates = (result: DuplicateResult, removed: string[]): DuplicateResult => {
+  const groups = result.groups
+    .map(group => {
+      const files = group.files.filter(file => !removed.some(r => isSameOrDescendantPath(file.path, r)));
+      return { ...group, files, wasted: group.size * Math.max(files.length - 1, 0) };
+    })
+    .filter(group => group.files.length > 1);
 
-const COLORS = ['#0088FE', '#00C49F', '#FFBB28', '#FF8042', '#8884d8', '#82ca9d'];
+  return { ...result, groups, wasted: groups.reduce((sum, group) => sum + group.wasted, 0) };
+};
 
 /**
  * 应用主组件：展示目录树与统计信息，并监听后端实时大小更新。
@@ -57,15 +164,113 @@ function App() {
   const [data, setData] = useState<FileNode | null>(null);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
-  const [view, setView] = useState<'tree' | 'chart'>('tree');
+  const [view, setView] = useState<ViewMode>('tree');
+  const [tabs, setTabs] = useState<ScanTab[]>(() => [createTab(1)]);
+  const [activeTabId, setActiveTabId] = useState(1);
+  const [isAllRootsOpen, setIsAllRootsOpen] = useState(false);
+  const [volumes, setVolumes] = useState<Volume[] | null>(null);
+  const [isVolumesLoading, setIsVolumesLoading] = useState(false);
+  const [showPseudoVolumes, setShowPseudoVolumes] = useState(getInitialShowPseudoVolumes());
+  /** 当前根目录所在的卷 / Volume holding the current root */
+  const [rootVolume, setRootVolume] = useState<Volume | null>(null);
+  const [treemapPath, setTreemapPath] = useState<string | null>(null);
+  const [chartPath, setChartPath] = useState<string | null>(null);
+  const [chartSettings, setChartSettings] = useState<ChartSettings>(getInitialChartSettings());
   const [expandedPaths, setExpandedPaths] = useState<Set<string>>(new Set());
   const [loadingPaths, setLoadingPaths] = useState<Set<string>>(new Set());
+  const [selectedPaths, setSelectedPaths] = useState<Set<string>>(new Set());
+  /** 目录树中键盘焦点所在的行 / Tree row holding the keyboard focus */
+  const [focusedPath, setFocusedPath] = useState<string | null>(null);
+  /** 按 Enter 进入的目录：子项出现后焦点移到第一个子项 / Folder entered with Enter: focus moves to its first child once listed */
+  const [drillPath, setDrillPath] = useState<string | null>(null);
+  const [deleteRequest, setDeleteRequest] = useState<{
+    items: FileNode[];
+    permanent: boolean;
+    busy: boolean;
+    results: DeleteResult[] | null;
+  } | null>(null);
+  const [sizeSettings, setSizeSettings] = useState<SizeSettings>(getInitialSizeSettings());
+  const [ruleSettings, setRuleSettings] = useState<ScanRuleSettings>(getInitialScanRuleSettings());
+  const [isRulesOpen, setIsRulesOpen] = useState(false);
+  const [exportSettings, setExportSettings] = useState<ExportSettings>(getInitialExportSettings());
+  const [treeViewSettings, setTreeViewSettings] = useState<TreeViewSettings>(getInitialTreeViewSettings());
+  const [isExportOpen, setIsExportOpen] = useState(false);
+  const [isExporting, setIsExporting] = useState(false);
+  const [largestSettings, setLargestSettings] = useState<LargestFilesSettings>(getInitialLargestFilesSettings());
+  const [largestFiles, setLargestFiles] = useState<LargestFiles | null>(null);
+  const [isLargestLoading, setIsLargestLoading] = useState(false);
+  const [problemReport, setProblemReport] = useState<ProblemReport | null>(null);
+  const [isProblemsLoading, setIsProblemsLoading] = useState(false);
+  const [ageSettings, setAgeSettings] = useState<AgeSettings>(getInitialAgeSettings());
+  const [ageReport, setAgeReport] = useState<AgeReport | null>(null);
+  const [isAgeLoading, setIsAgeLoading] = useState(false);
+  const [revealTarget, setRevealTarget] = useState<string | null>(null);
+  const [typesPath, setTypesPath] = useState<string | null>(null);
+  const [typeBreakdown, setTypeBreakdown] = useState<TypeBreakdown | null>(null);
+  const [isTypesLoading, setIsTypesLoading] = useState(false);
+  const [typeFilter, setTypeFilter] = useState<{
+    category: string;
+    /** 该类别在当前分布中的扩展名 / Extensions of the category in the current breakdown */
+    extensions: Set<string>;
+    /** 直接包含该类别文件的目录（规范化路径） / Folders directly holding such files (normalized paths) */
+    holders: Set<string>;
+    /** holders 及其所有祖先（规范化路径） / Holders and all their ancestors (normalized paths) */
+    visibleDirs: Set<string>;
+  } | null>(null);
+  const [dupMinSize, setDupMinSize] = useState(DUPLICATES_DEFAULT_MIN_SIZE);
+  const [dupProgress, setDupProgress] = useState<DuplicateProgress | null>(null);
+  const [dupResult, setDupResult] = useState<DuplicateResult | null>(null);
+  const [isDupRunning, setIsDupRunning] = useState(false);
+  const [diffBase, setDiffBase] = useState<Snapshot | null>(null);
+  /** 对比目标快照；null 表示与当前扫描对比 / Target snapshot; null compares against the live scan */
+  const [diffTarget, setDiffTarget] = useState<Snapshot | null>(null);
+  const [liveSnapshot, setLiveSnapshot] = useState<Snapshot | null>(null);
+  const [isSnapshotLoading, setIsSnapshotLoading] = useState(false);
+  const [basket, setBasket] = useState<FileNode[]>([]);
+  const [isBasketOpen, setIsBasketOpen] = useState(false);
   const [isDragActive, setIsDragActive] = useState(false);
+  const [isScanStopped, setIsScanStopped] = useState(false);
+  const [progress, setProgress] = useState<ScanProgress | null>(null);
+  const [expectedSize, setExpectedSize] = useState<number | null>(null);
+  const [watchStatus, setWatchStatus] = useState<WatchStatus | null>(null);
   const [languageMode, setLanguageMode] = useState<LanguageMode>(getInitialLanguageMode());
   const [systemLocale, setSystemLocale] = useState(detectSystemLocale());
   const [isLanguageMenuOpen, setIsLanguageMenuOpen] = useState(false);
+  const [platformActions, setPlatformActions] = useState<PlatformActions>({ reveal: false, open: false, terminal: false });
 
   const fileListRef = useRef<HTMLDivElement | null>(null);
+  /** Shift 范围选择的起点 / Anchor of Shift range selection */
+  const selectionAnchorRef = useRef<string | null>(null);
+  /** 当前扫描 ID：旧扫描的事件会被丢弃 / Current scan ID: events from older scans are dropped */
+  const scanIdRef = useRef<number | null>(null);
+  const rootPathRef = useRef<string | null>(null);
+  /**
+   * 标签页列表的最新值：后台标签页的事件更新同步写入这里，切换标签页时据此恢复，不会丢失尚未渲染的更新。
+   * Latest tab list: events for background tabs write here synchronously, and switching tabs restores from it,
+   * so updates that have not rendered yet are not lost.
+   */
+  const tabsRef = useRef(tabs);
+  const nextTabIdRef = useRef(2);
+  /**
+   * 后台标签页的目录列表返回之前到达的大小更新（按扫描 ID 暂存），列表返回后一并应用。
+   * Size updates that arrive before a background tab's listing (held per scan ID), applied once it returns.
+   */
+  const heldSizeUpdatesRef = useRef(new Map<number, SizeUpdate[]>());
+  const watchIdRef = useRef<number | null>(null);
+  /** 上一个生成的监听会话 ID（由前端生成，使先到达的状态事件也能对应） / Last watch ID handed out (generated here so early status events still match) */
+  const lastWatchIdRef = useRef(0);
+  const largestSettingsRef = useRef(largestSettings);
+  const sizeSettingsRef = useRef(sizeSettings);
+  const ageSettingsRef = useRef(ageSettings);
+  const ruleSettingsRef = useRef(ruleSettings);
+  /** 当前重复文件查找任务 ID / Current duplicate search job ID */
+  const dupJobIdRef = useRef<number | null>(null);
+  /**
+   * 上一个生成的重复文件查找任务 ID；由前端生成，使先于调用返回到达的结果事件也能对应。
+   * Last duplicate search job ID handed out; generated here so result events arriving before the call
+   * returns can still be matched.
+   */
+  const lastDupJobIdRef = useRef(0);
 
   const [contextMenu, setContextMenu] = useState<{
     visible: boolean;
@@ -77,11 +282,58 @@ function App() {
   const locale = useMemo(() => resolveLocale(languageMode, systemLocale), [languageMode, systemLocale]);
   const t = useMemo(() => createTranslator(locale), [locale]);
   const numberLocale = locale === 'zh' ? 'zh-CN' : 'en-US';
+  const pendingLabel = isScanStopped ? t('scanStopped') : t('calculating');
+  const pendingInlineLabel = isScanStopped ? t('scanStoppedInline') : t('calculatingInline');
+  const isScanning = !!data && data.size === null && !isScanStopped;
+  /** 各标签页已打开的根目录（当前标签页取实时状态） / Roots open in the tabs (the active tab uses live state) */
+  const tabRoots = tabs
+    .map(tab => ({ tabId: tab.id, data: tab.id === activeTabId ? data : tab.data }))
+    .filter((root): root is { tabId: number; data: FileNode } => root.data !== null);
 
   useEffect(() => {
     persistLanguageMode(languageMode);
   }, [languageMode]);
 
+  useEffect(() => {
+    persistChartSettings(chartSettings);
+  }, [chartSettings]);
+
+  useEffect(() => {
+    largestSettingsRef.current = largestSettings;
+    persistLargestFilesSettings(largestSettings);
+  }, [largestSettings]);
+
+  useEffect(() => {
+    persistSizeSettings(sizeSettings);
+  }, [sizeSettings]);
+
+  useEffect(() => {
+    persistScanRuleSettings(ruleSettings);
+  }, [ruleSettings]);
+
+  useEffect(() => {
+    persistExportSettings(exportSettings);
+  }, [exportSettings]);
+
+  useEffect(() => {
+    persistShowPseudoVolumes(showPseudoVolumes);
+  }, [showPseudoVolumes]);
+
+  useEffect(() => {
+    persistTreeViewSettings(treeViewSettings);
+  }, [treeViewSettings]);
+
+  useEffect(() => {
+    persistAgeSettings(ageSettings);
+  }, [ageSettings]);
+
+  // 查询当前平台支持的系统操作 / Ask which system actions this platform supports
+  useEffect(() => {
+    invoke<PlatformActions>('get_platform_actions')
+      .then(setPlatformActions)
+      .catch(err => console.error('Failed to get platform actions:', err));
+  }, []);
+
   useEffect(() => {
     const handler = () => setSystemLocale(detectSystemLocale());
     window.addEventListener('languagechange', handler as EventListener);
@@ -89,72 +341,97 @@ function App() {
   }, []);
 
   /**
-   * 用于事件匹配的路径标准化：忽略大小写与分隔符差异。
-   * Normalize path for event matching: ignore case and slash differences.
+   * 以同步方式更新标签页列表（先写 ref 再触发渲染）。
+   * Update the tab list synchronously (the ref first, then a render).
    */
-  const normalizePathForMatch = (p: string) => p.replace(/\\/g, '/').toLowerCase();
+  const updateTabs = (update: (prev: ScanTab[]) => ScanTab[]) => {
+    tabsRef.current = update(tabsRef.current);
+    setTabs(tabsRef.current);
+  };
 
   /**
-   * 排序子节点：目录优先，其次大小降序（null 视为 -1，排在最后），最后按名称。
-   * Sort children: folders first, then size desc (null as -1, last), then by name.
+   * 新扫描使用的选项（来自当前设置）。
+   * Options for a new scan (from the current settings).
    */
-  const sortChildren = (children: FileNode[]) => {
-    children.sort((a, b) => {
-      if (a.is_dir && !b.is_dir) return -1;
-      if (!a.is_dir && b.is_dir) return 1;
-
-      const sizeA = a.size === null ? -1 : a.size;
-      const sizeB = b.size === null ? -1 : b.size;
-      if (sizeB !== sizeA) return sizeB - sizeA;
-
-      return a.name.localeCompare(b.name);
-    });
-    return children;
-  };
+  const getScanOptions = () => ({
+    largest_files_limit: largestSettingsRef.current.limit,
+    largest_files_min_size: largestSettingsRef.current.minSize,
+    size_mode: sizeSettingsRef.current.mode,
+    symlinks: sizeSettingsRef.current.symlinks,
+    age_time: ageSettingsRef.current.time,
+  });
 
   /**
-   * 将后端事件更新应用到目录树中，尽量保持未变化节点的引用稳定。
-   * Apply backend update event to the tree while keeping unchanged node references stable.
+   * 停止只属于当前标签页的后台任务：重复文件查找与文件系统监听。
+   * Stop background work that belongs to the active tab only: the duplicate search and the filesystem watch.
    */
-  const applySizeUpdate = (root: FileNode, update: SizeUpdate): FileNode => {
-    const targetPath = normalizePathForMatch(update.path);
-
-    const updateRecursively = (node: FileNode): FileNode => {
-      if (normalizePathForMatch(node.path) === targetPath) {
-        return { ...node, size: update.size, file_count: update.file_count };
-      }
-
-      if (!node.children) return node;
-
-      let changed = false;
-      const newChildren = node.children.map(child => {
-        const next = updateRecursively(child);
-        if (next !== child) changed = true;
-        return next;
-      });
-
-      if (!changed) return node;
-
-      sortChildren(newChildren);
-      return { ...node, children: newChildren };
-    };
+  const stopTabTasks = useCallback(async () => {
+    if (dupJobIdRef.current !== null) {
+      const jobId = dupJobIdRef.current;
+      dupJobIdRef.current = null;
+      await invoke('cancel_duplicate_search', { jobId });
+    }
 
-    return updateRecursively(root);
-  };
+    if (watchIdRef.current !== null) {
+      watchIdRef.current = null;
+      setWatchStatus(null);
+      await invoke('stop_watch');
+    }
+  }, []);
 
   /**
-   * 统一触发分析流程：清理状态并调用后端 analyze_directory。
-   * Start analysis flow: reset UI state then invoke backend analyze_directory.
+   * 在当前标签页触发分析流程：清理状态，开始新扫描（取消该标签页的上一次扫描）并调用后端 analyze_directory。
+   * Start analysis in the active tab: reset UI state, start a new scan (cancelling the tab's previous one)
+   * then invoke backend analyze_directory.
    */
   const analyzePath = useCallback(async (path: string) => {
     try {
       setLoading(true);
       setError(null);
+      setIsAllRootsOpen(false);
+      setIsScanStopped(false);
+      setProgress(null);
       setContextMenu(null);
       setExpandedPaths(new Set());
       setLoadingPaths(new Set());
+      setSelectedPaths(new Set());
+      setBasket([]);
+      setLargestFiles(null);
+      setProblemReport(null);
+      setAgeReport(null);
+      setTypesPath(null);
+      setTypeBreakdown(null);
+      setTypeFilter(null);
+      setTreemapPath(null);
+      setChartPath(null);
+      setDupProgress(null);
+      setDupResult(null);
+      setIsDupRunning(false);
+      setLiveSnapshot(null);
+
+      await stopTabTasks();
+
+      // 其他标签页的扫描继续进行，只取消本标签页的上一次扫描
+      // Scans of other tabs keep running; only this tab's previous scan is cancelled
+      if (scanIdRef.current !== null) {
+        const previous = scanIdRef.current;
+        scanIdRef.current = null;
+        await invoke('cancel_scan', { scanId: previous });
+      }
+
+      const scanId = await invoke<number>("start_scan", {
+        cancelPrevious: false,
+        options: getScanOptions(),
+      });
+      scanIdRef.current = scanId;
 
-      const result = await invoke<FileNode>("analyze_directory", { path });
+      const result = await invoke<FileNode>("analyze_directory", {
+        path,
+        scanId,
+        rules: getActiveScanRules(ruleSettingsRef.current),
+      });
+      rootPathRef.current = result.path;
+      setExpectedSize(getScanHistoryEntry(result.path)?.size ?? null);
       setData(result);
       setExpandedPaths(new Set([result.path as string]));
     } catch (err) {
@@ -162,7 +439,173 @@ function App() {
     } finally {
       setLoading(false);
     }
+  }, [stopTabTasks]);
+
+  /**
+   * 在新的后台标签页中扫描路径（不切换当前标签页）。标签页在读取目录前就带着扫描 ID 加入，
+   * 期间到达的大小更新先暂存，列表返回后再应用。
+   * Scan a path in a new background tab (the active tab stays). The tab is added with its scan ID before the
+   * folder is listed; size updates arriving meanwhile are held and applied once the listing returns.
+   */
+  const openBackgroundTab = useCallback(async (path: string) => {
+    let scanId: number;
+    try {
+      scanId = await invoke<number>("start_scan", {
+        cancelPrevious: false,
+        options: getScanOptions(),
+      });
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+      return;
+    }
+
+    const tabId = nextTabIdRef.current++;
+    heldSizeUpdatesRef.current.set(scanId, []);
+    updateTabs(prev => [...prev, createTab(tabId, { scanId })]);
+
+    try {
+      const listing = await invoke<FileNode>("analyze_directory", {
+        path,
+        scanId,
+        rules: getActiveScanRules(ruleSettingsRef.current),
+      });
+      const held = heldSizeUpdatesRef.current.get(scanId) ?? [];
+      const result = held.length > 0 ? applySizeUpdates(listing, held) : listing;
+      const expandedPaths = new Set([result.path]);
+      const expectedSize = getScanHistoryEntry(result.path)?.size ?? null;
+      updateTabs(prev =>
+        prev.map(item => (item.id === tabId ? { ...item, data: result, expandedPaths, expectedSize } : item))
+      );
+
+      // 期间切换到了该标签页 / The tab was switched to meanwhile
+      if (scanIdRef.current === scanId) {
+        rootPathRef.current = result.path;
+        setExpectedSize(expectedSize);
+        setData(result);
+        setExpandedPaths(expandedPaths);
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      heldSizeUpdatesRef.current.delete(scanId);
+    }
   }, []);
+
+  /**
+   * 分析多个路径：第一个在当前标签页，其余各自打开一个新标签页。
+   * Analyze several paths: the first in the active tab, each of the others in a tab of its own.
+   */
+  const analyzePaths = useCallback(async (paths: string[]) => {
+    const [first, ...rest] = paths;
+    if (!first) return;
+
+    await analyzePath(first);
+    for (const path of rest) {
+      await openBackgroundTab(path);
+    }
+  }, [analyzePath, openBackgroundTab]);
+
+  /**
+   * 把当前标签页的状态保存为标签页副本。
+   * Capture the active tab's state as a tab copy.
+   */
+  const captureActiveTab = (): ScanTab =>
+    createTab(activeTabId, {
+      scanId: scanIdRef.current,
+      data,
+      expandedPaths,
+      view,
+      progress,
+      isScanStopped,
+      expectedSize,
+      treemapPath,
+      chartPath,
+      typesPath,
+      basket,
+    });
+
+  /**
+   * 恢复标签页为当前标签页；视图的派生结果（最大文件、类型分布、重复文件等）会重新获取或清空。
+   * Make a tab the active one; derived view results (largest files, type breakdown, duplicates...) are refetched or cleared.
+   */
+  const restoreTab = (tab: ScanTab) => {
+    scanIdRef.current = tab.scanId;
+    rootPathRef.current = tab.data?.path ?? null;
+    setActiveTabId(tab.id);
+    setData(tab.data);
+    setExpandedPaths(tab.expandedPaths);
+    setView(tab.view);
+    setProgress(tab.progress);
+    setIsScanStopped(tab.isScanStopped);
+    setExpectedSize(tab.expectedSize);
+    setTreemapPath(tab.treemapPath);
+    setChartPath(tab.chartPath);
+    setTypesPath(tab.typesPath);
+    setBasket(tab.basket);
+    setError(null);
+    setContextMenu(null);
+    setLoadingPaths(new Set());
+    setSelectedPaths(new Set());
+    setLargestFiles(null);
+    setProblemReport(null);
+    setAgeReport(null);
+    setTypeBreakdown(null);
+    setTypeFilter(null);
+    setDupProgress(null);
+    setDupResult(null);
+    setIsDupRunning(false);
+    setLiveSnapshot(null);
+  };
+
+  const handleSelectTab = async (id: number) => {
+    setIsAllRootsOpen(false);
+    const target = tabsRef.current.find(tab => tab.id === id);
+    if (id === activeTabId || !target || loading) return;
+
+    const current = captureActiveTab();
+    updateTabs(prev => prev.map(tab => (tab.id === current.id ? current : tab)));
+    restoreTab(target);
+    await stopTabTasks();
+  };
+
+  const handleNewTab = async () => {
+    if (loading) return;
+
+    const current = captureActiveTab();
+    const tab = createTab(nextTabIdRef.current++);
+    updateTabs(prev => [...prev.map(item => (item.id === current.id ? current : item)), tab]);
+    setIsAllRootsOpen(false);
+    restoreTab(tab);
+    await stopTabTasks();
+  };
+
+  /**
+   * 关闭标签页并取消其扫描；关闭当前标签页时切换到相邻标签页（最后一个则换成空白标签页）。
+   * Close a tab and cancel its scan; closing the active tab switches to a neighbour (or a blank tab for the last one).
+   */
+  const handleCloseTab = async (id: number) => {
+    if (loading) return;
+
+    const index = tabsRef.current.findIndex(tab => tab.id === id);
+    if (index < 0) return;
+
+    const scanId = id === activeTabId ? scanIdRef.current : tabsRef.current[index].scanId;
+    const remaining = tabsRef.current.filter(tab => tab.id !== id);
+    if (id !== activeTabId) {
+      updateTabs(() => remaining);
+    } else {
+      const next = remaining[Math.min(index, remaining.length - 1)] ?? createTab(nextTabIdRef.current++);
+      updateTabs(() => (remaining.length > 0 ? remaining : [next]));
+      restoreTab(next);
+      await stopTabTasks();
+    }
+
+    try {
+      if (scanId !== null) await invoke('cancel_scan', { scanId });
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    }
+  };
   const currentLanguageLabel =
     languageMode === 'auto'
       ? `${t('languageAuto')} (${getLocaleNativeName(systemLocale)})`
@@ -208,10 +651,95 @@ function App() {
     return () => window.removeEventListener('click', handleClick);
   }, []);
 
-  // 监听后台大小更新事件
+  // 监听后台大小更新事件；同一帧内的更新合并后一次性应用，每帧最多渲染一次
+  // Listen to background size updates; updates within one frame are applied together, one render per frame
   useEffect(() => {
+    let pending: SizeUpdate[] = [];
+    let frame: number | null = null;
+
+    const flush = () => {
+      frame = null;
+      const batch = pending.filter(update => {
+        const held = heldSizeUpdatesRef.current.get(update.scan_id);
+        held?.push(update);
+        return !held;
+      });
+      pending = [];
+
+      const active = batch.filter(update => update.scan_id === scanIdRef.current);
+      if (active.length > 0) {
+        setData(prev => (prev ? applySizeUpdates(prev, active) : null));
+      }
+
+      // 后台标签页的扫描 / Scans of background tabs
+      const background = batch.filter(
+        update => update.scan_id !== scanIdRef.current && tabsRef.current.some(tab => tab.scanId === update.scan_id)
+      );
+      if (background.length === 0) return;
+      updateTabs(prev =>
+        prev.map(tab => {
+          const updates = background.filter(update => update.scan_id === tab.scanId);
+          return updates.length > 0 && tab.data ? { ...tab, data: applySizeUpdates(tab.data, updates) } : tab;
+        })
+      );
+    };
+
     const unlistenPromise = listen<SizeUpdate>('folder-size-updated', (event) => {
-      setData(prev => (prev ? applySizeUpdate(prev, event.payload) : null));
+      pending.push(event.payload);
+      if (frame === null) frame = requestAnimationFrame(flush);
+    });
+
+    return () => {
+      if (frame !== null) cancelAnimationFrame(frame);
+      unlistenPromise.then(unlisten => unlisten());
+    };
+  }, []);
+
+  // 监听扫描进度事件；根扫描完成时记录大小与耗时，供下次估算剩余时间
+  // Listen to scan progress; when the root scan finishes, remember its size and duration for future ETAs
+  useEffect(() => {
+    const unlistenPromise = listen<ScanProgress>('scan-progress', (event) => {
+      const payload = event.payload;
+      let rootPath = rootPathRef.current;
+      if (payload.scan_id === scanIdRef.current) {
+        setProgress(payload);
+      } else {
+        // 后台标签页的扫描 / A scan of a background tab
+        const tab = tabsRef.current.find(item => item.scanId === payload.scan_id);
+        if (!tab) return;
+        rootPath = tab.data?.path ?? null;
+        updateTabs(prev => prev.map(item => (item.id === tab.id ? { ...item, progress: payload } : item)));
+      }
+
+      if (payload.done && rootPath) {
+        persistScanHistoryEntry(rootPath, {
+          size: payload.bytes_counted,
+          file_count: payload.files_counted,
+          duration_ms: payload.elapsed_ms,
+          scanned_at: Date.now(),
+        });
+      }
+    });
+
+    return () => {
+      unlistenPromise.then(unlisten => unlisten());
+    };
+  }, []);
+
+  // 监听文件系统监听状态；只接受当前监听会话的事件（例如原生监听意外结束）
+  // Listen to watch status; only events of the current watch session count (e.g. the watcher ending on its own)
+  useEffect(() => {
+    const unlistenPromise = listen<WatchStatus>('watch-status', (event) => {
+      const payload = event.payload;
+      if (payload.watch_id !== watchIdRef.current) return;
+
+      if (payload.state === 'stopped') {
+        watchIdRef.current = null;
+        setWatchStatus(null);
+        if (payload.reason) setError(payload.reason);
+      } else {
+        setWatchStatus(payload);
+      }
     });
 
     return () => {
@@ -219,9 +747,235 @@ function App() {
     };
   }, []);
 
+  // 监听重复文件查找的进度与结果；只接受当前任务的事件
+  // Listen to duplicate search progress and results; only events of the current job count
+  useEffect(() => {
+    const unlistenProgress = listen<DuplicateProgress>('duplicate-progress', (event) => {
+      if (event.payload.job_id !== dupJobIdRef.current) return;
+      setDupProgress(event.payload);
+    });
+    const unlistenResult = listen<DuplicateResult>('duplicate-result', (event) => {
+      if (event.payload.job_id !== dupJobIdRef.current) return;
+      dupJobIdRef.current = null;
+      setDupResult(event.payload.error ? null : event.payload);
+      if (event.payload.error) setError(event.payload.error);
+      setDupProgress(null);
+      setIsDupRunning(false);
+    });
+
+    return () => {
+      unlistenProgress.then(unlisten => unlisten());
+      unlistenResult.then(unlisten => unlisten());
+    };
+  }, []);
+
+  /**
+   * 读取当前扫描的最大文件列表（按当前设置筛选）。
+   * Fetch the current scan's largest files (narrowed by the current settings).
+   */
+  const fetchLargestFiles = useCallback(async () => {
+    const scanId = scanIdRef.current;
+    if (scanId === null) return;
+
+    setIsLargestLoading(true);
+    try {
+      const result = await invoke<LargestFiles>('get_largest_files', {
+        scanId,
+        limit: largestSettings.limit,
+        minSize: largestSettings.minSize,
+      });
+      if (scanId === scanIdRef.current) setLargestFiles(result);
+    } catch (err) {
+      console.error('Failed to load largest files:', err);
+    } finally {
+      setIsLargestLoading(false);
+    }
+  }, [largestSettings]);
+
+  // 打开最大文件视图或扫描完成时刷新；扫描进行中定期刷新
+  // Refresh when the largest-files view opens or the scan finishes; refresh periodically while scanning
+  const isRootPending = !!data && data.size === null;
+  useEffect(() => {
+    if (view !== 'largest') return;
+
+    fetchLargestFiles();
+    if (!isRootPending || isScanStopped) return;
+
+    const timer = window.setInterval(fetchLargestFiles, LARGEST_FILES_REFRESH_MS);
+    return () => window.clearInterval(timer);
+  }, [view, isRootPending, isScanStopped, fetchLargestFiles]);
+
+  /**
+   * 读取当前扫描中无法读取的路径。
+   * Fetch the paths the current scan could not read.
+   */
+  const fetchProblems = useCallback(async () => {
+    const scanId = scanIdRef.current;
+    if (scanId === null) return;
+
+    setIsProblemsLoading(true);
+    try {
+      const result = await invoke<ProblemReport>('get_scan_problems', { scanId });
+      if (scanId === scanIdRef.current) setProblemReport(result);
+    } catch (err) {
+      console.error('Failed to load scan problems:', err);
+    } finally {
+      setIsProblemsLoading(false);
+    }
+  }, []);
+
+  // 打开问题视图或扫描完成时刷新；扫描进行中定期刷新
+  // Refresh when the problems view opens or the scan finishes; refresh periodically while scanning
+  useEffect(() => {
+    if (view !== 'problems') return;
+
+    fetchProblems();
+    if (!isRootPending || isScanStopped) return;
+
+    const timer = window.setInterval(fetchProblems, PROBLEMS_REFRESH_MS);
+    return () => window.clearInterval(timer);
+  }, [view, isRootPending, isScanStopped, fetchProblems]);
+
+  /**
+   * 读取根目录的年龄分布与“旧而大”的目录。
+   * Fetch the root's age breakdown and its old and big folders.
+   */
+  const fetchAgeReport = useCallback(async () => {
+    const scanId = scanIdRef.current;
+    const path = rootPathRef.current;
+    if (scanId === null || path === null) return;
+
+    setIsAgeLoading(true);
+    try {
+      const result = await invoke<AgeReport>('get_age_report', { scanId, path, months: ageSettings.months });
+      if (scanId === scanIdRef.current) setAgeReport(result);
+    } catch (err) {
+      console.error('Failed to load age report:', err);
+    } finally {
+      setIsAgeLoading(false);
+    }
+  }, [ageSettings.months]);
+
+  // 打开年龄视图、修改月数或扫描完成时刷新；扫描进行中定期刷新
+  // Refresh when the age view opens, the month threshold changes or the scan finishes; refresh periodically while scanning
+  useEffect(() => {
+    if (view !== 'age') return;
+
+    fetchAgeReport();
+    if (!isRootPending || isScanStopped) return;
+
+    const timer = window.setInterval(fetchAgeReport, AGE_REFRESH_MS);
+    return () => window.clearInterval(timer);
+  }, [view, isRootPending, isScanStopped, fetchAgeReport]);
+
+  // 打开文件类型视图、切换目录或扫描完成时重新统计
+  // Recompute the type breakdown when the view opens, its folder changes or the scan finishes
+  const typesScopePath = typesPath ?? data?.path ?? null;
+  useEffect(() => {
+    const scanId = scanIdRef.current;
+    if (view !== 'types' || !typesScopePath || scanId === null) return;
+
+    let cancelled = false;
+    setIsTypesLoading(true);
+    invoke<TypeBreakdown>('get_type_breakdown', { scanId, path: typesScopePath })
+      .then(result => {
+        if (!cancelled) setTypeBreakdown(result);
+      })
+      .catch(err => console.error('Failed to load type breakdown:', err))
+      .finally(() => {
+        if (!cancelled) setIsTypesLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [view, typesScopePath, isRootPending]);
+
+  const fetchVolumes = useCallback(async () => {
+    setIsVolumesLoading(true);
+    try {
+      setVolumes(await invoke<Volume[]>('list_volumes'));
+    } catch (err) {
+      console.error('Failed to list volumes:', err);
+    } finally {
+      setIsVolumesLoading(false);
+    }
+  }, []);
+
+  // 显示首页时刷新卷列表 / Refresh the volume list whenever the home screen shows
+  const isHomeVisible = !data && !loading && !isAllRootsOpen;
+  useEffect(() => {
+    if (isHomeVisible) fetchVolumes();
+  }, [isHomeVisible, fetchVolumes]);
+
+  // 查找根目录所在的卷，用于汇总卡片中的占比 / Find the root's volume for the share shown in the summary cards
+  const rootPath = data?.path ?? null;
+  useEffect(() => {
+    setRootVolume(null);
+    if (!rootPath) return;
+
+    let cancelled = false;
+    invoke<Volume | null>('get_path_volume', { path: rootPath })
+      .then(volume => {
+        if (!cancelled) setRootVolume(volume);
+      })
+      .catch(err => console.error('Failed to find volume:', err));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [rootPath]);
+
+  /**
+   * 以当前扫描已计算完成的结果构建快照。
+   * Build a snapshot from the live scan's computed results.
+   */
+  const buildLiveSnapshot = useCallback(async () => {
+    const scanId = scanIdRef.current;
+    if (!data || scanId === null) return null;
+    const tree = await invoke<SnapshotNode>('build_snapshot', { scanId, path: data.path });
+    return createSnapshot(tree, data.size_mode);
+  }, [data?.path, data?.size_mode]);
+
+  // 与当前扫描对比时，根目录计算完成（或大小变化）后重新构建当前快照
+  // When comparing against the live scan, rebuild its snapshot once the root is computed (or its size changes)
+  const rootSize = data?.size ?? null;
+  useEffect(() => {
+    if (!diffBase || diffTarget || rootSize === null) return;
+
+    let cancelled = false;
+    setIsSnapshotLoading(true);
+    buildLiveSnapshot()
+      .then(snapshot => {
+        if (!cancelled) setLiveSnapshot(snapshot);
+      })
+      .catch(err => console.error('Failed to build snapshot:', err))
+      .finally(() => {
+        if (!cancelled) setIsSnapshotLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [diffBase, diffTarget, rootSize, buildLiveSnapshot]);
+
+  const diffChanges = useMemo(() => {
+    const after = diffTarget ?? liveSnapshot;
+    return diffBase && after ? diffSnapshots(diffBase, after) : null;
+  }, [diffBase, diffTarget, liveSnapshot]);
+
   /**
-   * 监听系统文件拖拽事件（Tauri）：拖拽文件夹到窗口后直接开始分析。
-   * Listen to system file drag-drop events (Tauri): start analysis on folder drop.
+   * 与当前扫描对比时按比较键索引的基准快照，用于目录树的变化列。
+   * The baseline indexed by key, for the tree's change column when comparing against the live scan.
+   */
+  const diffBaseIndex = useMemo(
+    () => (diffBase && !diffTarget ? indexSnapshot(diffBase) : null),
+    [diffBase, diffTarget]
+  );
+
+  /**
+   * 监听系统文件拖拽事件（Tauri）：拖拽文件夹到窗口后直接开始分析，多个文件夹各占一个标签页。
+   * Listen to system file drag-drop events (Tauri): start analysis on folder drop, one tab per dropped folder.
    */
   useEffect(() => {
     /**
@@ -254,22 +1008,14 @@ function App() {
     const unlistenLeavePromise = listen('tauri://drag-leave', setInactive);
     const unlistenDropPromise = listen('tauri://drag-drop', async (event) => {
       setIsDragActive(false);
-      const paths = extractDropPaths(event.payload);
-      const [firstPath] = paths;
-      if (firstPath) {
-        await analyzePath(firstPath);
-      }
+      await analyzePaths(extractDropPaths(event.payload));
     });
 
     const unlistenLegacyHoverPromise = listen('tauri://file-drop-hover', setActive);
     const unlistenLegacyCancelledPromise = listen('tauri://file-drop-cancelled', setInactive);
     const unlistenLegacyDropPromise = listen('tauri://file-drop', async (event) => {
       setIsDragActive(false);
-      const paths = extractDropPaths(event.payload);
-      const [firstPath] = paths;
-      if (firstPath) {
-        await analyzePath(firstPath);
-      }
+      await analyzePaths(extractDropPaths(event.payload));
     });
 
     return () => {
@@ -281,7 +1027,7 @@ function App() {
       unlistenLegacyCancelledPromise.then(unlisten => unlisten());
       unlistenLegacyDropPromise.then(unlisten => unlisten());
     };
-  }, [analyzePath]);
+  }, [analyzePaths]);
 
   /**
    * 在树中按路径查找节点。
@@ -333,24 +1079,106 @@ function App() {
   };
 
   /**
-   * 选择文件夹并调用后端分析入口。
-   * Select a folder and invoke backend analysis entry.
+   * 停止当前扫描：后台计算尽快结束，未完成的目录保持“已停止”状态。
+   * Stop the current scan: background work ends soon; unfinished folders stay marked as stopped.
+   */
+  const handleStopScan = async () => {
+    const scanId = scanIdRef.current;
+    if (scanId === null) return;
+
+    try {
+      await invoke('cancel_scan', { scanId });
+      setIsScanStopped(true);
+      watchIdRef.current = null;
+      setWatchStatus(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    }
+  };
+
+  /**
+   * 开启/关闭文件系统监听：开启后，磁盘上的变化会自动重新计算并更新到界面。
+   * Toggle filesystem watching: while on, changes on disk are recomputed and reflected automatically.
+   */
+  const handleToggleWatch = async () => {
+    const scanId = scanIdRef.current;
+    if (!data || scanId === null) return;
+
+    try {
+      if (watchIdRef.current !== null) {
+        watchIdRef.current = null;
+        setWatchStatus(null);
+        await invoke('stop_watch');
+        return;
+      }
+
+      const watchId = ++lastWatchIdRef.current;
+      watchIdRef.current = watchId;
+      try {
+        const status = await invoke<WatchStatus>('start_watch', { path: data.path, scanId, watchId });
+        // 监听器可能已就绪（或已失败）并先发出了状态事件 / The watcher may already have reported being ready (or failing)
+        if (watchIdRef.current === watchId) setWatchStatus(prev => (prev?.watch_id === watchId ? prev : status));
+      } catch (err) {
+        if (watchIdRef.current === watchId) watchIdRef.current = null;
+        throw err;
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    }
+  };
+
+  /**
+   * 选择文件夹（可多选）并调用后端分析入口。
+   * Select folders (several allowed) and invoke backend analysis entry.
    */
   const handleSelectFolder = async () => {
     try {
       const selected = await open({
         directory: true,
-        multiple: false,
+        multiple: true,
       });
 
       if (selected) {
-        await analyzePath(String(selected));
+        await analyzePaths(Array.isArray(selected) ? selected : [selected]);
       }
     } catch (err) {
       setError(err instanceof Error ? err.message : String(err));
     }
   };
 
+  /**
+   * 按需加载目录的直接子项（已加载则跳过）。
+   * Load a folder's direct children on demand (skipped when already loaded).
+   * @param path 节点路径 / Node path
+   */
+  const loadChildren = async (path: string) => {
+    if (!data) return;
+
+    const node = findNodeByPath(data, path);
+    if (!node || !node.is_dir || node.children) return;
+
+    setLoadingPaths(prev => new Set(prev).add(path));
+    try {
+      const result = await invoke<FileNode>("analyze_directory", { path, scanId: scanIdRef.current });
+
+      if (result.children) {
+        setData(prev => {
+          if (!prev) return null;
+          return replaceChildrenAtPath(prev, path, result.children!);
+        });
+      }
+    } catch (err) {
+      const errMsg = err instanceof Error ? err.message : String(err);
+      console.error(`Error loading ${path}: ${errMsg}`);
+    } finally {
+      setLoadingPaths(prev => {
+        const next = new Set(prev);
+        next.delete(path);
+        return next;
+      });
+    }
+  };
+
   /**
    * 切换目录树节点的展开/折叠状态。
    * Toggle expand/collapse state of a tree node.
@@ -362,37 +1190,47 @@ function App() {
     if (newExpanded.has(path)) {
       newExpanded.delete(path);
       setExpandedPaths(newExpanded);
+      // 折叠后隐藏的项不再保持选中 / Items hidden by the collapse leave the selection
+      setSelectedPaths(prev => {
+        const kept = [...prev].filter(p => p === path || !isSameOrDescendantPath(p, path));
+        return kept.length === prev.size ? prev : new Set(kept);
+      });
       return;
     }
 
     newExpanded.add(path);
     setExpandedPaths(newExpanded);
 
-    if (data) {
-      const node = findNodeByPath(data, path);
-      if (node && node.is_dir && !node.children) {
-        setLoadingPaths(prev => new Set(prev).add(path));
-        try {
-          const result = await invoke<FileNode>("analyze_directory", { path });
-
-          if (result.children) {
-            setData(prev => {
-              if (!prev) return null;
-              return replaceChildrenAtPath(prev, path, result.children!);
-            });
-          }
-        } catch (err) {
-          const errMsg = err instanceof Error ? err.message : String(err);
-          console.error(`Error loading ${path}: ${errMsg}`);
-        } finally {
-          setLoadingPaths(prev => {
-            const next = new Set(prev);
-            next.delete(path);
-            return next;
-          });
-        }
-      }
-    }
+    await loadChildren(path);
+  };
+
+  /**
+   * 矩形树图下钻：切换到该目录，并在需要时加载其子项。
+   * Treemap drill-down: focus the folder and load its children when needed.
+   */
+  const handleTreemapDrill = async (node: FileNode) => {
+    setTreemapPath(node.path);
+    await loadChildren(node.path);
+  };
+
+  /**
+   * 从根到目标路径的节点链（用于面包屑）；找不到时返回仅含根的链。
+   * Node chain from root to the target path (for breadcrumbs); falls back to the root alone.
+   */
+  const getNodeChain = (root: FileNode, path: string | null): FileNode[] => {
+    if (!path) return [root];
+
+    const walk = (node: FileNode): FileNode[] | null => {
+      if (node.path === path) return [node];
+      if (!node.children) return null;
+      for (const child of node.children) {
+        const chain = walk(child);
+        if (chain) return [node, ...chain];
+      }
+      return null;
+    };
+
+    return walk(root) ?? [root];
   };
 
   /**
@@ -401,6 +1239,10 @@ function App() {
    */
   const handleContextMenu = (e: React.MouseEvent, path: string) => {
     e.preventDefault();
+    setFocusedPath(path);
+    if (!selectedPaths.has(path)) {
+      setSelectedPaths(new Set([path]));
+    }
     setContextMenu({
       visible: true,
       x: e.clientX,
@@ -410,125 +1252,1090 @@ function App() {
   };
 
   /**
-   * 在系统文件资源管理器中打开当前右键选中的路径。
-   * Open the context-selected path in system file explorer.
+   * 在目录树中定位路径：逐级加载并展开祖先目录，切换到目录树并选中该项。
+   * Reveal a path in the tree: load and expand each ancestor, switch to the tree and select the item.
    */
-  const handleOpenInExplorer = async () => {
-    if (contextMenu) {
-      try {
-        await invoke('open_in_explorer', { path: contextMenu.path });
-      } catch (err) {
-        console.error('Failed to open explorer:', err);
+  const revealPath = async (path: string) => {
+    if (!data || !isSameOrDescendantPath(path, data.path)) return;
+
+    const ancestors: string[] = [];
+    let current: FileNode = data;
+    try {
+      while (normalizePathForMatch(current.path) !== normalizePathForMatch(path)) {
+        ancestors.push(current.path);
+
+        let children = current.children;
+        if (!children) {
+          const parentPath = current.path;
+          const result = await invoke<FileNode>("analyze_directory", { path: parentPath, scanId: scanIdRef.current });
+          const loaded = result.children ?? [];
+          children = loaded;
+          setData(prev => {
+            if (!prev || findNodeByPath(prev, parentPath)?.children) return prev;
+            return replaceChildrenAtPath(prev, parentPath, loaded);
+          });
+        }
+
+        const next = children.find(child => isSameOrDescendantPath(path, child.path));
+        if (!next) break;
+        current = next;
       }
-      setContextMenu(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+      return;
+    }
+
+    setExpandedPaths(prev => new Set([...prev, ...ancestors]));
+    setSelectedPaths(new Set([current.path]));
+    setView('tree');
+    setRevealTarget(current.path);
+  };
+
+  /**
+   * 点击文件类型类别：在目录树中只显示该类别的文件及包含它们的目录。
+   * Category click in the file types view: filter the tree to files of that category and the folders holding them.
+   */
+  const handleCategorySelect = async (category: string) => {
+    const scanId = scanIdRef.current;
+    if (!data || !typeBreakdown || scanId === null) return;
+
+    try {
+      const dirs = await invoke<string[]>('get_category_dirs', { scanId, path: typeBreakdown.path, category });
+      const rootKey = normalizePathForMatch(data.path);
+      const holders = new Set(dirs.map(normalizePathForMatch));
+      const visibleDirs = new Set<string>();
+      for (const holder of holders) {
+        let current = holder;
+        while (!visibleDirs.has(current)) {
+          visibleDirs.add(current);
+          const cut = current.lastIndexOf('/');
+          if (current === rootKey || cut <= 0 || cut < rootKey.length - 1) break;
+          current = current.slice(0, cut);
+        }
+      }
+      visibleDirs.add(rootKey);
+
+      const extensions = new Set(
+        typeBreakdown.extensions.filter(item => item.category === category).map(item => item.extension),
+      );
+      setTypeFilter({ category, extensions, holders, visibleDirs });
+      setExpandedPaths(prev => new Set([...prev, ...getNodeChain(data, typeBreakdown.path).map(node => node.path)]));
+      setView('tree');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
     }
   };
 
   /**
-   * 统计图数据：仅展示已计算完成的根级子项，并将小项聚合到“其他”。
-   * Chart dataset: only includes computed root children; groups small items into "Other".
+   * 类型筛选生效时，子项是否可见：目录需包含该类别文件，文件需属于该类别且位于被统计的目录中。
+   * Whether a child is visible under the type filter: folders must hold such files, files must match
+   * the category and sit in a counted folder.
    */
-  const chartData = useMemo(() => {
-    if (!data?.children) return [];
+  const isVisibleUnderFilter = (child: FileNode, parent: FileNode) => {
+    if (!typeFilter) return true;
+    if (child.is_dir) return typeFilter.visibleDirs.has(normalizePathForMatch(child.path));
+    return (
+      typeFilter.holders.has(normalizePathForMatch(parent.path)) &&
+      typeFilter.extensions.has(fileExtension(child.name))
+    );
+  };
 
-    const MAX_SLICES = 20;
-    const OTHER_RATIO = 0.01;
+  /** 目录树中当前显示的行（已展开部分，按显示顺序） / Rows currently shown in the tree (expanded part, in display order) */
+  const treeRows = useMemo(
+    () => (data ? flattenTree(data, expandedPaths, treeViewSettings.sort, isVisibleUnderFilter) : []),
+    [data, expandedPaths, typeFilter, treeViewSettings.sort]
+  );
+
+  // 在目录树中定位目标：等目标行出现在行列表中后滚动到可见区域中央
+  // Reveal a target in the tree: once its row is in the row list, scroll it to the middle of the viewport
+  useEffect(() => {
+    if (!revealTarget || view !== 'tree') return;
 
-    const childrenWithSize = data.children.filter(child => child.size !== null);
-    const totalSize = childrenWithSize.reduce((acc, child) => acc + (child.size || 0), 0);
-    if (totalSize === 0) return [];
+    const index = treeRows.findIndex(row => row.node.path === revealTarget);
+    const list = fileListRef.current;
+    if (index >= 0 && list) {
+      list.scrollTop = index * TREE_ROW_HEIGHT - (list.clientHeight - TREE_ROW_HEIGHT) / 2;
+      setRevealTarget(null);
+    }
+  }, [revealTarget, view, treeRows]);
 
-    const threshold = totalSize * OTHER_RATIO;
-    const sortedChildren = [...childrenWithSize].sort((a, b) => (b.size || 0) - (a.size || 0));
+  /** 焦点行在 treeRows 中的下标（不在列表中时为 -1） / Index of the focused row in treeRows (-1 when not listed) */
+  const focusedIndex = useMemo(
+    () => (focusedPath === null ? -1 : treeRows.findIndex(row => row.node.path === focusedPath)),
+    [treeRows, focusedPath]
+  );
 
-    const items: { name: string; value: number; formattedSize: string }[] = [];
-    let otherSize = 0;
-    let otherCount = 0;
+  /**
+   * 选中项的汇总：嵌套在其它选中目录中的项不重复计算大小。
+   * Summary of the selection: items nested in another selected folder are not counted twice.
+   */
+  const selectionSummary = useMemo(() => {
+    if (selectedPaths.size === 0) return null;
+
+    let size = 0;
+    let pending = false;
+    let coveredDepth = -1;
+    for (const row of treeRows) {
+      if (coveredDepth >= 0 && row.depth > coveredDepth) continue;
+      coveredDepth = -1;
+      if (!selectedPaths.has(row.node.path)) continue;
+
+      coveredDepth = row.depth;
+      if (row.node.size === null) pending = true;
+      else size += row.node.size;
+    }
+    return { count: selectedPaths.size, size, pending };
+  }, [treeRows, selectedPaths]);
 
-    for (const child of sortedChildren) {
-      const size = child.size || 0;
-      const shouldBeOther = size < threshold || items.length >= MAX_SLICES;
+  // Enter 进入目录：子项加载并列出后，焦点移到第一个子项
+  // Enter on a folder: once its children are loaded and listed, focus moves to the first one
+  useEffect(() => {
+    if (!drillPath) return;
+
+    const index = treeRows.findIndex(row => row.node.path === drillPath);
+    if (index < 0) {
+      setDrillPath(null);
+      return;
+    }
+    if (!treeRows[index].node.children) return;
+
+    if (treeRows[index + 1]?.depth > treeRows[index].depth) focusTreeRow(index + 1, 'select');
+    setDrillPath(null);
+  }, [drillPath, treeRows]);
+
+  /**
+   * 滚动目录树，使指定行完整可见。
+   * Scroll the tree so that a row is fully visible.
+   */
+  const scrollTreeRowIntoView = (index: number) => {
+    const list = fileListRef.current;
+    if (!list) return;
+
+    const top = index * TREE_ROW_HEIGHT;
+    if (top < list.scrollTop) {
+      list.scrollTop = top;
+    } else if (top + TREE_ROW_HEIGHT > list.scrollTop + list.clientHeight) {
+      list.scrollTop = top + TREE_ROW_HEIGHT - list.clientHeight;
+    }
+  };
+
+  /**
+   * 把焦点移到某行。mode 为 select 时只选中该行，extend 时从锚点选到该行，move 时不改变选择。
+   * Move the focus to a row. `select` selects only that row, `extend` selects from the anchor to it,
+   * and `move` leaves the selection alone.
+   */
+  const focusTreeRow = (index: number, mode: 'select' | 'extend' | 'move') => {
+    const target = Math.min(Math.max(index, 0), treeRows.length - 1);
+    const path = treeRows[target]?.node.path;
+    if (path === undefined) return;
+
+    setFocusedPath(path);
+    setDrillPath(null);
+    scrollTreeRowIntoView(target);
+
+    if (mode === 'select') {
+      selectionAnchorRef.current = path;
+      setSelectedPaths(new Set([path]));
+    } else if (mode === 'extend') {
+      const anchorIndex = treeRows.findIndex(row => row.node.path === selectionAnchorRef.current);
+      const from = anchorIndex < 0 ? target : Math.min(anchorIndex, target);
+      const to = anchorIndex < 0 ? target : Math.max(anchorIndex, target);
+      if (anchorIndex < 0) selectionAnchorRef.current = path;
+      setSelectedPaths(new Set(treeRows.slice(from, to + 1).map(row => row.node.path)));
+    }
+  };
 
-      if (shouldBeOther) {
-        otherSize += size;
-        otherCount += 1;
-        continue;
+  /**
+   * 切换一项的选中状态，并以它为新的范围选择锚点。
+   * Toggle whether an item is selected and make it the new range anchor.
+   */
+  const toggleSelected = (path: string) => {
+    selectionAnchorRef.current = path;
+    setSelectedPaths(prev => {
+      const next = new Set(prev);
+      if (next.has(path)) next.delete(path);
+      else next.add(path);
+      return next;
+    });
+  };
+
+  /**
+   * 目录树行点击：Ctrl/⌘ 点击切换多选，Shift 点击从锚点选到该行，普通点击只选中该行并展开/折叠目录。
+   * Tree row click: Ctrl/⌘-click toggles multi-selection, Shift-click selects from the anchor to the row,
+   * and a plain click selects only the row and expands/collapses folders.
+   */
+  const handleRowClick = (e: React.MouseEvent, index: number) => {
+    const node = treeRows[index].node;
+    if (e.shiftKey) {
+      focusTreeRow(index, 'extend');
+      return;
+    }
+    if (e.ctrlKey || e.metaKey) {
+      setFocusedPath(node.path);
+      toggleSelected(node.path);
+      return;
+    }
+
+    focusTreeRow(index, 'select');
+    if (node.is_dir && !node.excluded && !loadingPaths.has(node.path)) toggleExpand(node.path);
+  };
+
+  /**
+   * 键盘操作目录树：方向键移动与折叠/展开，Enter 进入目录，空格切换选中，其余字母键对应右键菜单操作。
+   * Keyboard control of the tree: arrows move and collapse/expand, Enter enters a folder, Space toggles
+   * the selection, and letter keys run the context-menu actions.
+   */
+  const handleTreeKeyDown = (e: React.KeyboardEvent) => {
+    if (!data || treeRows.length === 0) return;
+
+    const index = focusedIndex < 0 ? 0 : focusedIndex;
+    const { node, depth } = treeRows[index];
+    const isExpandable = node.is_dir && !node.excluded;
+    const isExpanded = expandedPaths.has(node.path);
+    const hasChildRow = (treeRows[index + 1]?.depth ?? -1) > depth;
+    const moveMode = e.shiftKey ? 'extend' : e.ctrlKey || e.metaKey ? 'move' : 'select';
+    const pageRows = Math.max(1, Math.floor((fileListRef.current?.clientHeight ?? 0) / TREE_ROW_HEIGHT) - 1);
+    const hasModifier = e.ctrlKey || e.metaKey || e.altKey;
+
+    if (focusedIndex < 0 && ['ArrowDown', 'ArrowUp', 'Home', 'End', 'PageDown', 'PageUp'].includes(e.key)) {
+      e.preventDefault();
+      focusTreeRow(0, moveMode);
+      return;
+    }
+
+    switch (e.key) {
+      case 'ArrowDown':
+        focusTreeRow(index + 1, moveMode);
+        break;
+      case 'ArrowUp':
+        focusTreeRow(index - 1, moveMode);
+        break;
+      case 'PageDown':
+        focusTreeRow(index + pageRows, moveMode);
+        break;
+      case 'PageUp':
+        focusTreeRow(index - pageRows, moveMode);
+        break;
+      case 'Home':
+        focusTreeRow(0, moveMode);
+        break;
+      case 'End':
+        focusTreeRow(treeRows.length - 1, moveMode);
+        break;
+      case 'ArrowRight':
+        if (isExpandable && !isExpanded) toggleExpand(node.path);
+        else if (hasChildRow) focusTreeRow(index + 1, moveMode);
+        break;
+      case 'ArrowLeft':
+        if (isExpanded) {
+          toggleExpand(node.path);
+        } else {
+          let parentIndex = index - 1;
+          while (parentIndex >= 0 && treeRows[parentIndex].depth >= depth) parentIndex--;
+          if (parentIndex >= 0) focusTreeRow(parentIndex, moveMode);
+        }
+        break;
+      case 'Enter':
+        if (!node.is_dir) {
+          if (platformActions.open) handleOpenPath(node.path);
+          break;
+        }
+        if (!isExpandable) break;
+        if (hasChildRow) {
+          focusTreeRow(index + 1, 'select');
+        } else {
+          setDrillPath(node.path);
+          if (!isExpanded) toggleExpand(node.path);
+        }
+        break;
+      case ' ':
+        toggleSelected(node.path);
+        break;
+      case 'Escape':
+        if (contextMenu) setContextMenu(null);
+        else setSelectedPaths(new Set());
+        break;
+      case 'Delete':
+        if (node.path !== data.path) handleRequestDelete(node.path, e.shiftKey);
+        break;
+      default: {
+        const key = e.key.toLowerCase();
+        if (key === 'c' && (e.ctrlKey || e.metaKey) && !e.altKey) {
+          handleCopyPath(node.path);
+          break;
+        }
+        if (hasModifier) return;
+        if (key === 'o' && platformActions.reveal) handleOpenInExplorer(node.path);
+        else if (key === 'r' && isExpandable && !isScanStopped) handleRescan(node.path);
+        else if (key === 't' && node.is_dir) handleShowTypes(node.path);
+        else if (key === 'b' && node.path !== data.path) handleAddToBasket(node.path);
+        else return;
       }
+    }
+    e.preventDefault();
+  };
 
-      items.push({
-        name: child.name,
-        value: size,
-        formattedSize: formatSize(size),
+  /**
+   * 键盘打开的右键菜单（菜单键或 Shift+F10）：在焦点行下方打开。
+   * Context menu opened from the keyboard (Menu key or Shift+F10): shown below the focused row.
+   */
+  const handleTreeContextMenu = (e: React.MouseEvent) => {
+    if (e.target !== e.currentTarget) return;
+    e.preventDefault();
+
+    const path = focusedIndex >= 0 ? treeRows[focusedIndex].node.path : data?.path;
+    if (!path) return;
+
+    const row = document.getElementById(`tree-row-${focusedIndex}`) ?? e.currentTarget;
+    const rect = row.getBoundingClientRect();
+    if (!selectedPaths.has(path)) setSelectedPaths(new Set([path]));
+    setContextMenu({ visible: true, x: rect.left + 32, y: rect.bottom, path });
+  };
+
+  /**
+   * 在文件类型视图中查看目录。
+   * Show a folder in the file types view.
+   */
+  const handleShowTypes = (path: string) => {
+    setTypesPath(path === data?.path ? null : path);
+    setView('types');
+    setContextMenu(null);
+  };
+
+  /** 菜单项右侧的快捷键提示 / Shortcut hint on the right of a menu item */
+  const renderShortcut = (keys: string) => (
+    <kbd className="ml-auto pl-4 text-xs text-gray-400 font-sans">{keys}</kbd>
+  );
+
+  /**
+   * 运行一个针对路径的系统操作（右键菜单或键盘快捷键），失败时显示错误。
+   * Run a system action on a path (context menu or keyboard shortcut) and show an error when it fails.
+   * @param command 后端命令 / Backend command
+   */
+  const runPathAction = async (command: 'open_in_explorer' | 'open_path' | 'open_terminal', path: string) => {
+    setContextMenu(null);
+    try {
+      await invoke(command, { path });
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    }
+  };
+
+  const handleOpenInExplorer = (path: string) => runPathAction('open_in_explorer', path);
+  const handleOpenPath = (path: string) => runPathAction('open_path', path);
+  const handleOpenTerminal = (path: string) => runPathAction('open_terminal', path);
+
+  /**
+   * 复制路径到剪贴板；该项属于多选时复制所有选中路径（每行一个）。
+   * Copy a path to the clipboard; when the item is part of the selection, every selected path is copied (one per line).
+   */
+  const handleCopyPath = async (path: string) => {
+    setContextMenu(null);
+    const paths = selectedPaths.has(path) ? [...selectedPaths] : [path];
+    try {
+      await navigator.clipboard.writeText(paths.join('\n'));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    }
+  };
+
+  /**
+   * 更新指定路径的节点，并尽量避免无意义的全树拷贝。
+   * Update the node at the target path while avoiding unnecessary full-tree cloning.
+   */
+  const updateNodeAtPath = (root: FileNode, path: string, updater: (node: FileNode) => FileNode): FileNode => {
+    if (root.path === path) return updater(root);
+    if (!root.children) return root;
+
+    let changed = false;
+    const newChildren = root.children.map(child => {
+      const next = updateNodeAtPath(child, path, updater);
+      if (next !== child) changed = true;
+      return next;
+    });
+
+    if (!changed) return root;
+    return { ...root, children: newChildren };
+  };
+
+  /**
+   * 修改大小统计设置：以新规则重新扫描当前根目录（缓存中规则不同的结果不会复用）。
+   * Change the size accounting settings and rescan the current root under the new rules
+   * (cached results produced under other rules are not reused).
+   */
+  const handleSizeSettingsChange = (patch: Partial<SizeSettings>) => {
+    const next = sanitizeSizeSettings({ ...sizeSettings, ...patch });
+    sizeSettingsRef.current = next;
+    setSizeSettings(next);
+    if (data) analyzePath(data.path);
+  };
+
+  /**
+   * 修改年龄分析设置：更换判断年龄的时间需要重新扫描，月数阈值只需重新汇总。
+   * Change the age analysis settings: switching the time that decides a file's age rescans the current root,
+   * a new month threshold only re-aggregates the report.
+   */
+  const handleAgeSettingsChange = (patch: Partial<AgeSettings>) => {
+    const next = sanitizeAgeSettings({ ...ageSettings, ...patch });
+    ageSettingsRef.current = next;
+    setAgeSettings(next);
+    if (data && next.time !== ageSettings.time) analyzePath(data.path);
+  };
+
+  /**
+   * 保存扫描规则集，并以所选规则集重新扫描当前根目录。
+   * Save the scan rule profiles and rescan the current root with the selected one.
+   */
+  const handleSaveRules = (settings: ScanRuleSettings) => {
+    ruleSettingsRef.current = settings;
+    setRuleSettings(settings);
+    setIsRulesOpen(false);
+    if (data) analyzePath(data.path);
+  };
+
+  /**
+   * 重新扫描右键选中的目录：后端丢弃其子树缓存并重新计算，祖先目录的大小随事件一起更新；
+   * 已加载的子项先重新读取（子目录显示为计算中），再开始重新计算，之后推送的大小不会被列表覆盖。
+   * Rescan the context-selected folder: the backend drops its subtree cache and recomputes it, ancestors
+   * are updated through events. Loaded children are listed again first (subfolders shown as calculating)
+   * and only then is the recompute started, so the sizes it pushes are never overwritten by the listing.
+   */
+  const handleRescan = async (path: string) => {
+    if (!data) return;
+
+    const scanId = scanIdRef.current;
+    const hadChildren = !!findNodeByPath(data, path)?.children;
+    setContextMenu(null);
+    if (scanId === null) return;
+
+    setData(prev => (prev ? updateNodeAtPath(prev, path, node => ({ ...node, size: null, cached_at: null })) : null));
+
+    try {
+      if (hadChildren) {
+        const result = await invoke<FileNode>("analyze_directory", { path, scanId });
+        const children = (result.children ?? []).map(child =>
+          child.is_dir && !child.excluded ? { ...child, size: null, cached_at: null } : child
+        );
+        setData(prev => (prev ? replaceChildrenAtPath(prev, path, children) : null));
+        setExpandedPaths(prev => new Set([...prev].filter(p => p === path || !isSameOrDescendantPath(p, path))));
+      }
+
+      await invoke('rescan_directory', { path, scanId });
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    }
+  };
+
+  /**
+   * 从目录树移除已删除的节点，并把它们的大小与文件数从所有祖先中扣除。
+   * Remove deleted nodes from the tree and subtract their size and file count from every ancestor.
+   */
+  const removeNodesFromTree = (root: FileNode, removedPaths: Set<string>): FileNode => {
+    const walk = (node: FileNode): { node: FileNode; size: number; count: number } => {
+      if (!node.children) return { node, size: 0, count: 0 };
+
+      let changed = false;
+      let size = 0;
+      let count = 0;
+      const newChildren: FileNode[] = [];
+      for (const child of node.children) {
+        if (removedPaths.has(normalizePathForMatch(child.path))) {
+          changed = true;
+          size += child.size ?? 0;
+          count += child.file_count;
+          continue;
+        }
+
+        const result = walk(child);
+        if (result.node !== child) changed = true;
+        size += result.size;
+        count += result.count;
+        newChildren.push(result.node);
+      }
+
+      if (!changed) return { node, size: 0, count: 0 };
+      return {
+        node: {
+          ...node,
+          children: newChildren,
+          size: node.size === null ? null : Math.max(node.size - size, 0),
+          file_count: Math.max(node.file_count - count, 0),
+        },
+        size,
+        count,
+      };
+    };
+
+    return walk(root).node;
+  };
+
+  /**
+   * 右键菜单或快捷键操作的目标：该项属于多选时为整个选择，否则只有该项；根目录总是被排除。
+   * Targets of a context-menu or shortcut action: the whole selection when the item is part of it,
+   * otherwise that item alone; the root is always left out.
+   */
+  const getContextTargets = (path: string): FileNode[] => {
+    if (!data) return [];
+
+    const paths = selectedPaths.has(path) ? [...selectedPaths] : [path];
+    return paths
+      .filter(path => path !== data.path)
+      .map(path => findNodeByPath(data, path))
+      .filter((node): node is FileNode => node !== null);
+  };
+
+  /**
+   * 打开删除确认框（嵌套项只保留外层）。
+   * Open the delete confirmation (nested entries keep only the outer one).
+   */
+  const handleRequestDelete = (path: string, permanent: boolean) => {
+    const paths = pruneNestedPaths(getContextTargets(path).map(node => node.path));
+    const items = paths
+      .map(path => (data ? findNodeByPath(data, path) : null))
+      .filter((node): node is FileNode => node !== null);
+
+    setContextMenu(null);
+    if (items.length === 0) return;
+    setDeleteRequest({ items, permanent, busy: false, results: null });
+  };
+
+  /**
+   * 执行删除：成功的项从目录树移除并扣减祖先大小；有失败项时保留对话框展示原因。
+   * Run the removal: succeeded items leave the tree and their ancestors shrink; failures keep the dialog open with reasons.
+   */
+  const handleConfirmDelete = async () => {
+    if (!deleteRequest) return;
+
+    setDeleteRequest({ ...deleteRequest, busy: true });
+    try {
+      const results = await invoke<DeleteResult[]>('delete_paths', {
+        paths: deleteRequest.items.map(item => item.path),
+        permanent: deleteRequest.permanent,
+        scanId: scanIdRef.current,
+      });
+
+      const removed = results.filter(result => result.error === null).map(result => result.path);
+      if (removed.length > 0) {
+        const removedSet = new Set(removed.map(normalizePathForMatch));
+        setData(prev => (prev ? removeNodesFromTree(prev, removedSet) : null));
+        setExpandedPaths(prev => new Set([...prev].filter(p => !removed.some(r => isSameOrDescendantPath(p, r)))));
+        setSelectedPaths(new Set());
+        if (view === 'largest') fetchLargestFiles();
+        if (view === 'problems') fetchProblems();
+        if (view === 'age') fetchAgeReport();
+        setBasket(prev => prev.filter(item => !removed.some(r => isSameOrDescendantPath(item.path, r))));
+        setDupResult(prev => (prev ? removeFromDuplicates(prev, removed) : null));
+      }
+
+      // 批量操作或有失败时展示逐项结果 / Show per-item results for batches or when something failed
+      const hasFailures = results.some(result => result.error !== null);
+      const showResults = hasFailures || results.length > 1;
+      setDeleteRequest(showResults ? { ...deleteRequest, busy: false, results } : null);
+    } catch (err) {
+      setDeleteRequest(null);
+      setError(err instanceof Error ? err.message : String(err));
+    }
+  };
+
+  /**
+   * 篮子中的节点以目录树中的最新数据为准（大小可能仍在更新），已不在树中时保留加入时的快照。
+   * Basket entries follow the latest tree data (sizes may still be updating); the snapshot taken when
+   * they were added is kept once they are no longer in the tree.
+   */
+  const basketItems = useMemo(
+    () => basket.map(item => (data ? findNodeByPath(data, item.path) : null) ?? item),
+    [basket, data],
+  );
+
+  /**
+   * 将右键菜单或快捷键的目标加入清理篮子（已存在的项跳过）。
+   * Add the context-menu or shortcut targets to the cleanup basket (items already there are skipped).
+   */
+  const handleAddToBasket = (path: string) => {
+    const targets = getContextTargets(path);
+    setContextMenu(null);
+    if (targets.length === 0) return;
+
+    setBasket(prev => [...prev, ...targets.filter(node => !prev.some(item => item.path === node.path))]);
+    setIsBasketOpen(true);
+  };
+
+  /**
+   * 导出篮子清单为文本文件：每行一个路径及其大小，末尾为可释放总量。
+   * Export the basket as a text file: one path and its size per line, followed by the reclaimable total.
+   */
+  const handleExportBasket = async () => {
+    try {
+      const target = await save({
+        defaultPath: 'cleanup-list.txt',
+        filters: [{ name: 'Text', extensions: ['txt'] }],
       });
+      if (!target) return;
+
+      const topLevel = pruneNestedPaths(basketItems.map(item => item.path));
+      const total = basketItems
+        .filter(item => topLevel.includes(item.path))
+        .reduce((sum, item) => sum + (item.size ?? 0), 0);
+      const lines = basketItems.map(item => `${item.size === null ? '?' : formatSize(item.size)}\t${item.path}`);
+      const contents = [...lines, '', `${t('basketReclaimable')}: ${formatSize(total)}`, ''].join('\n');
+
+      await invoke('save_text_file', { path: target, contents });
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
     }
+  };
+
+  /**
+   * 返回加载到指定深度的树副本：尚未加载子项的目录向后端补充读取（不改变界面上的展开状态）。
+   * Return a copy of the tree loaded down to a depth: folders without loaded children are read from the backend
+   * (the tree's expansion state is left untouched).
+   */
+  const loadTreeToDepth = async (node: FileNode, maxDepth: number, depth = 0): Promise<FileNode> => {
+    if (!node.is_dir || node.excluded || depth >= maxDepth) return node;
 
-    if (otherSize > 0 || otherCount > 0) {
-      items.push({
-        name: t('otherItems', { count: otherCount.toLocaleString(numberLocale) }),
-        value: otherSize,
-        formattedSize: formatSize(otherSize),
+    let children = node.children;
+    if (!children) {
+      const result = await invoke<FileNode>("analyze_directory", { path: node.path, scanId: scanIdRef.current });
+      children = result.children ?? [];
+    }
+
+    const loaded: FileNode[] = [];
+    for (const child of children) {
+      loaded.push(await loadTreeToDepth(child, maxDepth, depth + 1));
+    }
+    return { ...node, children: loaded };
+  };
+
+  /**
+   * 按导出设置写出当前树：CSV、JSON 或 HTML 报告，保存到用户选择的位置。
+   * Write the current tree per the export settings (CSV, JSON or HTML report) to a file the user picks.
+   */
+  const handleExport = async () => {
+    if (!data) return;
+
+    const { format, depth, topN } = exportSettings;
+    const extension = EXPORT_EXTENSIONS[format];
+    try {
+      const target = await save({
+        defaultPath: `${data.name || 'scan'}.${extension}`,
+        filters: [{ name: format.toUpperCase(), extensions: [extension] }],
       });
+      if (!target) return;
+
+      setIsExporting(true);
+      const context = { t, numberLocale, exportedAt: Date.now() };
+      const contents =
+        format === 'html'
+          ? toHtmlReport(await loadTreeToDepth(data, 1), topN, context)
+          : format === 'json'
+            ? toJson(await loadTreeToDepth(data, depth), depth)
+            : toCsv(await loadTreeToDepth(data, depth), depth);
+
+      await invoke('save_text_file', { path: target, contents });
+      setIsExportOpen(false);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setIsExporting(false);
     }
+  };
+
+  /**
+   * 将当前扫描保存为快照文件（JSON）。
+   * Save the live scan as a snapshot file (JSON).
+   */
+  const handleSaveSnapshot = async () => {
+    try {
+      const snapshot = await buildLiveSnapshot();
+      if (!snapshot) return;
+
+      const target = await save({
+        defaultPath: `snapshot-${snapshot.tree.name || 'root'}.json`,
+        filters: [{ name: 'JSON', extensions: ['json'] }],
+      });
+      if (!target) return;
 
-    return items;
-  }, [data, numberLocale, t]);
+      await invoke('save_text_file', { path: target, contents: JSON.stringify(snapshot) });
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    }
+  };
 
   /**
-   * 递归渲染目录树。
-   * Recursively render directory tree.
-   * @param node 当前节点 / Current node
-   * @param depth 递归深度（用于缩进） / Depth (for indentation)
+   * 选择并读取快照文件；取消时返回 null。
+   * Pick and read a snapshot file; null when cancelled.
    */
-  const renderTree = (node: FileNode, depth = 0) => {
+  const pickSnapshot = async () => {
+    const selected = await open({
+      multiple: false,
+      filters: [{ name: 'JSON', extensions: ['json'] }],
+    });
+    if (!selected) return null;
+
+    const text = await invoke<string>('read_text_file', { path: String(selected) });
+    return parseSnapshot(text);
+  };
+
+  const handleLoadDiffSnapshot = async (side: 'base' | 'target') => {
+    try {
+      const snapshot = await pickSnapshot();
+      if (!snapshot) return;
+      if (side === 'base') setDiffBase(snapshot);
+      else setDiffTarget(snapshot);
+    } catch (err) {
+      setError(t('diffLoadFailed', { error: err instanceof Error ? err.message : String(err) }));
+    }
+  };
+
+  /**
+   * 将篮子中的所有项（嵌套项只保留外层）一次性移到回收站。
+   * Move everything in the basket (nested entries keep only the outer one) to the trash in one batch.
+   */
+  const handleTrashBasket = () => {
+    const paths = pruneNestedPaths(basketItems.map(item => item.path));
+    const items = basketItems.filter(item => paths.includes(item.path));
+    if (items.length === 0) return;
+    setDeleteRequest({ items, permanent: false, busy: false, results: null });
+  };
+
+  /**
+   * 在当前扫描根目录下开始查找重复文件（会取消上一次查找）。
+   * Start a duplicate search under the scanned root (cancelling the previous search).
+   */
+  const handleStartDuplicates = async () => {
+    const scanId = scanIdRef.current;
+    if (!data || scanId === null) return;
+
+    setDupResult(null);
+    setDupProgress(null);
+    setIsDupRunning(true);
+    const jobId = ++lastDupJobIdRef.current;
+    dupJobIdRef.current = jobId;
+    try {
+      await invoke('start_duplicate_search', { jobId, scanId, path: data.path, minSize: dupMinSize });
+    } catch (err) {
+      if (dupJobIdRef.current === jobId) dupJobIdRef.current = null;
+      setIsDupRunning(false);
+      setError(err instanceof Error ? err.message : String(err));
+    }
+  };
+
+  const handleCancelDuplicates = async () => {
+    const jobId = dupJobIdRef.current;
+    if (jobId === null) return;
+    try {
+      await invoke('cancel_duplicate_search', { jobId });
+    } catch (err) {
+      console.error('Failed to cancel duplicate search:', err);
+    }
+  };
+
+  /**
+   * 将重复组中的一个副本移到回收站（复用删除确认框）。
+   * Move one copy of a duplicate group to the trash (through the usual delete confirmation).
+   */
+  const handleTrashDuplicate = (path: string) => {
+    const group = dupResult?.groups.find(item => item.files.some(file => file.path === path));
+    if (!group) return;
+
+    const item: FileNode = {
+      name: path.split(/[\\/]/).pop() ?? path,
+      path,
+      size: group.size,
+      is_dir: false,
+      is_symlink: false,
+      size_mode: 'apparent',
+      file_count: 1,
+      skipped: 0,
+      cached_at: null,
+      excluded: null,
+      modified: null,
+      newest: null,
+      oldest: null,
+      owner: null,
+      permissions: null,
+      children: null,
+    };
+    setDeleteRequest({ items: [item], permanent: false, busy: false, results: null });
+  };
+
+  /**
+   * 统计图中心目录：默认为根目录。
+   * Folder at the centre of the chart; defaults to the root.
+   */
+  const chartChain = useMemo(() => (data ? getNodeChain(data, chartPath) : []), [data, chartPath]);
+  const chartFocus = chartChain.length > 0 ? chartChain[chartChain.length - 1] : null;
+
+  /**
+   * 旭日图数据：每一环更深一层，仅包含已计算完成的项，并在每一环将小项聚合到“其他”。
+   * Sunburst dataset: one level deeper per ring, computed items only, small items grouped into "Other" on every ring.
+   */
+  const sunburstData = useMemo(() => {
+    if (!chartFocus) return null;
+    return buildSunburstData(
+      chartFocus,
+      chartSettings,
+      COLORS,
+      formatSize,
+      count => t('otherItems', { count: count.toLocaleString(numberLocale) }),
+    );
+  }, [chartFocus, chartSettings, numberLocale, t]);
+
+  /**
+   * 点击旭日图扇区：以该目录为中心重新绘制，并加载尚未加载的子项。
+   * Sunburst slice click: re-centre on that folder and load children not loaded yet.
+   */
+  const handleChartSelect = async (datum: SunburstDatum) => {
+    if (!datum.path || !datum.isDir) return;
+    setChartPath(datum.path);
+    await loadChildren(datum.path);
+  };
+
+  /**
+   * 更新统计图设置（经过范围校验）。
+   * Update chart settings (range-checked).
+   */
+  const updateChartSettings = (patch: Partial<ChartSettings>) => {
+    setChartSettings(prev => sanitizeChartSettings({ ...prev, ...patch }));
+  };
+
+  /**
+   * 渲染面包屑导航：点击任一级返回该目录。
+   * Render breadcrumb navigation: clicking a level navigates back to it.
+   */
+  const renderBreadcrumb = (chain: FileNode[], onNavigate: (path: string | null) => void) => {
+    const focused = chain[chain.length - 1];
+    return (
+      <nav className="flex items-center flex-wrap gap-1 text-sm shrink-0 select-none">
+        {chain.map((node, index) => {
+          const isLast = index === chain.length - 1;
+          return (
+            <span key={node.path} className="flex items-center gap-1">
+              {index > 0 && <ChevronRight size={14} className="text-gray-400" />}
+              <button
+                onClick={() => onNavigate(index === 0 ? null : node.path)}
+                disabled={isLast}
+                className={cn(
+                  "px-1.5 py-0.5 rounded",
+                  isLast ? "font-semibold" : "text-blue-600 hover:bg-gray-100 dark:hover:bg-gray-700"
+                )}
+              >
+                {node.name}
+              </button>
+            </span>
+          );
+        })}
+        <span className="ml-auto text-xs font-mono text-gray-500">
+          {focused.size === null ? pendingLabel : formatSize(focused.size)}
+        </span>
+      </nav>
+    );
+  };
+
+  /**
+   * 格式化时间戳（跟随当前语言）。
+   * Format a timestamp using the active locale.
+   */
+  const formatTimestamp = (ms: number) => new Date(ms).toLocaleString(numberLocale);
+
+  /**
+   * 清空扫描缓存（内存与磁盘），下次扫描将重新计算所有目录。
+   * Clear the scan cache (memory and disk); the next scan recomputes every folder.
+   */
+  const handleClearCache = async () => {
+    try {
+      await invoke('clear_cache');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    }
+  };
+
+  /**
+   * 目录树变化列：目录相对基准快照的大小变化，基准中不存在时显示“新增”。
+   * Tree change column: a folder's size change against the baseline, or "new" when the baseline lacks it.
+   */
+  const renderTreeDelta = (node: FileNode) => {
+    if (!diffBaseIndex || !data || !node.is_dir || node.excluded || node.size === null) {
+      return <span className="w-24 text-right">-</span>;
+    }
+
+    const old = diffBaseIndex.get(snapshotKey(data.path, node.path));
+    if (!old) {
+      return <span className="w-24 text-right text-red-600 dark:text-red-400">{t('diffStatus_added')}</span>;
+    }
+
+    const delta = node.size - old.size;
+    return (
+      <span
+        className={cn(
+          "w-24 text-right truncate",
+          delta > 0 && "text-red-600 dark:text-red-400",
+          delta < 0 && "text-green-600 dark:text-green-400"
+        )}
+        title={t('diffBeforeSize', { size: formatSize(old.size) })}
+      >
+        {delta === 0 ? '=' : formatSizeDelta(delta)}
+      </span>
+    );
+  };
+
+  /**
+   * 目录树“占父目录比例”列：条形图与百分比；大小尚未算出时显示 "-"。
+   * Tree "% of parent" column: an inline bar and the percentage; "-" while either size is still unknown.
+   */
+  const renderTreeShare = (node: FileNode, parent: FileNode | null) => {
+    if (!parent || node.size === null || !parent.size) {
+      return <span className={cn(TREE_COLUMN_WIDTHS.share, "text-right")}>-</span>;
+    }
+
+    const share = Math.min(node.size / parent.size, 1) * 100;
+    return (
+      <span className={cn(TREE_COLUMN_WIDTHS.share, "flex items-center gap-2")}>
+        <span className="flex-1 h-1.5 rounded-full bg-gray-100 dark:bg-gray-700 overflow-hidden">
+          <span className="block h-full rounded-full bg-blue-500" style={{ width: `${share}%` }} />
+        </span>
+        <span className="w-12 text-right">{share.toLocaleString(numberLocale, { maximumFractionDigits: 1 })}%</span>
+      </span>
+    );
+  };
+
+  /**
+   * 渲染目录树的一行（由虚拟列表按需调用）。
+   * Render one tree row (called on demand by the virtual list).
+   * @param index 行在 treeRows 中的下标 / Index of the row in treeRows
+   */
+  const renderTreeRow = (index: number) => {
+    const { node, parent, depth, position, siblingCount } = treeRows[index];
+    const columns = treeViewSettings.columns;
     const isExpanded = expandedPaths.has(node.path as string);
     const isLoading = loadingPaths.has(node.path as string);
+    const isSelected = selectedPaths.has(node.path);
+    const now = Date.now();
+    const lastChange = lastChangeOf(node);
 
     return (
-      <div key={node.path as string} className="select-none">
-        <div 
-          className={cn(
-            "flex items-center py-1 px-2 hover:bg-gray-100 dark:hover:bg-gray-800 rounded cursor-pointer transition-colors group",
-            depth === 0 && "font-bold text-lg"
+      <div
+        key={node.path}
+        id={`tree-row-${index}`}
+        role="treeitem"
+        aria-level={depth + 1}
+        aria-posinset={position}
+        aria-setsize={siblingCount}
+        aria-selected={isSelected}
+        aria-expanded={node.is_dir && !node.excluded ? isExpanded : undefined}
+        className={cn(
+          "flex items-center px-2 select-none hover:bg-gray-100 dark:hover:bg-gray-800 rounded cursor-pointer transition-colors group",
+          depth === 0 && "font-bold text-lg",
+          treeViewSettings.ageTint && !isSelected && lastChange !== null && AGE_TINT_CLASSES[ageBucketOf(lastChange, now)],
+          isSelected && "bg-blue-50 dark:bg-blue-900/30",
+          index === focusedIndex && "ring-1 ring-inset ring-blue-400"
+        )}
+        style={{ height: TREE_ROW_HEIGHT, paddingLeft: `${depth * 1.5 + 0.5}rem` }}
+        data-path={node.path}
+        onClick={(e) => handleRowClick(e, index)}
+        onContextMenu={(e) => handleContextMenu(e, node.path as string)}
+      >
+        <span className="mr-1 text-gray-500">
+          {isLoading ? (
+            <Loader2 size={16} className="animate-spin" />
+          ) : node.is_dir && !node.excluded ? (
+            isExpanded ? <ChevronDown size={16} /> : <ChevronRight size={16} />
+          ) : (
+            <span className="w-4" />
           )}
-          style={{ paddingLeft: `${depth * 1.5 + 0.5}rem` }}
-          onClick={() => node.is_dir && !isLoading && toggleExpand(node.path as string)}
-          onContextMenu={(e) => handleContextMenu(e, node.path as string)}
-        >
-          <span className="mr-1 text-gray-500">
-            {isLoading ? (
-                <Loader2 size={16} className="animate-spin" />
-            ) : node.is_dir ? (
-              isExpanded ? <ChevronDown size={16} /> : <ChevronRight size={16} />
+        </span>
+        <span className={cn("mr-2", node.excluded && "opacity-50")}>
+          {node.is_dir ? (
+            node.is_symlink ? (
+              <FolderSymlink size={18} className="text-blue-500 fill-blue-500/20" />
             ) : (
-              <span className="w-4" />
-            )}
-          </span>
-          <span className="mr-2">
-            {node.is_dir ? (
               <Folder size={18} className="text-blue-500 fill-blue-500/20" />
+            )
+          ) : node.is_symlink ? (
+            <FileSymlink size={18} className="text-gray-400" />
+          ) : (
+            <File size={18} className="text-gray-400" />
+          )}
+        </span>
+        <span
+          className={cn("flex-1 truncate mr-4", node.excluded && "italic text-gray-400")}
+          title={node.is_symlink ? t('symlinkHint') : undefined}
+        >
+          {node.name}
+        </span>
+        {node.skipped > 0 && (
+          <span
+            className="mr-2 text-amber-500"
+            title={t('partialSize', { count: node.skipped.toLocaleString(numberLocale) })}
+            aria-label={t('partialSize', { count: node.skipped.toLocaleString(numberLocale) })}
+          >
+            <TriangleAlert size={14} />
+          </span>
+        )}
+        <div className="flex items-center gap-4 text-xs text-gray-400 font-mono group-hover:text-gray-600 dark:group-hover:text-gray-300">
+          <span className="w-20 text-right truncate">
+            {node.is_dir ? t('itemsCount', { count: node.file_count.toLocaleString(numberLocale) }) : '-'}
+          </span>
+          <span
+            className={cn(
+              "w-24 text-right truncate flex items-center justify-end gap-1",
+              node.cached_at !== null && "text-amber-600 dark:text-amber-400"
+            )}
+            title={node.cached_at !== null ? t('cachedFrom', { date: formatTimestamp(node.cached_at) }) : undefined}
+          >
+            {node.cached_at !== null && <History size={12} className="shrink-0" />}
+            {node.excluded ? (
+              <span title={t(`excludedReason_${node.excluded}`)}>{t('excluded')}</span>
+            ) : node.size === null ? (
+              pendingLabel
             ) : (
-              <File size={18} className="text-gray-400" />
+              formatSize(node.size)
             )}
           </span>
-          <span className="flex-1 truncate mr-4">{node.name}</span>
-          <div className="flex items-center gap-4 text-xs text-gray-400 font-mono group-hover:text-gray-600 dark:group-hover:text-gray-300">
-            <span className="w-20 text-right truncate">
-              {node.is_dir ? t('itemsCount', { count: node.file_count.toLocaleString(numberLocale) }) : '-'}
+          {columns.includes('share') && renderTreeShare(node, parent)}
+          {columns.includes('modified') && (
+            <span className={cn(TREE_COLUMN_WIDTHS.modified, "text-right truncate")}>
+              {node.modified !== null ? formatTimestamp(node.modified) : '-'}
             </span>
-            <span className="w-24 text-right truncate">
-              {node.size === null ? t('calculating') : formatSize(node.size)}
+          )}
+          {columns.includes('age') && (
+            <span
+              className={cn(TREE_COLUMN_WIDTHS.age, "text-right truncate")}
+              title={
+                node.is_dir
+                  ? node.newest !== null && node.oldest !== null
+                    ? t('ageRange', { newest: formatTimestamp(node.newest), oldest: formatTimestamp(node.oldest) })
+                    : undefined
+                  : lastChange !== null
+                    ? formatTimestamp(lastChange)
+                    : undefined
+              }
+            >
+              {lastChange !== null ? formatAge(lastChange, now, numberLocale) : '-'}
             </span>
-          </div>
+          )}
+          {columns.includes('owner') && (
+            <span className={cn(TREE_COLUMN_WIDTHS.owner, "truncate")} title={node.owner ?? undefined}>
+              {node.owner ?? '-'}
+            </span>
+          )}
+          {columns.includes('permissions') && (
+            <span className={cn(TREE_COLUMN_WIDTHS.permissions, "truncate")}>{node.permissions ?? '-'}</span>
+          )}
+          {diffBaseIndex && renderTreeDelta(node)}
         </div>
-        {node.is_dir && isExpanded && node.children && (
-          <div>
-            {node.children.map(child => renderTree(child, depth + 1))}
-          </div>
-        )}
       </div>
     );
   };
 
+  /** 右键菜单所指的节点 / Node the context menu points at */
+  const contextNode = contextMenu && data ? findNodeByPath(data, contextMenu.path) : null;
+  /**
+   * 问题数：扫描中取实时计数，完成后取根目录的跳过条目数（含缓存中的子树）。
+   * Problem count: the live count while scanning, then the root's skipped entries (cached subtrees included).
+   */
+  const problemCount = Math.max(data?.skipped ?? 0, progress?.problems ?? 0);
+
   return (
     <div
       className="h-screen flex flex-col bg-[#f8f9fa] dark:bg-[#0f1117] text-gray-900 dark:text-gray-100 font-sans overflow-hidden"
@@ -552,7 +2359,7 @@ function App() {
           </div>
           
           <div className="flex items-center gap-3">
-            {data && (
+            {data && !isAllRootsOpen && (
               <div className="flex bg-gray-100 dark:bg-gray-800 p-1 rounded-lg">
                 <button 
                   onClick={() => setView('tree')}
@@ -574,6 +2381,81 @@ function App() {
                   <BarChart3 size={16} />
                   {t('chartView')}
                 </button>
+                <button 
+                  onClick={() => setView('treemap')}
+                  className={cn(
+                    "px-3 py-1.5 rounded-md flex items-center gap-2 text-sm transition-all",
+                    view === 'treemap' ? "bg-white dark:bg-gray-700 shadow-sm" : "text-gray-500 hover:text-gray-700 dark:hover:text-gray-300"
+                  )}
+                >
+                  <LayoutGrid size={16} />
+                  {t('treemapView')}
+                </button>
+                <button 
+                  onClick={() => setView('largest')}
+                  className={cn(
+                    "px-3 py-1.5 rounded-md flex items-center gap-2 text-sm transition-all",
+                    view === 'largest' ? "bg-white dark:bg-gray-700 shadow-sm" : "text-gray-500 hover:text-gray-700 dark:hover:text-gray-300"
+                  )}
+                >
+                  <FileStack size={16} />
+                  {t('largestView')}
+                </button>
+                <button 
+                  onClick={() => setView('types')}
+                  className={cn(
+                    "px-3 py-1.5 rounded-md flex items-center gap-2 text-sm transition-all",
+                    view === 'types' ? "bg-white dark:bg-gray-700 shadow-sm" : "text-gray-500 hover:text-gray-700 dark:hover:text-gray-300"
+                  )}
+                >
+                  <Shapes size={16} />
+                  {t('typesView')}
+                </button>
+                <button 
+                  onClick={() => setView('duplicates')}
+                  className={cn(
+                    "px-3 py-1.5 rounded-md flex items-center gap-2 text-sm transition-all",
+                    view === 'duplicates' ? "bg-white dark:bg-gray-700 shadow-sm" : "text-gray-500 hover:text-gray-700 dark:hover:text-gray-300"
+                  )}
+                >
+                  <Copy size={16} />
+                  {t('duplicatesView')}
+                </button>
+                <button 
+                  onClick={() => setView('diff')}
+                  className={cn(
+                    "px-3 py-1.5 rounded-md flex items-center gap-2 text-sm transition-all",
+                    view === 'diff' ? "bg-white dark:bg-gray-700 shadow-sm" : "text-gray-500 hover:text-gray-700 dark:hover:text-gray-300"
+                  )}
+                >
+                  <GitCompare size={16} />
+                  {t('diffView')}
+                </button>
+                <button 
+                  onClick={() => setView('age')}
+                  className={cn(
+                    "px-3 py-1.5 rounded-md flex items-center gap-2 text-sm transition-all",
+                    view === 'age' ? "bg-white dark:bg-gray-700 shadow-sm" : "text-gray-500 hover:text-gray-700 dark:hover:text-gray-300"
+                  )}
+                >
+                  <Hourglass size={16} />
+                  {t('ageView')}
+                </button>
+                <button 
+                  onClick={() => setView('problems')}
+                  className={cn(
+                    "px-3 py-1.5 rounded-md flex items-center gap-2 text-sm transition-all",
+                    view === 'problems' ? "bg-white dark:bg-gray-700 shadow-sm" : "text-gray-500 hover:text-gray-700 dark:hover:text-gray-300"
+                  )}
+                >
+                  <TriangleAlert size={16} />
+                  {t('problemsView')}
+                  {problemCount > 0 && (
+                    <span className="px-1.5 rounded-full bg-amber-100 text-amber-700 dark:bg-amber-900/40 dark:text-amber-300 text-xs">
+                      {problemCount.toLocaleString(numberLocale)}
+                    </span>
+                  )}
+                </button>
               </div>
             )}
             <div className="relative" onClick={(e) => e.stopPropagation()}>
@@ -608,6 +2490,81 @@ function App() {
                 </div>
               )}
             </div>
+            {isScanning && (
+              <button
+                onClick={handleStopScan}
+                className="bg-red-50 hover:bg-red-100 dark:bg-red-950/40 dark:hover:bg-red-900/50 text-red-600 dark:text-red-400 px-3 py-2 rounded-lg flex items-center gap-2 text-sm transition-colors"
+              >
+                <Square size={14} className="fill-current" />
+                {t('stopScan')}
+              </button>
+            )}
+            {data && (
+              <button
+                onClick={() => setIsBasketOpen(prev => !prev)}
+                title={t('basketTitle')}
+                className="bg-gray-100 hover:bg-gray-200 dark:bg-gray-800 dark:hover:bg-gray-700 text-gray-700 dark:text-gray-200 px-3 py-2 rounded-lg flex items-center gap-2 text-sm transition-colors"
+              >
+                <ShoppingBasket size={16} />
+                {t('basket')}
+                {basket.length > 0 && (
+                  <span className="text-xs font-mono bg-blue-600 text-white rounded-full px-1.5">{basket.length}</span>
+                )}
+              </button>
+            )}
+            {data && !isScanStopped && (
+              <button
+                onClick={handleToggleWatch}
+                title={
+                  watchStatus?.state === 'polling'
+                    ? t('watchPolling', { reason: watchStatus.reason ?? '' })
+                    : watchStatus
+                      ? t('watchActiveHint')
+                      : t('watchHint')
+                }
+                className={cn(
+                  "px-3 py-2 rounded-lg flex items-center gap-2 text-sm transition-colors",
+                  watchStatus
+                    ? "bg-green-50 hover:bg-green-100 dark:bg-green-950/40 dark:hover:bg-green-900/50 text-green-700 dark:text-green-400"
+                    : "bg-gray-100 hover:bg-gray-200 dark:bg-gray-800 dark:hover:bg-gray-700 text-gray-700 dark:text-gray-200",
+                )}
+              >
+                {watchStatus?.state === 'starting' ? <Loader2 size={16} className="animate-spin" /> : watchStatus ? <Eye size={16} /> : <EyeOff size={16} />}
+                {watchStatus?.state === 'polling'
+                  ? t('watchingPolled')
+                  : watchStatus?.state === 'starting'
+                    ? t('watchStarting')
+                    : watchStatus
+                      ? t('watching')
+                      : t('watch')}
+              </button>
+            )}
+            {data && (
+              <button
+                onClick={() => setIsExportOpen(true)}
+                title={t('exportTitle')}
+                className="bg-gray-100 hover:bg-gray-200 dark:bg-gray-800 dark:hover:bg-gray-700 text-gray-700 dark:text-gray-200 px-3 py-2 rounded-lg flex items-center gap-2 text-sm transition-colors"
+              >
+                <Download size={16} />
+                {t('export')}
+              </button>
+            )}
+            <button
+              onClick={() => setIsRulesOpen(true)}
+              title={t('rulesTitle')}
+              className="bg-gray-100 hover:bg-gray-200 dark:bg-gray-800 dark:hover:bg-gray-700 text-gray-700 dark:text-gray-200 px-3 py-2 rounded-lg flex items-center gap-2 text-sm transition-colors"
+            >
+              <ListFilter size={16} />
+              {ruleSettings.active}
+            </button>
+            <button
+              onClick={handleClearCache}
+              title={t('clearCacheHint')}
+              className="bg-gray-100 hover:bg-gray-200 dark:bg-gray-800 dark:hover:bg-gray-700 text-gray-700 dark:text-gray-200 px-3 py-2 rounded-lg flex items-center gap-2 text-sm transition-colors"
+            >
+              <Eraser size={16} />
+              {t('clearCache')}
+            </button>
             <button 
               onClick={handleSelectFolder}
               disabled={loading}
@@ -627,12 +2584,204 @@ function App() {
             style={{ top: contextMenu.y, left: contextMenu.x }}
             onClick={(e) => e.stopPropagation()}
           >
+            {platformActions.reveal && (
+              <button
+                onClick={() => handleOpenInExplorer(contextMenu.path)}
+                className="w-full text-left px-4 py-2 text-sm text-gray-700 dark:text-gray-200 hover:bg-gray-100 dark:hover:bg-gray-700 flex items-center gap-2"
+              >
+                <FolderOpen size={14} />
+                {t('openInExplorer')}
+                {renderShortcut('O')}
+              </button>
+            )}
+            {platformActions.open && contextNode && !contextNode.is_dir && (
+              <button
+                onClick={() => handleOpenPath(contextMenu.path)}
+                className="w-full text-left px-4 py-2 text-sm text-gray-700 dark:text-gray-200 hover:bg-gray-100 dark:hover:bg-gray-700 flex items-center gap-2"
+              >
+                <ExternalLink size={14} />
+                {t('openFile')}
+                {renderShortcut('Enter')}
+              </button>
+            )}
+            {platformActions.terminal && (
+              <button
+                onClick={() => handleOpenTerminal(contextMenu.path)}
+                className="w-full text-left px-4 py-2 text-sm text-gray-700 dark:text-gray-200 hover:bg-gray-100 dark:hover:bg-gray-700 flex items-center gap-2"
+              >
+                <SquareTerminal size={14} />
+                {t('openTerminalHere')}
+              </button>
+            )}
             <button
-              onClick={handleOpenInExplorer}
+              onClick={() => handleCopyPath(contextMenu.path)}
               className="w-full text-left px-4 py-2 text-sm text-gray-700 dark:text-gray-200 hover:bg-gray-100 dark:hover:bg-gray-700 flex items-center gap-2"
             >
-              <FolderOpen size={14} />
-              {t('openInExplorer')}
+              <ClipboardCopy size={14} />
+              {t('copyPath')}
+              {renderShortcut('Ctrl+C')}
+            </button>
+            {data && findNodeByPath(data, contextMenu.path)?.is_dir && !findNodeByPath(data, contextMenu.path)?.excluded && (
+              <button
+                onClick={() => handleRescan(contextMenu.path)}
+                disabled={isScanStopped}
+                className="w-full text-left px-4 py-2 text-sm text-gray-700 dark:text-gray-200 hover:bg-gray-100 dark:hover:bg-gray-700 flex items-center gap-2 disabled:opacity-50"
+              >
+                <RefreshCw size={14} />
+                {t('rescan')}
+                {renderShortcut('R')}
+              </button>
+            )}
+            {data && findNodeByPath(data, contextMenu.path)?.is_dir && (
+              <button
+                onClick={() => handleShowTypes(contextMenu.path)}
+                className="w-full text-left px-4 py-2 text-sm text-gray-700 dark:text-gray-200 hover:bg-gray-100 dark:hover:bg-gray-700 flex items-center gap-2"
+              >
+                <Shapes size={14} />
+                {t('typesView')}
+                {renderShortcut('T')}
+              </button>
+            )}
+            {data && contextMenu.path !== data.path && (
+              <>
+                <button
+                  onClick={() => handleAddToBasket(contextMenu.path)}
+                  className="w-full text-left px-4 py-2 text-sm text-gray-700 dark:text-gray-200 hover:bg-gray-100 dark:hover:bg-gray-700 flex items-center gap-2"
+                >
+                  <ShoppingBasket size={14} />
+                  {t('addToBasket')}
+                  {renderShortcut('B')}
+                </button>
+                <div className="my-1 border-t border-gray-200 dark:border-gray-700" />
+                <button
+                  onClick={() => handleRequestDelete(contextMenu.path, false)}
+                  className="w-full text-left px-4 py-2 text-sm text-red-600 dark:text-red-400 hover:bg-gray-100 dark:hover:bg-gray-700 flex items-center gap-2"
+                >
+                  <Trash2 size={14} />
+                  {selectedPaths.size > 1 && selectedPaths.has(contextMenu.path)
+                    ? t('moveSelectionToTrash', { count: selectedPaths.size })
+                    : t('moveToTrash')}
+                  {renderShortcut('Del')}
+                </button>
+                <button
+                  onClick={() => handleRequestDelete(contextMenu.path, true)}
+                  className="w-full text-left px-4 py-2 text-sm text-red-600 dark:text-red-400 hover:bg-gray-100 dark:hover:bg-gray-700 flex items-center gap-2"
+                >
+                  <TriangleAlert size={14} />
+                  {t('deletePermanent')}
+                  {renderShortcut('Shift+Del')}
+                </button>
+              </>
+            )}
+          </div>
+        )}
+
+        {isBasketOpen && data && (
+          <CleanupBasketPanel
+            items={basketItems}
+            onRemove={(path) => setBasket(prev => prev.filter(item => item.path !== path))}
+            onClear={() => setBasket([])}
+            onExport={handleExportBasket}
+            onTrashAll={handleTrashBasket}
+            onClose={() => setIsBasketOpen(false)}
+            t={t}
+            numberLocale={numberLocale}
+          />
+        )}
+
+        {isExportOpen && (
+          <ExportDialog
+            settings={exportSettings}
+            busy={isExporting}
+            onSettingsChange={(patch) => setExportSettings(prev => sanitizeExportSettings({ ...prev, ...patch }))}
+            onExport={handleExport}
+            onClose={() => setIsExportOpen(false)}
+            t={t}
+          />
+        )}
+        {isRulesOpen && (
+          <ScanRulesDialog
+            settings={ruleSettings}
+            onSave={handleSaveRules}
+            onClose={() => setIsRulesOpen(false)}
+            t={t}
+          />
+        )}
+
+        {deleteRequest && (
+          <DeleteConfirmDialog
+            items={deleteRequest.items}
+            permanent={deleteRequest.permanent}
+            busy={deleteRequest.busy}
+            results={deleteRequest.results}
+            onConfirm={handleConfirmDelete}
+            onClose={() => setDeleteRequest(null)}
+            t={t}
+            numberLocale={numberLocale}
+          />
+        )}
+
+        {(tabs.length > 1 || data) && (
+          <div className="flex items-center gap-1 mb-4 shrink-0 overflow-x-auto" role="tablist">
+            {tabRoots.length > 1 && (
+              <button
+                role="tab"
+                aria-selected={isAllRootsOpen}
+                onClick={() => setIsAllRootsOpen(true)}
+                className={cn(
+                  "px-3 py-1.5 rounded-lg flex items-center gap-2 text-sm shrink-0 transition-colors",
+                  isAllRootsOpen ? "bg-white dark:bg-gray-800 shadow-sm border border-gray-200 dark:border-gray-700" : "text-gray-500 hover:bg-gray-100 dark:hover:bg-gray-800"
+                )}
+              >
+                <Layers size={14} />
+                {t('allRoots')}
+              </button>
+            )}
+            {tabs.map(tab => {
+              const root = tab.id === activeTabId ? data : tab.data;
+              const stopped = tab.id === activeTabId ? isScanStopped : tab.isScanStopped;
+              const totals = root ? getRootTotals(root) : null;
+              const isActive = tab.id === activeTabId && !isAllRootsOpen;
+              return (
+                <div
+                  key={tab.id}
+                  role="tab"
+                  aria-selected={isActive}
+                  onClick={() => handleSelectTab(tab.id)}
+                  title={root?.path}
+                  className={cn(
+                    "group px-3 py-1.5 rounded-lg flex items-center gap-2 text-sm shrink-0 max-w-[16rem] cursor-pointer transition-colors",
+                    isActive ? "bg-white dark:bg-gray-800 shadow-sm border border-gray-200 dark:border-gray-700" : "text-gray-500 hover:bg-gray-100 dark:hover:bg-gray-800"
+                  )}
+                >
+                  {totals?.pending && !stopped ? (
+                    <Loader2 size={14} className="animate-spin shrink-0" />
+                  ) : (
+                    <Folder size={14} className="text-blue-500 shrink-0" />
+                  )}
+                  <span className="truncate">{root ? root.name : t('newTab')}</span>
+                  {totals && <span className="text-xs font-mono text-gray-400 shrink-0">{formatSize(totals.size)}</span>}
+                  <button
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      handleCloseTab(tab.id);
+                    }}
+                    title={t('closeTab')}
+                    aria-label={t('closeTab')}
+                    className="p-0.5 rounded text-gray-400 hover:text-gray-700 hover:bg-gray-200 dark:hover:bg-gray-700 dark:hover:text-gray-200"
+                  >
+                    <X size={12} />
+                  </button>
+                </div>
+              );
+            })}
+            <button
+              onClick={handleNewTab}
+              title={t('newTab')}
+              aria-label={t('newTab')}
+              className="p-2 rounded-lg text-gray-500 hover:bg-gray-100 dark:hover:bg-gray-800 shrink-0"
+            >
+              <Plus size={14} />
             </button>
           </div>
         )}
@@ -643,28 +2792,44 @@ function App() {
           </div>
         )}
 
-        {!data && !loading && (
-          <div className="flex flex-col items-center justify-center h-full text-gray-400">
-            <div className="bg-gray-100 dark:bg-gray-800 p-8 rounded-full mb-4">
-              <HardDrive size={64} className="opacity-20" />
-            </div>
-            <p className="text-lg">{t('emptyHint')}</p>
-          </div>
+        {isAllRootsOpen && (
+          <RootsSummaryView
+            roots={tabRoots}
+            onSelect={handleSelectTab}
+            pendingLabel={pendingInlineLabel}
+            colors={COLORS}
+            t={t}
+            numberLocale={numberLocale}
+          />
+        )}
+
+        {isHomeVisible && (
+          <VolumesView
+            volumes={volumes}
+            loading={isVolumesLoading}
+            showPseudo={showPseudoVolumes}
+            onShowPseudoChange={setShowPseudoVolumes}
+            onRefresh={fetchVolumes}
+            onScan={analyzePath}
+            t={t}
+            numberLocale={numberLocale}
+          />
         )}
 
-        {loading && (
+        {loading && !isAllRootsOpen && (
           <div className="flex flex-col items-center justify-center h-full">
             <Loader2 className="animate-spin text-blue-600 mb-4" size={48} />
             <p className="text-gray-500">{t('analyzing')}</p>
           </div>
         )}
 
-        {data && !loading && (
+        {data && !loading && !isAllRootsOpen && (
           <div className="flex flex-col h-full space-y-4">
             <div className="grid grid-cols-1 md:grid-cols-3 gap-4 shrink-0">
               <div className="bg-white dark:bg-gray-800 p-6 rounded-xl border border-gray-200 dark:border-gray-700 shadow-sm">
                 <div className="text-gray-500 text-sm mb-1 flex items-center gap-2">
                   <HardDrive size={14} /> {t('totalSize')}
+                  <span className="text-xs text-gray-400">({t(`sizeMode_${data.size_mode}`)})</span>
                 </div>
                 <div className="text-2xl font-bold">
                   {(() => {
@@ -674,18 +2839,58 @@ function App() {
                       return (
                         <>
                           {formatSize(partialSize)}
-                          {isCalculating && <span className="text-base font-normal text-gray-500 ml-2">{t('calculatingInline')}</span>}
+                          {isCalculating && <span className="text-base font-normal text-gray-500 ml-2">{pendingInlineLabel}</span>}
                         </>
                       );
                     }
                     return (
                       <>
                         {formatSize(data.size)}
-                        {isCalculating && <span className="text-base font-normal text-gray-500 ml-2">{t('calculatingInline')}</span>}
+                        {isCalculating && <span className="text-base font-normal text-gray-500 ml-2">{pendingInlineLabel}</span>}
                       </>
                     );
                   })()}
                 </div>
+                {data.cached_at !== null && (
+                  <div className="text-xs text-amber-600 dark:text-amber-400 mt-1 flex items-center gap-1">
+                    <History size={12} />
+                    {t('cachedFrom', { date: formatTimestamp(data.cached_at) })}
+                  </div>
+                )}
+                {data.skipped > 0 && (
+                  <button
+                    onClick={() => setView('problems')}
+                    className="text-xs text-amber-600 dark:text-amber-400 mt-1 flex items-center gap-1 hover:underline"
+                  >
+                    <TriangleAlert size={12} />
+                    {t('partialSize', { count: data.skipped.toLocaleString(numberLocale) })}
+                  </button>
+                )}
+                <div className="mt-2 flex flex-wrap items-center gap-3 text-xs text-gray-500">
+                  <label className="flex items-center gap-1" title={t('sizeModeHint')}>
+                    {t('sizeMode')}
+                    <select
+                      value={sizeSettings.mode}
+                      onChange={(e) => handleSizeSettingsChange({ mode: e.target.value as SizeSettings['mode'] })}
+                      className="px-1 py-0.5 rounded border border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-900"
+                    >
+                      <option value="apparent">{t('sizeMode_apparent')}</option>
+                      <option value="allocated">{t('sizeMode_allocated')}</option>
+                    </select>
+                  </label>
+                  <label className="flex items-center gap-1">
+                    {t('symlinks')}
+                    <select
+                      value={sizeSettings.symlinks}
+                      onChange={(e) => handleSizeSettingsChange({ symlinks: e.target.value as SizeSettings['symlinks'] })}
+                      className="px-1 py-0.5 rounded border border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-900"
+                    >
+                      <option value="skip">{t('symlinks_skip')}</option>
+                      <option value="link">{t('symlinks_link')}</option>
+                      <option value="follow">{t('symlinks_follow')}</option>
+                    </select>
+                  </label>
+                </div>
               </div>
               <div className="bg-white dark:bg-gray-800 p-6 rounded-xl border border-gray-200 dark:border-gray-700 shadow-sm">
                 <div className="text-gray-500 text-sm mb-1 flex items-center gap-2">
@@ -699,7 +2904,7 @@ function App() {
                     return (
                       <>
                         {fileCountValue.toLocaleString(numberLocale)}
-                        {isCalculating && <span className="text-base font-normal text-gray-500 ml-2">{t('calculatingInline')}</span>}
+                        {isCalculating && <span className="text-base font-normal text-gray-500 ml-2">{pendingInlineLabel}</span>}
                       </>
                     );
                   })()}
@@ -712,65 +2917,288 @@ function App() {
                 <div className="text-lg font-semibold truncate" title={data.path as string}>
                   {data.name}
                 </div>
+                {rootVolume && rootVolume.total > 0 && (() => {
+                  const { size } = getRootTotals(data);
+                  const usedShare = rootVolume.used > 0 ? Math.min(size / rootVolume.used, 1) : 0;
+                  const percent = (value: number) =>
+                    (value * 100).toLocaleString(numberLocale, { maximumFractionDigits: 1 });
+                  return (
+                    <div className="mt-2 space-y-1" title={rootVolume.mount_point}>
+                      <div className="h-2 rounded-full bg-gray-100 dark:bg-gray-700 overflow-hidden flex">
+                        <div className="h-full bg-blue-600" style={{ width: `${(size / rootVolume.total) * 100}%` }} />
+                        <div
+                          className="h-full bg-blue-300 dark:bg-blue-800"
+                          style={{ width: `${(Math.max(rootVolume.used - size, 0) / rootVolume.total) * 100}%` }}
+                        />
+                      </div>
+                      <div className="text-xs text-gray-500">
+                        {t('volumeShare', {
+                          percent: percent(usedShare),
+                          used: formatSize(rootVolume.used),
+                          volume: rootVolume.mount_point,
+                        })}
+                      </div>
+                      <div className="text-xs text-gray-400">
+                        {t('volumeFree', {
+                          free: formatSize(rootVolume.free),
+                          percent: percent(rootVolume.free / rootVolume.total),
+                        })}
+                      </div>
+                    </div>
+                  );
+                })()}
               </div>
             </div>
 
+            {isScanning && progress && (
+              <ScanProgressPanel
+                progress={progress}
+                expectedSize={expectedSize}
+                t={t}
+                numberLocale={numberLocale}
+              />
+            )}
+
             <div className="flex-1 bg-white dark:bg-gray-800 rounded-xl border border-gray-200 dark:border-gray-700 shadow-sm overflow-hidden flex flex-col">
               {view === 'tree' ? (
                 <div className="flex-1 flex flex-col overflow-hidden">
-                  <div className="flex items-center px-4 py-2 border-b border-gray-100 dark:border-gray-800 text-xs font-medium text-gray-500 bg-gray-50/50 dark:bg-gray-800/50 select-none shrink-0">
-                    <span className="flex-1 ml-8">{t('name')}</span>
-                    <div className="flex items-center gap-4">
-                      <span className="w-20 text-right">{t('fileCount')}</span>
-                      <span className="w-24 text-right">{t('size')}</span>
+                  {typeFilter && (
+                    <div className="flex items-center gap-2 px-4 py-2 border-b border-gray-100 dark:border-gray-800 text-sm bg-blue-50 dark:bg-blue-900/20 shrink-0">
+                      <Shapes size={14} className="text-blue-600" />
+                      {t('typesFilterActive', { category: t(`category_${typeFilter.category}`) })}
+                      <button
+                        onClick={() => setTypeFilter(null)}
+                        className="ml-auto flex items-center gap-1 text-xs text-blue-600 hover:underline"
+                      >
+                        <X size={12} />
+                        {t('typesFilterClear')}
+                      </button>
                     </div>
-                  </div>
-                  <div ref={fileListRef} className="flex-1 overflow-auto p-2">
-                    {renderTree(data)}
+                  )}
+                  <TreeHeader
+                    settings={treeViewSettings}
+                    onChange={setTreeViewSettings}
+                    showDelta={!!diffBaseIndex}
+                    t={t}
+                  />
+                  <VirtualList
+                    containerRef={fileListRef}
+                    className="flex-1 overflow-auto p-2 focus:outline-none"
+                    rowCount={treeRows.length}
+                    rowHeight={TREE_ROW_HEIGHT}
+                    renderRow={renderTreeRow}
+                    role="tree"
+                    tabIndex={0}
+                    aria-label={t('treeView')}
+                    aria-multiselectable
+                    aria-activedescendant={focusedIndex >= 0 ? `tree-row-${focusedIndex}` : undefined}
+                    onKeyDown={handleTreeKeyDown}
+                    onContextMenu={handleTreeContextMenu}
+                  />
+                  <div
+                    className="flex items-center gap-4 px-4 py-1.5 border-t border-gray-100 dark:border-gray-800 text-xs text-gray-500 shrink-0"
+                    role="status"
+                  >
+                    {selectionSummary ? (
+                      <span>
+                        {t('treeSelection', {
+                          count: selectionSummary.count.toLocaleString(numberLocale),
+                          size: formatSize(selectionSummary.size),
+                        })}
+                        {selectionSummary.pending && ` ${pendingLabel}`}
+                      </span>
+                    ) : (
+                      <span>{t('treeKeyboardHint')}</span>
+                    )}
                   </div>
                 </div>
-              ) : (
-                <div className="p-8 h-full flex flex-col items-center">
-                  <h3 className="text-lg font-semibold mb-6 shrink-0">{t('topTitle')}</h3>
-                  <div className="w-full flex-1 flex flex-col md:flex-row items-center justify-around overflow-hidden">
-                    <div className="w-full md:w-1/2 h-full min-h-[300px]">
-                      <ResponsiveContainer width="100%" height="100%">
-                        <PieChart>
-                          <Pie
-                            data={chartData}
-                            cx="50%"
-                            cy="50%"
-                            innerRadius={80}
-                            outerRadius={120}
-                            paddingAngle={5}
-                            dataKey="value"
-                          >
-                            {chartData.map((_, index) => (
-                              <Cell key={`cell-${index}`} fill={COLORS[index % COLORS.length]} />
-                            ))}
-                          </Pie>
-                          <RechartsTooltip 
-                            formatter={(value: any) => formatSize(Number(value || 0))}
-                            contentStyle={{ 
-                              backgroundColor: 'rgba(255, 255, 255, 0.96)',
-                              borderRadius: '8px',
-                              border: 'none',
-                              boxShadow: '0 4px 12px rgba(0,0,0,0.1)'
-                            }}
-                          />
-                        </PieChart>
-                      </ResponsiveContainer>
+              ) : view === 'types' ? (
+                (() => {
+                  const chain = getNodeChain(data, typesPath);
+                  return (
+                    <div className="flex-1 flex flex-col overflow-hidden p-4 gap-3">
+                      {renderBreadcrumb(chain, setTypesPath)}
+                      <FileTypesView
+                        breakdown={typeBreakdown}
+                        loading={isTypesLoading}
+                        colors={COLORS}
+                        onCategorySelect={handleCategorySelect}
+                        t={t}
+                        numberLocale={numberLocale}
+                      />
                     </div>
-                    <div className="w-full md:w-1/2 flex flex-col gap-2 overflow-auto max-h-full p-4">
-                      {chartData.map((item, index) => (
-                        <div key={item.name as string} className="flex items-center gap-3">
-                          <div className="w-3 h-3 rounded-full" style={{ backgroundColor: COLORS[index % COLORS.length] }} />
-                          <span className="flex-1 truncate text-sm">{item.name}</span>
-                          <span className="text-sm font-mono text-gray-500">{item.formattedSize}</span>
+                  );
+                })()
+              ) : view === 'duplicates' ? (
+                <DuplicatesView
+                  progress={dupProgress}
+                  result={dupResult}
+                  running={isDupRunning}
+                  minSize={dupMinSize}
+                  onMinSizeChange={setDupMinSize}
+                  onStart={handleStartDuplicates}
+                  onCancel={handleCancelDuplicates}
+                  onOpen={platformActions.reveal ? handleOpenInExplorer : undefined}
+                  onTrash={handleTrashDuplicate}
+                  formatDate={formatTimestamp}
+                  t={t}
+                  numberLocale={numberLocale}
+                />
+              ) : view === 'diff' ? (
+                <SnapshotDiffView
+                  base={diffBase}
+                  target={diffTarget}
+                  changes={diffChanges}
+                  loading={isSnapshotLoading && !diffChanges}
+                  canSaveLive={!isRootPending}
+                  onLoadBase={() => handleLoadDiffSnapshot('base')}
+                  onLoadTarget={() => handleLoadDiffSnapshot('target')}
+                  onUseLive={() => setDiffTarget(null)}
+                  onClearBase={() => setDiffBase(null)}
+                  onSaveLive={handleSaveSnapshot}
+                  onReveal={revealPath}
+                  formatDate={formatTimestamp}
+                  t={t}
+                  numberLocale={numberLocale}
+                />
+              ) : view === 'age' ? (
+                <AgeView
+                  report={ageReport}
+                  loading={isAgeLoading}
+                  settings={ageSettings}
+                  onSettingsChange={handleAgeSettingsChange}
+                  onRefresh={fetchAgeReport}
+                  onReveal={revealPath}
+                  t={t}
+                  numberLocale={numberLocale}
+                />
+              ) : view === 'problems' ? (
+                <ProblemsView
+                  report={problemReport}
+                  loading={isProblemsLoading}
+                  onRefresh={fetchProblems}
+                  onReveal={revealPath}
+                  t={t}
+                  numberLocale={numberLocale}
+                />
+              ) : view === 'largest' ? (
+                <LargestFilesView
+                  result={largestFiles}
+                  loading={isLargestLoading}
+                  settings={largestSettings}
+                  onSettingsChange={(patch) => setLargestSettings(prev => sanitizeLargestFilesSettings({ ...prev, ...patch }))}
+                  onRefresh={fetchLargestFiles}
+                  onReveal={revealPath}
+                  formatDate={formatTimestamp}
+                  t={t}
+                  numberLocale={numberLocale}
+                />
+              ) : view === 'treemap' ? (
+                (() => {
+                  const chain = getNodeChain(data, treemapPath);
+                  const focused = chain[chain.length - 1];
+                  return (
+                    <div className="flex-1 flex flex-col overflow-hidden p-4 gap-3">
+                      {renderBreadcrumb(chain, setTreemapPath)}
+                      {loadingPaths.has(focused.path) ? (
+                        <div className="flex-1 flex items-center justify-center">
+                          <Loader2 className="animate-spin text-blue-600" size={32} />
                         </div>
-                      ))}
+                      ) : (
+                        <TreemapView
+                          node={focused}
+                          colors={COLORS}
+                          onDrill={handleTreemapDrill}
+                          calculatingLabel={pendingLabel}
+                          emptyLabel={t('treemapEmpty')}
+                        />
+                      )}
+                    </div>
+                  );
+                })()
+              ) : (
+                <div className="p-4 h-full flex flex-col gap-3 overflow-hidden">
+                  <div className="flex items-center flex-wrap gap-x-6 gap-y-2 shrink-0">
+                    <h3 className="text-lg font-semibold">{t('topTitle')}</h3>
+                    <div className="flex items-center flex-wrap gap-4 text-xs text-gray-500 ml-auto">
+                      <label className="flex items-center gap-2">
+                        {t('chartDepth')}
+                        <input
+                          type="number"
+                          min={1}
+                          max={6}
+                          value={chartSettings.depth}
+                          onChange={(e) => updateChartSettings({ depth: Number(e.target.value) })}
+                          className="w-14 px-2 py-1 rounded border border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-900"
+                        />
+                      </label>
+                      <label className="flex items-center gap-2">
+                        {t('chartMaxSlices')}
+                        <input
+                          type="number"
+                          min={1}
+                          max={100}
+                          value={chartSettings.maxSlices}
+                          onChange={(e) => updateChartSettings({ maxSlices: Number(e.target.value) })}
+                          className="w-16 px-2 py-1 rounded border border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-900"
+                        />
+                      </label>
+                      <label className="flex items-center gap-2">
+                        {t('chartOtherRatio')}
+                        <input
+                          type="number"
+                          min={0}
+                          max={50}
+                          step={0.5}
+                          value={Number((chartSettings.otherRatio * 100).toFixed(2))}
+                          onChange={(e) => updateChartSettings({ otherRatio: Number(e.target.value) / 100 })}
+                          className="w-16 px-2 py-1 rounded border border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-900"
+                        />
+                        %
+                      </label>
                     </div>
                   </div>
+                  {renderBreadcrumb(chartChain, setChartPath)}
+                  {sunburstData && chartFocus && (
+                    <div className="w-full flex-1 flex flex-col md:flex-row items-center justify-around overflow-hidden">
+                      <div className="w-full md:w-1/2 h-full min-h-[300px]">
+                        {loadingPaths.has(chartFocus.path) ? (
+                          <div className="h-full flex items-center justify-center">
+                            <Loader2 className="animate-spin text-blue-600" size={32} />
+                          </div>
+                        ) : (
+                          <SunburstView
+                            data={sunburstData}
+                            onSelect={handleChartSelect}
+                            onCenterClick={
+                              chartChain.length > 1
+                                ? () => {
+                                    const parent = chartChain[chartChain.length - 2];
+                                    setChartPath(chartChain.length > 2 ? parent.path : null);
+                                  }
+                                : undefined
+                            }
+                            centerTitle={chartFocus.name}
+                            centerSubtitle={sunburstData.formattedSize ?? ''}
+                          />
+                        )}
+                      </div>
+                      <div className="w-full md:w-1/2 flex flex-col gap-2 overflow-auto max-h-full p-4">
+                        {(sunburstData.children ?? []).map((item, index) => (
+                          <button
+                            key={`${item.name}-${index}`}
+                            onClick={() => handleChartSelect(item)}
+                            disabled={!item.isDir}
+                            className="flex items-center gap-3 text-left rounded px-1 enabled:hover:bg-gray-100 dark:enabled:hover:bg-gray-700"
+                          >
+                            <div className="w-3 h-3 rounded-full shrink-0" style={{ backgroundColor: item.fill }} />
+                            <span className="flex-1 truncate text-sm">{item.name}</span>
+                            <span className="text-sm font-mono text-gray-500">{item.formattedSize}</span>
+                          </button>
+                        ))}
+                      </div>
+                    </div>
+                  )}
                 </div>
               )}
             </div>
@@ -0,0 +1,141 @@
+import { Download, File, Folder, ShoppingBasket, Trash2, X } from "lucide-react";
+import type { FileNode } from "./types";
+import { cn, formatSize, isSameOrDescendantPath } from "./utils";
+
+interface CleanupBasketPanelProps {
+  /** 篮子中的节点（按加入顺序） / Nodes in the basket, in the order they were added */
+  items: FileNode[];
+  onRemove: (path: string) => void;
+  onClear: () => void;
+  onExport: () => void;
+  onTrashAll: () => void;
+  onClose: () => void;
+  t: (key: string, params?: Record<string, string | number>) => string;
+  numberLocale: string;
+}
+
+/**
+ * 找到包含该路径的另一个篮子项（嵌套选择只按外层计算）。
+ * Find another basket item that contains this path (nested selections only count through the outer one).
+ */
+const findContainingItem = (items: FileNode[], path: string): FileNode | null =>
+  items.find(other => other.path !== path && isSameOrDescendantPath(path, other.path)) ?? null;
+
+/**
+ * 清理篮子侧栏：汇总待清理的项与可释放的总空间，可逐项移除、导出清单或一次性移到回收站。
+ * Cleanup basket side panel: collects cleanup candidates and the total reclaimable space; items can be
+ * removed one by one, exported as a list, or moved to the trash in one batch.
+ */
+function CleanupBasketPanel({
+  items,
+  onRemove,
+  onClear,
+  onExport,
+  onTrashAll,
+  onClose,
+  t,
+  numberLocale,
+}: CleanupBasketPanelProps) {
+  const topLevel = items.filter(item => !findContainingItem(items, item.path));
+  const reclaimable = topLevel.reduce((sum, item) => sum + (item.size ?? 0), 0);
+  const hasPendingSize = topLevel.some(item => item.size === null);
+  const fileTotal = topLevel.reduce((sum, item) => sum + item.file_count, 0);
+
+  return (
+    <aside className="fixed right-0 top-0 bottom-0 z-30 w-96 max-w-full bg-white dark:bg-gray-800 border-l border-gray-200 dark:border-gray-700 shadow-xl flex flex-col">
+      <div className="px-4 py-3 border-b border-gray-200 dark:border-gray-700 flex items-center gap-2">
+        <ShoppingBasket size={18} className="text-blue-600" />
+        <span className="font-semibold flex-1">{t('basketTitle')}</span>
+        <button
+          onClick={onClose}
+          className="p-1 rounded text-gray-500 hover:bg-gray-100 dark:hover:bg-gray-700"
+          aria-label={t('close')}
+        >
+          <X size={16} />
+        </button>
+      </div>
+
+      <div className="px-4 py-3 grid grid-cols-2 gap-3 border-b border-gray-200 dark:border-gray-700">
+        <div>
+          <div className="text-xs text-gray-500">{t('basketReclaimable')}</div>
+          <div className="text-lg font-bold font-mono">
+            {formatSize(reclaimable)}
+            {hasPendingSize && '+'}
+          </div>
+        </div>
+        <div>
+          <div className="text-xs text-gray-500">{t('fileCount')}</div>
+          <div className="text-lg font-bold font-mono">{fileTotal.toLocaleString(numberLocale)}</div>
+        </div>
+      </div>
+
+      <div className="flex-1 overflow-auto">
+        {items.length === 0 ? (
+          <div className="p-6 text-sm text-center text-gray-400">{t('basketEmpty')}</div>
+        ) : (
+          <ul className="divide-y divide-gray-100 dark:divide-gray-700 text-sm">
+            {items.map(item => {
+              const container = findContainingItem(items, item.path);
+              return (
+                <li key={item.path} className="px-4 py-2 flex items-center gap-2 group" title={item.path}>
+                  {item.is_dir ? (
+                    <Folder size={16} className="text-blue-500 fill-blue-500/20 shrink-0" />
+                  ) : (
+                    <File size={16} className="text-gray-400 shrink-0" />
+                  )}
+                  <div className="flex-1 min-w-0">
+                    <div className={cn("truncate", container && "text-gray-400")}>{item.name}</div>
+                    {container && (
+                      <div className="text-xs text-gray-400 truncate">
+                        {t('basketIncludedIn', { name: container.name })}
+                      </div>
+                    )}
+                  </div>
+                  <span className={cn("text-xs font-mono", container ? "text-gray-300 line-through" : "text-gray-500")}>
+                    {item.size === null ? '—' : formatSize(item.size)}
+                  </span>
+                  <button
+                    onClick={() => onRemove(item.path)}
+                    className="p-1 rounded text-gray-400 hover:text-gray-700 hover:bg-gray-100 dark:hover:text-gray-200 dark:hover:bg-gray-700"
+                    aria-label={t('basketRemove')}
+                    title={t('basketRemove')}
+                  >
+                    <X size={14} />
+                  </button>
+                </li>
+              );
+            })}
+          </ul>
+        )}
+      </div>
+
+      <div className="px-4 py-3 border-t border-gray-200 dark:border-gray-700 flex items-center gap-2">
+        <button
+          onClick={onClear}
+          disabled={items.length === 0}
+          className="px-3 py-2 rounded-lg text-sm bg-gray-100 hover:bg-gray-200 dark:bg-gray-700 dark:hover:bg-gray-600 disabled:opacity-50"
+        >
+          {t('basketClear')}
+        </button>
+        <button
+          onClick={onExport}
+          disabled={items.length === 0}
+          className="px-3 py-2 rounded-lg text-sm bg-gray-100 hover:bg-gray-200 dark:bg-gray-700 dark:hover:bg-gray-600 flex items-center gap-2 disabled:opacity-50"
+        >
+          <Download size={14} />
+          {t('basketExport')}
+        </button>
+        <button
+          onClick={onTrashAll}
+          disabled={items.length === 0}
+          className="ml-auto px-3 py-2 rounded-lg text-sm text-white bg-red-600 hover:bg-red-700 flex items-center gap-2 disabled:opacity-50"
+        >
+          <Trash2 size={14} />
+          {t('moveToTrash')}
+        </button>
+      </div>
+    </aside>
+  );
+}
+
+export default CleanupBasketPanel;
@@ -0,0 +1,147 @@
+import { CircleCheck, CircleX, File, Folder, Loader2, Trash2, TriangleAlert } from "lucide-react";
+import type { DeleteResult, FileNode } from "./types";
+import { formatSize } from "./utils";
+
+interface DeleteConfirmDialogProps {
+  /** 待删除的节点（已去掉嵌套项） / Nodes to remove (nested entries already pruned) */
+  items: FileNode[];
+  /** 永久删除，而不是移到回收站 / Delete permanently instead of moving to the trash */
+  permanent: boolean;
+  busy: boolean;
+  /** 删除完成后的逐项结果；为 null 时处于确认阶段 / Per-item results once removal ran; null while still confirming */
+  results: DeleteResult[] | null;
+  onConfirm: () => void;
+  onClose: () => void;
+  t: (key: string, params?: Record<string, string | number>) => string;
+  numberLocale: string;
+}
+
+/**
+ * 删除确认对话框：列出所选项的大小与文件数，确认后展示逐项结果（失败原因）。
+ * Delete confirmation dialog: lists the size and file count of the selection, then shows per-item results (failure reasons).
+ */
+function DeleteConfirmDialog({
+  items,
+  permanent,
+  busy,
+  results,
+  onConfirm,
+  onClose,
+  t,
+  numberLocale,
+}: DeleteConfirmDialogProps) {
+  const totalSize = items.reduce((sum, item) => sum + (item.size ?? 0), 0);
+  const hasPendingSize = items.some(item => item.size === null);
+  const totalFiles = items.reduce((sum, item) => sum + item.file_count, 0);
+  const failed = results?.filter(result => result.error !== null) ?? [];
+
+  return (
+    <div
+      className="fixed inset-0 z-50 bg-black/40 flex items-center justify-center p-4"
+      onClick={busy ? undefined : onClose}
+    >
+      <div
+        className="bg-white dark:bg-gray-800 rounded-xl border border-gray-200 dark:border-gray-700 shadow-xl w-full max-w-lg flex flex-col max-h-[80vh]"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="px-6 py-4 border-b border-gray-200 dark:border-gray-700 flex items-center gap-2 font-semibold">
+          {permanent ? <TriangleAlert size={18} className="text-red-600" /> : <Trash2 size={18} className="text-red-600" />}
+          {permanent ? t('deletePermanentTitle') : t('moveToTrashTitle')}
+        </div>
+
+        {results === null ? (
+          <>
+            <div className="px-6 py-4 space-y-3 overflow-auto">
+              <div className="grid grid-cols-2 gap-3">
+                <div>
+                  <div className="text-xs text-gray-500">{t('totalSize')}</div>
+                  <div className="text-lg font-bold font-mono">
+                    {formatSize(totalSize)}
+                    {hasPendingSize && '+'}
+                  </div>
+                </div>
+                <div>
+                  <div className="text-xs text-gray-500">{t('fileCount')}</div>
+                  <div className="text-lg font-bold font-mono">{totalFiles.toLocaleString(numberLocale)}</div>
+                </div>
+              </div>
+              <ul className="text-sm divide-y divide-gray-100 dark:divide-gray-700 border border-gray-100 dark:border-gray-700 rounded-lg">
+                {items.map(item => (
+                  <li key={item.path} className="flex items-center gap-2 px-3 py-2" title={item.path}>
+                    {item.is_dir ? (
+                      <Folder size={16} className="text-blue-500 fill-blue-500/20 shrink-0" />
+                    ) : (
+                      <File size={16} className="text-gray-400 shrink-0" />
+                    )}
+                    <span className="flex-1 truncate">{item.name}</span>
+                    <span className="text-xs font-mono text-gray-500">
+                      {item.size === null ? '—' : formatSize(item.size)}
+                    </span>
+                  </li>
+                ))}
+              </ul>
+              {permanent && (
+                <div className="text-sm text-red-600 dark:text-red-400">{t('deletePermanentWarning')}</div>
+              )}
+            </div>
+            <div className="px-6 py-4 border-t border-gray-200 dark:border-gray-700 flex justify-end gap-2">
+              <button
+                onClick={onClose}
+                disabled={busy}
+                className="px-4 py-2 rounded-lg text-sm bg-gray-100 hover:bg-gray-200 dark:bg-gray-700 dark:hover:bg-gray-600 disabled:opacity-50"
+              >
+                {t('cancel')}
+              </button>
+              <button
+                onClick={onConfirm}
+                disabled={busy}
+                className="px-4 py-2 rounded-lg text-sm text-white bg-red-600 hover:bg-red-700 flex items-center gap-2 disabled:opacity-50"
+              >
+                {busy && <Loader2 size={14} className="animate-spin" />}
+                {permanent ? t('deletePermanent') : t('moveToTrash')}
+              </button>
+            </div>
+          </>
+        ) : (
+          <>
+            <div className="px-6 py-4 space-y-3 overflow-auto">
+              <div className="text-sm">
+                {t('deleteSummary', {
+                  done: (results.length - failed.length).toLocaleString(numberLocale),
+                  failed: failed.length.toLocaleString(numberLocale),
+                })}
+              </div>
+              <ul className="text-sm divide-y divide-gray-100 dark:divide-gray-700 border border-gray-100 dark:border-gray-700 rounded-lg">
+                {results.map(result => (
+                  <li key={result.path} className="px-3 py-2">
+                    <div className="flex items-center gap-2 font-mono text-xs truncate" title={result.path}>
+                      {result.error === null ? (
+                        <CircleCheck size={14} className="text-green-600 shrink-0" />
+                      ) : (
+                        <CircleX size={14} className="text-red-600 shrink-0" />
+                      )}
+                      {result.path}
+                    </div>
+                    {result.error !== null && (
+                      <div className="text-xs text-red-600 dark:text-red-400 mt-1 pl-6">{result.error}</div>
+                    )}
+                  </li>
+                ))}
+              </ul>
+            </div>
+            <div className="px-6 py-4 border-t border-gray-200 dark:border-gray-700 flex justify-end">
+              <button
+                onClick={onClose}
+                className="px-4 py-2 rounded-lg text-sm bg-gray-100 hover:bg-gray-200 dark:bg-gray-700 dark:hover:bg-gray-600"
+              >
+                {t('close')}
+              </button>
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
+
+export default DeleteConfirmDialog;
@@ -0,0 +1,171 @@
+import { CopyX, File, FolderOpen, Loader2, Play, Square, Trash2 } from "lucide-react";
+import type { DuplicateProgress, DuplicateResult } from "./types";
+import { formatSize } from "./utils";
+
+interface DuplicatesViewProps {
+  progress: DuplicateProgress | null;
+  result: DuplicateResult | null;
+  running: boolean;
+  /** 参与比较的最小文件大小（字节） / Minimum file size taking part (bytes) */
+  minSize: number;
+  onMinSizeChange: (bytes: number) => void;
+  onStart: () => void;
+  onCancel: () => void;
+  /** 在文件管理器中显示；平台不支持时不传，按钮隐藏 / Reveal in the file manager; omitted (button hidden) where unsupported */
+  onOpen?: (path: string) => void;
+  onTrash: (path: string) => void;
+  formatDate: (ms: number) => string;
+  t: (key: string, params?: Record<string, string | number>) => string;
+  numberLocale: string;
+}
+
+const MB = 1024 * 1024;
+
+/**
+ * 重复文件视图：按大小、部分哈希、完整哈希逐步确认重复组，列出浪费的空间，可打开或删除单个副本。
+ * Duplicates view: groups confirmed by size, partial hash and full hash, with the wasted space;
+ * each copy can be opened or moved to the trash.
+ */
+function DuplicatesView({
+  progress,
+  result,
+  running,
+  minSize,
+  onMinSizeChange,
+  onStart,
+  onCancel,
+  onOpen,
+  onTrash,
+  formatDate,
+  t,
+  numberLocale,
+}: DuplicatesViewProps) {
+  const ratio = progress && progress.total > 0 ? Math.min(progress.processed / progress.total, 1) : null;
+
+  return (
+    <div className="flex-1 flex flex-col overflow-hidden">
+      <div className="flex items-center flex-wrap gap-4 px-4 py-3 border-b border-gray-100 dark:border-gray-800 text-xs text-gray-500 shrink-0">
+        <label className="flex items-center gap-2">
+          {t('largestMinSize')}
+          <input
+            type="number"
+            min={0}
+            step={1}
+            value={Math.round(minSize / MB)}
+            disabled={running}
+            onChange={(e) => onMinSizeChange(Math.max(Number(e.target.value) || 0, 0) * MB)}
+            className="w-20 px-2 py-1 rounded border border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-900 disabled:opacity-50"
+          />
+          MB
+        </label>
+        {result && !running && (
+          <span>
+            {t('duplicatesSummary', {
+              groups: result.groups.length.toLocaleString(numberLocale),
+              wasted: formatSize(result.wasted),
+            })}
+          </span>
+        )}
+        {running ? (
+          <button
+            onClick={onCancel}
+            className="ml-auto bg-red-50 hover:bg-red-100 dark:bg-red-950/40 dark:hover:bg-red-900/50 text-red-600 dark:text-red-400 px-3 py-1.5 rounded-lg flex items-center gap-2 text-sm"
+          >
+            <Square size={12} className="fill-current" />
+            {t('stopScan')}
+          </button>
+        ) : (
+          <button
+            onClick={onStart}
+            className="ml-auto bg-blue-600 hover:bg-blue-700 text-white px-3 py-1.5 rounded-lg flex items-center gap-2 text-sm"
+          >
+            <Play size={14} />
+            {result ? t('duplicatesRestart') : t('duplicatesStart')}
+          </button>
+        )}
+      </div>
+
+      {running && (
+        <div className="px-4 py-3 border-b border-gray-100 dark:border-gray-800 space-y-2 shrink-0">
+          <div className="flex items-center gap-2 text-sm text-gray-500">
+            <Loader2 size={14} className="animate-spin text-blue-600" />
+            {t(`duplicatesStage_${progress?.stage ?? 'walk'}`)}
+            <span className="ml-auto font-mono text-xs">
+              {progress
+                ? progress.total > 0
+                  ? `${progress.processed.toLocaleString(numberLocale)} / ${progress.total.toLocaleString(numberLocale)}`
+                  : progress.processed.toLocaleString(numberLocale)
+                : null}
+            </span>
+          </div>
+          <div className="h-1.5 rounded-full bg-gray-100 dark:bg-gray-700 overflow-hidden">
+            {ratio !== null ? (
+              <div className="h-full bg-blue-600 transition-all" style={{ width: `${ratio * 100}%` }} />
+            ) : (
+              <div className="h-full w-1/3 bg-blue-600/60 animate-pulse" />
+            )}
+          </div>
+        </div>
+      )}
+
+      {result?.cancelled && !running && (
+        <div className="px-4 py-2 text-xs text-amber-600 dark:text-amber-400 border-b border-gray-100 dark:border-gray-800 shrink-0">
+          {t('duplicatesCancelled')}
+        </div>
+      )}
+
+      <div className="flex-1 overflow-auto p-2 space-y-3">
+        {!result || result.groups.length === 0 ? (
+          <div className="h-full flex flex-col items-center justify-center text-sm text-gray-400 gap-2">
+            <CopyX size={32} className="opacity-30" />
+            {result && !result.cancelled ? t('duplicatesNone') : !running && t('duplicatesHint')}
+          </div>
+        ) : (
+          result.groups.map(group => (
+            <div key={`${group.size}-${group.hash}`} className="border border-gray-100 dark:border-gray-700 rounded-lg">
+              <div className="flex items-center gap-3 px-3 py-2 bg-gray-50/50 dark:bg-gray-800/50 text-xs text-gray-500 rounded-t-lg">
+                <span>{t('duplicatesCopies', { count: group.files.length })}</span>
+                <span className="font-mono">{formatSize(group.size)}</span>
+                <span className="ml-auto text-red-600 dark:text-red-400 font-mono">
+                  {t('duplicatesWasted', { size: formatSize(group.wasted) })}
+                </span>
+              </div>
+              {group.files.map(file => (
+                <div
+                  key={file.path}
+                  className="flex items-center gap-2 px-3 py-1.5 text-sm hover:bg-gray-100 dark:hover:bg-gray-700"
+                >
+                  <File size={14} className="text-gray-400 shrink-0" />
+                  <span className="flex-1 truncate font-mono text-xs" title={file.path}>{file.path}</span>
+                  <span className="w-40 text-right text-xs text-gray-500 font-mono truncate">
+                    {file.modified !== null ? formatDate(file.modified) : '—'}
+                  </span>
+                  {onOpen && (
+                    <button
+                      onClick={() => onOpen(file.path)}
+                      title={t('openInExplorer')}
+                      aria-label={t('openInExplorer')}
+                      className="p-1 rounded text-gray-400 hover:text-blue-600"
+                    >
+                      <FolderOpen size={14} />
+                    </button>
+                  )}
+                  <button
+                    onClick={() => onTrash(file.path)}
+                    title={t('moveToTrash')}
+                    aria-label={t('moveToTrash')}
+                    className="p-1 rounded text-gray-400 hover:text-red-600"
+                  >
+                    <Trash2 size={14} />
+                  </button>
+                </div>
+              ))}
+            </div>
+          ))
+        )}
+      </div>
+    </div>
+  );
+}
+
+export default DuplicatesView;
@@ -0,0 +1,103 @@
+import { Download, Loader2 } from "lucide-react";
+import type { ExportFormat } from "./export";
+import type { ExportSettings } from "./preferences";
+
+interface ExportDialogProps {
+  settings: ExportSettings;
+  /** 正在加载子目录或写入文件 / Loading folders or writing the file */
+  busy: boolean;
+  onSettingsChange: (patch: Partial<ExportSettings>) => void;
+  onExport: () => void;
+  onClose: () => void;
+  t: (key: string, params?: Record<string, string | number>) => string;
+}
+
+const FORMATS: ExportFormat[] = ['csv', 'json', 'html'];
+
+/**
+ * 导出对话框：选择格式（CSV、JSON、HTML 报告）及其深度或条目数，然后选择保存位置。
+ * Export dialog: pick a format (CSV, JSON, HTML report) and its depth or entry count, then where to save it.
+ */
+function ExportDialog({ settings, busy, onSettingsChange, onExport, onClose, t }: ExportDialogProps) {
+  return (
+    <div className="fixed inset-0 z-50 bg-black/40 flex items-center justify-center p-4" onClick={onClose}>
+      <div
+        className="bg-white dark:bg-gray-800 rounded-xl border border-gray-200 dark:border-gray-700 shadow-xl w-full max-w-md flex flex-col"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="px-6 py-4 border-b border-gray-200 dark:border-gray-700 flex items-center gap-2 font-semibold">
+          <Download size={18} className="text-blue-600" />
+          {t('exportTitle')}
+        </div>
+
+        <div className="px-6 py-4 space-y-4 text-sm">
+          <div className="space-y-2">
+            {FORMATS.map(format => (
+              <label key={format} className="flex items-start gap-2">
+                <input
+                  type="radio"
+                  name="export-format"
+                  checked={settings.format === format}
+                  onChange={() => onSettingsChange({ format })}
+                  className="mt-1"
+                />
+                <span>
+                  <span className="font-medium">{t(`exportFormat_${format}`)}</span>
+                  <span className="block text-xs text-gray-500">{t(`exportFormatHint_${format}`)}</span>
+                </span>
+              </label>
+            ))}
+          </div>
+
+          {settings.format === 'html' ? (
+            <label className="flex items-center gap-2">
+              {t('exportTopN')}
+              <input
+                type="number"
+                min={1}
+                max={500}
+                value={settings.topN}
+                onChange={(e) => onSettingsChange({ topN: Number(e.target.value) })}
+                className="w-24 px-2 py-1 rounded border border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-900"
+              />
+            </label>
+          ) : (
+            <div>
+              <label className="flex items-center gap-2">
+                {t('exportDepth')}
+                <input
+                  type="number"
+                  min={0}
+                  max={10}
+                  value={settings.depth}
+                  onChange={(e) => onSettingsChange({ depth: Number(e.target.value) })}
+                  className="w-24 px-2 py-1 rounded border border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-900"
+                />
+              </label>
+              <div className="text-xs text-gray-400 mt-1">{t('exportDepthHint')}</div>
+            </div>
+          )}
+        </div>
+
+        <div className="px-6 py-4 border-t border-gray-200 dark:border-gray-700 flex justify-end gap-2">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 rounded-lg text-sm bg-gray-100 hover:bg-gray-200 dark:bg-gray-700 dark:hover:bg-gray-600"
+          >
+            {t('cancel')}
+          </button>
+          <button
+            onClick={onExport}
+            disabled={busy}
+            className="px-4 py-2 rounded-lg text-sm text-white bg-blue-600 hover:bg-blue-700 disabled:opacity-50 flex items-center gap-2"
+          >
+            {busy && <Loader2 size={14} className="animate-spin" />}
+            {t('exportAction')}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export default ExportDialog;
@@ -0,0 +1,163 @@
+import { useMemo, useState } from "react";
+import { Bar, BarChart, Cell, ResponsiveContainer, Tooltip as RechartsTooltip, XAxis, YAxis } from "recharts";
+import { ArrowDown, ArrowUp, Loader2, Filter } from "lucide-react";
+import type { ExtensionStat, TypeBreakdown } from "./types";
+import { cn, formatSize } from "./utils";
+
+interface FileTypesViewProps {
+  breakdown: TypeBreakdown | null;
+  loading: boolean;
+  colors: string[];
+  /** 点击类别：在目录树中只显示该类别的文件 / Clicking a category filters the tree to its files */
+  onCategorySelect: (category: string) => void;
+  t: (key: string, params?: Record<string, string | number>) => string;
+  numberLocale: string;
+}
+
+type SortKey = 'extension' | 'category' | 'file_count' | 'size';
+
+/**
+ * 文件类型视图：按类别的条形图与按扩展名的可排序表格。
+ * File types view: a bar chart by category and a sortable table by extension.
+ */
+function FileTypesView({ breakdown, loading, colors, onCategorySelect, t, numberLocale }: FileTypesViewProps) {
+  const [sortKey, setSortKey] = useState<SortKey>('size');
+  const [sortDesc, setSortDesc] = useState(true);
+
+  const categoryLabel = (category: string) => t(`category_${category}`);
+  const extensionLabel = (extension: string) => (extension ? `.${extension}` : t('noExtension'));
+
+  const total = breakdown?.categories.reduce((sum, item) => sum + item.size, 0) ?? 0;
+
+  const chartData = useMemo(
+    () =>
+      (breakdown?.categories ?? []).map(item => ({
+        category: item.category,
+        name: t(`category_${item.category}`),
+        value: item.size,
+      })),
+    [breakdown, t],
+  );
+
+  const sortedExtensions = useMemo(() => {
+    const rows = [...(breakdown?.extensions ?? [])];
+    const compare = (a: ExtensionStat, b: ExtensionStat) => {
+      if (sortKey === 'size' || sortKey === 'file_count') return a[sortKey] - b[sortKey];
+      return a[sortKey].localeCompare(b[sortKey]);
+    };
+    rows.sort((a, b) => (sortDesc ? compare(b, a) : compare(a, b)));
+    return rows;
+  }, [breakdown, sortKey, sortDesc]);
+
+  const toggleSort = (key: SortKey) => {
+    if (key === sortKey) {
+      setSortDesc(prev => !prev);
+    } else {
+      setSortKey(key);
+      setSortDesc(key === 'size' || key === 'file_count');
+    }
+  };
+
+  const renderHeader = (key: SortKey, label: string, className: string) => (
+    <button
+      onClick={() => toggleSort(key)}
+      className={cn("flex items-center gap-1 hover:text-gray-700 dark:hover:text-gray-300", className)}
+    >
+      {label}
+      {sortKey === key && (sortDesc ? <ArrowDown size={12} /> : <ArrowUp size={12} />)}
+    </button>
+  );
+
+  if (!breakdown) {
+    return (
+      <div className="flex-1 flex items-center justify-center">
+        {loading ? <Loader2 className="animate-spin text-blue-600" size={32} /> : null}
+      </div>
+    );
+  }
+
+  if (breakdown.extensions.length === 0) {
+    return <div className="flex-1 flex items-center justify-center text-sm text-gray-400">{t('typesEmpty')}</div>;
+  }
+
+  return (
+    <div className="flex-1 flex flex-col lg:flex-row overflow-hidden gap-4">
+      <div className="lg:w-2/5 flex flex-col min-h-[240px]">
+        <div className="text-xs text-gray-500 mb-2 flex items-center gap-1">
+          <Filter size={12} />
+          {t('typesCategoryHint')}
+        </div>
+        <div className="flex-1">
+          <ResponsiveContainer width="100%" height="100%">
+            <BarChart data={chartData} layout="vertical" margin={{ left: 8, right: 16 }}>
+              <XAxis type="number" hide />
+              <YAxis type="category" dataKey="name" width={90} tick={{ fontSize: 12 }} />
+              <RechartsTooltip
+                formatter={(value: any) => formatSize(Number(value || 0))}
+                contentStyle={{
+                  backgroundColor: 'rgba(255, 255, 255, 0.96)',
+                  borderRadius: '8px',
+                  border: 'none',
+                  boxShadow: '0 4px 12px rgba(0,0,0,0.1)'
+                }}
+              />
+              <Bar
+                dataKey="value"
+                radius={[0, 4, 4, 0]}
+                className="cursor-pointer"
+                onClick={(_, index) => {
+                  const item = chartData[index];
+                  if (item) onCategorySelect(item.category);
+                }}
+              >
+                {chartData.map((item, index) => (
+                  <Cell key={item.category} fill={colors[index % colors.length]} />
+                ))}
+              </Bar>
+            </BarChart>
+          </ResponsiveContainer>
+        </div>
+        <div className="mt-2 space-y-1">
+          {breakdown.categories.map((item, index) => (
+            <button
+              key={item.category}
+              onClick={() => onCategorySelect(item.category)}
+              className="w-full flex items-center gap-2 text-sm px-2 py-1 rounded hover:bg-gray-100 dark:hover:bg-gray-700"
+            >
+              <span className="w-3 h-3 rounded-sm shrink-0" style={{ backgroundColor: colors[index % colors.length] }} />
+              <span className="flex-1 text-left truncate">{categoryLabel(item.category)}</span>
+              <span className="text-xs font-mono text-gray-500">
+                {total > 0 ? ((item.size / total) * 100).toFixed(1) : '0.0'}%
+              </span>
+              <span className="w-20 text-right text-xs font-mono">{formatSize(item.size)}</span>
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div className="flex-1 flex flex-col overflow-hidden border border-gray-100 dark:border-gray-700 rounded-lg">
+        <div className="flex items-center px-3 py-2 border-b border-gray-100 dark:border-gray-700 text-xs font-medium text-gray-500 bg-gray-50/50 dark:bg-gray-800/50 select-none shrink-0">
+          {renderHeader('extension', t('extension'), "flex-1")}
+          {renderHeader('category', t('category'), "w-28")}
+          {renderHeader('file_count', t('fileCount'), "w-24 justify-end")}
+          {renderHeader('size', t('size'), "w-24 justify-end")}
+        </div>
+        <div className="flex-1 overflow-auto">
+          {sortedExtensions.map(item => (
+            <div
+              key={item.extension}
+              className="flex items-center px-3 py-1 text-sm hover:bg-gray-100 dark:hover:bg-gray-700"
+            >
+              <span className="flex-1 truncate font-mono">{extensionLabel(item.extension)}</span>
+              <span className="w-28 truncate text-gray-500">{categoryLabel(item.category)}</span>
+              <span className="w-24 text-right font-mono text-xs">{item.file_count.toLocaleString(numberLocale)}</span>
+              <span className="w-24 text-right font-mono text-xs">{formatSize(item.size)}</span>
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export default FileTypesView;
@@ -0,0 +1,123 @@
+import { File, Loader2, LocateFixed, RefreshCw } from "lucide-react";
+import type { LargestFiles } from "./types";
+import type { LargestFilesSettings } from "./preferences";
+import { formatSize } from "./utils";
+
+interface LargestFilesViewProps {
+  result: LargestFiles | null;
+  loading: boolean;
+  settings: LargestFilesSettings;
+  onSettingsChange: (patch: Partial<LargestFilesSettings>) => void;
+  onRefresh: () => void;
+  /** 在目录树中定位文件 / Jump to the file in the tree */
+  onReveal: (path: string) => void;
+  formatDate: (ms: number) => string;
+  t: (key: string, params?: Record<string, string | number>) => string;
+  numberLocale: string;
+}
+
+const MB = 1024 * 1024;
+
+/**
+ * 最大文件视图：整棵扫描树中最大的文件，含路径、大小、修改时间，可跳转到目录树。
+ * Largest-files view: the biggest files across the scanned tree with path, size and modified date,
+ * each one can be revealed in the tree.
+ */
+function LargestFilesView({
+  result,
+  loading,
+  settings,
+  onSettingsChange,
+  onRefresh,
+  onReveal,
+  formatDate,
+  t,
+  numberLocale,
+}: LargestFilesViewProps) {
+  const files = result?.files ?? [];
+
+  return (
+    <div className="flex-1 flex flex-col overflow-hidden">
+      <div className="flex items-center flex-wrap gap-4 px-4 py-3 border-b border-gray-100 dark:border-gray-800 text-xs text-gray-500 shrink-0">
+        <label className="flex items-center gap-2">
+          {t('largestLimit')}
+          <input
+            type="number"
+            min={1}
+            max={5000}
+            value={settings.limit}
+            onChange={(e) => onSettingsChange({ limit: Number(e.target.value) })}
+            className="w-20 px-2 py-1 rounded border border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-900"
+          />
+        </label>
+        <label className="flex items-center gap-2">
+          {t('largestMinSize')}
+          <input
+            type="number"
+            min={0}
+            step={1}
+            value={Math.round(settings.minSize / MB)}
+            onChange={(e) => onSettingsChange({ minSize: Number(e.target.value) * MB })}
+            className="w-20 px-2 py-1 rounded border border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-900"
+          />
+          MB
+        </label>
+        <span className="text-gray-400">{t('largestSettingsHint')}</span>
+        <button
+          onClick={onRefresh}
+          disabled={loading}
+          className="ml-auto px-2 py-1 rounded flex items-center gap-1 hover:bg-gray-100 dark:hover:bg-gray-700 disabled:opacity-50"
+        >
+          {loading ? <Loader2 size={14} className="animate-spin" /> : <RefreshCw size={14} />}
+          {t('refresh')}
+        </button>
+      </div>
+
+      <div className="flex items-center px-4 py-2 border-b border-gray-100 dark:border-gray-800 text-xs font-medium text-gray-500 bg-gray-50/50 dark:bg-gray-800/50 select-none shrink-0">
+        <span className="w-10 text-right mr-3">#</span>
+        <span className="flex-1">{t('name')}</span>
+        <span className="w-40 text-right">{t('modified')}</span>
+        <span className="w-24 text-right">{t('size')}</span>
+        <span className="w-10" />
+      </div>
+
+      <div className="flex-1 overflow-auto p-2">
+        {files.length === 0 ? (
+          <div className="h-full flex items-center justify-center text-sm text-gray-400">
+            {loading ? <Loader2 className="animate-spin text-blue-600" size={24} /> : t('largestEmpty')}
+          </div>
+        ) : (
+          files.map((file, index) => (
+            <div
+              key={file.path}
+              className="flex items-center px-2 py-1 rounded hover:bg-gray-100 dark:hover:bg-gray-800 group"
+            >
+              <span className="w-10 text-right mr-3 text-xs font-mono text-gray-400">
+                {(index + 1).toLocaleString(numberLocale)}
+              </span>
+              <File size={16} className="text-gray-400 mr-2 shrink-0" />
+              <div className="flex-1 min-w-0 mr-4">
+                <div className="truncate text-sm">{file.path.split(/[\\/]/).pop()}</div>
+                <div className="truncate text-xs text-gray-400 font-mono" title={file.path}>{file.path}</div>
+              </div>
+              <span className="w-40 text-right text-xs text-gray-500 font-mono truncate">
+                {file.modified !== null ? formatDate(file.modified) : '—'}
+              </span>
+              <span className="w-24 text-right text-xs font-mono font-semibold">{formatSize(file.size)}</span>
+              <button
+                onClick={() => onReveal(file.path)}
+                title={t('showInTree')}
+                aria-label={t('showInTree')}
+                className="w-10 flex justify-end text-gray-400 hover:text-blue-600"
+              >
+                <LocateFixed size={16} />
+              </button>
+            </div>
+          ))
+        )}
+      </div>
+    </div>
+  );
+}
+
+export default LargestFilesView;
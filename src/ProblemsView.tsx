@@ -0,0 +1,83 @@
+import { Loader2, LocateFixed, RefreshCw, TriangleAlert } from "lucide-react";
+import type { ProblemReport } from "./types";
+
+interface ProblemsViewProps {
+  report: ProblemReport | null;
+  loading: boolean;
+  onRefresh: () => void;
+  /** 在目录树中定位路径 / Jump to the path in the tree */
+  onReveal: (path: string) => void;
+  t: (key: string, params?: Record<string, string | number>) => string;
+  numberLocale: string;
+}
+
+/**
+ * 问题视图：扫描中无法读取而未计入大小的路径（无权限、已消失等），按类别汇总数量，可跳转到目录树。
+ * Problems view: paths the scan could not read and so left out of the sizes (access denied, vanished...),
+ * with counts per kind; each one can be revealed in the tree.
+ */
+function ProblemsView({ report, loading, onRefresh, onReveal, t, numberLocale }: ProblemsViewProps) {
+  const problems = report?.problems ?? [];
+
+  return (
+    <div className="flex-1 flex flex-col overflow-hidden">
+      <div className="flex items-center flex-wrap gap-2 px-4 py-3 border-b border-gray-100 dark:border-gray-800 text-xs text-gray-500 shrink-0">
+        {report?.counts.map(({ kind, count }) => (
+          <span
+            key={kind}
+            className="px-2 py-1 rounded-full bg-amber-50 text-amber-700 dark:bg-amber-900/30 dark:text-amber-300"
+          >
+            {t(`problemKind_${kind}`)}: {count.toLocaleString(numberLocale)}
+          </span>
+        ))}
+        <span className="text-gray-400">{t('problemsHint')}</span>
+        <button
+          onClick={onRefresh}
+          disabled={loading}
+          className="ml-auto px-2 py-1 rounded flex items-center gap-1 hover:bg-gray-100 dark:hover:bg-gray-700 disabled:opacity-50"
+        >
+          {loading ? <Loader2 size={14} className="animate-spin" /> : <RefreshCw size={14} />}
+          {t('refresh')}
+        </button>
+      </div>
+
+      {!!report?.unlisted && (
+        <div className="px-4 py-2 text-xs text-amber-600 dark:text-amber-400 border-b border-gray-100 dark:border-gray-800 shrink-0">
+          {t('problemsUnlisted', { count: report.unlisted.toLocaleString(numberLocale) })}
+        </div>
+      )}
+
+      <div className="flex-1 overflow-auto p-2">
+        {problems.length === 0 ? (
+          <div className="h-full flex items-center justify-center text-sm text-gray-400">
+            {loading && !report ? <Loader2 className="animate-spin text-blue-600" size={24} /> : t('problemsEmpty')}
+          </div>
+        ) : (
+          problems.map(problem => (
+            <div
+              key={problem.path}
+              className="flex items-center px-2 py-1 rounded hover:bg-gray-100 dark:hover:bg-gray-800 group"
+            >
+              <TriangleAlert size={16} className="text-amber-500 mr-2 shrink-0" />
+              <div className="flex-1 min-w-0 mr-4">
+                <div className="truncate text-sm font-mono" title={problem.path}>{problem.path}</div>
+                <div className="truncate text-xs text-gray-400" title={problem.message}>{problem.message}</div>
+              </div>
+              <span className="w-36 text-right text-xs text-gray-500 truncate">{t(`problemKind_${problem.kind}`)}</span>
+              <button
+                onClick={() => onReveal(problem.path)}
+                title={t('showInTree')}
+                aria-label={t('showInTree')}
+                className="w-10 flex justify-end text-gray-400 hover:text-blue-600"
+              >
+                <LocateFixed size={16} />
+              </button>
+            </div>
+          ))
+        )}
+      </div>
+    </div>
+  );
+}
+
+export default ProblemsView;
@@ -0,0 +1,99 @@
+import { Folder, HardDrive } from "lucide-react";
+import type { FileNode } from "./types";
+import { getRootTotals } from "./tabs";
+import { formatSize } from "./utils";
+
+interface RootsSummaryViewProps {
+  roots: { tabId: number; data: FileNode }[];
+  /** 切换到该根目录所在的标签页 / Switch to the tab holding the root */
+  onSelect: (tabId: number) => void;
+  /** 仍在计算时附在数值后的提示 / Hint appended to values that are still being computed */
+  pendingLabel: string;
+  colors: string[];
+  t: (key: string, params?: Record<string, string | number>) => string;
+  numberLocale: string;
+}
+
+/**
+ * “全部根目录”汇总：各标签页根目录的大小、文件数与占总量的比例。
+ * "All roots" summary: size, file count and share of the total for the root of every tab.
+ */
+function RootsSummaryView({ roots, onSelect, pendingLabel, colors, t, numberLocale }: RootsSummaryViewProps) {
+  const rows = roots
+    .map(root => ({ ...root, ...getRootTotals(root.data) }))
+    .sort((a, b) => b.size - a.size);
+  const totalSize = rows.reduce((acc, row) => acc + row.size, 0);
+  const totalFiles = rows.reduce((acc, row) => acc + row.fileCount, 0);
+  const anyPending = rows.some(row => row.pending);
+
+  return (
+    <div className="flex flex-col h-full space-y-4">
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4 shrink-0">
+        <div className="bg-white dark:bg-gray-800 p-6 rounded-xl border border-gray-200 dark:border-gray-700 shadow-sm">
+          <div className="text-gray-500 text-sm mb-1 flex items-center gap-2">
+            <HardDrive size={14} /> {t('totalSize')}
+          </div>
+          <div className="text-2xl font-bold">
+            {formatSize(totalSize)}
+            {anyPending && <span className="text-base font-normal text-gray-500 ml-2">{pendingLabel}</span>}
+          </div>
+        </div>
+        <div className="bg-white dark:bg-gray-800 p-6 rounded-xl border border-gray-200 dark:border-gray-700 shadow-sm">
+          <div className="text-gray-500 text-sm mb-1">{t('totalFiles')}</div>
+          <div className="text-2xl font-bold">{totalFiles.toLocaleString(numberLocale)}</div>
+        </div>
+        <div className="bg-white dark:bg-gray-800 p-6 rounded-xl border border-gray-200 dark:border-gray-700 shadow-sm">
+          <div className="text-gray-500 text-sm mb-1">{t('allRootsCount')}</div>
+          <div className="text-2xl font-bold">{rows.length.toLocaleString(numberLocale)}</div>
+        </div>
+      </div>
+
+      <div className="flex-1 bg-white dark:bg-gray-800 rounded-xl border border-gray-200 dark:border-gray-700 shadow-sm overflow-hidden flex flex-col">
+        <div className="flex items-center px-4 py-2 border-b border-gray-100 dark:border-gray-800 text-xs font-medium text-gray-500 bg-gray-50/50 dark:bg-gray-800/50 select-none shrink-0">
+          <span className="flex-1 ml-8">{t('name')}</span>
+          <span className="w-48">{t('allRootsShare')}</span>
+          <span className="w-24 text-right">{t('fileCount')}</span>
+          <span className="w-24 text-right">{t('size')}</span>
+        </div>
+        <div className="flex-1 overflow-auto p-2">
+          {rows.map((row, index) => {
+            const share = totalSize > 0 ? (row.size / totalSize) * 100 : 0;
+            return (
+              <button
+                key={row.tabId}
+                onClick={() => onSelect(row.tabId)}
+                className="w-full flex items-center px-2 py-1.5 rounded hover:bg-gray-100 dark:hover:bg-gray-800 text-left"
+              >
+                <Folder size={18} className="text-blue-500 fill-blue-500/20 mr-2 shrink-0" />
+                <div className="flex-1 min-w-0 mr-4">
+                  <div className="truncate text-sm font-medium">{row.data.name}</div>
+                  <div className="truncate text-xs text-gray-400 font-mono" title={row.data.path}>{row.data.path}</div>
+                </div>
+                <span className="w-48 flex items-center gap-2">
+                  <span className="flex-1 h-2 rounded-full bg-gray-100 dark:bg-gray-700 overflow-hidden">
+                    <span
+                      className="block h-full rounded-full"
+                      style={{ width: `${share}%`, backgroundColor: colors[index % colors.length] }}
+                    />
+                  </span>
+                  <span className="w-12 text-right text-xs font-mono text-gray-500">
+                    {share.toLocaleString(numberLocale, { maximumFractionDigits: 1 })}%
+                  </span>
+                </span>
+                <span className="w-24 text-right text-xs font-mono text-gray-500">
+                  {row.fileCount.toLocaleString(numberLocale)}
+                </span>
+                <span className="w-24 text-right text-xs font-mono font-semibold">
+                  {formatSize(row.size)}
+                  {row.pending && <span className="font-normal text-gray-400" title={pendingLabel}>*</span>}
+                </span>
+              </button>
+            );
+          })}
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export default RootsSummaryView;
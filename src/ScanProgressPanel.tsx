@@ -0,0 +1,74 @@
+import { Activity } from "lucide-react";
+import type { ScanProgress } from "./types";
+import { formatDuration, formatSize } from "./utils";
+
+interface ScanProgressPanelProps {
+  progress: ScanProgress;
+  /** 上次扫描同一根目录得到的大小（无记录时为 null） / Size from an earlier scan of the same root, if any */
+  expectedSize: number | null;
+  t: (key: string, params?: Record<string, string | number>) => string;
+  numberLocale: string;
+}
+
+/**
+ * 扫描进度面板：已访问目录、文件数、已统计字节、吞吐量，以及基于历史大小的剩余时间。
+ * Scan progress panel: folders visited, files, bytes counted, throughput and an ETA based on an earlier size.
+ */
+function ScanProgressPanel({ progress, expectedSize, t, numberLocale }: ScanProgressPanelProps) {
+  const seconds = progress.elapsed_ms / 1000;
+  const throughput = seconds > 0 ? progress.bytes_counted / seconds : 0;
+
+  const ratio =
+    expectedSize && expectedSize > 0 ? Math.min(progress.bytes_counted / expectedSize, 1) : null;
+  const etaMs =
+    expectedSize && throughput > 0 && progress.bytes_counted < expectedSize
+      ? ((expectedSize - progress.bytes_counted) / throughput) * 1000
+      : null;
+
+  const stats = [
+    { label: t('progressDirs'), value: progress.dirs_visited.toLocaleString(numberLocale) },
+    { label: t('progressFiles'), value: progress.files_counted.toLocaleString(numberLocale) },
+    { label: t('progressBytes'), value: formatSize(progress.bytes_counted) },
+    { label: t('progressThroughput'), value: `${formatSize(Math.round(throughput))}/s` },
+    { label: t('progressElapsed'), value: formatDuration(progress.elapsed_ms) },
+    {
+      label: t('progressEta'),
+      value: etaMs !== null ? formatDuration(etaMs) : ratio === 1 ? t('progressEtaSoon') : '—',
+    },
+  ];
+
+  return (
+    <div className="bg-white dark:bg-gray-800 px-6 py-4 rounded-xl border border-gray-200 dark:border-gray-700 shadow-sm shrink-0 space-y-3">
+      <div className="flex items-center gap-2 text-sm text-gray-500">
+        <Activity size={14} className="text-blue-600 animate-pulse" />
+        {t('progressTitle')}
+        {ratio !== null && (
+          <span className="ml-auto font-mono">{Math.floor(ratio * 100)}%</span>
+        )}
+      </div>
+      <div className="h-1.5 rounded-full bg-gray-100 dark:bg-gray-700 overflow-hidden">
+        {ratio !== null ? (
+          <div className="h-full bg-blue-600 transition-all" style={{ width: `${ratio * 100}%` }} />
+        ) : (
+          <div className="h-full w-1/3 bg-blue-600/60 animate-pulse" />
+        )}
+      </div>
+      <div className="grid grid-cols-3 md:grid-cols-6 gap-3">
+        {stats.map(stat => (
+          <div key={stat.label}>
+            <div className="text-xs text-gray-500">{stat.label}</div>
+            <div className="text-sm font-semibold font-mono truncate">{stat.value}</div>
+          </div>
+        ))}
+      </div>
+      <div className="text-xs text-gray-400 font-mono truncate" title={progress.current_path}>
+        {progress.current_path}
+      </div>
+      {expectedSize === null && (
+        <div className="text-xs text-gray-400">{t('progressEtaUnknown')}</div>
+      )}
+    </div>
+  );
+}
+
+export default ScanProgressPanel;
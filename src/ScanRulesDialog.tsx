@@ -0,0 +1,167 @@
+import { useState } from "react";
+import { ListFilter, Plus, Trash2 } from "lucide-react";
+import type { ScanRules } from "./types";
+import { EMPTY_SCAN_RULES, sanitizeScanRuleSettings, type ScanRuleProfile, type ScanRuleSettings } from "./preferences";
+
+interface ScanRulesDialogProps {
+  settings: ScanRuleSettings;
+  /** 保存规则集并以所选规则集重新扫描 / Save the profiles and rescan with the selected one */
+  onSave: (settings: ScanRuleSettings) => void;
+  onClose: () => void;
+  t: (key: string, params?: Record<string, string | number>) => string;
+}
+
+const toLines = (patterns: string[]) => patterns.join('\n');
+const fromLines = (text: string) => text.split('\n');
+
+/**
+ * 扫描规则编辑器：按命名规则集编辑排除与例外模式、最大深度、是否跨文件系统。
+ * Scan rules editor: edit exclude and include patterns, maximum depth and filesystem crossing per named profile.
+ */
+function ScanRulesDialog({ settings, onSave, onClose, t }: ScanRulesDialogProps) {
+  const [profiles, setProfiles] = useState<ScanRuleProfile[]>(settings.profiles);
+  const [selected, setSelected] = useState(settings.profiles.findIndex(item => item.name === settings.active));
+
+  const index = Math.max(selected, 0);
+  const profile = profiles[index];
+  const names = profiles.map(item => item.name.trim());
+  const hasNameError = !profile.name.trim() || names.filter(name => name === profile.name.trim()).length > 1;
+
+  const updateProfile = (patch: Partial<ScanRuleProfile>) =>
+    setProfiles(prev => prev.map((item, i) => (i === index ? { ...item, ...patch } : item)));
+  const updateRules = (patch: Partial<ScanRules>) => updateProfile({ rules: { ...profile.rules, ...patch } });
+
+  const handleAdd = () => {
+    let n = profiles.length + 1;
+    while (names.includes(t('rulesNewProfile', { n }))) n += 1;
+    setProfiles(prev => [...prev, { name: t('rulesNewProfile', { n }), rules: EMPTY_SCAN_RULES }]);
+    setSelected(profiles.length);
+  };
+
+  const handleRemove = () => {
+    setProfiles(prev => prev.filter((_, i) => i !== index));
+    setSelected(Math.max(index - 1, 0));
+  };
+
+  const handleSave = () => onSave(sanitizeScanRuleSettings({ profiles, active: profile.name.trim() }));
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/40 flex items-center justify-center p-4" onClick={onClose}>
+      <div
+        className="bg-white dark:bg-gray-800 rounded-xl border border-gray-200 dark:border-gray-700 shadow-xl w-full max-w-2xl flex flex-col max-h-[85vh]"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="px-6 py-4 border-b border-gray-200 dark:border-gray-700 flex items-center gap-2 font-semibold">
+          <ListFilter size={18} className="text-blue-600" />
+          {t('rulesTitle')}
+        </div>
+
+        <div className="px-6 py-4 space-y-4 overflow-auto text-sm">
+          <div className="flex items-center gap-2">
+            <select
+              value={index}
+              onChange={(e) => setSelected(Number(e.target.value))}
+              className="flex-1 px-2 py-1.5 rounded border border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-900"
+            >
+              {profiles.map((item, i) => (
+                <option key={i} value={i}>{item.name || '—'}</option>
+              ))}
+            </select>
+            <button
+              onClick={handleAdd}
+              title={t('rulesAddProfile')}
+              aria-label={t('rulesAddProfile')}
+              className="p-2 rounded-lg bg-gray-100 hover:bg-gray-200 dark:bg-gray-700 dark:hover:bg-gray-600"
+            >
+              <Plus size={14} />
+            </button>
+            <button
+              onClick={handleRemove}
+              disabled={profiles.length <= 1}
+              title={t('rulesRemoveProfile')}
+              aria-label={t('rulesRemoveProfile')}
+              className="p-2 rounded-lg bg-gray-100 hover:bg-gray-200 dark:bg-gray-700 dark:hover:bg-gray-600 text-red-600 disabled:opacity-50"
+            >
+              <Trash2 size={14} />
+            </button>
+          </div>
+
+          <label className="block">
+            <div className="text-xs text-gray-500 mb-1">{t('rulesProfileName')}</div>
+            <input
+              value={profile.name}
+              onChange={(e) => updateProfile({ name: e.target.value })}
+              className="w-full px-2 py-1.5 rounded border border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-900"
+            />
+            {hasNameError && <div className="text-xs text-red-600 mt-1">{t('rulesNameInvalid')}</div>}
+          </label>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <label className="block">
+              <div className="text-xs text-gray-500 mb-1">{t('rulesExclude')}</div>
+              <textarea
+                value={toLines(profile.rules.exclude)}
+                onChange={(e) => updateRules({ exclude: fromLines(e.target.value) })}
+                placeholder={'node_modules/\n.git/\n*.log'}
+                rows={7}
+                className="w-full px-2 py-1.5 rounded border border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-900 font-mono text-xs"
+              />
+            </label>
+            <label className="block">
+              <div className="text-xs text-gray-500 mb-1">{t('rulesInclude')}</div>
+              <textarea
+                value={toLines(profile.rules.include)}
+                onChange={(e) => updateRules({ include: fromLines(e.target.value) })}
+                placeholder="important.log"
+                rows={7}
+                className="w-full px-2 py-1.5 rounded border border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-900 font-mono text-xs"
+              />
+            </label>
+          </div>
+          <div className="text-xs text-gray-400">{t('rulesPatternHint')}</div>
+
+          <div className="flex flex-wrap items-center gap-6">
+            <label className="flex items-center gap-2">
+              {t('rulesMaxDepth')}
+              <input
+                type="number"
+                min={0}
+                max={256}
+                value={profile.rules.max_depth ?? ''}
+                placeholder={t('rulesUnlimited')}
+                onChange={(e) => updateRules({ max_depth: e.target.value === '' ? null : Number(e.target.value) })}
+                className="w-24 px-2 py-1 rounded border border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-900"
+              />
+            </label>
+            <label className="flex items-center gap-2">
+              <input
+                type="checkbox"
+                checked={profile.rules.one_filesystem}
+                onChange={(e) => updateRules({ one_filesystem: e.target.checked })}
+              />
+              {t('rulesOneFilesystem')}
+            </label>
+          </div>
+        </div>
+
+        <div className="px-6 py-4 border-t border-gray-200 dark:border-gray-700 flex justify-end gap-2">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 rounded-lg text-sm bg-gray-100 hover:bg-gray-200 dark:bg-gray-700 dark:hover:bg-gray-600"
+          >
+            {t('cancel')}
+          </button>
+          <button
+            onClick={handleSave}
+            disabled={hasNameError}
+            className="px-4 py-2 rounded-lg text-sm text-white bg-blue-600 hover:bg-blue-700 disabled:opacity-50"
+          >
+            {t('rulesApply')}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export default ScanRulesDialog;
@@ -0,0 +1,208 @@
+import { FileInput, FileMinus, FilePlus, FolderMinus, FolderPlus, Loader2, LocateFixed, Radio, Save, TrendingDown, TrendingUp, X } from "lucide-react";
+import type { Snapshot, SnapshotChange } from "./snapshot";
+import { formatSizeDelta } from "./snapshot";
+import { formatSize, cn } from "./utils";
+
+interface SnapshotDiffViewProps {
+  base: Snapshot | null;
+  /** 对比目标；null 表示当前扫描 / Comparison target; null means the live scan */
+  target: Snapshot | null;
+  changes: SnapshotChange[] | null;
+  loading: boolean;
+  /** 当前扫描是否已可保存为快照 / Whether the live scan can be saved as a snapshot yet */
+  canSaveLive: boolean;
+  onLoadBase: () => void;
+  onLoadTarget: () => void;
+  onUseLive: () => void;
+  onClearBase: () => void;
+  onSaveLive: () => void;
+  /** 在目录树中定位目录（仅当前扫描一侧） / Jump to the folder in the tree (live side only) */
+  onReveal: (path: string) => void;
+  formatDate: (ms: number) => string;
+  t: (key: string, params?: Record<string, string | number>) => string;
+  numberLocale: string;
+}
+
+const STATUS_ICONS = {
+  added: FolderPlus,
+  removed: FolderMinus,
+  grown: TrendingUp,
+  shrunk: TrendingDown,
+};
+
+/** 文件的新增、删除图标 / Icons of added and removed files */
+const FILE_STATUS_ICONS = { ...STATUS_ICONS, added: FilePlus, removed: FileMinus };
+
+/**
+ * 快照对比视图：加载两份快照（或一份快照与当前扫描），列出增长、缩小、新增与删除的目录与大文件。
+ * Snapshot diff view: load two snapshots (or one and the live scan) and list grown, shrunk, added and removed
+ * folders and large files.
+ */
+function SnapshotDiffView({
+  base,
+  target,
+  changes,
+  loading,
+  canSaveLive,
+  onLoadBase,
+  onLoadTarget,
+  onUseLive,
+  onClearBase,
+  onSaveLive,
+  onReveal,
+  formatDate,
+  t,
+  numberLocale,
+}: SnapshotDiffViewProps) {
+  const describe = (snapshot: Snapshot) =>
+    t('diffSnapshotInfo', { root: snapshot.root, date: formatDate(snapshot.created_at) });
+  const totalDelta = changes?.find(change => change.key === '/')?.delta ?? 0;
+
+  return (
+    <div className="flex-1 flex flex-col overflow-hidden">
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4 px-4 py-3 border-b border-gray-100 dark:border-gray-800 text-xs shrink-0">
+        <div className="min-w-0">
+          <div className="font-medium text-gray-500 mb-1">{t('diffBase')}</div>
+          <div className="flex items-center gap-2">
+            <span className="flex-1 truncate text-gray-600 dark:text-gray-300" title={base?.root}>
+              {base ? describe(base) : t('diffNoBase')}
+            </span>
+            <button
+              onClick={onLoadBase}
+              className="px-2 py-1 rounded flex items-center gap-1 hover:bg-gray-100 dark:hover:bg-gray-700"
+            >
+              <FileInput size={14} />
+              {t('diffLoad')}
+            </button>
+            {base && (
+              <button
+                onClick={onClearBase}
+                title={t('diffClear')}
+                aria-label={t('diffClear')}
+                className="p-1 rounded text-gray-400 hover:text-gray-600 hover:bg-gray-100 dark:hover:bg-gray-700"
+              >
+                <X size={14} />
+              </button>
+            )}
+          </div>
+        </div>
+        <div className="min-w-0">
+          <div className="font-medium text-gray-500 mb-1">{t('diffTarget')}</div>
+          <div className="flex items-center gap-2">
+            <span className="flex-1 truncate text-gray-600 dark:text-gray-300" title={target?.root}>
+              {target ? describe(target) : t('diffLiveScan')}
+            </span>
+            <button
+              onClick={onLoadTarget}
+              className="px-2 py-1 rounded flex items-center gap-1 hover:bg-gray-100 dark:hover:bg-gray-700"
+            >
+              <FileInput size={14} />
+              {t('diffLoad')}
+            </button>
+            {target && (
+              <button
+                onClick={onUseLive}
+                className="px-2 py-1 rounded flex items-center gap-1 hover:bg-gray-100 dark:hover:bg-gray-700"
+              >
+                <Radio size={14} />
+                {t('diffUseLive')}
+              </button>
+            )}
+          </div>
+        </div>
+      </div>
+
+      <div className="flex items-center gap-4 px-4 py-2 border-b border-gray-100 dark:border-gray-800 text-xs text-gray-500 shrink-0">
+        <button
+          onClick={onSaveLive}
+          disabled={!canSaveLive}
+          title={canSaveLive ? undefined : t('diffSaveUnavailable')}
+          className="px-2 py-1 rounded flex items-center gap-1 hover:bg-gray-100 dark:hover:bg-gray-700 disabled:opacity-50"
+        >
+          <Save size={14} />
+          {t('diffSaveSnapshot')}
+        </button>
+        {base && target === null && <span className="text-gray-400">{t('diffTreeHint')}</span>}
+        {changes && changes.length > 0 && (
+          <span className="ml-auto font-mono">
+            {t('diffSummary', { count: changes.length.toLocaleString(numberLocale), delta: formatSizeDelta(totalDelta) })}
+          </span>
+        )}
+      </div>
+
+      <div className="flex items-center px-4 py-2 border-b border-gray-100 dark:border-gray-800 text-xs font-medium text-gray-500 bg-gray-50/50 dark:bg-gray-800/50 select-none shrink-0">
+        <span className="flex-1 ml-8">{t('diffPath')}</span>
+        <span className="w-24 text-right">{t('diffBefore')}</span>
+        <span className="w-24 text-right">{t('diffAfter')}</span>
+        <span className="w-24 text-right">{t('diffDelta')}</span>
+        <span className="w-16 text-right">%</span>
+        <span className="w-10" />
+      </div>
+
+      <div className="flex-1 overflow-auto p-2">
+        {loading ? (
+          <div className="h-full flex items-center justify-center">
+            <Loader2 className="animate-spin text-blue-600" size={24} />
+          </div>
+        ) : !changes ? (
+          <div className="h-full flex items-center justify-center text-sm text-gray-400">
+            {base ? t('diffWaitingLive') : t('diffEmpty')}
+          </div>
+        ) : changes.length === 0 ? (
+          <div className="h-full flex items-center justify-center text-sm text-gray-400">{t('diffNoChanges')}</div>
+        ) : (
+          changes.map(change => {
+            const Icon = (change.is_dir ? STATUS_ICONS : FILE_STATUS_ICONS)[change.status];
+            return (
+              <div
+                key={`${change.status}:${change.key}`}
+                className="flex items-center px-2 py-1 rounded hover:bg-gray-100 dark:hover:bg-gray-800 group"
+              >
+                <span className="w-8 shrink-0" title={t(`diffStatus_${change.status}`)}>
+                  <Icon
+                    size={16}
+                    className={change.delta > 0 ? "text-red-500" : "text-green-600"}
+                  />
+                </span>
+                <div className="flex-1 min-w-0 mr-4">
+                  <div className="truncate text-sm font-mono" title={change.path}>{change.key}</div>
+                </div>
+                <span className="w-24 text-right text-xs font-mono text-gray-500">
+                  {change.before === null ? '—' : formatSize(change.before)}
+                </span>
+                <span className="w-24 text-right text-xs font-mono text-gray-500">
+                  {change.after === null ? '—' : formatSize(change.after)}
+                </span>
+                <span
+                  className={cn(
+                    "w-24 text-right text-xs font-mono font-semibold",
+                    change.delta > 0 ? "text-red-600 dark:text-red-400" : "text-green-600 dark:text-green-400"
+                  )}
+                >
+                  {formatSizeDelta(change.delta)}
+                </span>
+                <span className="w-16 text-right text-xs font-mono text-gray-500">
+                  {change.percent === null ? '—' : `${change.percent > 0 ? '+' : ''}${change.percent.toFixed(1)}%`}
+                </span>
+                <span className="w-10 flex justify-end">
+                  {target === null && change.status !== 'removed' && (
+                    <button
+                      onClick={() => onReveal(change.path)}
+                      title={t('showInTree')}
+                      aria-label={t('showInTree')}
+                      className="text-gray-400 hover:text-blue-600"
+                    >
+                      <LocateFixed size={16} />
+                    </button>
+                  )}
+                </span>
+              </div>
+            );
+          })
+        )}
+      </div>
+    </div>
+  );
+}
+
+export default SnapshotDiffView;
@@ -0,0 +1,90 @@
+import { useEffect, useRef, useState, type ComponentProps } from "react";
+import { SunburstChart, Tooltip as RechartsTooltip } from "recharts";
+import { getRingCount, type SunburstDatum } from "./sunburst";
+import { formatSize } from "./utils";
+
+interface SunburstViewProps {
+  data: SunburstDatum;
+  /** 点击带路径的扇区 / Called when a slice with a path is clicked */
+  onSelect: (datum: SunburstDatum) => void;
+  /** 点击中心返回上一级 / Clicking the centre goes up one level */
+  onCenterClick?: () => void;
+  centerTitle: string;
+  centerSubtitle: string;
+}
+
+type SunburstChartData = ComponentProps<typeof SunburstChart>['data'];
+
+const INNER_RADIUS = 60;
+const EDGE_MARGIN = 8;
+
+/**
+ * 多层旭日图：每一环对应更深一层目录，中心显示当前目录。
+ * Multi-level sunburst: each ring is one folder level deeper, the centre shows the current folder.
+ */
+function SunburstView({ data, onSelect, onCenterClick, centerTitle, centerSubtitle }: SunburstViewProps) {
+  const containerRef = useRef<HTMLDivElement | null>(null);
+  const [size, setSize] = useState({ width: 0, height: 0 });
+
+  useEffect(() => {
+    const el = containerRef.current;
+    if (!el) return;
+
+    const observer = new ResizeObserver(entries => {
+      const rect = entries[0]?.contentRect;
+      if (rect) setSize({ width: Math.floor(rect.width), height: Math.floor(rect.height) });
+    });
+    observer.observe(el);
+    return () => observer.disconnect();
+  }, []);
+
+  // Recharts 会把中心也算作一层，这里放大外半径让各环铺满可用空间
+  // Recharts counts the centre as a level; enlarge the outer radius so the rings fill the space
+  const rings = Math.max(getRingCount(data), 1);
+  const maxRadius = Math.max(Math.min(size.width, size.height) / 2 - EDGE_MARGIN, INNER_RADIUS + 1);
+  const outerRadius = INNER_RADIUS + ((maxRadius - INNER_RADIUS) * (rings + 1)) / rings;
+
+  return (
+    <div ref={containerRef} className="w-full h-full min-h-[300px] relative">
+      {size.width > 0 && size.height > 0 && (
+        <SunburstChart
+          width={size.width}
+          height={size.height}
+          data={data as SunburstChartData}
+          dataKey="value"
+          innerRadius={INNER_RADIUS}
+          outerRadius={outerRadius}
+          padding={1}
+          ringPadding={1}
+          textOptions={{ fill: 'transparent', stroke: 'transparent', pointerEvents: 'none' }}
+          onClick={(node) => {
+            const datum = node as SunburstDatum;
+            if (datum.path) onSelect(datum);
+          }}
+        >
+          <RechartsTooltip
+            formatter={(value: any) => formatSize(Number(value || 0))}
+            contentStyle={{
+              backgroundColor: 'rgba(255, 255, 255, 0.96)',
+              borderRadius: '8px',
+              border: 'none',
+              boxShadow: '0 4px 12px rgba(0,0,0,0.1)'
+            }}
+          />
+        </SunburstChart>
+      )}
+      <button
+        type="button"
+        onClick={onCenterClick}
+        disabled={!onCenterClick}
+        className="absolute left-1/2 top-1/2 -translate-x-1/2 -translate-y-1/2 rounded-full flex flex-col items-center justify-center text-center overflow-hidden enabled:hover:bg-gray-100 dark:enabled:hover:bg-gray-700 transition-colors"
+        style={{ width: INNER_RADIUS * 2 - 8, height: INNER_RADIUS * 2 - 8 }}
+      >
+        <span className="text-xs font-semibold truncate max-w-full px-2">{centerTitle}</span>
+        <span className="text-[10px] font-mono text-gray-500">{centerSubtitle}</span>
+      </button>
+    </div>
+  );
+}
+
+export default SunburstView;
@@ -0,0 +1,112 @@
+import { useEffect, useState } from "react";
+import { ArrowDown, ArrowUp, Columns3 } from "lucide-react";
+import { TREE_COLUMNS, TREE_COLUMN_WIDTHS, nextTreeSort, type TreeColumn, type TreeSortKey } from "./treeStore";
+import type { TreeViewSettings } from "./preferences";
+import { cn } from "./utils";
+
+interface TreeHeaderProps {
+  settings: TreeViewSettings;
+  onChange: (settings: TreeViewSettings) => void;
+  /** 是否显示快照对比的变化列 / Whether the snapshot diff change column is shown */
+  showDelta: boolean;
+  t: (key: string, params?: Record<string, string | number>) => string;
+}
+
+/** 可选列的表头文字 / Header label keys of the optional columns */
+const COLUMN_LABEL_KEYS: Record<TreeColumn, string> = {
+  share: 'columnShare',
+  modified: 'columnModified',
+  age: 'columnAge',
+  owner: 'columnOwner',
+  permissions: 'columnPermissions',
+};
+
+/**
+ * 目录树表头：点击列名排序（再次点击切换方向），左侧按钮选择显示的可选列、是否目录优先与是否按年龄着色。
+ * Tree header: click a column to sort by it (again to flip the direction); the button on the left picks
+ * the optional columns, whether folders come first and whether rows are tinted by age.
+ */
+function TreeHeader({ settings, onChange, showDelta, t }: TreeHeaderProps) {
+  const [isMenuOpen, setIsMenuOpen] = useState(false);
+  const { sort, columns } = settings;
+
+  useEffect(() => {
+    if (!isMenuOpen) return;
+    const close = () => setIsMenuOpen(false);
+    window.addEventListener('click', close);
+    return () => window.removeEventListener('click', close);
+  }, [isMenuOpen]);
+
+  const toggleColumn = (column: TreeColumn) => {
+    const next = columns.includes(column) ? columns.filter(item => item !== column) : [...columns, column];
+    onChange({ ...settings, columns: TREE_COLUMNS.filter(item => next.includes(item)) });
+  };
+
+  const renderSortable = (key: TreeSortKey, label: string, className: string) => (
+    <button
+      onClick={() => onChange({ ...settings, sort: nextTreeSort(sort, key) })}
+      className={cn("flex items-center gap-1 hover:text-gray-900 dark:hover:text-gray-100", className)}
+    >
+      {label}
+      {sort.key === key && (sort.direction === 'asc' ? <ArrowUp size={12} /> : <ArrowDown size={12} />)}
+    </button>
+  );
+
+  return (
+    <div className="flex items-center px-4 py-2 border-b border-gray-100 dark:border-gray-800 text-xs font-medium text-gray-500 bg-gray-50/50 dark:bg-gray-800/50 select-none shrink-0">
+      <span className="w-8 relative" onClick={(e) => e.stopPropagation()}>
+        <button
+          onClick={() => setIsMenuOpen(open => !open)}
+          className="p-1 rounded hover:bg-gray-200 dark:hover:bg-gray-700"
+          title={t('treeColumns')}
+        >
+          <Columns3 size={14} />
+        </button>
+        {isMenuOpen && (
+          <div className="absolute left-0 top-full mt-1 z-20 w-48 p-2 space-y-1 rounded-lg border border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-800 shadow-lg font-normal text-gray-700 dark:text-gray-200">
+            {TREE_COLUMNS.map(column => (
+              <label key={column} className="flex items-center gap-2 px-1 py-0.5">
+                <input type="checkbox" checked={columns.includes(column)} onChange={() => toggleColumn(column)} />
+                {t(COLUMN_LABEL_KEYS[column])}
+              </label>
+            ))}
+            <div className="border-t border-gray-100 dark:border-gray-700 pt-1">
+              <label className="flex items-center gap-2 px-1 py-0.5">
+                <input
+                  type="checkbox"
+                  checked={sort.foldersFirst}
+                  onChange={(e) => onChange({ ...settings, sort: { ...sort, foldersFirst: e.target.checked } })}
+                />
+                {t('treeFoldersFirst')}
+              </label>
+              <label className="flex items-center gap-2 px-1 py-0.5">
+                <input
+                  type="checkbox"
+                  checked={settings.ageTint}
+                  onChange={(e) => onChange({ ...settings, ageTint: e.target.checked })}
+                />
+                {t('treeAgeTint')}
+              </label>
+            </div>
+          </div>
+        )}
+      </span>
+      {renderSortable('name', t('name'), "flex-1")}
+      <div className="flex items-center gap-4">
+        {renderSortable('files', t('fileCount'), "w-20 justify-end")}
+        {renderSortable('size', t('size'), "w-24 justify-end")}
+        {columns.includes('share') && renderSortable('share', t('columnShare'), cn(TREE_COLUMN_WIDTHS.share, "justify-end"))}
+        {columns.includes('modified') &&
+          renderSortable('modified', t('columnModified'), cn(TREE_COLUMN_WIDTHS.modified, "justify-end"))}
+        {columns.includes('age') && renderSortable('age', t('columnAge'), cn(TREE_COLUMN_WIDTHS.age, "justify-end"))}
+        {columns.includes('owner') && <span className={TREE_COLUMN_WIDTHS.owner}>{t('columnOwner')}</span>}
+        {columns.includes('permissions') && (
+          <span className={TREE_COLUMN_WIDTHS.permissions}>{t('columnPermissions')}</span>
+        )}
+        {showDelta && <span className="w-24 text-right">{t('diffDelta')}</span>}
+      </div>
+    </div>
+  );
+}
+
+export default TreeHeader;
@@ -0,0 +1,131 @@
+import { useEffect, useMemo, useRef, useState } from "react";
+import { layoutTreemap, type TreemapBlock } from "./treemap";
+import type { FileNode } from "./types";
+import { formatSize } from "./utils";
+
+interface TreemapViewProps {
+  node: FileNode;
+  colors: string[];
+  /** 点击目录块时下钻 / Drill down when a folder block is clicked */
+  onDrill: (node: FileNode) => void;
+  calculatingLabel: string;
+  emptyLabel: string;
+}
+
+const LABEL_MIN_WIDTH = 40;
+const LABEL_MIN_HEIGHT = 16;
+/** 估算的字符宽度（px），用于截断标签 / Estimated glyph width (px) used to truncate labels */
+const CHAR_WIDTH = 6.5;
+
+/**
+ * 按可用宽度截断文本。
+ * Truncate text to the available width.
+ */
+const fitLabel = (text: string, width: number) => {
+  const maxChars = Math.floor((width - 8) / CHAR_WIDTH);
+  if (maxChars <= 1) return '';
+  return text.length > maxChars ? `${text.slice(0, maxChars - 1)}…` : text;
+};
+
+/**
+ * 矩形树图视图：按面积展示已加载的整棵子树，计算中的目录以条纹虚线框显示。
+ * Treemap view: shows the whole loaded subtree by area; folders still calculating are drawn striped and dashed.
+ */
+function TreemapView({ node, colors, onDrill, calculatingLabel, emptyLabel }: TreemapViewProps) {
+  const containerRef = useRef<HTMLDivElement | null>(null);
+  const [size, setSize] = useState({ width: 0, height: 0 });
+
+  useEffect(() => {
+    const el = containerRef.current;
+    if (!el) return;
+
+    const observer = new ResizeObserver(entries => {
+      const rect = entries[0]?.contentRect;
+      if (rect) setSize({ width: Math.floor(rect.width), height: Math.floor(rect.height) });
+    });
+    observer.observe(el);
+    return () => observer.disconnect();
+  }, []);
+
+  const blocks = useMemo(
+    () => (size.width > 0 && size.height > 0 ? layoutTreemap(node, size.width, size.height) : []),
+    [node, size],
+  );
+
+  const renderBlock = (block: TreemapBlock) => {
+    const color = colors[block.colorIndex % colors.length];
+    const showLabel = block.width >= LABEL_MIN_WIDTH && block.height >= LABEL_MIN_HEIGHT;
+    const sizeText = block.pending ? calculatingLabel : formatSize(block.node.size ?? 0);
+    const label = fitLabel(block.node.name, block.width);
+    const sizeLabel = block.hasNested ? '' : fitLabel(sizeText, block.width);
+
+    return (
+      <g
+        key={block.node.path}
+        className={block.node.is_dir ? "cursor-pointer" : undefined}
+        onClick={(e) => {
+          e.stopPropagation();
+          if (block.node.is_dir) onDrill(block.node);
+        }}
+      >
+        <title>{`${block.node.path}\n${sizeText}`}</title>
+        <rect
+          x={block.x}
+          y={block.y}
+          width={block.width}
+          height={block.height}
+          fill={block.pending ? 'url(#treemap-pending)' : color}
+          fillOpacity={block.pending ? 1 : block.hasNested ? 0.25 : 0.85}
+          stroke={block.pending ? color : '#ffffff'}
+          strokeWidth={1}
+          strokeDasharray={block.pending ? '4 3' : undefined}
+          className="hover:opacity-80"
+        />
+        {showLabel && (
+          <text
+            x={block.x + 4}
+            y={block.y + 13}
+            fontSize={11}
+            fontWeight={block.hasNested ? 600 : 400}
+            className="fill-gray-900 dark:fill-gray-100 pointer-events-none"
+          >
+            {label}
+          </text>
+        )}
+        {showLabel && sizeLabel && block.height >= LABEL_MIN_HEIGHT * 2 && (
+          <text
+            x={block.x + 4}
+            y={block.y + 27}
+            fontSize={10}
+            className="fill-gray-700 dark:fill-gray-300 pointer-events-none"
+          >
+            {sizeLabel}
+          </text>
+        )}
+      </g>
+    );
+  };
+
+  return (
+    <div ref={containerRef} className="flex-1 min-h-0 relative">
+      {size.width > 0 && (
+        <svg width={size.width} height={size.height} className="absolute inset-0">
+          <defs>
+            <pattern id="treemap-pending" width="8" height="8" patternUnits="userSpaceOnUse" patternTransform="rotate(45)">
+              <rect width="8" height="8" fill="#9ca3af" fillOpacity={0.15} />
+              <line x1="0" y1="0" x2="0" y2="8" stroke="#9ca3af" strokeWidth={3} strokeOpacity={0.35} />
+            </pattern>
+          </defs>
+          {blocks.map(renderBlock)}
+        </svg>
+      )}
+      {size.width > 0 && blocks.length === 0 && (
+        <div className="absolute inset-0 flex items-center justify-center text-sm text-gray-400">
+          {emptyLabel}
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default TreemapView;
@@ -0,0 +1,62 @@
+import { useEffect, useRef, useState, type HTMLAttributes, type ReactNode, type RefObject } from "react";
+
+/** 其余属性（role、aria-*、键盘事件等）传给滚动容器 / Other attributes (role, aria-*, key events...) go to the scroll container */
+interface VirtualListProps extends Omit<HTMLAttributes<HTMLDivElement>, 'onScroll'> {
+  rowCount: number;
+  /** 固定行高（像素） / Fixed row height in pixels */
+  rowHeight: number;
+  /**
+   * 渲染第 index 行；返回的元素需带 key，且高度等于 rowHeight。
+   * Render row `index`; the element needs a key and a height of exactly rowHeight.
+   */
+  renderRow: (index: number) => ReactNode;
+  /** 滚动容器（供外部定位与事件判断） / The scroll container (for scrolling and hit tests outside) */
+  containerRef?: RefObject<HTMLDivElement | null>;
+  className?: string;
+  /** 可见区域上下额外渲染的行数 / Extra rows rendered above and below the viewport */
+  overscan?: number;
+}
+
+/**
+ * 窗口化列表：只渲染滚动区域中可见的行，行数再多也只有几十个 DOM 节点。
+ * Windowed list: only rows inside the scroll viewport are rendered, so any row count costs a few dozen DOM nodes.
+ */
+function VirtualList({
+  rowCount,
+  rowHeight,
+  renderRow,
+  containerRef,
+  className,
+  overscan = 10,
+  ...rest
+}: VirtualListProps) {
+  const ownRef = useRef<HTMLDivElement | null>(null);
+  const ref = containerRef ?? ownRef;
+  const [scrollTop, setScrollTop] = useState(0);
+  const [viewportHeight, setViewportHeight] = useState(0);
+
+  useEffect(() => {
+    const element = ref.current;
+    if (!element) return;
+
+    setViewportHeight(element.clientHeight);
+    const observer = new ResizeObserver(() => setViewportHeight(element.clientHeight));
+    observer.observe(element);
+    return () => observer.disconnect();
+  }, [ref]);
+
+  const start = Math.max(0, Math.floor(scrollTop / rowHeight) - overscan);
+  const end = Math.min(rowCount, Math.ceil((scrollTop + viewportHeight) / rowHeight) + overscan);
+  const rows: ReactNode[] = [];
+  for (let index = start; index < end; index++) rows.push(renderRow(index));
+
+  return (
+    <div {...rest} ref={ref} className={className} onScroll={(e) => setScrollTop(e.currentTarget.scrollTop)}>
+      <div style={{ height: rowCount * rowHeight }}>
+        <div style={{ transform: `translateY(${start * rowHeight}px)` }}>{rows}</div>
+      </div>
+    </div>
+  );
+}
+
+export default VirtualList;
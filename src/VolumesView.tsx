@@ -0,0 +1,112 @@
+import { HardDrive, Loader2, Play, RefreshCw } from "lucide-react";
+import type { Volume } from "./types";
+import { formatSize, cn } from "./utils";
+
+interface VolumesViewProps {
+  volumes: Volume[] | null;
+  loading: boolean;
+  showPseudo: boolean;
+  onShowPseudoChange: (show: boolean) => void;
+  onRefresh: () => void;
+  onScan: (path: string) => void;
+  t: (key: string, params?: Record<string, string | number>) => string;
+  numberLocale: string;
+}
+
+/** 使用率超过该比例时用警示色显示 / Usage above this ratio is shown in a warning colour */
+const USAGE_WARNING_RATIO = 0.9;
+
+/**
+ * 首页：已挂载卷的总量、已用与可用空间、文件系统类型和挂载点，每个卷都可直接扫描。
+ * Home screen: total, used and free space, filesystem type and mount point of each mounted volume,
+ * each one can be scanned directly.
+ */
+function VolumesView({
+  volumes,
+  loading,
+  showPseudo,
+  onShowPseudoChange,
+  onRefresh,
+  onScan,
+  t,
+  numberLocale,
+}: VolumesViewProps) {
+  const hasPseudo = volumes?.some(volume => volume.pseudo) ?? false;
+  const visible = (volumes ?? []).filter(volume => showPseudo || !volume.pseudo);
+
+  return (
+    <div className="flex flex-col h-full space-y-4">
+      <div className="flex items-center gap-4 shrink-0">
+        <h2 className="text-lg font-semibold flex items-center gap-2">
+          <HardDrive size={18} className="text-blue-600" />
+          {t('volumesTitle')}
+        </h2>
+        <span className="text-sm text-gray-400">{t('emptyHint')}</span>
+        <div className="ml-auto flex items-center gap-4 text-xs text-gray-500">
+          {hasPseudo && (
+            <label className="flex items-center gap-2">
+              <input type="checkbox" checked={showPseudo} onChange={(e) => onShowPseudoChange(e.target.checked)} />
+              {t('volumesShowPseudo')}
+            </label>
+          )}
+          <button
+            onClick={onRefresh}
+            disabled={loading}
+            className="px-2 py-1 rounded flex items-center gap-1 hover:bg-gray-100 dark:hover:bg-gray-800 disabled:opacity-50"
+          >
+            {loading ? <Loader2 size={14} className="animate-spin" /> : <RefreshCw size={14} />}
+            {t('refresh')}
+          </button>
+        </div>
+      </div>
+
+      {visible.length === 0 ? (
+        <div className="flex-1 flex items-center justify-center text-sm text-gray-400">
+          {loading ? <Loader2 className="animate-spin text-blue-600" size={24} /> : t('volumesEmpty')}
+        </div>
+      ) : (
+        <div className="flex-1 overflow-auto grid grid-cols-1 md:grid-cols-2 xl:grid-cols-3 gap-4 content-start">
+          {visible.map(volume => {
+            const ratio = volume.total > 0 ? volume.used / volume.total : 0;
+            return (
+              <div
+                key={volume.mount_point}
+                className="bg-white dark:bg-gray-800 p-5 rounded-xl border border-gray-200 dark:border-gray-700 shadow-sm flex flex-col gap-3"
+              >
+                <div className="flex items-start gap-3">
+                  <HardDrive size={28} className={cn("shrink-0", volume.pseudo ? "text-gray-300" : "text-blue-500")} />
+                  <div className="flex-1 min-w-0">
+                    <div className="font-semibold truncate font-mono" title={volume.mount_point}>{volume.mount_point}</div>
+                    <div className="text-xs text-gray-400 truncate" title={volume.name}>
+                      {[volume.name, volume.fs_type].filter(Boolean).join(' · ')}
+                    </div>
+                  </div>
+                  <button
+                    onClick={() => onScan(volume.mount_point)}
+                    className="px-3 py-1.5 rounded-lg text-sm text-white bg-blue-600 hover:bg-blue-700 flex items-center gap-1 shrink-0"
+                  >
+                    <Play size={14} />
+                    {t('volumesScan')}
+                  </button>
+                </div>
+                <div className="h-2 rounded-full bg-gray-100 dark:bg-gray-700 overflow-hidden">
+                  <div
+                    className={cn("h-full rounded-full", ratio >= USAGE_WARNING_RATIO ? "bg-red-500" : "bg-blue-500")}
+                    style={{ width: `${Math.min(ratio * 100, 100)}%` }}
+                  />
+                </div>
+                <div className="flex justify-between text-xs text-gray-500 font-mono">
+                  <span>{t('volumesUsed', { size: formatSize(volume.used), percent: (ratio * 100).toLocaleString(numberLocale, { maximumFractionDigits: 1 }) })}</span>
+                  <span>{t('volumesFree', { size: formatSize(volume.free) })}</span>
+                  <span>{t('volumesTotal', { size: formatSize(volume.total) })}</span>
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default VolumesView;
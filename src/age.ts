@@ -0,0 +1,52 @@
+import type { FileNode } from "./types";
+
+/** 年龄统计的月份长度（按 30 天计，与后端一致） / Length of a month in age statistics (30 days, as in the backend) */
+const MONTH_MS = 30 * 24 * 60 * 60 * 1000;
+
+/**
+ * 年龄分档的上限（月，不含）：30 天内、1 年内、3 年内，其余为更早。
+ * Upper bounds of the age buckets (months, exclusive): within 30 days, a year and three years; the rest is older.
+ */
+export const AGE_BUCKET_MONTHS = [1, 12, 36] as const;
+
+/** 各年龄分档的名称键 / Label keys of the age buckets */
+export const AGE_BUCKET_LABEL_KEYS = ['ageBucket_month', 'ageBucket_year', 'ageBucket_threeYears', 'ageBucket_older'];
+
+/** 各年龄分档的颜色（图表用） / Colors of the age buckets (for charts) */
+export const AGE_BUCKET_COLORS = ['#22c55e', '#eab308', '#f97316', '#ef4444'];
+
+/**
+ * 按年龄着色时各分档的行背景；最近的内容不着色。
+ * Row backgrounds per age bucket when tinting by age; recent contents stay untinted.
+ */
+export const AGE_TINT_CLASSES = [
+  '',
+  'bg-yellow-50 dark:bg-yellow-900/15',
+  'bg-orange-50 dark:bg-orange-900/20',
+  'bg-red-50 dark:bg-red-900/25',
+];
+
+/**
+ * 内容最近一次修改的时间：目录取子树中最新的文件，文件取自身的修改时间。
+ * When the contents last changed: the newest file in a folder's subtree, or a file's own modification time.
+ */
+export const lastChangeOf = (node: FileNode): number | null => (node.is_dir ? node.newest : node.modified);
+
+/** 时间点在 now 时所属的年龄分档（0 为最新） / Age bucket of a time as of `now` (0 is the newest) */
+export const ageBucketOf = (time: number, now: number) => {
+  const months = Math.floor(Math.max(0, now - time) / MONTH_MS);
+  const index = AGE_BUCKET_MONTHS.findIndex(max => months < max);
+  return index === -1 ? AGE_BUCKET_MONTHS.length : index;
+};
+
+/**
+ * 相对时间描述（如“3 个月前”），取最大的合适单位。
+ * Relative time text (like "3 months ago") in the largest fitting unit.
+ */
+export const formatAge = (time: number, now: number, locale: string) => {
+  const days = Math.round((time - now) / (24 * 60 * 60 * 1000));
+  const format = new Intl.RelativeTimeFormat(locale, { numeric: 'auto' });
+  if (Math.abs(days) >= 365) return format.format(Math.round(days / 365), 'year');
+  if (Math.abs(days) >= 30) return format.format(Math.round(days / 30), 'month');
+  return format.format(days, 'day');
+};
@@ -0,0 +1,140 @@
+import type { FileNode } from "./types";
+import { formatSize } from "./utils";
+
+export type ExportFormat = 'csv' | 'json' | 'html';
+
+/** 各导出格式的文件扩展名 / File extension of each export format */
+export const EXPORT_EXTENSIONS: Record<ExportFormat, string> = {
+  csv: 'csv',
+  json: 'json',
+  html: 'html',
+};
+
+/**
+ * 导出时使用的格式化上下文：与界面相同的翻译函数与数字区域。
+ * Formatting context of an export: the same translator and number locale as the UI.
+ */
+export interface ExportContext {
+  t: (key: string, params?: Record<string, string | number>) => string;
+  numberLocale: string;
+  /** 导出时间（Unix 毫秒） / Export time (Unix ms) */
+  exportedAt: number;
+}
+
+/**
+ * 截取到指定深度的树（根为第 0 层），更深的子项被丢弃。
+ * The tree cut at a depth (the root is level 0); deeper children are dropped.
+ */
+export const pruneTree = (node: FileNode, maxDepth: number, depth = 0): FileNode => ({
+  ...node,
+  children:
+    node.children && depth < maxDepth ? node.children.map(child => pruneTree(child, maxDepth, depth + 1)) : null,
+});
+
+const csvField = (value: string) => (/[",\n\r]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value);
+
+/**
+ * 扁平 CSV：每行一个条目（路径、大小、字节数、文件数、深度、是否目录），到指定深度为止。
+ * 只有 size 列为便于阅读的格式，其余数字为原始整数，与命令行导出的 CSV 相同。
+ * Flat CSV: one entry per row (path, size, bytes, file count, depth, is_dir) down to a depth.
+ * Only the size column is human-readable; other numbers are raw integers, as in the command line's CSV.
+ */
+export const toCsv = (root: FileNode, maxDepth: number): string => {
+  const rows = [['path', 'size', 'size_bytes', 'file_count', 'depth', 'is_dir'].join(',')];
+  const visit = (node: FileNode, depth: number) => {
+    rows.push(
+      [
+        csvField(node.path),
+        csvField(node.size === null ? '' : formatSize(node.size)),
+        node.size === null ? '' : String(node.size),
+        node.is_dir ? String(node.file_count) : '',
+        String(depth),
+        String(node.is_dir),
+      ].join(',')
+    );
+    if (depth < maxDepth) node.children?.forEach(child => visit(child, depth + 1));
+  };
+  visit(root, 0);
+  return `${rows.join('\n')}\n`;
+};
+
+/**
+ * 嵌套 JSON，结构与 FileNode 相同。
+ * Nested JSON with the same shape as FileNode.
+ */
+export const toJson = (root: FileNode, maxDepth: number): string => JSON.stringify(pruneTree(root, maxDepth), null, 2);
+
+const escapeHtml = (value: string) =>
+  value.replace(/[&<>"']/g, ch => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&#39;' })[ch] as string);
+
+/**
+ * 独立的 HTML 报告：汇总卡片（总大小、文件数、根目录）与根目录下最大的 N 项。
+ * Self-contained HTML report: summary cards (total size, file count, root folder) and the N largest entries of the root.
+ */
+export const toHtmlReport = (root: FileNode, topN: number, context: ExportContext): string => {
+  const { t, numberLocale } = context;
+  const total = root.size ?? 0;
+  const top = [...(root.children ?? [])]
+    .filter(child => child.size !== null)
+    .sort((a, b) => (b.size ?? 0) - (a.size ?? 0))
+    .slice(0, topN);
+
+  const card = (label: string, value: string, title = value) =>
+    `<div class="card"><div class="label">${escapeHtml(label)}</div><div class="value" title="${escapeHtml(title)}">${escapeHtml(value)}</div></div>`;
+
+  const rows = top
+    .map((child, index) => {
+      const size = child.size ?? 0;
+      const percent = total > 0 ? (size / total) * 100 : 0;
+      return [
+        '<tr>',
+        `<td class="num">${(index + 1).toLocaleString(numberLocale)}</td>`,
+        `<td title="${escapeHtml(child.path)}">${child.is_dir ? '&#128193;' : '&#128196;'} ${escapeHtml(child.name)}</td>`,
+        `<td class="num">${child.is_dir ? child.file_count.toLocaleString(numberLocale) : '-'}</td>`,
+        `<td class="num">${escapeHtml(formatSize(size))}</td>`,
+        `<td><div class="bar"><span style="width:${percent.toFixed(1)}%"></span></div>`,
+        `<span class="num">${percent.toLocaleString(numberLocale, { maximumFractionDigits: 1 })}%</span></td>`,
+        '</tr>',
+      ].join('');
+    })
+    .join('\n');
+
+  return `<!DOCTYPE html>
+<html>
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(t('reportTitle', { name: root.name }))}</title>
+<style>
+body { font-family: system-ui, sans-serif; margin: 2rem; color: #111827; background: #f8f9fa; }
+h1 { font-size: 1.4rem; margin: 0 0 0.25rem; }
+.meta { color: #6b7280; font-size: 0.85rem; margin-bottom: 1.5rem; }
+.cards { display: grid; grid-template-columns: repeat(3, 1fr); gap: 1rem; margin-bottom: 1.5rem; }
+.card { background: #fff; border: 1px solid #e5e7eb; border-radius: 0.75rem; padding: 1rem 1.25rem; }
+.label { color: #6b7280; font-size: 0.85rem; }
+.value { font-size: 1.4rem; font-weight: 700; overflow: hidden; text-overflow: ellipsis; white-space: nowrap; }
+table { width: 100%; border-collapse: collapse; background: #fff; border: 1px solid #e5e7eb; }
+th, td { padding: 0.4rem 0.75rem; border-bottom: 1px solid #f3f4f6; font-size: 0.9rem; text-align: left; }
+th { color: #6b7280; font-weight: 500; background: #f9fafb; }
+.num { text-align: right; font-family: ui-monospace, monospace; }
+.bar { display: inline-block; width: 8rem; height: 0.5rem; background: #e5e7eb; border-radius: 9999px; margin-right: 0.5rem; vertical-align: middle; }
+.bar span { display: block; height: 100%; background: #2563eb; border-radius: 9999px; }
+</style>
+</head>
+<body>
+<h1>${escapeHtml(t('reportTitle', { name: root.name }))}</h1>
+<div class="meta">${escapeHtml(root.path)} · ${escapeHtml(t('reportGenerated', { date: new Date(context.exportedAt).toLocaleString(numberLocale) }))} · ${escapeHtml(t(`sizeMode_${root.size_mode}`))}</div>
+<div class="cards">
+${card(t('totalSize'), root.size === null ? t('calculating') : formatSize(root.size))}
+${card(t('totalFiles'), root.file_count.toLocaleString(numberLocale))}
+${card(t('rootDirectory'), root.name, root.path)}
+</div>
+<table>
+<thead><tr><th class="num">#</th><th>${escapeHtml(t('name'))}</th><th class="num">${escapeHtml(t('fileCount'))}</th><th class="num">${escapeHtml(t('size'))}</th><th>${escapeHtml(t('reportShare'))}</th></tr></thead>
+<tbody>
+${rows}
+</tbody>
+</table>
+</body>
+</html>
+`;
+};
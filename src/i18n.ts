@@ -91,6 +91,206 @@ const MESSAGES: Record<Locale, Record<string, string>> = {
     otherItems: '其他 ({count}项)',
     languageAuto: '跟随系统',
     languageTitle: '语言',
+    treemapView: '矩形树图',
+    treemapEmpty: '暂无可显示的已计算项',
+    chartDepth: '层数',
+    chartMaxSlices: '每层最多扇区',
+    chartOtherRatio: '并入“其他”阈值',
+    stopScan: '停止',
+    scanStopped: '已停止',
+    scanStoppedInline: ' (已停止)',
+    progressTitle: '扫描进度',
+    progressDirs: '已访问目录',
+    progressFiles: '已统计文件',
+    progressBytes: '已统计大小',
+    progressThroughput: '速度',
+    progressElapsed: '已用时间',
+    progressEta: '预计剩余',
+    progressEtaSoon: '即将完成',
+    progressEtaUnknown: '该目录没有历史扫描记录，暂无法估算剩余时间',
+    cachedFrom: '缓存，来自 {date}',
+    clearCache: '清除缓存',
+    clearCacheHint: '删除已保存的扫描结果，下次扫描将重新计算所有目录',
+    rescan: '重新扫描',
+    watch: '监听变化',
+    watching: '监听中',
+    watchStarting: '正在启动监听…',
+    watchingPolled: '轮询中',
+    watchHint: '监听磁盘变化并自动更新大小',
+    watchActiveHint: '正在监听磁盘变化，点击停止',
+    watchPolling: '系统监听不可用，已改为定期轮询：{reason}',
+    moveToTrash: '移到回收站',
+    moveSelectionToTrash: '将 {count} 项移到回收站',
+    deletePermanent: '永久删除',
+    moveToTrashTitle: '移到回收站？',
+    deletePermanentTitle: '永久删除？',
+    deletePermanentWarning: '此操作无法撤销，文件不会进入回收站。',
+    deleteSummary: '已删除 {done} 项，失败 {failed} 项',
+    cancel: '取消',
+    close: '关闭',
+    basket: '清理篮',
+    basketTitle: '清理篮',
+    addToBasket: '加入清理篮',
+    basketReclaimable: '可释放空间',
+    basketEmpty: '右键目录树中的项并选择“加入清理篮”。',
+    basketIncludedIn: '已包含在 {name} 中',
+    basketRemove: '移出清理篮',
+    basketClear: '清空',
+    basketExport: '导出清单',
+    largestView: '最大文件',
+    largestLimit: '显示数量',
+    largestMinSize: '最小大小',
+    largestSettingsHint: '增大数量或降低最小大小将在下次扫描时生效',
+    largestEmpty: '没有符合条件的文件',
+    modified: '修改时间',
+    showInTree: '在目录树中显示',
+    refresh: '刷新',
+    typesView: '文件类型',
+    typesEmpty: '此目录中没有文件',
+    typesCategoryHint: '点击类别可在目录树中筛选',
+    typesFilterActive: '仅显示“{category}”类文件',
+    typesFilterClear: '清除筛选',
+    extension: '扩展名',
+    category: '类别',
+    noExtension: '（无扩展名）',
+    category_media: '媒体',
+    category_archive: '压缩包与镜像',
+    category_code: '代码',
+    category_binary: '二进制',
+    category_document: '文档',
+    category_log: '日志',
+    category_other: '其他',
+    duplicatesView: '重复文件',
+    duplicatesStart: '查找重复文件',
+    duplicatesRestart: '重新查找',
+    duplicatesHint: '在当前扫描的目录中按内容查找重复文件',
+    duplicatesNone: '未发现重复文件',
+    duplicatesCancelled: '查找已取消',
+    duplicatesSummary: '{groups} 组重复，可释放 {wasted}',
+    duplicatesCopies: '{count} 个副本',
+    duplicatesWasted: '浪费 {size}',
+    duplicatesStage_walk: '正在遍历文件…',
+    duplicatesStage_partial: '正在比较文件开头…',
+    duplicatesStage_full: '正在比较完整内容…',
+    sizeMode: '大小口径',
+    sizeModeHint: '表观大小为文件内容的字节数；磁盘占用按实际分配的块计算',
+    sizeMode_apparent: '表观大小',
+    sizeMode_allocated: '磁盘占用',
+    symlinks: '符号链接',
+    symlinks_skip: '跳过',
+    symlinks_link: '统计链接本身',
+    symlinks_follow: '跟随目标',
+    symlinkHint: '符号链接',
+    rulesTitle: '扫描规则',
+    rulesNewProfile: '规则集 {n}',
+    rulesAddProfile: '新建规则集',
+    rulesRemoveProfile: '删除规则集',
+    rulesProfileName: '名称',
+    rulesNameInvalid: '名称不能为空且不能重复',
+    rulesExclude: '排除（每行一个模式）',
+    rulesInclude: '例外（重新包含被排除的路径）',
+    rulesPatternHint: '采用 .gitignore 语法：以 / 结尾只匹配目录，以 / 开头相对于扫描根目录，支持 * 与 ** 通配符。',
+    rulesMaxDepth: '最大深度',
+    rulesUnlimited: '不限',
+    rulesOneFilesystem: '不跨越文件系统（跳过挂载点）',
+    rulesApply: '保存并重新扫描',
+    excluded: '已排除',
+    excludedReason_pattern: '匹配排除模式',
+    excludedReason_depth: '超过最大深度',
+    excludedReason_filesystem: '位于其他文件系统',
+    diffView: '对比',
+    diffBase: '基准快照',
+    diffTarget: '对比对象',
+    diffNoBase: '尚未加载基准快照',
+    diffLoad: '加载快照',
+    diffClear: '移除基准',
+    diffLiveScan: '当前扫描',
+    diffUseLive: '改为当前扫描',
+    diffSaveSnapshot: '保存当前扫描为快照',
+    diffSaveUnavailable: '请等待扫描完成',
+    diffTreeHint: '目录树中也会显示相对基准的变化',
+    diffSummary: '{count} 处变化，总计 {delta}',
+    diffPath: '路径',
+    diffBefore: '之前',
+    diffAfter: '之后',
+    diffDelta: '变化',
+    diffBeforeSize: '基准大小：{size}',
+    diffWaitingLive: '等待当前扫描完成后进行对比…',
+    diffEmpty: '加载一份基准快照，与当前扫描或另一份快照对比',
+    diffNoChanges: '没有文件夹或大文件的大小发生变化',
+    diffStatus_added: '新增',
+    diffStatus_removed: '已删除',
+    diffStatus_grown: '增大',
+    diffStatus_shrunk: '减小',
+    diffSnapshotInfo: '{root}（{date}）',
+    diffLoadFailed: '无法加载快照：{error}',
+    export: '导出',
+    exportTitle: '导出扫描结果',
+    exportFormat_csv: 'CSV 表格',
+    exportFormat_json: 'JSON 树',
+    exportFormat_html: 'HTML 报告',
+    exportFormatHint_csv: '每行一项：路径、大小、文件数、深度、是否为文件夹',
+    exportFormatHint_json: '与界面相同结构的嵌套树',
+    exportFormatHint_html: '可直接分享的单文件报告：汇总与最大的若干项',
+    exportDepth: '深度',
+    exportDepthHint: '0 为仅根目录；尚未展开的文件夹会在导出时读取',
+    exportTopN: '列出最大的项数',
+    exportAction: '导出…',
+    reportTitle: '{name} 空间占用报告',
+    reportGenerated: '生成于 {date}',
+    reportShare: '占比',
+    allRoots: '全部根目录',
+    allRootsCount: '根目录数',
+    allRootsShare: '占比',
+    newTab: '新标签页',
+    closeTab: '关闭标签页',
+    volumesTitle: '磁盘与卷',
+    volumesShowPseudo: '显示系统虚拟文件系统',
+    volumesEmpty: '未找到可显示的卷',
+    volumesScan: '扫描',
+    volumesUsed: '已用 {size}（{percent}%）',
+    volumesFree: '可用 {size}',
+    volumesTotal: '共 {size}',
+    volumeShare: '占 {volume} 已用空间 {used} 的 {percent}%',
+    volumeFree: '卷剩余可用 {free}（{percent}%）',
+    columnShare: '占父目录',
+    columnModified: '修改时间',
+    columnOwner: '所有者',
+    columnPermissions: '权限',
+    treeColumns: '显示的列',
+    treeFoldersFirst: '文件夹优先',
+    treeSelection: '已选择 {count} 项，共 {size}',
+    treeKeyboardHint: '↑↓ 移动 · ←→ 折叠/展开 · Enter 进入 · 空格 选择 · Shift+点击 范围选择 · Shift+F10 菜单',
+    openFile: '打开文件',
+    openTerminalHere: '在此处打开终端',
+    copyPath: '复制路径',
+    problemsView: '问题',
+    problemsHint: '无法读取的路径未计入大小，每次扫描都会重新读取这些目录。',
+    problemsEmpty: '没有无法读取的路径',
+    problemsUnlisted: '另有 {count} 个问题未列出',
+    problemKind_permission_denied: '无访问权限',
+    problemKind_not_found: '已不存在',
+    problemKind_panic: '统计失败',
+    problemKind_other: '读取错误',
+    partialSize: '{count} 个条目无法读取，大小不完整',
+    columnAge: '最近修改',
+    treeAgeTint: '按年龄着色',
+    ageRange: '最新：{newest}；最旧：{oldest}',
+    ageView: '年龄',
+    ageTime: '按',
+    ageTime_modified: '修改时间',
+    ageTime_accessed: '访问时间',
+    ageStaleMonths: '未动超过（月）',
+    ageSettingsHint: '切换时间类型会重新扫描。许多系统不会及时更新访问时间。',
+    ageBucket_month: '30 天内',
+    ageBucket_year: '1 年内',
+    ageBucket_threeYears: '3 年内',
+    ageBucket_older: '更早',
+    ageStaleFolders: '旧而大：{months} 个月未动',
+    ageStaleShare: '占目录',
+    ageStaleSize: '未动大小',
+    ageStaleOf: '目录总大小 {size}',
+    ageStaleEmpty: '没有超过该期限未动的文件',
   },
   en: {
     appTitle: 'Folder Insight',
@@ -115,6 +315,206 @@ const MESSAGES: Record<Locale, Record<string, string>> = {
     otherItems: 'Other ({count})',
     languageAuto: 'Auto',
     languageTitle: 'Language',
+    treemapView: 'Treemap',
+    treemapEmpty: 'No computed items to display yet',
+    chartDepth: 'Rings',
+    chartMaxSlices: 'Max slices',
+    chartOtherRatio: 'Group below',
+    stopScan: 'Stop',
+    scanStopped: 'Stopped',
+    scanStoppedInline: ' (Stopped)',
+    progressTitle: 'Scan progress',
+    progressDirs: 'Folders visited',
+    progressFiles: 'Files counted',
+    progressBytes: 'Bytes counted',
+    progressThroughput: 'Throughput',
+    progressElapsed: 'Elapsed',
+    progressEta: 'ETA',
+    progressEtaSoon: 'Almost done',
+    progressEtaUnknown: 'No earlier scan of this folder, so there is no ETA yet',
+    cachedFrom: 'Cached, from {date}',
+    clearCache: 'Clear cache',
+    clearCacheHint: 'Delete saved scan results; the next scan recomputes every folder',
+    rescan: 'Rescan',
+    watch: 'Watch',
+    watching: 'Watching',
+    watchStarting: 'Starting watch…',
+    watchingPolled: 'Polling',
+    watchHint: 'Watch the disk for changes and keep sizes up to date',
+    watchActiveHint: 'Watching for changes; click to stop',
+    watchPolling: 'Native watching unavailable, polling periodically instead: {reason}',
+    moveToTrash: 'Move to Trash',
+    moveSelectionToTrash: 'Move {count} items to Trash',
+    deletePermanent: 'Delete permanently',
+    moveToTrashTitle: 'Move to Trash?',
+    deletePermanentTitle: 'Delete permanently?',
+    deletePermanentWarning: 'This cannot be undone; the files will not go to the Trash.',
+    deleteSummary: '{done} removed, {failed} failed',
+    cancel: 'Cancel',
+    close: 'Close',
+    basket: 'Basket',
+    basketTitle: 'Cleanup basket',
+    addToBasket: 'Add to cleanup basket',
+    basketReclaimable: 'Reclaimable',
+    basketEmpty: 'Right-click items in the tree and choose “Add to cleanup basket”.',
+    basketIncludedIn: 'Included in {name}',
+    basketRemove: 'Remove from basket',
+    basketClear: 'Clear',
+    basketExport: 'Export list',
+    largestView: 'Largest files',
+    largestLimit: 'Show top',
+    largestMinSize: 'Min size',
+    largestSettingsHint: 'A higher count or lower minimum takes effect on the next scan',
+    largestEmpty: 'No files match',
+    modified: 'Modified',
+    showInTree: 'Show in tree',
+    refresh: 'Refresh',
+    typesView: 'File types',
+    typesEmpty: 'No files in this folder',
+    typesCategoryHint: 'Click a category to filter the tree',
+    typesFilterActive: 'Showing only {category} files',
+    typesFilterClear: 'Clear filter',
+    extension: 'Extension',
+    category: 'Category',
+    noExtension: '(no extension)',
+    category_media: 'Media',
+    category_archive: 'Archives',
+    category_code: 'Code',
+    category_binary: 'Binaries',
+    category_document: 'Documents',
+    category_log: 'Logs',
+    category_other: 'Other',
+    duplicatesView: 'Duplicates',
+    duplicatesStart: 'Find duplicates',
+    duplicatesRestart: 'Search again',
+    duplicatesHint: 'Find files with identical content in the scanned folder',
+    duplicatesNone: 'No duplicates found',
+    duplicatesCancelled: 'Search cancelled',
+    duplicatesSummary: '{groups} duplicate groups, {wasted} reclaimable',
+    duplicatesCopies: '{count} copies',
+    duplicatesWasted: '{size} wasted',
+    duplicatesStage_walk: 'Walking files…',
+    duplicatesStage_partial: 'Comparing file headers…',
+    duplicatesStage_full: 'Comparing full contents…',
+    sizeMode: 'Size',
+    sizeModeHint: 'Apparent size is the number of bytes in the file; on-disk size counts the blocks actually allocated',
+    sizeMode_apparent: 'Apparent',
+    sizeMode_allocated: 'On disk',
+    symlinks: 'Symlinks',
+    symlinks_skip: 'Skip',
+    symlinks_link: 'Count the link',
+    symlinks_follow: 'Follow',
+    symlinkHint: 'Symbolic link',
+    rulesTitle: 'Scan rules',
+    rulesNewProfile: 'Profile {n}',
+    rulesAddProfile: 'New profile',
+    rulesRemoveProfile: 'Delete profile',
+    rulesProfileName: 'Name',
+    rulesNameInvalid: 'The name must be non-empty and unique',
+    rulesExclude: 'Exclude (one pattern per line)',
+    rulesInclude: 'Include (exceptions to the excludes)',
+    rulesPatternHint: 'Uses .gitignore syntax: a trailing / matches folders only, a leading / is relative to the scan root, and * and ** wildcards are supported.',
+    rulesMaxDepth: 'Max depth',
+    rulesUnlimited: 'Unlimited',
+    rulesOneFilesystem: 'Stay on one filesystem (skip mount points)',
+    rulesApply: 'Save and rescan',
+    excluded: 'Excluded',
+    excludedReason_pattern: 'Matches an exclude pattern',
+    excludedReason_depth: 'Beyond the maximum depth',
+    excludedReason_filesystem: 'On another filesystem',
+    diffView: 'Compare',
+    diffBase: 'Baseline snapshot',
+    diffTarget: 'Compare with',
+    diffNoBase: 'No baseline loaded',
+    diffLoad: 'Load snapshot',
+    diffClear: 'Remove baseline',
+    diffLiveScan: 'Current scan',
+    diffUseLive: 'Use current scan',
+    diffSaveSnapshot: 'Save current scan as snapshot',
+    diffSaveUnavailable: 'Wait for the scan to finish',
+    diffTreeHint: 'The tree also shows the change against the baseline',
+    diffSummary: '{count} changes, {delta} overall',
+    diffPath: 'Path',
+    diffBefore: 'Before',
+    diffAfter: 'After',
+    diffDelta: 'Change',
+    diffBeforeSize: 'Baseline size: {size}',
+    diffWaitingLive: 'Waiting for the current scan to finish…',
+    diffEmpty: 'Load a baseline snapshot to compare it with the current scan or another snapshot',
+    diffNoChanges: 'No folder or large file changed in size',
+    diffStatus_added: 'New',
+    diffStatus_removed: 'Removed',
+    diffStatus_grown: 'Grown',
+    diffStatus_shrunk: 'Shrunk',
+    diffSnapshotInfo: '{root} ({date})',
+    diffLoadFailed: 'Could not load the snapshot: {error}',
+    export: 'Export',
+    exportTitle: 'Export scan results',
+    exportFormat_csv: 'CSV table',
+    exportFormat_json: 'JSON tree',
+    exportFormat_html: 'HTML report',
+    exportFormatHint_csv: 'One row per entry: path, size, file count, depth, is folder',
+    exportFormatHint_json: 'Nested tree with the same structure as the app',
+    exportFormatHint_html: 'A single shareable file with the summary and the largest entries',
+    exportDepth: 'Depth',
+    exportDepthHint: '0 is the root only; folders not expanded yet are read during the export',
+    exportTopN: 'Largest entries to list',
+    exportAction: 'Export…',
+    reportTitle: 'Disk usage report: {name}',
+    reportGenerated: 'Generated {date}',
+    reportShare: 'Share',
+    allRoots: 'All roots',
+    allRootsCount: 'Roots',
+    allRootsShare: 'Share',
+    newTab: 'New tab',
+    closeTab: 'Close tab',
+    volumesTitle: 'Drives & volumes',
+    volumesShowPseudo: 'Show system pseudo filesystems',
+    volumesEmpty: 'No volumes to show',
+    volumesScan: 'Scan',
+    volumesUsed: '{size} used ({percent}%)',
+    volumesFree: '{size} free',
+    volumesTotal: '{size} total',
+    volumeShare: '{percent}% of the {used} used on {volume}',
+    volumeFree: '{free} free on the volume ({percent}%)',
+    columnShare: '% of parent',
+    columnModified: 'Modified',
+    columnOwner: 'Owner',
+    columnPermissions: 'Permissions',
+    treeColumns: 'Columns',
+    treeFoldersFirst: 'Folders first',
+    treeSelection: '{count} selected, {size} in total',
+    treeKeyboardHint: '↑↓ move · ←→ collapse/expand · Enter open · Space select · Shift+click range · Shift+F10 menu',
+    openFile: 'Open file',
+    openTerminalHere: 'Open terminal here',
+    copyPath: 'Copy path',
+    problemsView: 'Problems',
+    problemsHint: 'Paths that could not be read are left out of the sizes. Their folders are read again on every scan.',
+    problemsEmpty: 'No unreadable paths',
+    problemsUnlisted: '{count} more problems are not listed',
+    problemKind_permission_denied: 'Access denied',
+    problemKind_not_found: 'No longer exists',
+    problemKind_panic: 'Sizing failed',
+    problemKind_other: 'Read error',
+    partialSize: '{count} entries could not be read; the size is partial',
+    columnAge: 'Last change',
+    treeAgeTint: 'Tint rows by age',
+    ageRange: 'Newest: {newest} · Oldest: {oldest}',
+    ageView: 'Age',
+    ageTime: 'Age by',
+    ageTime_modified: 'Modified time',
+    ageTime_accessed: 'Accessed time',
+    ageStaleMonths: 'Untouched for (months)',
+    ageSettingsHint: 'Switching the time rescans. Many systems update access times only loosely.',
+    ageBucket_month: 'Under 30 days',
+    ageBucket_year: 'Under 1 year',
+    ageBucket_threeYears: 'Under 3 years',
+    ageBucket_older: 'Older',
+    ageStaleFolders: 'Old and big: untouched for {months} months',
+    ageStaleShare: 'Of folder',
+    ageStaleSize: 'Untouched',
+    ageStaleOf: 'Folder total {size}',
+    ageStaleEmpty: 'Nothing has been untouched for that long',
   },
   ja: {
     appTitle: 'Folder Insight',
@@ -139,6 +539,206 @@ const MESSAGES: Record<Locale, Record<string, string>> = {
     otherItems: 'その他（{count}）',
     languageAuto: '自動',
     languageTitle: '言語',
+    treemapView: 'ツリーマップ',
+    treemapEmpty: '表示できる計算済みの項目はまだありません',
+    chartDepth: '階層数',
+    chartMaxSlices: '最大区画数',
+    chartOtherRatio: '「その他」にまとめる閾値',
+    stopScan: '停止',
+    scanStopped: '停止済み',
+    scanStoppedInline: '（停止済み）',
+    progressTitle: 'スキャンの進行状況',
+    progressDirs: '走査済みフォルダー',
+    progressFiles: '集計済みファイル',
+    progressBytes: '集計済みサイズ',
+    progressThroughput: '速度',
+    progressElapsed: '経過時間',
+    progressEta: '残り時間',
+    progressEtaSoon: 'まもなく完了',
+    progressEtaUnknown: 'このフォルダーの過去のスキャン記録がないため、残り時間は推定できません',
+    cachedFrom: 'キャッシュ（{date} 時点）',
+    clearCache: 'キャッシュを消去',
+    clearCacheHint: '保存済みのスキャン結果を削除します。次回のスキャンではすべてのフォルダーを再計算します',
+    rescan: '再スキャン',
+    watch: '変更を監視',
+    watching: '監視中',
+    watchStarting: '監視を開始中…',
+    watchingPolled: 'ポーリング中',
+    watchHint: 'ディスクの変更を監視してサイズを自動更新',
+    watchActiveHint: '変更を監視中。クリックで停止',
+    watchPolling: 'ネイティブ監視が使えないため定期ポーリングに切り替えました: {reason}',
+    moveToTrash: 'ゴミ箱に移動',
+    moveSelectionToTrash: '{count} 項目をゴミ箱に移動',
+    deletePermanent: '完全に削除',
+    moveToTrashTitle: 'ゴミ箱に移動しますか？',
+    deletePermanentTitle: '完全に削除しますか？',
+    deletePermanentWarning: 'この操作は元に戻せません。ファイルはゴミ箱に入りません。',
+    deleteSummary: '{done} 件を削除、{failed} 件が失敗',
+    cancel: 'キャンセル',
+    close: '閉じる',
+    basket: '整理かご',
+    basketTitle: '整理かご',
+    addToBasket: '整理かごに追加',
+    basketReclaimable: '解放できる容量',
+    basketEmpty: 'ツリーの項目を右クリックして「整理かごに追加」を選びます。',
+    basketIncludedIn: '{name} に含まれています',
+    basketRemove: 'かごから外す',
+    basketClear: '空にする',
+    basketExport: 'リストを書き出す',
+    largestView: '最大のファイル',
+    largestLimit: '表示件数',
+    largestMinSize: '最小サイズ',
+    largestSettingsHint: '件数の増加や最小サイズの引き下げは次回のスキャンから反映されます',
+    largestEmpty: '該当するファイルはありません',
+    modified: '更新日時',
+    showInTree: 'ツリーで表示',
+    refresh: '更新',
+    typesView: 'ファイルの種類',
+    typesEmpty: 'このフォルダーにファイルはありません',
+    typesCategoryHint: 'カテゴリをクリックするとツリーを絞り込めます',
+    typesFilterActive: '「{category}」のファイルのみ表示中',
+    typesFilterClear: '絞り込みを解除',
+    extension: '拡張子',
+    category: 'カテゴリ',
+    noExtension: '（拡張子なし）',
+    category_media: 'メディア',
+    category_archive: 'アーカイブ',
+    category_code: 'コード',
+    category_binary: 'バイナリ',
+    category_document: 'ドキュメント',
+    category_log: 'ログ',
+    category_other: 'その他',
+    duplicatesView: '重複ファイル',
+    duplicatesStart: '重複を検索',
+    duplicatesRestart: '再検索',
+    duplicatesHint: 'スキャンしたフォルダー内で内容が同一のファイルを検索します',
+    duplicatesNone: '重複ファイルは見つかりませんでした',
+    duplicatesCancelled: '検索をキャンセルしました',
+    duplicatesSummary: '重複 {groups} グループ、{wasted} を解放可能',
+    duplicatesCopies: '{count} 個のコピー',
+    duplicatesWasted: '{size} の無駄',
+    duplicatesStage_walk: 'ファイルを走査中…',
+    duplicatesStage_partial: 'ファイル先頭を比較中…',
+    duplicatesStage_full: '内容全体を比較中…',
+    sizeMode: 'サイズ基準',
+    sizeModeHint: '見かけのサイズはファイル内容のバイト数、ディスク使用量は実際に割り当てられたブロックで計算します',
+    sizeMode_apparent: '見かけのサイズ',
+    sizeMode_allocated: 'ディスク使用量',
+    symlinks: 'シンボリックリンク',
+    symlinks_skip: 'スキップ',
+    symlinks_link: 'リンク自体を数える',
+    symlinks_follow: 'リンク先をたどる',
+    symlinkHint: 'シンボリックリンク',
+    rulesTitle: 'スキャンルール',
+    rulesNewProfile: 'プロファイル {n}',
+    rulesAddProfile: '新しいプロファイル',
+    rulesRemoveProfile: 'プロファイルを削除',
+    rulesProfileName: '名前',
+    rulesNameInvalid: '名前は空にできず、重複もできません',
+    rulesExclude: '除外（1 行に 1 パターン）',
+    rulesInclude: '例外（除外されたパスを再び含める）',
+    rulesPatternHint: '.gitignore 構文を使用します。末尾の / はフォルダーのみ、先頭の / はスキャンのルートからの相対パスで、* と ** を使用できます。',
+    rulesMaxDepth: '最大深さ',
+    rulesUnlimited: '無制限',
+    rulesOneFilesystem: 'ファイルシステムをまたがない（マウントポイントをスキップ）',
+    rulesApply: '保存して再スキャン',
+    excluded: '除外',
+    excludedReason_pattern: '除外パターンに一致',
+    excludedReason_depth: '最大深さを超えています',
+    excludedReason_filesystem: '別のファイルシステム上',
+    diffView: '比較',
+    diffBase: '基準スナップショット',
+    diffTarget: '比較対象',
+    diffNoBase: '基準が読み込まれていません',
+    diffLoad: 'スナップショットを読み込む',
+    diffClear: '基準を外す',
+    diffLiveScan: '現在のスキャン',
+    diffUseLive: '現在のスキャンを使う',
+    diffSaveSnapshot: '現在のスキャンをスナップショットとして保存',
+    diffSaveUnavailable: 'スキャンの完了をお待ちください',
+    diffTreeHint: 'ツリーにも基準からの変化が表示されます',
+    diffSummary: '{count} 件の変化、合計 {delta}',
+    diffPath: 'パス',
+    diffBefore: '変更前',
+    diffAfter: '変更後',
+    diffDelta: '変化',
+    diffBeforeSize: '基準サイズ: {size}',
+    diffWaitingLive: '現在のスキャンの完了を待っています…',
+    diffEmpty: '基準スナップショットを読み込み、現在のスキャンや別のスナップショットと比較します',
+    diffNoChanges: 'サイズが変化したフォルダーや大きなファイルはありません',
+    diffStatus_added: '新規',
+    diffStatus_removed: '削除',
+    diffStatus_grown: '増加',
+    diffStatus_shrunk: '減少',
+    diffSnapshotInfo: '{root}（{date}）',
+    diffLoadFailed: 'スナップショットを読み込めません: {error}',
+    export: 'エクスポート',
+    exportTitle: 'スキャン結果をエクスポート',
+    exportFormat_csv: 'CSV 表',
+    exportFormat_json: 'JSON ツリー',
+    exportFormat_html: 'HTML レポート',
+    exportFormatHint_csv: '1 行 1 項目：パス、サイズ、ファイル数、深さ、フォルダーかどうか',
+    exportFormatHint_json: 'アプリと同じ構造の入れ子ツリー',
+    exportFormatHint_html: '共有できる単一ファイル：概要と最大の項目',
+    exportDepth: '深さ',
+    exportDepthHint: '0 はルートのみ。未展開のフォルダーはエクスポート時に読み込まれます',
+    exportTopN: '表示する最大項目数',
+    exportAction: 'エクスポート…',
+    reportTitle: '{name} のディスク使用量レポート',
+    reportGenerated: '{date} に作成',
+    reportShare: '割合',
+    allRoots: 'すべてのルート',
+    allRootsCount: 'ルート数',
+    allRootsShare: '割合',
+    newTab: '新しいタブ',
+    closeTab: 'タブを閉じる',
+    volumesTitle: 'ドライブとボリューム',
+    volumesShowPseudo: 'システムの疑似ファイルシステムを表示',
+    volumesEmpty: '表示できるボリュームがありません',
+    volumesScan: 'スキャン',
+    volumesUsed: '使用 {size}（{percent}%）',
+    volumesFree: '空き {size}',
+    volumesTotal: '合計 {size}',
+    volumeShare: '{volume} の使用済み {used} のうち {percent}%',
+    volumeFree: 'ボリュームの空き {free}（{percent}%）',
+    columnShare: '親フォルダー比',
+    columnModified: '更新日時',
+    columnOwner: '所有者',
+    columnPermissions: 'アクセス権',
+    treeColumns: '表示する列',
+    treeFoldersFirst: 'フォルダーを先に表示',
+    treeSelection: '{count} 項目を選択、合計 {size}',
+    treeKeyboardHint: '↑↓ 移動 · ←→ 折りたたみ/展開 · Enter 開く · Space 選択 · Shift+クリック 範囲選択 · Shift+F10 メニュー',
+    openFile: 'ファイルを開く',
+    openTerminalHere: 'ここでターミナルを開く',
+    copyPath: 'パスをコピー',
+    problemsView: '問題',
+    problemsHint: '読み取れなかったパスはサイズに含まれません。これらのフォルダーはスキャンのたびに読み直されます。',
+    problemsEmpty: '読み取れなかったパスはありません',
+    problemsUnlisted: 'ほかに {count} 件の問題は一覧に表示されていません',
+    problemKind_permission_denied: 'アクセス拒否',
+    problemKind_not_found: '存在しません',
+    problemKind_panic: '集計に失敗',
+    problemKind_other: '読み取りエラー',
+    partialSize: '{count} 件の項目を読み取れなかったため、サイズは不完全です',
+    columnAge: '最終変更',
+    treeAgeTint: '経過期間で色分け',
+    ageRange: '最新: {newest} · 最古: {oldest}',
+    ageView: '経過期間',
+    ageTime: '基準',
+    ageTime_modified: '更新日時',
+    ageTime_accessed: 'アクセス日時',
+    ageStaleMonths: '未変更の期間（か月）',
+    ageSettingsHint: '基準を切り替えると再スキャンします。多くのシステムではアクセス日時が正確に更新されません。',
+    ageBucket_month: '30 日未満',
+    ageBucket_year: '1 年未満',
+    ageBucket_threeYears: '3 年未満',
+    ageBucket_older: 'それ以前',
+    ageStaleFolders: '古くて大きい: {months} か月未変更',
+    ageStaleShare: 'フォルダー比',
+    ageStaleSize: '未変更サイズ',
+    ageStaleOf: 'フォルダー合計 {size}',
+    ageStaleEmpty: 'その期間変更されていないファイルはありません',
   },
   ko: {
     appTitle: 'Folder Insight',
@@ -163,6 +763,206 @@ const MESSAGES: Record<Locale, Record<string, string>> = {
     otherItems: '기타 ({count})',
     languageAuto: '자동',
     languageTitle: '언어',
+    treemapView: '트리맵',
+    treemapEmpty: '아직 표시할 계산된 항목이 없습니다',
+    chartDepth: '링 수',
+    chartMaxSlices: '최대 조각 수',
+    chartOtherRatio: "'기타'로 묶는 기준",
+    stopScan: '중지',
+    scanStopped: '중지됨',
+    scanStoppedInline: ' (중지됨)',
+    progressTitle: '스캔 진행 상황',
+    progressDirs: '방문한 폴더',
+    progressFiles: '집계된 파일',
+    progressBytes: '집계된 크기',
+    progressThroughput: '처리 속도',
+    progressElapsed: '경과 시간',
+    progressEta: '남은 시간',
+    progressEtaSoon: '곧 완료',
+    progressEtaUnknown: '이 폴더의 이전 스캔 기록이 없어 남은 시간을 추정할 수 없습니다',
+    cachedFrom: '캐시됨, {date} 기준',
+    clearCache: '캐시 지우기',
+    clearCacheHint: '저장된 스캔 결과를 삭제합니다. 다음 스캔에서 모든 폴더를 다시 계산합니다',
+    rescan: '다시 스캔',
+    watch: '변경 감시',
+    watching: '감시 중',
+    watchStarting: '감시 시작 중…',
+    watchingPolled: '폴링 중',
+    watchHint: '디스크 변경을 감시하고 크기를 자동으로 갱신',
+    watchActiveHint: '변경을 감시 중입니다. 클릭하여 중지',
+    watchPolling: '기본 감시를 사용할 수 없어 주기적 폴링으로 전환했습니다: {reason}',
+    moveToTrash: '휴지통으로 이동',
+    moveSelectionToTrash: '{count}개 항목을 휴지통으로 이동',
+    deletePermanent: '영구 삭제',
+    moveToTrashTitle: '휴지통으로 이동할까요?',
+    deletePermanentTitle: '영구 삭제할까요?',
+    deletePermanentWarning: '이 작업은 되돌릴 수 없으며 파일이 휴지통으로 가지 않습니다.',
+    deleteSummary: '{done}개 삭제, {failed}개 실패',
+    cancel: '취소',
+    close: '닫기',
+    basket: '정리 바구니',
+    basketTitle: '정리 바구니',
+    addToBasket: '정리 바구니에 추가',
+    basketReclaimable: '확보 가능한 공간',
+    basketEmpty: '트리의 항목을 마우스 오른쪽 버튼으로 클릭하고 “정리 바구니에 추가”를 선택하세요.',
+    basketIncludedIn: '{name}에 포함됨',
+    basketRemove: '바구니에서 제거',
+    basketClear: '비우기',
+    basketExport: '목록 내보내기',
+    largestView: '가장 큰 파일',
+    largestLimit: '표시 개수',
+    largestMinSize: '최소 크기',
+    largestSettingsHint: '개수를 늘리거나 최소 크기를 낮추면 다음 스캔부터 적용됩니다',
+    largestEmpty: '조건에 맞는 파일이 없습니다',
+    modified: '수정한 날짜',
+    showInTree: '트리에서 보기',
+    refresh: '새로 고침',
+    typesView: '파일 형식',
+    typesEmpty: '이 폴더에 파일이 없습니다',
+    typesCategoryHint: '범주를 클릭하면 트리를 필터링합니다',
+    typesFilterActive: '{category} 파일만 표시 중',
+    typesFilterClear: '필터 지우기',
+    extension: '확장자',
+    category: '범주',
+    noExtension: '(확장자 없음)',
+    category_media: '미디어',
+    category_archive: '압축 파일',
+    category_code: '코드',
+    category_binary: '바이너리',
+    category_document: '문서',
+    category_log: '로그',
+    category_other: '기타',
+    duplicatesView: '중복 파일',
+    duplicatesStart: '중복 찾기',
+    duplicatesRestart: '다시 찾기',
+    duplicatesHint: '스캔한 폴더에서 내용이 같은 파일을 찾습니다',
+    duplicatesNone: '중복 파일이 없습니다',
+    duplicatesCancelled: '검색이 취소되었습니다',
+    duplicatesSummary: '중복 {groups}개 그룹, {wasted} 확보 가능',
+    duplicatesCopies: '사본 {count}개',
+    duplicatesWasted: '{size} 낭비',
+    duplicatesStage_walk: '파일 탐색 중…',
+    duplicatesStage_partial: '파일 앞부분 비교 중…',
+    duplicatesStage_full: '전체 내용 비교 중…',
+    sizeMode: '크기 기준',
+    sizeModeHint: '겉보기 크기는 파일 내용의 바이트 수이고, 디스크 사용량은 실제 할당된 블록으로 계산합니다',
+    sizeMode_apparent: '겉보기 크기',
+    sizeMode_allocated: '디스크 사용량',
+    symlinks: '심볼릭 링크',
+    symlinks_skip: '건너뛰기',
+    symlinks_link: '링크 자체 계산',
+    symlinks_follow: '대상 따라가기',
+    symlinkHint: '심볼릭 링크',
+    rulesTitle: '스캔 규칙',
+    rulesNewProfile: '프로필 {n}',
+    rulesAddProfile: '새 프로필',
+    rulesRemoveProfile: '프로필 삭제',
+    rulesProfileName: '이름',
+    rulesNameInvalid: '이름은 비어 있거나 중복될 수 없습니다',
+    rulesExclude: '제외 (한 줄에 패턴 하나)',
+    rulesInclude: '예외 (제외된 경로 다시 포함)',
+    rulesPatternHint: '.gitignore 문법을 사용합니다. 끝의 /는 폴더만, 앞의 /는 스캔 루트 기준이며 * 와 ** 와일드카드를 지원합니다.',
+    rulesMaxDepth: '최대 깊이',
+    rulesUnlimited: '무제한',
+    rulesOneFilesystem: '하나의 파일 시스템에만 머물기 (마운트 지점 건너뛰기)',
+    rulesApply: '저장 후 다시 스캔',
+    excluded: '제외됨',
+    excludedReason_pattern: '제외 패턴과 일치',
+    excludedReason_depth: '최대 깊이를 초과함',
+    excludedReason_filesystem: '다른 파일 시스템에 있음',
+    diffView: '비교',
+    diffBase: '기준 스냅샷',
+    diffTarget: '비교 대상',
+    diffNoBase: '불러온 기준이 없습니다',
+    diffLoad: '스냅샷 불러오기',
+    diffClear: '기준 제거',
+    diffLiveScan: '현재 스캔',
+    diffUseLive: '현재 스캔 사용',
+    diffSaveSnapshot: '현재 스캔을 스냅샷으로 저장',
+    diffSaveUnavailable: '스캔이 끝날 때까지 기다려 주세요',
+    diffTreeHint: '트리에도 기준 대비 변화가 표시됩니다',
+    diffSummary: '변경 {count}개, 전체 {delta}',
+    diffPath: '경로',
+    diffBefore: '이전',
+    diffAfter: '이후',
+    diffDelta: '변화',
+    diffBeforeSize: '기준 크기: {size}',
+    diffWaitingLive: '현재 스캔이 끝나기를 기다리는 중…',
+    diffEmpty: '기준 스냅샷을 불러와 현재 스캔이나 다른 스냅샷과 비교하세요',
+    diffNoChanges: '크기가 바뀐 폴더나 큰 파일이 없습니다',
+    diffStatus_added: '새 항목',
+    diffStatus_removed: '삭제됨',
+    diffStatus_grown: '증가',
+    diffStatus_shrunk: '감소',
+    diffSnapshotInfo: '{root} ({date})',
+    diffLoadFailed: '스냅샷을 불러올 수 없습니다: {error}',
+    export: '내보내기',
+    exportTitle: '스캔 결과 내보내기',
+    exportFormat_csv: 'CSV 표',
+    exportFormat_json: 'JSON 트리',
+    exportFormat_html: 'HTML 보고서',
+    exportFormatHint_csv: '항목당 한 행: 경로, 크기, 파일 수, 깊이, 폴더 여부',
+    exportFormatHint_json: '앱과 같은 구조의 중첩 트리',
+    exportFormatHint_html: '공유 가능한 단일 파일: 요약과 가장 큰 항목',
+    exportDepth: '깊이',
+    exportDepthHint: '0은 루트만 해당하며, 아직 펼치지 않은 폴더는 내보낼 때 읽습니다',
+    exportTopN: '표시할 큰 항목 수',
+    exportAction: '내보내기…',
+    reportTitle: '{name} 디스크 사용량 보고서',
+    reportGenerated: '{date}에 생성',
+    reportShare: '비율',
+    allRoots: '모든 루트',
+    allRootsCount: '루트 수',
+    allRootsShare: '비율',
+    newTab: '새 탭',
+    closeTab: '탭 닫기',
+    volumesTitle: '드라이브 및 볼륨',
+    volumesShowPseudo: '시스템 가상 파일 시스템 표시',
+    volumesEmpty: '표시할 볼륨이 없습니다',
+    volumesScan: '스캔',
+    volumesUsed: '사용 {size} ({percent}%)',
+    volumesFree: '여유 {size}',
+    volumesTotal: '전체 {size}',
+    volumeShare: '{volume} 사용 공간 {used} 중 {percent}%',
+    volumeFree: '볼륨 여유 공간 {free} ({percent}%)',
+    columnShare: '상위 폴더 대비',
+    columnModified: '수정한 날짜',
+    columnOwner: '소유자',
+    columnPermissions: '권한',
+    treeColumns: '표시할 열',
+    treeFoldersFirst: '폴더 먼저 표시',
+    treeSelection: '{count}개 선택됨, 총 {size}',
+    treeKeyboardHint: '↑↓ 이동 · ←→ 접기/펼치기 · Enter 열기 · Space 선택 · Shift+클릭 범위 선택 · Shift+F10 메뉴',
+    openFile: '파일 열기',
+    openTerminalHere: '여기에서 터미널 열기',
+    copyPath: '경로 복사',
+    problemsView: '문제',
+    problemsHint: '읽을 수 없는 경로는 크기에 포함되지 않습니다. 해당 폴더는 스캔할 때마다 다시 읽습니다.',
+    problemsEmpty: '읽을 수 없는 경로가 없습니다',
+    problemsUnlisted: '그 외 {count}개의 문제는 표시되지 않습니다',
+    problemKind_permission_denied: '접근 거부',
+    problemKind_not_found: '더 이상 존재하지 않음',
+    problemKind_panic: '계산 실패',
+    problemKind_other: '읽기 오류',
+    partialSize: '{count}개 항목을 읽을 수 없어 크기가 불완전합니다',
+    columnAge: '마지막 변경',
+    treeAgeTint: '경과 기간별 색상',
+    ageRange: '최신: {newest} · 가장 오래됨: {oldest}',
+    ageView: '경과 기간',
+    ageTime: '기준',
+    ageTime_modified: '수정한 날짜',
+    ageTime_accessed: '액세스한 날짜',
+    ageStaleMonths: '변경 없는 기간(개월)',
+    ageSettingsHint: '기준을 바꾸면 다시 스캔합니다. 많은 시스템은 액세스 시간을 정확히 갱신하지 않습니다.',
+    ageBucket_month: '30일 미만',
+    ageBucket_year: '1년 미만',
+    ageBucket_threeYears: '3년 미만',
+    ageBucket_older: '그 이전',
+    ageStaleFolders: '오래되고 큰 항목: {months}개월 변경 없음',
+    ageStaleShare: '폴더 대비',
+    ageStaleSize: '변경 없는 크기',
+    ageStaleOf: '폴더 전체 {size}',
+    ageStaleEmpty: '그 기간 동안 변경되지 않은 파일이 없습니다',
   },
   es: {
     appTitle: 'Folder Insight',
@@ -187,6 +987,206 @@ const MESSAGES: Record<Locale, Record<string, string>> = {
     otherItems: 'Otros ({count})',
     languageAuto: 'Auto',
     languageTitle: 'Idioma',
+    treemapView: 'Mapa de árbol',
+    treemapEmpty: 'Aún no hay elementos calculados para mostrar',
+    chartDepth: 'Anillos',
+    chartMaxSlices: 'Máx. sectores',
+    chartOtherRatio: 'Agrupar por debajo de',
+    stopScan: 'Detener',
+    scanStopped: 'Detenido',
+    scanStoppedInline: ' (Detenido)',
+    progressTitle: 'Progreso del análisis',
+    progressDirs: 'Carpetas visitadas',
+    progressFiles: 'Archivos contados',
+    progressBytes: 'Bytes contados',
+    progressThroughput: 'Velocidad',
+    progressElapsed: 'Transcurrido',
+    progressEta: 'Tiempo restante',
+    progressEtaSoon: 'Casi listo',
+    progressEtaUnknown: 'No hay un análisis anterior de esta carpeta, así que aún no hay estimación',
+    cachedFrom: 'En caché, del {date}',
+    clearCache: 'Borrar caché',
+    clearCacheHint: 'Elimina los resultados guardados; el próximo análisis recalcula todas las carpetas',
+    rescan: 'Volver a analizar',
+    watch: 'Vigilar',
+    watching: 'Vigilando',
+    watchStarting: 'Iniciando vigilancia…',
+    watchingPolled: 'Sondeando',
+    watchHint: 'Vigilar cambios en disco y mantener los tamaños actualizados',
+    watchActiveHint: 'Vigilando cambios; haz clic para detener',
+    watchPolling: 'Vigilancia nativa no disponible; se sondea periódicamente: {reason}',
+    moveToTrash: 'Mover a la papelera',
+    moveSelectionToTrash: 'Mover {count} elementos a la papelera',
+    deletePermanent: 'Eliminar definitivamente',
+    moveToTrashTitle: '¿Mover a la papelera?',
+    deletePermanentTitle: '¿Eliminar definitivamente?',
+    deletePermanentWarning: 'Esta acción no se puede deshacer; los archivos no irán a la papelera.',
+    deleteSummary: '{done} eliminados, {failed} con error',
+    cancel: 'Cancelar',
+    close: 'Cerrar',
+    basket: 'Cesta',
+    basketTitle: 'Cesta de limpieza',
+    addToBasket: 'Añadir a la cesta de limpieza',
+    basketReclaimable: 'Espacio recuperable',
+    basketEmpty: 'Haz clic derecho en elementos del árbol y elige «Añadir a la cesta de limpieza».',
+    basketIncludedIn: 'Incluido en {name}',
+    basketRemove: 'Quitar de la cesta',
+    basketClear: 'Vaciar',
+    basketExport: 'Exportar lista',
+    largestView: 'Archivos más grandes',
+    largestLimit: 'Mostrar',
+    largestMinSize: 'Tamaño mínimo',
+    largestSettingsHint: 'Aumentar la cantidad o reducir el mínimo se aplica en el próximo análisis',
+    largestEmpty: 'Ningún archivo coincide',
+    modified: 'Modificado',
+    showInTree: 'Mostrar en el árbol',
+    refresh: 'Actualizar',
+    typesView: 'Tipos de archivo',
+    typesEmpty: 'No hay archivos en esta carpeta',
+    typesCategoryHint: 'Haz clic en una categoría para filtrar el árbol',
+    typesFilterActive: 'Mostrando solo archivos de {category}',
+    typesFilterClear: 'Quitar filtro',
+    extension: 'Extensión',
+    category: 'Categoría',
+    noExtension: '(sin extensión)',
+    category_media: 'Multimedia',
+    category_archive: 'Archivos comprimidos',
+    category_code: 'Código',
+    category_binary: 'Binarios',
+    category_document: 'Documentos',
+    category_log: 'Registros',
+    category_other: 'Otros',
+    duplicatesView: 'Duplicados',
+    duplicatesStart: 'Buscar duplicados',
+    duplicatesRestart: 'Buscar de nuevo',
+    duplicatesHint: 'Busca archivos con contenido idéntico en la carpeta analizada',
+    duplicatesNone: 'No se encontraron duplicados',
+    duplicatesCancelled: 'Búsqueda cancelada',
+    duplicatesSummary: '{groups} grupos de duplicados, {wasted} recuperables',
+    duplicatesCopies: '{count} copias',
+    duplicatesWasted: '{size} desperdiciados',
+    duplicatesStage_walk: 'Recorriendo archivos…',
+    duplicatesStage_partial: 'Comparando inicios de archivo…',
+    duplicatesStage_full: 'Comparando contenido completo…',
+    sizeMode: 'Tamaño',
+    sizeModeHint: 'El tamaño aparente es el número de bytes del archivo; el tamaño en disco cuenta los bloques realmente asignados',
+    sizeMode_apparent: 'Aparente',
+    sizeMode_allocated: 'En disco',
+    symlinks: 'Enlaces simbólicos',
+    symlinks_skip: 'Omitir',
+    symlinks_link: 'Contar el enlace',
+    symlinks_follow: 'Seguir',
+    symlinkHint: 'Enlace simbólico',
+    rulesTitle: 'Reglas de análisis',
+    rulesNewProfile: 'Perfil {n}',
+    rulesAddProfile: 'Nuevo perfil',
+    rulesRemoveProfile: 'Eliminar perfil',
+    rulesProfileName: 'Nombre',
+    rulesNameInvalid: 'El nombre no puede estar vacío ni repetido',
+    rulesExclude: 'Excluir (un patrón por línea)',
+    rulesInclude: 'Incluir (excepciones a las exclusiones)',
+    rulesPatternHint: 'Usa la sintaxis de .gitignore: una / final solo coincide con carpetas, una / inicial es relativa a la raíz y se admiten los comodines * y **.',
+    rulesMaxDepth: 'Profundidad máxima',
+    rulesUnlimited: 'Sin límite',
+    rulesOneFilesystem: 'Permanecer en un sistema de archivos (omitir puntos de montaje)',
+    rulesApply: 'Guardar y volver a analizar',
+    excluded: 'Excluido',
+    excludedReason_pattern: 'Coincide con un patrón de exclusión',
+    excludedReason_depth: 'Más allá de la profundidad máxima',
+    excludedReason_filesystem: 'En otro sistema de archivos',
+    diffView: 'Comparar',
+    diffBase: 'Instantánea base',
+    diffTarget: 'Comparar con',
+    diffNoBase: 'No se ha cargado ninguna base',
+    diffLoad: 'Cargar instantánea',
+    diffClear: 'Quitar base',
+    diffLiveScan: 'Análisis actual',
+    diffUseLive: 'Usar análisis actual',
+    diffSaveSnapshot: 'Guardar el análisis actual como instantánea',
+    diffSaveUnavailable: 'Espera a que termine el análisis',
+    diffTreeHint: 'El árbol también muestra el cambio respecto a la base',
+    diffSummary: '{count} cambios, {delta} en total',
+    diffPath: 'Ruta',
+    diffBefore: 'Antes',
+    diffAfter: 'Después',
+    diffDelta: 'Cambio',
+    diffBeforeSize: 'Tamaño base: {size}',
+    diffWaitingLive: 'Esperando a que termine el análisis actual…',
+    diffEmpty: 'Carga una instantánea base para compararla con el análisis actual u otra instantánea',
+    diffNoChanges: 'Ninguna carpeta ni archivo grande cambió de tamaño',
+    diffStatus_added: 'Nueva',
+    diffStatus_removed: 'Eliminada',
+    diffStatus_grown: 'Creció',
+    diffStatus_shrunk: 'Se redujo',
+    diffSnapshotInfo: '{root} ({date})',
+    diffLoadFailed: 'No se pudo cargar la instantánea: {error}',
+    export: 'Exportar',
+    exportTitle: 'Exportar resultados del análisis',
+    exportFormat_csv: 'Tabla CSV',
+    exportFormat_json: 'Árbol JSON',
+    exportFormat_html: 'Informe HTML',
+    exportFormatHint_csv: 'Una fila por elemento: ruta, tamaño, archivos, profundidad, si es carpeta',
+    exportFormatHint_json: 'Árbol anidado con la misma estructura que la aplicación',
+    exportFormatHint_html: 'Un único archivo para compartir con el resumen y los elementos más grandes',
+    exportDepth: 'Profundidad',
+    exportDepthHint: '0 es solo la raíz; las carpetas aún no expandidas se leen al exportar',
+    exportTopN: 'Elementos más grandes a listar',
+    exportAction: 'Exportar…',
+    reportTitle: 'Informe de uso de disco: {name}',
+    reportGenerated: 'Generado el {date}',
+    reportShare: 'Proporción',
+    allRoots: 'Todas las raíces',
+    allRootsCount: 'Raíces',
+    allRootsShare: 'Proporción',
+    newTab: 'Nueva pestaña',
+    closeTab: 'Cerrar pestaña',
+    volumesTitle: 'Unidades y volúmenes',
+    volumesShowPseudo: 'Mostrar sistemas de archivos virtuales del sistema',
+    volumesEmpty: 'No hay volúmenes que mostrar',
+    volumesScan: 'Analizar',
+    volumesUsed: '{size} usados ({percent}%)',
+    volumesFree: '{size} libres',
+    volumesTotal: '{size} en total',
+    volumeShare: '{percent}% de los {used} usados en {volume}',
+    volumeFree: '{free} libres en el volumen ({percent}%)',
+    columnShare: '% del padre',
+    columnModified: 'Modificado',
+    columnOwner: 'Propietario',
+    columnPermissions: 'Permisos',
+    treeColumns: 'Columnas',
+    treeFoldersFirst: 'Carpetas primero',
+    treeSelection: '{count} seleccionados, {size} en total',
+    treeKeyboardHint: '↑↓ mover · ←→ contraer/expandir · Intro abrir · Espacio seleccionar · Mayús+clic rango · Mayús+F10 menú',
+    openFile: 'Abrir archivo',
+    openTerminalHere: 'Abrir terminal aquí',
+    copyPath: 'Copiar ruta',
+    problemsView: 'Problemas',
+    problemsHint: 'Las rutas que no se pudieron leer no se incluyen en los tamaños. Sus carpetas se vuelven a leer en cada análisis.',
+    problemsEmpty: 'No hay rutas ilegibles',
+    problemsUnlisted: '{count} problemas más no se muestran',
+    problemKind_permission_denied: 'Acceso denegado',
+    problemKind_not_found: 'Ya no existe',
+    problemKind_panic: 'Error al calcular',
+    problemKind_other: 'Error de lectura',
+    partialSize: 'No se pudieron leer {count} elementos; el tamaño es parcial',
+    columnAge: 'Último cambio',
+    treeAgeTint: 'Colorear por antigüedad',
+    ageRange: 'Más reciente: {newest} · Más antiguo: {oldest}',
+    ageView: 'Antigüedad',
+    ageTime: 'Antigüedad por',
+    ageTime_modified: 'Fecha de modificación',
+    ageTime_accessed: 'Fecha de acceso',
+    ageStaleMonths: 'Sin tocar durante (meses)',
+    ageSettingsHint: 'Cambiar la fecha vuelve a escanear. Muchos sistemas actualizan la fecha de acceso de forma imprecisa.',
+    ageBucket_month: 'Menos de 30 días',
+    ageBucket_year: 'Menos de 1 año',
+    ageBucket_threeYears: 'Menos de 3 años',
+    ageBucket_older: 'Más antiguo',
+    ageStaleFolders: 'Antiguo y grande: sin tocar en {months} meses',
+    ageStaleShare: 'De la carpeta',
+    ageStaleSize: 'Sin tocar',
+    ageStaleOf: 'Total de la carpeta {size}',
+    ageStaleEmpty: 'Nada lleva tanto tiempo sin tocarse',
   },
   fr: {
     appTitle: 'Folder Insight',
@@ -211,6 +1211,206 @@ const MESSAGES: Record<Locale, Record<string, string>> = {
     otherItems: 'Autres ({count})',
     languageAuto: 'Auto',
     languageTitle: 'Langue',
+    treemapView: 'Treemap',
+    treemapEmpty: "Aucun élément calculé à afficher pour l'instant",
+    chartDepth: 'Anneaux',
+    chartMaxSlices: 'Secteurs max.',
+    chartOtherRatio: 'Regrouper sous',
+    stopScan: 'Arrêter',
+    scanStopped: 'Arrêté',
+    scanStoppedInline: ' (Arrêté)',
+    progressTitle: "Progression de l'analyse",
+    progressDirs: 'Dossiers parcourus',
+    progressFiles: 'Fichiers comptés',
+    progressBytes: 'Octets comptés',
+    progressThroughput: 'Débit',
+    progressElapsed: 'Écoulé',
+    progressEta: 'Temps restant',
+    progressEtaSoon: 'Presque terminé',
+    progressEtaUnknown: "Aucune analyse précédente de ce dossier, pas encore d'estimation",
+    cachedFrom: 'En cache, du {date}',
+    clearCache: 'Vider le cache',
+    clearCacheHint: 'Supprime les résultats enregistrés ; la prochaine analyse recalcule tous les dossiers',
+    rescan: 'Réanalyser',
+    watch: 'Surveiller',
+    watching: 'Surveillance active',
+    watchStarting: 'Démarrage de la surveillance…',
+    watchingPolled: 'Interrogation',
+    watchHint: 'Surveiller le disque et garder les tailles à jour',
+    watchActiveHint: 'Surveillance en cours ; cliquez pour arrêter',
+    watchPolling: 'Surveillance native indisponible, interrogation périodique à la place : {reason}',
+    moveToTrash: 'Mettre à la corbeille',
+    moveSelectionToTrash: 'Mettre {count} éléments à la corbeille',
+    deletePermanent: 'Supprimer définitivement',
+    moveToTrashTitle: 'Mettre à la corbeille ?',
+    deletePermanentTitle: 'Supprimer définitivement ?',
+    deletePermanentWarning: 'Action irréversible : les fichiers n’iront pas à la corbeille.',
+    deleteSummary: '{done} supprimés, {failed} en échec',
+    cancel: 'Annuler',
+    close: 'Fermer',
+    basket: 'Panier',
+    basketTitle: 'Panier de nettoyage',
+    addToBasket: 'Ajouter au panier de nettoyage',
+    basketReclaimable: 'Espace récupérable',
+    basketEmpty: 'Faites un clic droit sur des éléments de l’arbre et choisissez « Ajouter au panier de nettoyage ».',
+    basketIncludedIn: 'Inclus dans {name}',
+    basketRemove: 'Retirer du panier',
+    basketClear: 'Vider',
+    basketExport: 'Exporter la liste',
+    largestView: 'Plus gros fichiers',
+    largestLimit: 'Afficher',
+    largestMinSize: 'Taille min.',
+    largestSettingsHint: 'Un nombre plus élevé ou un minimum plus bas s’applique au prochain scan',
+    largestEmpty: 'Aucun fichier correspondant',
+    modified: 'Modifié',
+    showInTree: 'Afficher dans l’arbre',
+    refresh: 'Actualiser',
+    typesView: 'Types de fichiers',
+    typesEmpty: 'Aucun fichier dans ce dossier',
+    typesCategoryHint: 'Cliquez sur une catégorie pour filtrer l’arbre',
+    typesFilterActive: 'Affichage des fichiers {category} uniquement',
+    typesFilterClear: 'Effacer le filtre',
+    extension: 'Extension',
+    category: 'Catégorie',
+    noExtension: '(sans extension)',
+    category_media: 'Médias',
+    category_archive: 'Archives',
+    category_code: 'Code',
+    category_binary: 'Binaires',
+    category_document: 'Documents',
+    category_log: 'Journaux',
+    category_other: 'Autres',
+    duplicatesView: 'Doublons',
+    duplicatesStart: 'Rechercher les doublons',
+    duplicatesRestart: 'Relancer la recherche',
+    duplicatesHint: 'Recherche les fichiers au contenu identique dans le dossier analysé',
+    duplicatesNone: 'Aucun doublon trouvé',
+    duplicatesCancelled: 'Recherche annulée',
+    duplicatesSummary: '{groups} groupes de doublons, {wasted} récupérables',
+    duplicatesCopies: '{count} copies',
+    duplicatesWasted: '{size} gaspillés',
+    duplicatesStage_walk: 'Parcours des fichiers…',
+    duplicatesStage_partial: 'Comparaison des débuts de fichier…',
+    duplicatesStage_full: 'Comparaison du contenu complet…',
+    sizeMode: 'Taille',
+    sizeModeHint: "La taille apparente est le nombre d'octets du fichier ; la taille sur disque compte les blocs réellement alloués",
+    sizeMode_apparent: 'Apparente',
+    sizeMode_allocated: 'Sur disque',
+    symlinks: 'Liens symboliques',
+    symlinks_skip: 'Ignorer',
+    symlinks_link: 'Compter le lien',
+    symlinks_follow: 'Suivre',
+    symlinkHint: 'Lien symbolique',
+    rulesTitle: "Règles d'analyse",
+    rulesNewProfile: 'Profil {n}',
+    rulesAddProfile: 'Nouveau profil',
+    rulesRemoveProfile: 'Supprimer le profil',
+    rulesProfileName: 'Nom',
+    rulesNameInvalid: 'Le nom doit être non vide et unique',
+    rulesExclude: 'Exclure (un motif par ligne)',
+    rulesInclude: 'Inclure (exceptions aux exclusions)',
+    rulesPatternHint: 'Syntaxe .gitignore : un / final ne vise que les dossiers, un / initial est relatif à la racine analysée, et les jokers * et ** sont pris en charge.',
+    rulesMaxDepth: 'Profondeur max.',
+    rulesUnlimited: 'Illimitée',
+    rulesOneFilesystem: 'Rester sur un seul système de fichiers (ignorer les points de montage)',
+    rulesApply: 'Enregistrer et réanalyser',
+    excluded: 'Exclu',
+    excludedReason_pattern: "Correspond à un motif d'exclusion",
+    excludedReason_depth: 'Au-delà de la profondeur maximale',
+    excludedReason_filesystem: 'Sur un autre système de fichiers',
+    diffView: 'Comparer',
+    diffBase: 'Instantané de référence',
+    diffTarget: 'Comparer avec',
+    diffNoBase: 'Aucune référence chargée',
+    diffLoad: 'Charger un instantané',
+    diffClear: 'Retirer la référence',
+    diffLiveScan: 'Analyse en cours',
+    diffUseLive: "Utiliser l'analyse en cours",
+    diffSaveSnapshot: "Enregistrer l'analyse en cours comme instantané",
+    diffSaveUnavailable: "Attendez la fin de l'analyse",
+    diffTreeHint: "L'arborescence affiche aussi l'écart par rapport à la référence",
+    diffSummary: '{count} changements, {delta} au total',
+    diffPath: 'Chemin',
+    diffBefore: 'Avant',
+    diffAfter: 'Après',
+    diffDelta: 'Écart',
+    diffBeforeSize: 'Taille de référence : {size}',
+    diffWaitingLive: "En attente de la fin de l'analyse en cours…",
+    diffEmpty: "Chargez un instantané de référence pour le comparer à l'analyse en cours ou à un autre instantané",
+    diffNoChanges: "Aucun dossier ni gros fichier n'a changé de taille",
+    diffStatus_added: 'Nouveau',
+    diffStatus_removed: 'Supprimé',
+    diffStatus_grown: 'Agrandi',
+    diffStatus_shrunk: 'Réduit',
+    diffSnapshotInfo: '{root} ({date})',
+    diffLoadFailed: "Impossible de charger l'instantané : {error}",
+    export: 'Exporter',
+    exportTitle: "Exporter les résultats de l'analyse",
+    exportFormat_csv: 'Tableau CSV',
+    exportFormat_json: 'Arborescence JSON',
+    exportFormat_html: 'Rapport HTML',
+    exportFormatHint_csv: 'Une ligne par élément : chemin, taille, nombre de fichiers, profondeur, dossier ou non',
+    exportFormatHint_json: "Arborescence imbriquée de même structure que l'application",
+    exportFormatHint_html: 'Un fichier unique à partager avec le résumé et les plus gros éléments',
+    exportDepth: 'Profondeur',
+    exportDepthHint: "0 correspond à la racine seule ; les dossiers non développés sont lus pendant l'export",
+    exportTopN: 'Plus gros éléments à lister',
+    exportAction: 'Exporter…',
+    reportTitle: "Rapport d'utilisation du disque : {name}",
+    reportGenerated: 'Généré le {date}',
+    reportShare: 'Part',
+    allRoots: 'Toutes les racines',
+    allRootsCount: 'Racines',
+    allRootsShare: 'Part',
+    newTab: 'Nouvel onglet',
+    closeTab: "Fermer l'onglet",
+    volumesTitle: 'Disques et volumes',
+    volumesShowPseudo: 'Afficher les systèmes de fichiers virtuels',
+    volumesEmpty: 'Aucun volume à afficher',
+    volumesScan: 'Analyser',
+    volumesUsed: '{size} utilisés ({percent} %)',
+    volumesFree: '{size} libres',
+    volumesTotal: '{size} au total',
+    volumeShare: '{percent} % des {used} utilisés sur {volume}',
+    volumeFree: '{free} libres sur le volume ({percent} %)',
+    columnShare: '% du parent',
+    columnModified: 'Modifié',
+    columnOwner: 'Propriétaire',
+    columnPermissions: 'Permissions',
+    treeColumns: 'Colonnes',
+    treeFoldersFirst: 'Dossiers en premier',
+    treeSelection: '{count} sélectionnés, {size} au total',
+    treeKeyboardHint: '↑↓ déplacer · ←→ replier/déplier · Entrée ouvrir · Espace sélectionner · Maj+clic plage · Maj+F10 menu',
+    openFile: 'Ouvrir le fichier',
+    openTerminalHere: 'Ouvrir un terminal ici',
+    copyPath: 'Copier le chemin',
+    problemsView: 'Problèmes',
+    problemsHint: 'Les chemins illisibles ne sont pas comptés dans les tailles. Leurs dossiers sont relus à chaque analyse.',
+    problemsEmpty: 'Aucun chemin illisible',
+    problemsUnlisted: '{count} autres problèmes ne sont pas listés',
+    problemKind_permission_denied: 'Accès refusé',
+    problemKind_not_found: 'N’existe plus',
+    problemKind_panic: 'Échec du calcul',
+    problemKind_other: 'Erreur de lecture',
+    partialSize: '{count} éléments illisibles ; la taille est partielle',
+    columnAge: 'Dernière modif.',
+    treeAgeTint: "Colorer selon l'ancienneté",
+    ageRange: 'Plus récent : {newest} · Plus ancien : {oldest}',
+    ageView: 'Ancienneté',
+    ageTime: 'Ancienneté selon',
+    ageTime_modified: 'Date de modification',
+    ageTime_accessed: "Date d'accès",
+    ageStaleMonths: 'Inchangé depuis (mois)',
+    ageSettingsHint: "Changer de date relance l'analyse. Beaucoup de systèmes ne mettent à jour la date d'accès qu'approximativement.",
+    ageBucket_month: 'Moins de 30 jours',
+    ageBucket_year: "Moins d'un an",
+    ageBucket_threeYears: 'Moins de 3 ans',
+    ageBucket_older: 'Plus ancien',
+    ageStaleFolders: 'Ancien et volumineux : inchangé depuis {months} mois',
+    ageStaleShare: 'Du dossier',
+    ageStaleSize: 'Inchangé',
+    ageStaleOf: 'Total du dossier {size}',
+    ageStaleEmpty: "Rien n'est resté inchangé aussi longtemps",
   },
   de: {
     appTitle: 'Folder Insight',
@@ -235,6 +1435,206 @@ const MESSAGES: Record<Locale, Record<string, string>> = {
     otherItems: 'Andere ({count})',
     languageAuto: 'Auto',
     languageTitle: 'Sprache',
+    treemapView: 'Kachelkarte',
+    treemapEmpty: 'Noch keine berechneten Einträge zum Anzeigen',
+    chartDepth: 'Ringe',
+    chartMaxSlices: 'Max. Segmente',
+    chartOtherRatio: 'Zusammenfassen unter',
+    stopScan: 'Stoppen',
+    scanStopped: 'Gestoppt',
+    scanStoppedInline: ' (Gestoppt)',
+    progressTitle: 'Scan-Fortschritt',
+    progressDirs: 'Besuchte Ordner',
+    progressFiles: 'Gezählte Dateien',
+    progressBytes: 'Gezählte Bytes',
+    progressThroughput: 'Durchsatz',
+    progressElapsed: 'Vergangen',
+    progressEta: 'Restzeit',
+    progressEtaSoon: 'Fast fertig',
+    progressEtaUnknown: 'Kein früherer Scan dieses Ordners, daher noch keine Restzeit',
+    cachedFrom: 'Zwischengespeichert, vom {date}',
+    clearCache: 'Cache leeren',
+    clearCacheHint: 'Gespeicherte Scan-Ergebnisse löschen; der nächste Scan berechnet alle Ordner neu',
+    rescan: 'Neu scannen',
+    watch: 'Beobachten',
+    watching: 'Wird beobachtet',
+    watchStarting: 'Beobachtung wird gestartet…',
+    watchingPolled: 'Abfrage aktiv',
+    watchHint: 'Änderungen auf der Festplatte beobachten und Größen aktuell halten',
+    watchActiveHint: 'Änderungen werden beobachtet; zum Beenden klicken',
+    watchPolling: 'Native Beobachtung nicht verfügbar, stattdessen regelmäßige Abfrage: {reason}',
+    moveToTrash: 'In den Papierkorb',
+    moveSelectionToTrash: '{count} Elemente in den Papierkorb',
+    deletePermanent: 'Endgültig löschen',
+    moveToTrashTitle: 'In den Papierkorb verschieben?',
+    deletePermanentTitle: 'Endgültig löschen?',
+    deletePermanentWarning: 'Dies kann nicht rückgängig gemacht werden; die Dateien landen nicht im Papierkorb.',
+    deleteSummary: '{done} entfernt, {failed} fehlgeschlagen',
+    cancel: 'Abbrechen',
+    close: 'Schließen',
+    basket: 'Korb',
+    basketTitle: 'Aufräumkorb',
+    addToBasket: 'Zum Aufräumkorb hinzufügen',
+    basketReclaimable: 'Freigebbar',
+    basketEmpty: 'Elemente im Baum rechts anklicken und „Zum Aufräumkorb hinzufügen“ wählen.',
+    basketIncludedIn: 'Enthalten in {name}',
+    basketRemove: 'Aus dem Korb entfernen',
+    basketClear: 'Leeren',
+    basketExport: 'Liste exportieren',
+    largestView: 'Größte Dateien',
+    largestLimit: 'Anzahl',
+    largestMinSize: 'Mindestgröße',
+    largestSettingsHint: 'Eine höhere Anzahl oder ein kleineres Minimum gilt ab dem nächsten Scan',
+    largestEmpty: 'Keine passenden Dateien',
+    modified: 'Geändert',
+    showInTree: 'Im Baum anzeigen',
+    refresh: 'Aktualisieren',
+    typesView: 'Dateitypen',
+    typesEmpty: 'Keine Dateien in diesem Ordner',
+    typesCategoryHint: 'Kategorie anklicken, um den Baum zu filtern',
+    typesFilterActive: 'Nur {category}-Dateien werden angezeigt',
+    typesFilterClear: 'Filter entfernen',
+    extension: 'Endung',
+    category: 'Kategorie',
+    noExtension: '(ohne Endung)',
+    category_media: 'Medien',
+    category_archive: 'Archive',
+    category_code: 'Code',
+    category_binary: 'Binärdateien',
+    category_document: 'Dokumente',
+    category_log: 'Protokolle',
+    category_other: 'Sonstige',
+    duplicatesView: 'Duplikate',
+    duplicatesStart: 'Duplikate suchen',
+    duplicatesRestart: 'Erneut suchen',
+    duplicatesHint: 'Sucht Dateien mit identischem Inhalt im gescannten Ordner',
+    duplicatesNone: 'Keine Duplikate gefunden',
+    duplicatesCancelled: 'Suche abgebrochen',
+    duplicatesSummary: '{groups} Duplikatgruppen, {wasted} freigebbar',
+    duplicatesCopies: '{count} Kopien',
+    duplicatesWasted: '{size} verschwendet',
+    duplicatesStage_walk: 'Dateien werden durchsucht…',
+    duplicatesStage_partial: 'Dateianfänge werden verglichen…',
+    duplicatesStage_full: 'Vollständige Inhalte werden verglichen…',
+    sizeMode: 'Größe',
+    sizeModeHint: 'Die scheinbare Größe ist die Anzahl Bytes der Datei; die Größe auf dem Datenträger zählt die tatsächlich belegten Blöcke',
+    sizeMode_apparent: 'Scheinbar',
+    sizeMode_allocated: 'Auf Datenträger',
+    symlinks: 'Symlinks',
+    symlinks_skip: 'Überspringen',
+    symlinks_link: 'Link selbst zählen',
+    symlinks_follow: 'Folgen',
+    symlinkHint: 'Symbolischer Link',
+    rulesTitle: 'Scanregeln',
+    rulesNewProfile: 'Profil {n}',
+    rulesAddProfile: 'Neues Profil',
+    rulesRemoveProfile: 'Profil löschen',
+    rulesProfileName: 'Name',
+    rulesNameInvalid: 'Der Name darf nicht leer sein und muss eindeutig sein',
+    rulesExclude: 'Ausschließen (ein Muster pro Zeile)',
+    rulesInclude: 'Einschließen (Ausnahmen von den Ausschlüssen)',
+    rulesPatternHint: '.gitignore-Syntax: ein abschließendes / trifft nur Ordner, ein führendes / ist relativ zum Scan-Stamm, * und ** werden unterstützt.',
+    rulesMaxDepth: 'Maximale Tiefe',
+    rulesUnlimited: 'Unbegrenzt',
+    rulesOneFilesystem: 'Im selben Dateisystem bleiben (Einhängepunkte überspringen)',
+    rulesApply: 'Speichern und neu scannen',
+    excluded: 'Ausgeschlossen',
+    excludedReason_pattern: 'Entspricht einem Ausschlussmuster',
+    excludedReason_depth: 'Jenseits der maximalen Tiefe',
+    excludedReason_filesystem: 'Auf einem anderen Dateisystem',
+    diffView: 'Vergleich',
+    diffBase: 'Basis-Snapshot',
+    diffTarget: 'Vergleichen mit',
+    diffNoBase: 'Keine Basis geladen',
+    diffLoad: 'Snapshot laden',
+    diffClear: 'Basis entfernen',
+    diffLiveScan: 'Aktueller Scan',
+    diffUseLive: 'Aktuellen Scan verwenden',
+    diffSaveSnapshot: 'Aktuellen Scan als Snapshot speichern',
+    diffSaveUnavailable: 'Warten Sie, bis der Scan abgeschlossen ist',
+    diffTreeHint: 'Der Baum zeigt ebenfalls die Änderung gegenüber der Basis',
+    diffSummary: '{count} Änderungen, insgesamt {delta}',
+    diffPath: 'Pfad',
+    diffBefore: 'Vorher',
+    diffAfter: 'Nachher',
+    diffDelta: 'Änderung',
+    diffBeforeSize: 'Basisgröße: {size}',
+    diffWaitingLive: 'Warten auf den Abschluss des aktuellen Scans…',
+    diffEmpty: 'Laden Sie einen Basis-Snapshot, um ihn mit dem aktuellen Scan oder einem anderen Snapshot zu vergleichen',
+    diffNoChanges: 'Kein Ordner und keine große Datei hat die Größe geändert',
+    diffStatus_added: 'Neu',
+    diffStatus_removed: 'Entfernt',
+    diffStatus_grown: 'Gewachsen',
+    diffStatus_shrunk: 'Geschrumpft',
+    diffSnapshotInfo: '{root} ({date})',
+    diffLoadFailed: 'Snapshot konnte nicht geladen werden: {error}',
+    export: 'Exportieren',
+    exportTitle: 'Scan-Ergebnisse exportieren',
+    exportFormat_csv: 'CSV-Tabelle',
+    exportFormat_json: 'JSON-Baum',
+    exportFormat_html: 'HTML-Bericht',
+    exportFormatHint_csv: 'Eine Zeile pro Eintrag: Pfad, Größe, Dateianzahl, Tiefe, ob Ordner',
+    exportFormatHint_json: 'Verschachtelter Baum mit derselben Struktur wie die App',
+    exportFormatHint_html: 'Eine teilbare Einzeldatei mit Übersicht und den größten Einträgen',
+    exportDepth: 'Tiefe',
+    exportDepthHint: '0 ist nur der Stamm; noch nicht aufgeklappte Ordner werden beim Export gelesen',
+    exportTopN: 'Anzahl der größten Einträge',
+    exportAction: 'Exportieren…',
+    reportTitle: 'Speicherbericht: {name}',
+    reportGenerated: 'Erstellt am {date}',
+    reportShare: 'Anteil',
+    allRoots: 'Alle Wurzeln',
+    allRootsCount: 'Wurzeln',
+    allRootsShare: 'Anteil',
+    newTab: 'Neuer Tab',
+    closeTab: 'Tab schließen',
+    volumesTitle: 'Laufwerke & Volumes',
+    volumesShowPseudo: 'System-Pseudodateisysteme anzeigen',
+    volumesEmpty: 'Keine Volumes vorhanden',
+    volumesScan: 'Scannen',
+    volumesUsed: '{size} belegt ({percent} %)',
+    volumesFree: '{size} frei',
+    volumesTotal: '{size} gesamt',
+    volumeShare: '{percent} % der auf {volume} belegten {used}',
+    volumeFree: '{free} frei auf dem Volume ({percent} %)',
+    columnShare: '% des Ordners',
+    columnModified: 'Geändert',
+    columnOwner: 'Besitzer',
+    columnPermissions: 'Berechtigungen',
+    treeColumns: 'Spalten',
+    treeFoldersFirst: 'Ordner zuerst',
+    treeSelection: '{count} ausgewählt, insgesamt {size}',
+    treeKeyboardHint: '↑↓ bewegen · ←→ ein-/ausklappen · Enter öffnen · Leertaste auswählen · Umschalt+Klick Bereich · Umschalt+F10 Menü',
+    openFile: 'Datei öffnen',
+    openTerminalHere: 'Terminal hier öffnen',
+    copyPath: 'Pfad kopieren',
+    problemsView: 'Probleme',
+    problemsHint: 'Nicht lesbare Pfade fließen nicht in die Größen ein. Ihre Ordner werden bei jedem Scan neu gelesen.',
+    problemsEmpty: 'Keine unlesbaren Pfade',
+    problemsUnlisted: '{count} weitere Probleme werden nicht aufgeführt',
+    problemKind_permission_denied: 'Zugriff verweigert',
+    problemKind_not_found: 'Existiert nicht mehr',
+    problemKind_panic: 'Berechnung fehlgeschlagen',
+    problemKind_other: 'Lesefehler',
+    partialSize: '{count} Einträge konnten nicht gelesen werden; die Größe ist unvollständig',
+    columnAge: 'Letzte Änderung',
+    treeAgeTint: 'Nach Alter einfärben',
+    ageRange: 'Neueste: {newest} · Älteste: {oldest}',
+    ageView: 'Alter',
+    ageTime: 'Alter nach',
+    ageTime_modified: 'Änderungsdatum',
+    ageTime_accessed: 'Zugriffsdatum',
+    ageStaleMonths: 'Unverändert seit (Monaten)',
+    ageSettingsHint: 'Ein Wechsel scannt erneut. Viele Systeme aktualisieren Zugriffszeiten nur ungenau.',
+    ageBucket_month: 'Unter 30 Tagen',
+    ageBucket_year: 'Unter 1 Jahr',
+    ageBucket_threeYears: 'Unter 3 Jahren',
+    ageBucket_older: 'Älter',
+    ageStaleFolders: 'Alt und groß: seit {months} Monaten unverändert',
+    ageStaleShare: 'Vom Ordner',
+    ageStaleSize: 'Unverändert',
+    ageStaleOf: 'Ordner gesamt {size}',
+    ageStaleEmpty: 'Nichts ist so lange unverändert geblieben',
   },
 };
 
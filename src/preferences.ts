@@ -0,0 +1,432 @@
+import { DEFAULT_CHART_SETTINGS, type ChartSettings } from "./sunburst";
+import type { AgeTime, ScanRules, SizeMode, SymlinkPolicy } from "./types";
+import type { ExportFormat } from "./export";
+import { TREE_COLUMNS, type TreeColumn, type TreeSort, type TreeSortKey } from "./treeStore";
+
+const CHART_SETTINGS_KEY = 'chartSettings';
+
+const clamp = (value: unknown, min: number, max: number, fallback: number) =>
+  typeof value === 'number' && Number.isFinite(value) ? Math.min(Math.max(value, min), max) : fallback;
+
+/**
+ * 规范化统计图设置，超出范围的值回落到默认值或被截断。
+ * Sanitize chart settings; out-of-range values are clamped or fall back to defaults.
+ */
+export const sanitizeChartSettings = (value: Partial<ChartSettings> | null | undefined): ChartSettings => ({
+  depth: Math.round(clamp(value?.depth, 1, 6, DEFAULT_CHART_SETTINGS.depth)),
+  maxSlices: Math.round(clamp(value?.maxSlices, 1, 100, DEFAULT_CHART_SETTINGS.maxSlices)),
+  otherRatio: clamp(value?.otherRatio, 0, 0.5, DEFAULT_CHART_SETTINGS.otherRatio),
+});
+
+export const getInitialChartSettings = (): ChartSettings => {
+  try {
+    const stored = localStorage.getItem(CHART_SETTINGS_KEY);
+    if (stored) {
+      return sanitizeChartSettings(JSON.parse(stored));
+    }
+  } catch {
+    return DEFAULT_CHART_SETTINGS;
+  }
+  return DEFAULT_CHART_SETTINGS;
+};
+
+export const persistChartSettings = (settings: ChartSettings) => {
+  try {
+    localStorage.setItem(CHART_SETTINGS_KEY, JSON.stringify(settings));
+  } catch {
+    return;
+  }
+};
+
+const SCAN_HISTORY_KEY = 'scanHistory';
+const SCAN_HISTORY_LIMIT = 50;
+
+/**
+ * 已完成扫描的记录，用于下次扫描同一根目录时估算剩余时间。
+ * Record of a finished scan, used to estimate remaining time when the same root is scanned again.
+ */
+export interface ScanHistoryEntry {
+  size: number;
+  file_count: number;
+  duration_ms: number;
+  scanned_at: number;
+}
+
+const historyKey = (path: string) => path.replace(/\\/g, '/').toLowerCase();
+
+const readScanHistory = (): Record<string, ScanHistoryEntry> => {
+  try {
+    const stored = localStorage.getItem(SCAN_HISTORY_KEY);
+    const parsed = stored ? JSON.parse(stored) : null;
+    return parsed && typeof parsed === 'object' ? parsed : {};
+  } catch {
+    return {};
+  }
+};
+
+export const getScanHistoryEntry = (path: string): ScanHistoryEntry | null =>
+  readScanHistory()[historyKey(path)] ?? null;
+
+export const persistScanHistoryEntry = (path: string, entry: ScanHistoryEntry) => {
+  try {
+    const history = readScanHistory();
+    history[historyKey(path)] = entry;
+
+    // 只保留最近的若干条 / Keep only the most recent entries
+    const recent = Object.entries(history)
+      .sort(([, a], [, b]) => b.scanned_at - a.scanned_at)
+      .slice(0, SCAN_HISTORY_LIMIT);
+    localStorage.setItem(SCAN_HISTORY_KEY, JSON.stringify(Object.fromEntries(recent)));
+  } catch {
+    return;
+  }
+};
+
+const LARGEST_FILES_SETTINGS_KEY = 'largestFilesSettings';
+
+/**
+ * 最大文件列表设置：保留数量与最小大小（字节）。
+ * Largest-files settings: how many to keep and the minimum size (bytes).
+ */
+export interface LargestFilesSettings {
+  limit: number;
+  minSize: number;
+}
+
+export const DEFAULT_LARGEST_FILES_SETTINGS: LargestFilesSettings = {
+  limit: 100,
+  minSize: 1024 * 1024,
+};
+
+export const sanitizeLargestFilesSettings = (
+  value: Partial<LargestFilesSettings> | null | undefined,
+): LargestFilesSettings => ({
+  limit: Math.round(clamp(value?.limit, 1, 5000, DEFAULT_LARGEST_FILES_SETTINGS.limit)),
+  minSize: Math.round(clamp(value?.minSize, 0, Number.MAX_SAFE_INTEGER, DEFAULT_LARGEST_FILES_SETTINGS.minSize)),
+});
+
+export const getInitialLargestFilesSettings = (): LargestFilesSettings => {
+  try {
+    const stored = localStorage.getItem(LARGEST_FILES_SETTINGS_KEY);
+    if (stored) {
+      return sanitizeLargestFilesSettings(JSON.parse(stored));
+    }
+  } catch {
+    return DEFAULT_LARGEST_FILES_SETTINGS;
+  }
+  return DEFAULT_LARGEST_FILES_SETTINGS;
+};
+
+export const persistLargestFilesSettings = (settings: LargestFilesSettings) => {
+  try {
+    localStorage.setItem(LARGEST_FILES_SETTINGS_KEY, JSON.stringify(settings));
+  } catch {
+    return;
+  }
+};
+
+const EXPORT_SETTINGS_KEY = 'exportSettings';
+
+/**
+ * 导出设置：格式、CSV 与 JSON 的最大深度、HTML 报告列出的条目数。
+ * Export settings: format, maximum depth of CSV and JSON, and how many entries the HTML report lists.
+ */
+export interface ExportSettings {
+  format: ExportFormat;
+  depth: number;
+  topN: number;
+}
+
+export const DEFAULT_EXPORT_SETTINGS: ExportSettings = {
+  format: 'csv',
+  depth: 2,
+  topN: 20,
+};
+
+export const sanitizeExportSettings = (value: Partial<ExportSettings> | null | undefined): ExportSettings => ({
+  format: value?.format === 'json' || value?.format === 'html' ? value.format : 'csv',
+  depth: Math.round(clamp(value?.depth, 0, 10, DEFAULT_EXPORT_SETTINGS.depth)),
+  topN: Math.round(clamp(value?.topN, 1, 500, DEFAULT_EXPORT_SETTINGS.topN)),
+});
+
+export const getInitialExportSettings = (): ExportSettings => {
+  try {
+    const stored = localStorage.getItem(EXPORT_SETTINGS_KEY);
+    if (stored) {
+      return sanitizeExportSettings(JSON.parse(stored));
+    }
+  } catch {
+    return DEFAULT_EXPORT_SETTINGS;
+  }
+  return DEFAULT_EXPORT_SETTINGS;
+};
+
+export const persistExportSettings = (settings: ExportSettings) => {
+  try {
+    localStorage.setItem(EXPORT_SETTINGS_KEY, JSON.stringify(settings));
+  } catch {
+    return;
+  }
+};
+
+const TREE_VIEW_SETTINGS_KEY = 'treeViewSettings';
+
+/**
+ * 目录树设置：显示的可选列、排序方式，以及是否按内容的年龄为行着色。
+ * Tree settings: the optional columns shown, the sort order and whether rows are tinted by the age of their contents.
+ */
+export interface TreeViewSettings {
+  columns: TreeColumn[];
+  sort: TreeSort;
+  ageTint: boolean;
+}
+
+export const DEFAULT_TREE_VIEW_SETTINGS: TreeViewSettings = {
+  columns: [],
+  sort: { key: 'size', direction: 'desc', foldersFirst: true },
+  ageTint: false,
+};
+
+const TREE_SORT_KEYS: readonly TreeSortKey[] = ['name', 'size', 'files', 'share', 'modified', 'age'];
+
+export const sanitizeTreeViewSettings = (value: Partial<TreeViewSettings> | null | undefined): TreeViewSettings => {
+  const sort = value?.sort;
+  return {
+    // 保持固定的列顺序 / Keep the fixed column order
+    columns: TREE_COLUMNS.filter(column => Array.isArray(value?.columns) && value.columns.includes(column)),
+    sort: {
+      key: TREE_SORT_KEYS.find(key => key === sort?.key) ?? DEFAULT_TREE_VIEW_SETTINGS.sort.key,
+      direction: sort?.direction === 'asc' ? 'asc' : 'desc',
+      foldersFirst: typeof sort?.foldersFirst === 'boolean' ? sort.foldersFirst : true,
+    },
+    ageTint: value?.ageTint === true,
+  };
+};
+
+export const getInitialTreeViewSettings = (): TreeViewSettings => {
+  try {
+    const stored = localStorage.getItem(TREE_VIEW_SETTINGS_KEY);
+    if (stored) {
+      return sanitizeTreeViewSettings(JSON.parse(stored));
+    }
+  } catch {
+    return DEFAULT_TREE_VIEW_SETTINGS;
+  }
+  return DEFAULT_TREE_VIEW_SETTINGS;
+};
+
+export const persistTreeViewSettings = (settings: TreeViewSettings) => {
+  try {
+    localStorage.setItem(TREE_VIEW_SETTINGS_KEY, JSON.stringify(settings));
+  } catch {
+    return;
+  }
+};
+
+const SHOW_PSEUDO_VOLUMES_KEY = 'showPseudoVolumes';
+
+/**
+ * 首页是否显示伪文件系统（proc、sysfs、tmpfs 等），默认不显示。
+ * Whether the home screen shows pseudo filesystems (proc, sysfs, tmpfs...); off by default.
+ */
+export const getInitialShowPseudoVolumes = (): boolean => {
+  try {
+    return localStorage.getItem(SHOW_PSEUDO_VOLUMES_KEY) === 'true';
+  } catch {
+    return false;
+  }
+};
+
+export const persistShowPseudoVolumes = (show: boolean) => {
+  try {
+    localStorage.setItem(SHOW_PSEUDO_VOLUMES_KEY, String(show));
+  } catch {
+    return;
+  }
+};
+
+const SIZE_SETTINGS_KEY = 'sizeSettings';
+
+/**
+ * 大小统计设置：大小口径与符号链接处理方式（修改后重新扫描生效）。
+ * Size accounting settings: size mode and symlink handling (applied by rescanning).
+ */
+export interface SizeSettings {
+  mode: SizeMode;
+  symlinks: SymlinkPolicy;
+}
+
+export const DEFAULT_SIZE_SETTINGS: SizeSettings = {
+  mode: 'apparent',
+  symlinks: 'skip',
+};
+
+const SIZE_MODES: readonly SizeMode[] = ['apparent', 'allocated'];
+const SYMLINK_POLICIES: readonly SymlinkPolicy[] = ['skip', 'link', 'follow'];
+
+export const sanitizeSizeSettings = (value: Partial<SizeSettings> | null | undefined): SizeSettings => ({
+  mode: SIZE_MODES.find(mode => mode === value?.mode) ?? DEFAULT_SIZE_SETTINGS.mode,
+  symlinks: SYMLINK_POLICIES.find(policy => policy === value?.symlinks) ?? DEFAULT_SIZE_SETTINGS.symlinks,
+});
+
+export const getInitialSizeSettings = (): SizeSettings => {
+  try {
+    const stored = localStorage.getItem(SIZE_SETTINGS_KEY);
+    if (stored) {
+      return sanitizeSizeSettings(JSON.parse(stored));
+    }
+  } catch {
+    return DEFAULT_SIZE_SETTINGS;
+  }
+  return DEFAULT_SIZE_SETTINGS;
+};
+
+export const persistSizeSettings = (settings: SizeSettings) => {
+  try {
+    localStorage.setItem(SIZE_SETTINGS_KEY, JSON.stringify(settings));
+  } catch {
+    return;
+  }
+};
+
+const AGE_SETTINGS_KEY = 'ageSettings';
+
+/**
+ * 年龄分析设置：判断年龄使用的时间（修改后重新扫描生效）与“旧而大”列表的月数阈值。
+ * Age analysis settings: which time decides a file's age (applied by rescanning) and the month threshold of
+ * the "old and big" list.
+ */
+export interface AgeSettings {
+  time: AgeTime;
+  months: number;
+}
+
+export const DEFAULT_AGE_SETTINGS: AgeSettings = {
+  time: 'modified',
+  months: 12,
+};
+
+export const sanitizeAgeSettings = (value: Partial<AgeSettings> | null | undefined): AgeSettings => ({
+  time: value?.time === 'accessed' ? 'accessed' : 'modified',
+  months: Math.round(clamp(value?.months, 1, 600, DEFAULT_AGE_SETTINGS.months)),
+});
+
+export const getInitialAgeSettings = (): AgeSettings => {
+  try {
+    const stored = localStorage.getItem(AGE_SETTINGS_KEY);
+    if (stored) {
+      return sanitizeAgeSettings(JSON.parse(stored));
+    }
+  } catch {
+    return DEFAULT_AGE_SETTINGS;
+  }
+  return DEFAULT_AGE_SETTINGS;
+};
+
+export const persistAgeSettings = (settings: AgeSettings) => {
+  try {
+    localStorage.setItem(AGE_SETTINGS_KEY, JSON.stringify(settings));
+  } catch {
+    return;
+  }
+};
+
+const SCAN_RULE_SETTINGS_KEY = 'scanRuleSettings';
+
+/**
+ * 命名的扫描规则集。
+ * A named set of scan rules.
+ */
+export interface ScanRuleProfile {
+  name: string;
+  rules: ScanRules;
+}
+
+/**
+ * 已保存的规则集与当前使用的规则集名称。
+ * Saved rule profiles and the name of the one in use.
+ */
+export interface ScanRuleSettings {
+  profiles: ScanRuleProfile[];
+  active: string;
+}
+
+export const EMPTY_SCAN_RULES: ScanRules = {
+  exclude: [],
+  include: [],
+  max_depth: null,
+  one_filesystem: false,
+};
+
+export const DEFAULT_SCAN_RULE_SETTINGS: ScanRuleSettings = {
+  profiles: [
+    { name: 'Default', rules: EMPTY_SCAN_RULES },
+    {
+      name: 'Skip dev folders',
+      rules: {
+        exclude: ['.git/', 'node_modules/', '.venv/', 'venv/', '__pycache__/', '.tox/'],
+        include: [],
+        max_depth: null,
+        one_filesystem: true,
+      },
+    },
+  ],
+  active: 'Default',
+};
+
+const sanitizePatterns = (value: unknown): string[] =>
+  Array.isArray(value)
+    ? value.filter((line): line is string => typeof line === 'string').map(line => line.trim()).filter(Boolean)
+    : [];
+
+export const sanitizeScanRules = (value: Partial<ScanRules> | null | undefined): ScanRules => ({
+  exclude: sanitizePatterns(value?.exclude),
+  include: sanitizePatterns(value?.include),
+  max_depth: typeof value?.max_depth === 'number' ? Math.round(clamp(value.max_depth, 0, 256, 0)) : null,
+  one_filesystem: value?.one_filesystem === true,
+});
+
+/**
+ * 规范化规则集设置：丢弃无名或重名的规则集，至少保留一个，当前规则集必须存在。
+ * Sanitize rule profile settings: unnamed or duplicate profiles are dropped, at least one is kept
+ * and the active one must exist.
+ */
+export const sanitizeScanRuleSettings = (value: Partial<ScanRuleSettings> | null | undefined): ScanRuleSettings => {
+  const profiles: ScanRuleProfile[] = [];
+  for (const profile of Array.isArray(value?.profiles) ? value.profiles : []) {
+    const name = typeof profile?.name === 'string' ? profile.name.trim() : '';
+    if (!name || profiles.some(item => item.name === name)) continue;
+    profiles.push({ name, rules: sanitizeScanRules(profile.rules) });
+  }
+  if (profiles.length === 0) return DEFAULT_SCAN_RULE_SETTINGS;
+
+  const active = profiles.some(item => item.name === value?.active) ? (value?.active as string) : profiles[0].name;
+  return { profiles, active };
+};
+
+export const getInitialScanRuleSettings = (): ScanRuleSettings => {
+  try {
+    const stored = localStorage.getItem(SCAN_RULE_SETTINGS_KEY);
+    if (stored) {
+      return sanitizeScanRuleSettings(JSON.parse(stored));
+    }
+  } catch {
+    return DEFAULT_SCAN_RULE_SETTINGS;
+  }
+  return DEFAULT_SCAN_RULE_SETTINGS;
+};
+
+export const persistScanRuleSettings = (settings: ScanRuleSettings) => {
+  try {
+    localStorage.setItem(SCAN_RULE_SETTINGS_KEY, JSON.stringify(settings));
+  } catch {
+    return;
+  }
+};
+
+/**
+ * 当前规则集的规则。
+ * Rules of the active profile.
+ */
+export const getActiveScanRules = (settings: ScanRuleSettings): ScanRules =>
+  settings.profiles.find(profile => profile.name === settings.active)?.rules ?? EMPTY_SCAN_RULES;
@@ -0,0 +1,189 @@
+import type { SizeMode } from "./types";
+import { formatSize } from "./utils";
+
+/** 快照文件格式标识 / Snapshot file format marker */
+export const SNAPSHOT_FORMAT = 'folder-insight-snapshot';
+/** 快照格式版本，格式不兼容时递增 / Snapshot format version; bump on incompatible changes */
+export const SNAPSHOT_VERSION = 2;
+/** 仍可读取的最早快照版本（版本 1 只含目录） / Oldest snapshot version still read (version 1 holds folders only) */
+const MIN_SNAPSHOT_VERSION = 1;
+
+/**
+ * 快照中的一个目录或大文件（后端 build_snapshot 的结果）。
+ * One folder or large file of a snapshot (as returned by the backend's build_snapshot).
+ */
+export interface SnapshotNode {
+  name: string;
+  path: string;
+  /** 版本 1 的快照没有此字段（只含目录） / Missing in version 1 snapshots (folders only) */
+  is_dir?: boolean;
+  size: number;
+  file_count: number;
+  children: SnapshotNode[];
+}
+
+/**
+ * 带版本的快照文件：某次扫描中所有已计算目录的大小与文件数，以及其中的大文件。
+ * Versioned snapshot file: size and file count of every computed folder of one scan, plus the large files.
+ */
+export interface Snapshot {
+  format: typeof SNAPSHOT_FORMAT;
+  version: number;
+  /** 创建时间（Unix 毫秒） / Creation time (Unix ms) */
+  created_at: number;
+  root: string;
+  size_mode: SizeMode;
+  tree: SnapshotNode;
+}
+
+export type SnapshotChangeStatus = 'added' | 'removed' | 'grown' | 'shrunk';
+
+/**
+ * 两个快照之间单个目录或文件的变化。
+ * Change of one folder or file between two snapshots.
+ */
+export interface SnapshotChange {
+  /** 相对根目录的路径 / Path relative to the root */
+  key: string;
+  /** 较新一侧的绝对路径（被删除时为较旧一侧） / Absolute path on the newer side (the older side when removed) */
+  path: string;
+  is_dir: boolean;
+  status: SnapshotChangeStatus;
+  before: number | null;
+  after: number | null;
+  delta: number;
+  /** 相对原大小的百分比变化；原大小为 0 或新增时为 null / Percent change of the old size; null when it was 0 or added */
+  percent: number | null;
+}
+
+export const createSnapshot = (tree: SnapshotNode, sizeMode: SizeMode): Snapshot => ({
+  format: SNAPSHOT_FORMAT,
+  version: SNAPSHOT_VERSION,
+  created_at: Date.now(),
+  root: tree.path,
+  size_mode: sizeMode,
+  tree,
+});
+
+/**
+ * 解析快照文件内容；格式或版本不符时抛出错误。
+ * Parse a snapshot file; throws when the format or version does not match.
+ */
+export const parseSnapshot = (text: string): Snapshot => {
+  const parsed = JSON.parse(text) as Partial<Snapshot> | null;
+  if (!parsed || parsed.format !== SNAPSHOT_FORMAT || !parsed.tree) {
+    throw new Error('Not a snapshot file');
+  }
+  if (typeof parsed.version !== 'number' || parsed.version < MIN_SNAPSHOT_VERSION || parsed.version > SNAPSHOT_VERSION) {
+    throw new Error(`Unsupported snapshot version ${parsed.version}`);
+  }
+  return parsed as Snapshot;
+};
+
+/**
+ * 相对根目录的比较键（统一分隔符；Windows 路径忽略大小写），使不同位置的同一目录也能对比。
+ * Comparison key relative to the root (slashes unified; case ignored for Windows paths), so the same tree
+ * can be compared even when it lives elsewhere.
+ */
+export const snapshotKey = (root: string, path: string): string => {
+  const foldCase = /^([a-z]:|\\\\)/i.test(root);
+  const normalize = (p: string) => {
+    const unified = p.replace(/\\/g, '/').replace(/\/+$/, '');
+    return foldCase ? unified.toLowerCase() : unified;
+  };
+  const relative = normalize(path).slice(normalize(root).length);
+  return relative || '/';
+};
+
+/** 节点是否为目录（版本 1 的快照只含目录） / Whether a node is a folder (version 1 snapshots hold folders only) */
+const isSnapshotDir = (node: SnapshotNode) => node.is_dir ?? true;
+
+/**
+ * 以比较键索引快照中的所有目录，withFiles 时也包括大文件。
+ * Index every folder of a snapshot by comparison key, and the large files too when `withFiles` is set.
+ */
+export const indexSnapshot = (snapshot: Snapshot, withFiles = true): Map<string, SnapshotNode> => {
+  const index = new Map<string, SnapshotNode>();
+  const stack = [snapshot.tree];
+  while (stack.length > 0) {
+    const node = stack.pop() as SnapshotNode;
+    if (!withFiles && !isSnapshotDir(node)) continue;
+    index.set(snapshotKey(snapshot.root, node.path), node);
+    stack.push(...node.children);
+  }
+  return index;
+};
+
+/**
+ * 对比两个快照：列出增长、缩小的目录与大文件，以及新增、删除的条目（只列出最外层），按变化量绝对值降序。
+ * 任一侧为只含目录的旧版快照时只对比目录。
+ * Compare two snapshots: grown and shrunk folders and large files plus added and removed entries (outermost
+ * only), sorted by absolute change. Only folders are compared when either side is an older folders-only snapshot.
+ */
+export const diffSnapshots = (before: Snapshot, after: Snapshot): SnapshotChange[] => {
+  const withFiles = before.version >= 2 && after.version >= 2;
+  const beforeIndex = indexSnapshot(before, withFiles);
+  const afterIndex = indexSnapshot(after, withFiles);
+  const changes: SnapshotChange[] = [];
+
+  const isOutermost = (key: string, index: Map<string, SnapshotNode>) => {
+    const parent = key.slice(0, key.lastIndexOf('/')) || '/';
+    return key === '/' || index.has(parent);
+  };
+
+  for (const [key, node] of afterIndex) {
+    const old = beforeIndex.get(key);
+    if (!old) {
+      if (isOutermost(key, beforeIndex)) {
+        changes.push({
+          key,
+          path: node.path,
+          is_dir: isSnapshotDir(node),
+          status: 'added',
+          before: null,
+          after: node.size,
+          delta: node.size,
+          percent: null,
+        });
+      }
+      continue;
+    }
+
+    const delta = node.size - old.size;
+    if (delta === 0) continue;
+    changes.push({
+      key,
+      path: node.path,
+      is_dir: isSnapshotDir(node),
+      status: delta > 0 ? 'grown' : 'shrunk',
+      before: old.size,
+      after: node.size,
+      delta,
+      percent: old.size > 0 ? (delta / old.size) * 100 : null,
+    });
+  }
+
+  for (const [key, node] of beforeIndex) {
+    if (!afterIndex.has(key) && isOutermost(key, afterIndex)) {
+      changes.push({
+        key,
+        path: node.path,
+        is_dir: isSnapshotDir(node),
+        status: 'removed',
+        before: node.size,
+        after: null,
+        delta: -node.size,
+        percent: -100,
+      });
+    }
+  }
+
+  return changes.sort((a, b) => Math.abs(b.delta) - Math.abs(a.delta));
+};
+
+/**
+ * 带符号的大小变化，例如 "+1.5 MB"、"−200 KB"。
+ * Signed size change such as "+1.5 MB" or "−200 KB".
+ */
+export const formatSizeDelta = (delta: number): string =>
+  `${delta > 0 ? '+' : delta < 0 ? '−' : '±'}${formatSize(Math.abs(delta))}`;
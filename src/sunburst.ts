@@ -0,0 +1,148 @@
+import type { FileNode } from "./types";
+
+/**
+ * 统计图设置：层数与“其他”聚合阈值。
+ * Chart settings: ring depth and thresholds for grouping into "Other".
+ */
+export interface ChartSettings {
+  /** 环数（从当前中心向外的层级数） / Number of rings (levels below the current centre) */
+  depth: number;
+  /** 每个父节点最多保留的扇区数 / Max slices kept per parent */
+  maxSlices: number;
+  /** 小于父节点总量该比例的项并入“其他” / Items below this share of the parent go to "Other" */
+  otherRatio: number;
+}
+
+export const DEFAULT_CHART_SETTINGS: ChartSettings = {
+  depth: 3,
+  maxSlices: 20,
+  otherRatio: 0.01,
+};
+
+export interface SunburstDatum {
+  name: string;
+  value: number;
+  fill: string;
+  /** “其他”聚合项没有路径 / Grouped "Other" slices have no path */
+  path?: string;
+  isDir?: boolean;
+  formattedSize?: string;
+  children?: SunburstDatum[];
+}
+
+const OTHER_FILL = '#9ca3af';
+
+/**
+ * 将十六进制颜色向白色混合，用于外圈逐层变浅。
+ * Blend a hex color toward white; outer rings get lighter level by level.
+ */
+export const lighten = (hex: string, amount: number) => {
+  const value = parseInt(hex.slice(1), 16);
+  const mix = (channel: number) => Math.round(channel + (255 - channel) * Math.min(Math.max(amount, 0), 1));
+  const r = mix((value >> 16) & 0xff);
+  const g = mix((value >> 8) & 0xff);
+  const b = mix(value & 0xff);
+  return `#${((r << 16) | (g << 8) | b).toString(16).padStart(6, '0')}`;
+};
+
+/**
+ * 对一层子项分组：仅保留已计算的项，小项或超出数量的项并入“其他”。
+ * Group one level of children: only computed items are kept; small or overflow items go to "Other".
+ */
+export const groupSlices = (children: FileNode[], settings: ChartSettings) => {
+  const childrenWithSize = children.filter(child => child.size !== null);
+  const totalSize = childrenWithSize.reduce((acc, child) => acc + (child.size || 0), 0);
+
+  const items: FileNode[] = [];
+  let otherSize = 0;
+  let otherCount = 0;
+
+  if (totalSize === 0) return { items, otherSize, otherCount, totalSize };
+
+  const threshold = totalSize * settings.otherRatio;
+  const sortedChildren = [...childrenWithSize].sort((a, b) => (b.size || 0) - (a.size || 0));
+
+  for (const child of sortedChildren) {
+    const size = child.size || 0;
+    const shouldBeOther = size < threshold || items.length >= settings.maxSlices;
+
+    if (shouldBeOther) {
+      otherSize += size;
+      otherCount += 1;
+      continue;
+    }
+
+    items.push(child);
+  }
+
+  return { items, otherSize, otherCount, totalSize };
+};
+
+/**
+ * 构建多层旭日图数据：每一环对应更深一层，并在每一环上应用分组规则。
+ * Build multi-level sunburst data: each ring is one level deeper, with grouping applied on every ring.
+ */
+export const buildSunburstData = (
+  root: FileNode,
+  settings: ChartSettings,
+  colors: string[],
+  formatValue: (bytes: number) => string,
+  otherLabel: (count: number) => string,
+): SunburstDatum => {
+  const build = (node: FileNode, level: number, parentFill: string | null): SunburstDatum[] => {
+    const { items, otherSize, otherCount } = groupSlices(node.children ?? [], settings);
+
+    const data: SunburstDatum[] = items.map((child, index) => {
+      const fill = parentFill ? lighten(parentFill, 0.18) : colors[index % colors.length];
+      const size = child.size || 0;
+      const datum: SunburstDatum = {
+        name: child.name,
+        value: size,
+        fill,
+        path: child.path,
+        isDir: child.is_dir,
+        formattedSize: formatValue(size),
+      };
+
+      if (level < settings.depth && child.is_dir && child.children) {
+        const nested = build(child, level + 1, fill);
+        if (nested.length > 0) datum.children = nested;
+      }
+
+      return datum;
+    });
+
+    if (otherSize > 0 || otherCount > 0) {
+      data.push({
+        name: otherLabel(otherCount),
+        value: otherSize,
+        fill: parentFill ? lighten(OTHER_FILL, 0.18 * level) : OTHER_FILL,
+        formattedSize: formatValue(otherSize),
+      });
+    }
+
+    return data;
+  };
+
+  const children = build(root, 1, null);
+  const value = children.reduce((acc, child) => acc + child.value, 0);
+
+  return {
+    name: root.name,
+    value,
+    fill: OTHER_FILL,
+    path: root.path,
+    isDir: true,
+    formattedSize: formatValue(value),
+    children,
+  };
+};
+
+/**
+ * 数据中实际的环数（不含中心）。
+ * Number of rings actually present in the data (centre excluded).
+ */
+export const getRingCount = (datum: SunburstDatum): number => {
+  if (!datum.children || datum.children.length === 0) return 0;
+  return 1 + Math.max(...datum.children.map(getRingCount));
+};
@@ -0,0 +1,58 @@
+import type { FileNode, ScanProgress } from "./types";
+
+export type ViewMode = 'tree' | 'chart' | 'treemap' | 'largest' | 'types' | 'duplicates' | 'diff' | 'age' | 'problems';
+
+/**
+ * 一个扫描标签页的状态。当前标签页的状态由 App 的各个 state 持有，这里的副本在切换标签页时才写回；
+ * 后台标签页的目录树与进度仍会随后端事件更新。
+ * State of one scan tab. The active tab's state lives in App's own state and is only written back here
+ * when switching tabs; background tabs keep receiving tree and progress updates from backend events.
+ */
+export interface ScanTab {
+  id: number;
+  scanId: number | null;
+  data: FileNode | null;
+  expandedPaths: Set<string>;
+  view: ViewMode;
+  progress: ScanProgress | null;
+  isScanStopped: boolean;
+  /** 上次扫描同一目录时的大小（估算剩余时间用） / Size from the last scan of the same folder (for the ETA) */
+  expectedSize: number | null;
+  treemapPath: string | null;
+  chartPath: string | null;
+  typesPath: string | null;
+  basket: FileNode[];
+}
+
+export const createTab = (id: number, patch: Partial<ScanTab> = {}): ScanTab => ({
+  id,
+  scanId: null,
+  data: null,
+  expandedPaths: new Set(),
+  view: 'tree',
+  progress: null,
+  isScanStopped: false,
+  expectedSize: null,
+  treemapPath: null,
+  chartPath: null,
+  typesPath: null,
+  basket: [],
+  ...patch,
+});
+
+/**
+ * 根目录当前可显示的大小与文件数：尚未算完时使用已完成子项的累加值。
+ * A root's displayable size and file count: the sum of finished children while it is still being computed.
+ */
+export const getRootTotals = (root: FileNode) => {
+  if (root.size !== null) {
+    return { size: root.size, fileCount: root.file_count, pending: false };
+  }
+
+  const children = root.children ?? [];
+  return {
+    size: children.reduce((acc, child) => acc + (child.size ?? 0), 0),
+    fileCount: children.reduce((acc, child) => acc + (child.file_count ?? 0), 0),
+    pending: true,
+  };
+};
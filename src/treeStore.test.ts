@@ -0,0 +1,119 @@
+import { describe, expect, it } from "vitest";
+import { applySizeUpdates, flattenTree, type TreeSort } from "./treeStore";
+import type { FileNode, SizeUpdate } from "./types";
+
+const node = (path: string, size: number | null, children: FileNode[] | null = null): FileNode => ({
+  name: path.split('/').pop() || path,
+  path,
+  size,
+  is_dir: children !== null,
+  is_symlink: false,
+  size_mode: 'apparent',
+  file_count: 0,
+  skipped: 0,
+  newest: null,
+  oldest: null,
+  cached_at: null,
+  excluded: null,
+  modified: null,
+  owner: null,
+  permissions: null,
+  children,
+});
+
+const update = (path: string, size: number): SizeUpdate => ({
+  scan_id: 1,
+  path,
+  size,
+  file_count: size,
+  skipped: 0,
+  newest: null,
+  oldest: null,
+  cached_at: null,
+});
+
+const sampleTree = () =>
+  node('/root', null, [
+    node('/root/a', 10, [node('/root/a/x', 4), node('/root/a/y', 6)]),
+    node('/root/b', null, []),
+    node('/root/file', 50),
+  ]);
+
+const names = (nodes: FileNode[] | null) => (nodes ?? []).map(child => child.name);
+
+describe('applySizeUpdates', () => {
+  it('updates the target and re-sorts only the folders on its path', () => {
+    const root = sampleTree();
+    const [a, , file] = root.children!;
+
+    const next = applySizeUpdates(root, [update('/root/b', 30)]);
+
+    expect(next).not.toBe(root);
+    expect(names(next.children)).toEqual(['b', 'a', 'file']);
+    expect(next.children![0]).toMatchObject({ size: 30, file_count: 30 });
+    expect(next.children![1]).toBe(a);
+    expect(next.children![2]).toBe(file);
+    // 原树保持不变 / The previous tree is left untouched
+    expect(root.children![1].size).toBeNull();
+  });
+
+  it('matches paths regardless of case and separators', () => {
+    const next = applySizeUpdates(sampleTree(), [update('\\ROOT\\A\\X', 9)]);
+
+    expect(names(next.children![0].children)).toEqual(['x', 'y']);
+    expect(next.children![0].children![0].size).toBe(9);
+  });
+
+  it('returns the same tree when no path is known', () => {
+    const root = sampleTree();
+
+    expect(applySizeUpdates(root, [update('/elsewhere', 1)])).toBe(root);
+    expect(applySizeUpdates(root, [])).toBe(root);
+  });
+
+  it('keeps working on the tree it returned', () => {
+    const first = applySizeUpdates(sampleTree(), [update('/root/a/x', 1)]);
+    const second = applySizeUpdates(first, [update('/root/a/x', 2), update('/root', 60)]);
+
+    expect(second.size).toBe(60);
+    expect(second.children![0].children!.find(child => child.name === 'x')!.size).toBe(2);
+    expect(first.children![0].children!.find(child => child.name === 'x')!.size).toBe(1);
+  });
+});
+
+describe('flattenTree', () => {
+  const bySize: TreeSort = { key: 'size', direction: 'desc', foldersFirst: true };
+  const showAll = () => true;
+
+  it('lists only the children of expanded folders', () => {
+    const rows = flattenTree(sampleTree(), new Set(['/root']), bySize, showAll);
+
+    expect(rows.map(row => [row.node.name, row.depth, row.position, row.siblingCount])).toEqual([
+      ['root', 0, 1, 1],
+      ['a', 1, 1, 3],
+      ['b', 1, 2, 3],
+      ['file', 1, 3, 3],
+    ]);
+    expect(rows[1].parent?.path).toBe('/root');
+  });
+
+  it('walks nested expanded folders in display order', () => {
+    const rows = flattenTree(sampleTree(), new Set(['/root', '/root/a']), bySize, showAll);
+
+    expect(rows.map(row => row.node.name)).toEqual(['root', 'a', 'y', 'x', 'b', 'file']);
+    expect(rows[2]).toMatchObject({ depth: 2, position: 1, siblingCount: 2 });
+  });
+
+  it('follows the sort order and counts only visible siblings', () => {
+    const byName: TreeSort = { key: 'name', direction: 'desc', foldersFirst: false };
+    const rows = flattenTree(
+      sampleTree(),
+      new Set(['/root']),
+      byName,
+      child => child.name !== 'b',
+    );
+
+    expect(rows.map(row => row.node.name)).toEqual(['root', 'file', 'a']);
+    expect(rows[1]).toMatchObject({ position: 1, siblingCount: 2 });
+  });
+});
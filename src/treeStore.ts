@@ -0,0 +1,241 @@
+import { lastChangeOf } from "./age";
+import type { FileNode, SizeUpdate } from "./types";
+
+/**
+ * 用于事件匹配的路径标准化：忽略大小写与分隔符差异。
+ * Normalize path for event matching: ignore case and slash differences.
+ */
+export const normalizePathForMatch = (p: string) => p.replace(/\\/g, '/').toLowerCase();
+
+/**
+ * 排序子节点：目录优先，其次大小降序（null 视为 -1，排在最后），最后按名称。
+ * Sort children: folders first, then size desc (null as -1, last), then by name.
+ */
+export const sortChildren = (children: FileNode[]) => {
+  children.sort((a, b) => {
+    if (a.is_dir && !b.is_dir) return -1;
+    if (!a.is_dir && b.is_dir) return 1;
+
+    const sizeA = a.size === null ? -1 : a.size;
+    const sizeB = b.size === null ? -1 : b.size;
+    if (sizeB !== sizeA) return sizeB - sizeA;
+
+    return a.name.localeCompare(b.name);
+  });
+  return children;
+};
+
+/**
+ * 目录树的路径索引：标准化路径到节点与父节点路径的映射。
+ * Path index of a tree: normalized path to node and to the parent's normalized path.
+ */
+interface TreeIndex {
+  nodes: Map<string, FileNode>;
+  parents: Map<string, string>;
+}
+
+/**
+ * 每棵树（以根节点引用区分）的索引。大小更新会把索引原地更新后转交给新的根节点；
+ * 其它方式产生的新树（加载子项、删除等）在首次更新时重新建立索引。
+ * Index per tree, keyed by the root reference. Size updates patch the index in place and hand it over
+ * to the new root; trees produced any other way (loaded children, deletions...) are re-indexed on first use.
+ */
+const treeIndexes = new WeakMap<FileNode, TreeIndex>();
+
+const getTreeIndex = (root: FileNode): TreeIndex => {
+  const cached = treeIndexes.get(root);
+  if (cached) return cached;
+
+  const index: TreeIndex = { nodes: new Map(), parents: new Map() };
+  const stack: [FileNode, string | null][] = [[root, null]];
+  while (stack.length > 0) {
+    const [node, parentKey] = stack.pop()!;
+    const key = normalizePathForMatch(node.path);
+    index.nodes.set(key, node);
+    if (parentKey !== null) index.parents.set(key, parentKey);
+    for (const child of node.children ?? []) stack.push([child, key]);
+  }
+
+  treeIndexes.set(root, index);
+  return index;
+};
+
+/**
+ * 批量应用后端的大小更新：按路径索引直接定位目标节点，只复制目标到根的路径，
+ * 每个受影响的目录只重新排序一次；未变化节点的引用保持稳定。
+ * Apply a batch of backend size updates: targets are found through the path index, only the path from
+ * each target to the root is copied and every affected folder is re-sorted once; unchanged nodes keep
+ * their references.
+ */
+export const applySizeUpdates = (root: FileNode, updates: SizeUpdate[]): FileNode => {
+  const index = getTreeIndex(root);
+  const targets = new Map<FileNode, SizeUpdate>();
+  // 目标节点及其所有祖先（旧引用） / Targets and all of their ancestors (old references)
+  const dirty = new Set<FileNode>();
+
+  for (const update of updates) {
+    let key: string | undefined = normalizePathForMatch(update.path);
+    const target = index.nodes.get(key);
+    if (!target) continue;
+
+    targets.set(target, update);
+    while (key !== undefined) {
+      const node = index.nodes.get(key)!;
+      if (dirty.has(node)) break;
+      dirty.add(node);
+      key = index.parents.get(key);
+    }
+  }
+
+  if (dirty.size === 0) return root;
+
+  const rebuild = (node: FileNode): FileNode => {
+    const update = targets.get(node);
+    let next = update
+      ? {
+          ...node,
+          size: update.size,
+          file_count: update.file_count,
+          skipped: update.skipped,
+          newest: update.newest,
+          oldest: update.oldest,
+          cached_at: update.cached_at,
+        }
+      : node;
+
+    if (node.children?.some(child => dirty.has(child))) {
+      const children = node.children.map(child => (dirty.has(child) ? rebuild(child) : child));
+      next = { ...next, children: sortChildren(children) };
+    }
+
+    index.nodes.set(normalizePathForMatch(node.path), next);
+    return next;
+  };
+
+  const nextRoot = rebuild(root);
+  treeIndexes.delete(root);
+  treeIndexes.set(nextRoot, index);
+  return nextRoot;
+};
+
+/** 目录树可排序的列 / Tree columns that can be sorted by */
+export type TreeSortKey = 'name' | 'size' | 'files' | 'share' | 'modified' | 'age';
+
+/** 目录树可选显示的列 / Optional tree columns */
+export type TreeColumn = 'share' | 'modified' | 'age' | 'owner' | 'permissions';
+
+export const TREE_COLUMNS: readonly TreeColumn[] = ['share', 'modified', 'age', 'owner', 'permissions'];
+
+/** 各列的宽度（表头与行共用，保证对齐） / Width of each column (shared by the header and rows to keep them aligned) */
+export const TREE_COLUMN_WIDTHS: Record<TreeColumn, string> = {
+  share: 'w-32',
+  modified: 'w-36',
+  age: 'w-28',
+  owner: 'w-24',
+  permissions: 'w-24',
+};
+
+/**
+ * 目录树排序：排序列、方向，以及是否总把目录排在文件前面。
+ * Tree sort order: the column, the direction and whether folders always come before files.
+ */
+export interface TreeSort {
+  key: TreeSortKey;
+  direction: 'asc' | 'desc';
+  foldersFirst: boolean;
+}
+
+/**
+ * 点击表头后的排序：同一列切换方向，换列时名称默认升序、其它列默认降序。
+ * Sort order after a header click: the same column flips direction; a new column starts ascending for
+ * names and descending otherwise.
+ */
+export const nextTreeSort = (sort: TreeSort, key: TreeSortKey): TreeSort => {
+  if (sort.key === key) return { ...sort, direction: sort.direction === 'asc' ? 'desc' : 'asc' };
+  return { ...sort, key, direction: key === 'name' ? 'asc' : 'desc' };
+};
+
+/**
+ * 按排序设置比较两个同级节点。“占父目录比例”在同级之间与大小同序；“年龄”按内容距上次修改的时长排序（降序为最旧在前）；
+ * 尚未算出的大小与缺失的时间排在最后（降序时），数值相同时按名称排序。
+ * Compare two siblings under the sort order. "% of parent" orders siblings the same way as size and "age" by how
+ * long ago the contents last changed (descending puts the oldest first); sizes still being computed and missing
+ * dates go last when descending, and ties fall back to the name.
+ */
+const compareNodes = (sort: TreeSort) => {
+  const sign = sort.direction === 'asc' ? 1 : -1;
+  const value = (node: FileNode) => {
+    if (sort.key === 'files') return node.file_count;
+    if (sort.key === 'modified') return node.modified ?? -1;
+    if (sort.key === 'age') {
+      const time = lastChangeOf(node);
+      return time === null ? Number.MIN_SAFE_INTEGER : -time;
+    }
+    return node.size ?? -1;
+  };
+
+  return (a: FileNode, b: FileNode) => {
+    if (sort.foldersFirst && a.is_dir !== b.is_dir) return a.is_dir ? -1 : 1;
+    if (sort.key === 'name') return a.name.localeCompare(b.name) * sign;
+
+    const diff = value(a) - value(b);
+    return diff !== 0 ? diff * sign : a.name.localeCompare(b.name);
+  };
+};
+
+/**
+ * 按排序设置排好的子项。树中的子项数组在没有变化时引用不变，因此按数组缓存，
+ * 扫描中每帧只需重新排序大小刚更新过的目录。
+ * Children in the chosen order. A child array keeps its reference while unchanged, so the result is cached
+ * per array and only folders whose sizes just changed are re-sorted during a scan.
+ */
+const sortedChildren = new WeakMap<FileNode[], { sort: TreeSort; children: FileNode[] }>();
+
+const getSortedChildren = (children: FileNode[], sort: TreeSort) => {
+  const cached = sortedChildren.get(children);
+  if (cached?.sort === sort) return cached.children;
+
+  const sorted = [...children].sort(compareNodes(sort));
+  sortedChildren.set(children, { sort, children: sorted });
+  return sorted;
+};
+
+/** 扁平化后的一行目录树 / One row of the flattened tree */
+export interface TreeRow {
+  node: FileNode;
+  /** 父目录（根节点为 null） / Parent folder (null for the root) */
+  parent: FileNode | null;
+  depth: number;
+  /**
+   * 在可见同级项中的位置（从 1 开始）与同级项数量（供 aria-posinset / aria-setsize）。
+   * Position among the visible siblings (1-based) and their count (for aria-posinset / aria-setsize).
+   */
+  position: number;
+  siblingCount: number;
+}
+
+/**
+ * 把目录树中已展开的部分按显示顺序展开成行列表（供虚拟列表渲染）。
+ * Flatten the expanded part of the tree into rows in display order (for the virtualized list).
+ * @param sort 同级子项的排序 / Order of siblings
+ * @param isVisible 子项是否显示（类型筛选） / Whether a child is shown (type filter)
+ */
+export const flattenTree = (
+  root: FileNode,
+  expandedPaths: Set<string>,
+  sort: TreeSort,
+  isVisible: (child: FileNode, parent: FileNode) => boolean,
+): TreeRow[] => {
+  const rows: TreeRow[] = [];
+
+  const walk = (node: FileNode, parent: FileNode | null, depth: number, position: number, siblingCount: number) => {
+    rows.push({ node, parent, depth, position, siblingCount });
+    if (!node.is_dir || !node.children || !expandedPaths.has(node.path)) return;
+
+    const children = getSortedChildren(node.children, sort).filter(child => isVisible(child, node));
+    children.forEach((child, index) => walk(child, node, depth + 1, index + 1, children.length));
+  };
+
+  walk(root, null, 0, 1, 1);
+  return rows;
+};
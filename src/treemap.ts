@@ -0,0 +1,188 @@
+import type { FileNode } from "./types";
+
+export interface Rect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+/**
+ * 布局后的矩形块：对应树中的一个节点。
+ * Laid-out block: one rectangle per tree node.
+ */
+export interface TreemapBlock extends Rect {
+  node: FileNode;
+  depth: number;
+  /** 顶层祖先在兄弟中的序号，用于配色 / Index of the top-level ancestor, used for coloring */
+  colorIndex: number;
+  /** 大小仍在后台计算中 / Size is still being computed in background */
+  pending: boolean;
+  /** 是否为其子块绘制了标题栏 / Whether a header strip was reserved for nested children */
+  hasNested: boolean;
+}
+
+export interface TreemapOptions {
+  /** 父块标题栏高度 / Header height of parent blocks */
+  headerHeight: number;
+  /** 嵌套内边距 / Inner padding for nested blocks */
+  padding: number;
+  /** 小于该宽高的块不再向下嵌套 / Blocks smaller than this are not nested further */
+  minNestSize: number;
+  /** 面积小于该值的块不绘制 / Blocks with a smaller area are skipped */
+  minArea: number;
+}
+
+const DEFAULT_OPTIONS: TreemapOptions = {
+  headerHeight: 18,
+  padding: 2,
+  minNestSize: 48,
+  minArea: 16,
+};
+
+/**
+ * 计算中的节点没有大小，按已知兄弟总量的该比例占位，以便仍然可见。
+ * Pending nodes have no size yet; they take this share of their known siblings so they stay visible.
+ */
+const PENDING_WEIGHT_RATIO = 0.02;
+
+const sum = (values: number[]) => values.reduce((acc, v) => acc + v, 0);
+
+/**
+ * 一行中最差的长宽比（越接近 1 越好）。
+ * Worst aspect ratio within a row (closer to 1 is better).
+ */
+const worstRatio = (row: number[], length: number) => {
+  const rowSum = sum(row);
+  const max = Math.max(...row);
+  const min = Math.min(...row);
+  const s2 = rowSum * rowSum;
+  const l2 = length * length;
+  return Math.max((l2 * max) / s2, s2 / (l2 * min));
+};
+
+/**
+ * Squarified 布局（Bruls 等）：values 需为正数且已降序排列，返回与输入顺序一致的矩形。
+ * Squarified layout (Bruls et al.): values must be positive and sorted descending; rects keep input order.
+ */
+export const squarify = (values: number[], rect: Rect): Rect[] => {
+  const total = sum(values);
+  if (total <= 0 || rect.width <= 0 || rect.height <= 0) {
+    return values.map(() => ({ x: rect.x, y: rect.y, width: 0, height: 0 }));
+  }
+
+  const scale = (rect.width * rect.height) / total;
+  const areas = values.map(v => v * scale);
+  const result: Rect[] = [];
+  let free: Rect = { ...rect };
+  let i = 0;
+
+  while (i < areas.length) {
+    const length = Math.min(free.width, free.height);
+    const row = [areas[i]];
+    let j = i + 1;
+    while (j < areas.length && worstRatio([...row, areas[j]], length) <= worstRatio(row, length)) {
+      row.push(areas[j]);
+      j += 1;
+    }
+
+    const rowSum = sum(row);
+    if (free.width >= free.height) {
+      const stripWidth = free.height > 0 ? rowSum / free.height : 0;
+      let y = free.y;
+      for (const area of row) {
+        const height = stripWidth > 0 ? area / stripWidth : 0;
+        result.push({ x: free.x, y, width: stripWidth, height });
+        y += height;
+      }
+      free = { x: free.x + stripWidth, y: free.y, width: Math.max(0, free.width - stripWidth), height: free.height };
+    } else {
+      const stripHeight = free.width > 0 ? rowSum / free.width : 0;
+      let x = free.x;
+      for (const area of row) {
+        const width = stripHeight > 0 ? area / stripHeight : 0;
+        result.push({ x, y: free.y, width, height: stripHeight });
+        x += width;
+      }
+      free = { x: free.x, y: free.y + stripHeight, width: free.width, height: Math.max(0, free.height - stripHeight) };
+    }
+
+    i = j;
+  }
+
+  return result;
+};
+
+/**
+ * 计算子节点的布局权重：已知大小直接使用，计算中的目录按比例占位。
+ * Layout weights for children: known sizes are used directly, pending folders get a placeholder share.
+ */
+const childWeights = (children: FileNode[]) => {
+  const known = sum(children.map(child => child.size ?? 0));
+  const placeholder = Math.max(known, 1) * PENDING_WEIGHT_RATIO;
+  return children.map(child => (child.size === null ? placeholder : child.size));
+};
+
+/**
+ * 将已加载的整棵子树布局为嵌套矩形（父块在前，子块在后，便于按顺序绘制）。
+ * Lay out the whole loaded subtree as nested rectangles (parents before children, ready to paint in order).
+ */
+export const layoutTreemap = (
+  root: FileNode,
+  width: number,
+  height: number,
+  options: Partial<TreemapOptions> = {},
+): TreemapBlock[] => {
+  const opts = { ...DEFAULT_OPTIONS, ...options };
+  const blocks: TreemapBlock[] = [];
+
+  const layoutChildren = (node: FileNode, rect: Rect, depth: number, colorIndex: number | null) => {
+    const children = node.children ?? [];
+    const weights = childWeights(children);
+    const entries = children
+      .map((child, index) => ({ child, weight: weights[index] }))
+      .filter(entry => entry.weight > 0)
+      .sort((a, b) => b.weight - a.weight);
+
+    const rects = squarify(entries.map(entry => entry.weight), rect);
+
+    entries.forEach(({ child }, index) => {
+      const r = rects[index];
+      if (r.width * r.height < opts.minArea) return;
+
+      const blockColor = colorIndex ?? index;
+      const canNest =
+        child.is_dir &&
+        !!child.children &&
+        child.children.length > 0 &&
+        r.width >= opts.minNestSize &&
+        r.height >= opts.minNestSize;
+
+      blocks.push({
+        ...r,
+        node: child,
+        depth,
+        colorIndex: blockColor,
+        pending: child.is_dir && child.size === null,
+        hasNested: canNest,
+      });
+
+      if (canNest) {
+        layoutChildren(
+          child,
+          {
+            x: r.x + opts.padding,
+            y: r.y + opts.headerHeight,
+            width: Math.max(0, r.width - opts.padding * 2),
+            height: Math.max(0, r.height - opts.headerHeight - opts.padding),
+          },
+          depth + 1,
+          blockColor,
+        );
+      }
+    });
+  };
+
+  layoutChildren(root, { x: 0, y: 0, width, height }, 0, null);
+  return blocks;
+};
@@ -0,0 +1,295 @@
+/**
+ * 后端返回的目录树节点（与 Rust 端 FileNode 对应）。
+ * Directory tree node returned by the backend (mirrors the Rust FileNode).
+ */
+/**
+ * 大小口径：表观大小，或在磁盘上实际占用的空间（按块计算）。
+ * Size mode: apparent size, or the space actually allocated on disk (block based).
+ */
+export type SizeMode = 'apparent' | 'allocated';
+
+/**
+ * 符号链接的处理方式：跳过、只统计链接本身、跟随到目标（带环路检测）。
+ * How symlinks are handled: skipped, the link itself counted, or followed to the target (with loop detection).
+ */
+export type SymlinkPolicy = 'skip' | 'link' | 'follow';
+
+/**
+ * 扫描规则：gitignore 风格的排除与例外模式、最大深度、不跨文件系统。
+ * Scan rules: gitignore-style exclude and include patterns, a maximum depth and staying on one filesystem.
+ */
+export interface ScanRules {
+  exclude: string[];
+  /** 例外模式：重新包含被较宽泛的排除模式命中的路径 / Include patterns: bring back paths matched by a broader exclude */
+  include: string[];
+  /** 根目录下最多进入的目录层数（null 为不限制） / Folder levels below the root to enter (null for no limit) */
+  max_depth: number | null;
+  one_filesystem: boolean;
+}
+
+/** 条目被排除的原因 / Why an entry was excluded */
+export type ExcludeReason = 'pattern' | 'depth' | 'filesystem';
+
+export interface FileNode {
+  name: string;
+  path: string;
+  size: number | null;
+  is_dir: boolean;
+  /** 条目本身是符号链接 / The entry itself is a symlink */
+  is_symlink: boolean;
+  /** 产生大小数值的口径 / Size mode that produced the numbers */
+  size_mode: SizeMode;
+  file_count: number;
+  /**
+   * 子树中无法读取而未计入的条目数；大于 0 时目录大小不完整。
+   * Entries in the subtree that could not be read and were left out; above 0 the folder size is partial.
+   */
+  skipped: number;
+  /**
+   * 目录子树中文件最新与最早的修改时间（Unix 毫秒；文件为 null，取 modified）。
+   * Newest and oldest file modification time in a folder's subtree (Unix ms; null for files, which use modified).
+   */
+  newest: number | null;
+  oldest: number | null;
+  /**
+   * 部分大小来自以前会话的缓存时，其中最早的读取时间（Unix 毫秒）。
+   * Earliest read time (Unix ms) when part of the size came from an earlier session's cache.
+   */
+  cached_at: number | null;
+  /** 被扫描规则排除的原因（被排除的条目不计入大小） / Why scan rules excluded the entry (excluded entries are not counted) */
+  excluded: ExcludeReason | null;
+  /** 修改时间（Unix 毫秒） / Modification time (Unix ms) */
+  modified: number | null;
+  /** 所有者用户名 / Owner user name */
+  owner: string | null;
+  /** 权限（Unix 权限位或 Windows 属性） / Permissions (Unix mode bits or Windows attributes) */
+  permissions: string | null;
+  children: FileNode[] | null;
+}
+
+/**
+ * 后台大小计算完成时推送的事件负载。
+ * Event payload pushed when a background size computation finishes.
+ */
+export interface SizeUpdate {
+    scan_id: number;
+    path: string;
+    size: number;
+    file_count: number;
+    skipped: number;
+    newest: number | null;
+    oldest: number | null;
+    /** 部分结果来自以前会话的缓存时的最早读取时间 / Earliest read time when part of the result came from an earlier session's cache */
+    cached_at: number | null;
+}
+
+/**
+ * 扫描进度事件负载（后端节流推送）。
+ * Scan progress event payload (throttled by the backend).
+ */
+export interface ScanProgress {
+  scan_id: number;
+  dirs_visited: number;
+  files_counted: number;
+  bytes_counted: number;
+  current_path: string;
+  elapsed_ms: number;
+  /** 目前无法读取的路径数 / Paths that could not be read so far */
+  problems: number;
+  done: boolean;
+}
+
+/**
+ * 文件系统监听状态事件负载。
+ * Filesystem watch status event payload.
+ */
+export interface WatchStatus {
+  watch_id: number;
+  scan_id: number;
+  root: string;
+  state: 'starting' | 'watching' | 'polling' | 'stopped';
+  /** 降级为轮询或无法开始监听的原因 / Why watching fell back to polling or could not start */
+  reason: string | null;
+}
+
+/**
+ * delete_paths 返回的单个路径结果。
+ * Per-path result returned by delete_paths.
+ */
+export interface DeleteResult {
+  path: string;
+  /** 失败原因；成功时为 null / Failure reason; null on success */
+  error: string | null;
+}
+
+/**
+ * 扫描中遇到的单个大文件。
+ * One large file met during a scan.
+ */
+export interface LargeFile {
+  size: number;
+  path: string;
+  /** 修改时间（Unix 毫秒） / Modification time (Unix ms) */
+  modified: number | null;
+}
+
+/**
+ * get_largest_files 的返回值。
+ * Result of get_largest_files.
+ */
+export interface LargestFiles {
+  files: LargeFile[];
+}
+
+/**
+ * 按扩展名的统计。
+ * Totals for one extension.
+ */
+export interface ExtensionStat {
+  /** 小写扩展名，无扩展名时为空字符串 / Lowercase extension; empty when a file has none */
+  extension: string;
+  category: string;
+  size: number;
+  file_count: number;
+}
+
+/**
+ * 按类别的统计。
+ * Totals for one category.
+ */
+export interface CategoryStat {
+  category: string;
+  size: number;
+  file_count: number;
+}
+
+/**
+ * 目录（含所有后代）的文件类型分布。
+ * File type breakdown of a folder including all descendants.
+ */
+export interface TypeBreakdown {
+  path: string;
+  extensions: ExtensionStat[];
+  categories: CategoryStat[];
+}
+
+/**
+ * 重复文件查找进度。
+ * Duplicate search progress.
+ */
+export interface DuplicateProgress {
+  job_id: number;
+  stage: 'walk' | 'partial' | 'full';
+  processed: number;
+  /** 当前阶段的总数（遍历阶段为 0） / Total for the stage (0 while walking) */
+  total: number;
+}
+
+export interface DuplicateFile {
+  path: string;
+  /** 修改时间（Unix 毫秒） / Modification time (Unix ms) */
+  modified: number | null;
+}
+
+/**
+ * 内容完全相同的一组文件。
+ * A group of files with identical content.
+ */
+export interface DuplicateGroup {
+  size: number;
+  hash: string;
+  files: DuplicateFile[];
+  /** 除保留一份外浪费的字节数 / Bytes wasted beyond keeping one copy */
+  wasted: number;
+}
+
+/**
+ * 重复文件查找结果。
+ * Duplicate search result.
+ */
+export interface DuplicateResult {
+  job_id: number;
+  groups: DuplicateGroup[];
+  wasted: number;
+  cancelled: boolean;
+  /** 查找意外中止时的错误信息 / Error message when the search stopped unexpectedly */
+  error: string | null;
+}
+
+/**
+ * 已挂载的卷（容量单位为字节）。
+ * A mounted volume (capacities in bytes).
+ */
+export interface Volume {
+  /** 挂载点（Windows 上为盘符根目录） / Mount point (the drive root on Windows) */
+  mount_point: string;
+  /** 卷标或设备名 / Volume label or device name */
+  name: string;
+  fs_type: string;
+  total: number;
+  used: number;
+  /** 当前用户可用的空间 / Space available to the current user */
+  free: number;
+  /** 伪文件系统（proc、sysfs、tmpfs 等） / Pseudo filesystem (proc, sysfs, tmpfs...) */
+  pseudo: boolean;
+}
+
+/**
+ * 当前平台支持的系统操作（不支持的操作在界面中隐藏）。
+ * System actions supported on this platform (unsupported ones are hidden in the UI).
+ */
+export interface PlatformActions {
+  reveal: boolean;
+  open: boolean;
+  terminal: boolean;
+}
+
+/** 条目无法统计的原因 / Why an entry could not be counted */
+export type ProblemKind = 'permission_denied' | 'not_found' | 'panic' | 'other';
+
+/**
+ * 扫描中无法读取的单个路径。
+ * One path a scan could not read.
+ */
+export interface Problem {
+  path: string;
+  kind: ProblemKind;
+  /** 系统返回的错误信息 / Error message from the OS */
+  message: string;
+}
+
+/**
+ * get_scan_problems 的返回值。
+ * Result of get_scan_problems.
+ */
+export interface ProblemReport {
+  /** 按路径排序 / Sorted by path */
+  problems: Problem[];
+  /** 按类别的数量（降序） / Counts per kind (descending) */
+  counts: { kind: ProblemKind; count: number }[];
+  /** 超出上限、没有明细的问题数 / Problems past the cap, kept without details */
+  unlisted: number;
+}
+
+/**
+ * 年龄分布使用的时间：修改时间或访问时间（访问时间在 relatime/noatime 挂载下可能不准确）。
+ * Time the age breakdown uses: modification or last access (access times may be coarse under relatime/noatime).
+ */
+export type AgeTime = 'modified' | 'accessed';
+
+/**
+ * get_age_report 的返回值：目录（含所有后代）按年龄分档的大小，与超过阈值未动字节数最多的目录。
+ * Result of get_age_report: a folder's size by age bucket (including all descendants) and the folders with
+ * the most bytes untouched past the threshold.
+ */
+export interface AgeReport {
+  path: string;
+  time: AgeTime;
+  /** 计算年龄的基准时间（扫描开始，Unix 毫秒） / Reference time ages are measured from (scan start, Unix ms) */
+  reference: number;
+  /** 上限（月，不含）；最后一档为 null / Upper bound (months, exclusive); null for the last bucket */
+  buckets: { max_months: number | null; size: number }[];
+  months: number;
+  /** 按未动字节数降序 / Biggest stale size first */
+  stale: { path: string; stale_size: number; size: number }[];
+}
@@ -9,3 +9,45 @@ export function formatSize(bytes: number): string {
 export function cn(...inputs: any[]) {
   return inputs.filter(Boolean).join(" ");
 }
+
+export function formatDuration(ms: number): string {
+  const totalSeconds = Math.max(0, Math.round(ms / 1000));
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = totalSeconds % 60;
+  const pad = (n: number) => String(n).padStart(2, "0");
+  if (hours > 0) return `${hours}h ${pad(minutes)}m`;
+  if (minutes > 0) return `${minutes}m ${pad(seconds)}s`;
+  return `${seconds}s`;
+}
+
+/**
+ * 判断 path 是否为 ancestor 自身或其后代（忽略大小写与分隔符差异）。
+ * Whether `path` is `ancestor` itself or one of its descendants (ignores case and slash differences).
+ */
+export function isSameOrDescendantPath(path: string, ancestor: string): boolean {
+  const normalize = (p: string) => p.replace(/\\/g, "/").toLowerCase().replace(/\/+$/, "");
+  const p = normalize(path);
+  const a = normalize(ancestor);
+  return p === a || p.startsWith(`${a}/`);
+}
+
+/**
+ * 去掉已被其它路径包含的后代路径，避免嵌套选择被重复计算。
+ * Drop paths that are descendants of another path in the list, so nested selections are not counted twice.
+ */
+export function pruneNestedPaths(paths: string[]): string[] {
+  return paths.filter(
+    (path, index) =>
+      !paths.some((other, otherIndex) => otherIndex !== index && other !== path && isSameOrDescendantPath(path, other))
+  );
+}
+
+/**
+ * 文件扩展名（小写，不含点）；没有扩展名或以点开头的隐藏文件返回空字符串（与后端一致）。
+ * A file's extension (lowercase, no dot); empty for files without one or dotfiles (matches the backend).
+ */
+export function fileExtension(name: string): string {
+  const index = name.lastIndexOf(".");
+  return index > 0 ? name.slice(index + 1).toLowerCase() : "";
+}